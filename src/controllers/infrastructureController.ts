@@ -1,12 +1,16 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
+import cron from 'node-cron'
 import { InfrastructureService } from '../services/InfrastructureService'
 import { 
   CreateInfrastructureRequest, 
   UpdateInfrastructureRequest,
+  ImportInfrastructureRequest,
   CloudProvider,
   ResourceType,
-  AtlasError 
+  IdempotencyOptions,
+  AtlasError,
+  InsufficientPermissionsError
 } from '../types'
 
 // Validation schemas
@@ -17,10 +21,11 @@ const CreateInfrastructureSchema = z.object({
   resources: z.array(z.object({
     type: z.enum([
       'droplet', 'volume', 'database', 'load_balancer', 
-      'firewall', 'vpc', 'domain', 'cdn', 'kubernetes', 'container_registry'
+      'firewall', 'vpc', 'domain', 'dns_record', 'cdn', 'kubernetes', 'container_registry'
     ]),
     name: z.string().min(1).max(100),
-    specifications: z.record(z.any())
+    specifications: z.record(z.any()),
+    depends_on: z.array(z.string()).optional()
   })).min(1),
   configuration: z.record(z.any()).optional(),
   tags: z.record(z.string()).optional()
@@ -71,22 +76,92 @@ function extractUserContext(request: FastifyRequest): { user_id: string; workspa
   }
 }
 
+// Optional Idempotency-Key header - retries with the same key and body return the original result
+function idempotencyOptions(request: FastifyRequest): IdempotencyOptions | undefined {
+  const key = request.headers['idempotency-key']
+  if (typeof key !== 'string' || key.length === 0) {
+    return undefined
+  }
+  if (key.length > 255) {
+    throw new AtlasError('Idempotency-Key must be at most 255 characters', 'INVALID_IDEMPOTENCY_KEY', 400)
+  }
+  return { key, body: request.body }
+}
+
+// Admin routes require the X-Atlas-Admin-Token header to match ATLAS_ADMIN_TOKEN
+function requireAdmin(request: FastifyRequest, action: string) {
+  const adminToken = process.env.ATLAS_ADMIN_TOKEN
+  if (!adminToken || request.headers['x-atlas-admin-token'] !== adminToken) {
+    throw new InsufficientPermissionsError(action)
+  }
+}
+
 export async function infrastructureRoutes(fastify: FastifyInstance) {
   const infrastructureService = new InfrastructureService()
 
+  // Pick up operations a previous process left unfinished
+  fastify.addHook('onReady', async () => {
+    try {
+      const interrupted = await infrastructureService.reconcileInterruptedOperations({
+        resume: process.env.ATLAS_RESUME_INTERRUPTED_OPERATIONS !== 'false'
+      })
+      if (interrupted.length > 0) {
+        fastify.log.info(`Reconciled ${interrupted.length} interrupted deployment operations`)
+      }
+      const waiting = interrupted.filter(operation => operation.awaiting_credential_id)
+      if (waiting.length > 0) {
+        fastify.log.warn(`${waiting.length} interrupted operations are waiting for their owner's credential (POST /operations/:id/resume)`)
+      }
+    } catch (error) {
+      fastify.log.error(error as Error, 'Failed to reconcile interrupted operations')
+    }
+  })
+
+  // Optional periodic drift detection (cron expression, e.g. "0 * * * *")
+  const driftSchedule = process.env.ATLAS_DRIFT_CHECK_SCHEDULE
+  if (driftSchedule) {
+    if (!cron.validate(driftSchedule)) {
+      throw new Error(`Invalid ATLAS_DRIFT_CHECK_SCHEDULE: ${driftSchedule}`)
+    }
+
+    const driftTask = cron.schedule(driftSchedule, async () => {
+      try {
+        const reports = await infrastructureService.detectDriftForAll()
+        const drifted = reports.filter(report => report.drifted)
+        if (drifted.length > 0) {
+          fastify.log.warn(`Drift detected in ${drifted.length} of ${reports.length} infrastructures`)
+        }
+        const skipped = reports.filter(report => report.skipped_reason)
+        if (skipped.length > 0) {
+          fastify.log.info(`Drift check skipped ${skipped.length} infrastructures whose credentials are not loaded`)
+        }
+      } catch (error) {
+        fastify.log.error(error as Error, 'Scheduled drift detection failed')
+      }
+    }, { scheduled: false })
+
+    fastify.addHook('onReady', async () => driftTask.start())
+    fastify.addHook('onClose', async () => driftTask.stop())
+  }
+
   // Create new infrastructure
   fastify.post('/infrastructure', async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
-      const { user_id, workspace_id } = extractUserContext(request)
+      const { user_id, workspace_id, jwt_token } = extractUserContext(request)
       const body = request.body as CreateInfrastructureRequest
 
-      const result = await infrastructureService.createInfrastructure(
+      const { replayed, ...result } = await infrastructureService.createInfrastructure(
         user_id,
         workspace_id,
-        body
+        body,
+        jwt_token,
+        idempotencyOptions(request)
       )
 
-      reply.code(201).send(result)
+      if (replayed) {
+        reply.header('Idempotent-Replayed', 'true')
+      }
+      reply.code(replayed ? 200 : 201).send(result)
     } catch (error) {
       if (error instanceof AtlasError) {
         reply.code(error.statusCode).send({
@@ -103,6 +178,31 @@ export async function infrastructureRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Import existing provider resources
+  fastify.post('/infrastructure/import', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { user_id, workspace_id, jwt_token } = extractUserContext(request)
+      const body = request.body as ImportInfrastructureRequest
+
+      const result = await infrastructureService.importInfrastructure(user_id, workspace_id, body, jwt_token)
+
+      reply.code(body.infrastructure_id ? 200 : 201).send(result)
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to import infrastructure'
+        })
+      }
+    }
+  })
+
   // Get infrastructure by ID
   fastify.get('/infrastructure/:id', async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
@@ -171,7 +271,9 @@ export async function infrastructureRoutes(fastify: FastifyInstance) {
       const { id } = request.params as { id: string }
       const body = request.body as UpdateInfrastructureRequest
 
-      const result = await infrastructureService.updateInfrastructure(id, body)
+      const userContext = extractUserContext(request)
+
+      const result = await infrastructureService.updateInfrastructure(id, body, userContext.jwt_token)
 
       reply.send(result)
     } catch (error) {
@@ -190,12 +292,114 @@ export async function infrastructureRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Plan new infrastructure (dry run)
+  fastify.post('/infrastructure/plan', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { user_id, workspace_id, jwt_token } = extractUserContext(request)
+      const body = request.body as CreateInfrastructureRequest
+
+      const plan = await infrastructureService.planInfrastructure(user_id, workspace_id, body, jwt_token)
+
+      reply.code(201).send({ plan })
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to plan infrastructure'
+        })
+      }
+    }
+  })
+
+  // Plan an infrastructure update (dry run)
+  fastify.post('/infrastructure/:id/plan', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const body = request.body as UpdateInfrastructureRequest
+      const { jwt_token } = extractUserContext(request)
+
+      const plan = await infrastructureService.planInfrastructureUpdate(id, body, jwt_token)
+
+      reply.code(201).send({ plan })
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to plan infrastructure update'
+        })
+      }
+    }
+  })
+
+  // Get plan
+  fastify.get('/plans/:id', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const { workspace_id } = extractUserContext(request)
+
+      const plan = await infrastructureService.getPlan(id, workspace_id)
+      if (!plan) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Plan not found'
+        })
+        return
+      }
+
+      reply.send({ plan })
+    } catch (error) {
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get plan'
+      })
+    }
+  })
+
+  // Apply a reviewed plan
+  fastify.post('/plans/:id/apply', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const { workspace_id, jwt_token } = extractUserContext(request)
+
+      const result = await infrastructureService.applyPlan(id, workspace_id, jwt_token)
+
+      reply.code(result.plan.operation_type === 'create' ? 201 : 200).send(result)
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to apply plan'
+        })
+      }
+    }
+  })
+
   // Destroy infrastructure
   fastify.delete('/infrastructure/:id', async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
       const { id } = request.params as { id: string }
 
-      const operation = await infrastructureService.destroyInfrastructure(id)
+      const userContext = extractUserContext(request)
+
+      const operation = await infrastructureService.destroyInfrastructure(id, userContext.jwt_token)
 
       reply.send({ operation })
     } catch (error) {
@@ -214,6 +418,75 @@ export async function infrastructureRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Release a stuck operation lock (admin)
+  fastify.delete('/admin/infrastructure/:id/lock', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      requireAdmin(request, 'force-unlock infrastructure')
+      const { id } = request.params as { id: string }
+
+      const result = await infrastructureService.forceUnlock(id)
+
+      reply.send(result)
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to unlock infrastructure'
+        })
+      }
+    }
+  })
+
+  // Detect drift for one infrastructure
+  fastify.get('/infrastructure/:id/drift', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const { jwt_token } = extractUserContext(request)
+
+      const report = await infrastructureService.detectDrift(id, jwt_token)
+
+      reply.send({ report })
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to detect drift'
+        })
+      }
+    }
+  })
+
+  // Detect drift across the workspace
+  fastify.get('/drift', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { workspace_id, jwt_token } = extractUserContext(request)
+
+      const reports = await infrastructureService.detectDriftForAll(workspace_id, jwt_token)
+
+      reply.send({
+        reports,
+        drifted_count: reports.filter(report => report.drifted).length
+      })
+    } catch (error) {
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to detect drift'
+      })
+    }
+  })
+
   // Get deployment operation
   fastify.get('/operations/:id', async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
@@ -237,6 +510,69 @@ export async function infrastructureRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Cancel a running deployment operation
+  fastify.post('/operations/:id/cancel', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const body = (request.body || {}) as { rollback?: boolean }
+      const { workspace_id } = extractUserContext(request)
+
+      const operation = await infrastructureService.cancelOperation(id, workspace_id, { rollback: body.rollback })
+
+      reply.code(202).send({
+        operation,
+        message: 'Cancellation requested; the operation stops after its current step'
+      })
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to cancel operation'
+        })
+      }
+    }
+  })
+
+  // Reconcile an interrupted operation that was waiting for its owner's credential
+  fastify.post('/operations/:id/resume', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const { workspace_id, jwt_token } = extractUserContext(request)
+      if (!jwt_token) {
+        reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'A JWT for the account that owns the infrastructure is required'
+        })
+        return
+      }
+
+      const operation = await infrastructureService.resumeInterruptedOperation(id, workspace_id, jwt_token, {
+        resume: process.env.ATLAS_RESUME_INTERRUPTED_OPERATIONS !== 'false'
+      })
+
+      reply.code(202).send({ operation })
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to resume operation'
+        })
+      }
+    }
+  })
+
   // List deployment operations for infrastructure
   fastify.get('/infrastructure/:id/operations', async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
@@ -398,6 +734,31 @@ export async function infrastructureRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Drop cached provider clients after the workspace's credentials change
+  fastify.post('/providers/:provider/credentials/refresh', async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { provider } = request.params as { provider: CloudProvider }
+      const userContext = extractUserContext(request)
+
+      const dropped = infrastructureService.invalidateProviderCredentials(userContext.workspace_id, provider)
+
+      reply.send({ provider, dropped })
+    } catch (error) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else {
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to refresh provider credentials'
+        })
+      }
+    }
+  })
+
   // Health check endpoint
   fastify.get('/health', async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
@@ -442,24 +803,63 @@ export async function infrastructureRoutes(fastify: FastifyInstance) {
 
       console.log(`[Atlas] Received deployment request: ${body.repository} -> ${body.serverIP}`)
 
-      const result = await infrastructureService.deployApplicationWithAI(body)
+      const deploy = async () => {
+        const result = await infrastructureService.deployApplicationWithAI(body)
+        return {
+          success: result.success,
+          deployment: {
+            repository: body.repository,
+            branch: body.branch,
+            server_ip: body.serverIP,
+            app_name: body.appName,
+            method: result.finalMethod,
+            logs: result.logs
+          },
+          timestamp: new Date().toISOString()
+        }
+      }
 
-      reply.send({
-        success: result.success,
-        deployment: {
-          repository: body.repository,
-          branch: body.branch,
-          server_ip: body.serverIP,
-          app_name: body.appName,
-          method: result.finalMethod,
-          logs: result.logs
-        },
-        timestamp: new Date().toISOString()
-      })
+      const idempotency = idempotencyOptions(request)
+      if (idempotency) {
+        const { workspace_id } = extractUserContext(request)
+        let failed: Awaited<ReturnType<typeof deploy>> | undefined
+        try {
+          const { result, replayed } = await infrastructureService.runIdempotent(
+            workspace_id,
+            'deploy_application',
+            idempotency,
+            async () => {
+              const deployed = await deploy()
+              if (!deployed.success) {
+                // Throwing releases the key so the deployment can be retried
+                failed = deployed
+                throw new Error('Deployment failed')
+              }
+              return deployed
+            }
+          )
+          if (replayed) {
+            reply.header('Idempotent-Replayed', 'true')
+          }
+          reply.send(result)
+        } catch (error) {
+          if (!failed) throw error
+          reply.send(failed)
+        }
+        return
+      }
+
+      reply.send(await deploy())
     } catch (error) {
       console.error('[Atlas] Deployment request failed:', error)
       
-      if (error instanceof z.ZodError) {
+      if (error instanceof AtlasError) {
+        reply.code(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code
+        })
+      } else if (error instanceof z.ZodError) {
         reply.code(400).send({
           error: 'Validation Error',
           message: 'Invalid deployment request',
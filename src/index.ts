@@ -156,9 +156,13 @@ async function start() {
     
     // Log provider status
     const doToken = process.env.DIGITALOCEAN_API_TOKEN
-    fastify.log.info(`- DigitalOcean: ${doToken ? 'configured' : 'not configured'}`)
+    const fakeProvider = process.env.ATLAS_PROVIDER_MODE === 'fake'
+    fastify.log.info(`- DigitalOcean: ${fakeProvider ? 'offline fake' : doToken ? 'configured' : 'not configured'}`)
+    if (process.env.DIGITALOCEAN_API_URL) {
+      fastify.log.info(`- DigitalOcean API URL: ${process.env.DIGITALOCEAN_API_URL}`)
+    }
     
-    if (!doToken) {
+    if (!doToken && !fakeProvider) {
       fastify.log.warn('⚠️  No DigitalOcean API token configured. Set DIGITALOCEAN_API_TOKEN environment variable for full functionality.')
       fastify.log.info('💡 Atlas will still work for cost estimation and testing without real provider credentials.')
     }
@@ -36,6 +36,9 @@ export const CreateDropletWithSSHSchema = z.object({
   
   // Tags and metadata
   tags: z.array(z.string()).default(['controlvector', 'auto-deploy']),
+
+  // Retries with the same key return the original droplet instead of creating another
+  idempotency_key: z.string().max(255).optional(),
   
   // Auth context
   workspace_id: z.string(),
@@ -4,6 +4,8 @@
  */
 
 import axios from 'axios'
+import { fetchAllPages, paginationOptionsFromEnv } from '../utils/Paginator'
+import { digitalOceanApiUrl } from '../providers/digitalocean'
 import { 
   generateUserDataScript, 
   DropletCreationOutput, 
@@ -17,6 +19,20 @@ export class ProvenDropletHandler {
     this.digitalOceanToken = digitalOceanToken
   }
 
+  /**
+   * IDs of every SSH key on the account, across all pages
+   */
+  private async listAccountKeyIds(): Promise<string[]> {
+    const keys = await fetchAllPages(
+      (url, config) => axios.get(url, { ...config, headers: this.doHeaders }),
+      `${digitalOceanApiUrl()}/account/keys`,
+      'ssh_keys',
+      {},
+      paginationOptionsFromEnv()
+    )
+    return keys.map((key: any) => key.id.toString())
+  }
+
   private get doHeaders() {
     return {
       'Authorization': `Bearer ${this.digitalOceanToken}`,
@@ -37,12 +53,7 @@ export class ProvenDropletHandler {
       let sshKeys = args.ssh_keys
       
       if (args.include_all_account_keys) {
-        const keysResponse = await axios.get(
-          'https://api.digitalocean.com/v2/account/keys',
-          { headers: this.doHeaders }
-        )
-        
-        const accountKeys = keysResponse.data.ssh_keys.map((key: any) => key.id.toString())
+        const accountKeys = await this.listAccountKeyIds()
         sshKeys = [...new Set([...sshKeys, ...accountKeys])] // Merge and deduplicate
         
         console.log(`[ATLAS] Using ${sshKeys.length} SSH keys (${accountKeys.length} from account)`)
@@ -77,7 +88,7 @@ export class ProvenDropletHandler {
       console.log(`[ATLAS] Creating droplet: ${dropletRequest.name}`)
       
       const createResponse = await axios.post(
-        'https://api.digitalocean.com/v2/droplets',
+        `${digitalOceanApiUrl()}/droplets`,
         dropletRequest,
         { headers: this.doHeaders }
       )
@@ -140,7 +151,7 @@ export class ProvenDropletHandler {
         }
 
         const snapshotResponse = await axios.post(
-          `https://api.digitalocean.com/v2/droplets/${args.droplet_id}/actions`,
+          `${digitalOceanApiUrl()}/droplets/${args.droplet_id}/actions`,
           snapshotRequest,
           { headers: this.doHeaders }
         )
@@ -156,11 +167,7 @@ export class ProvenDropletHandler {
       // Step 2: Get SSH keys (use all account keys if not specified)
       let sshKeys = args.ssh_keys
       if (!sshKeys) {
-        const keysResponse = await axios.get(
-          'https://api.digitalocean.com/v2/account/keys',
-          { headers: this.doHeaders }
-        )
-        sshKeys = keysResponse.data.ssh_keys.map((key: any) => key.id.toString())
+        sshKeys = await this.listAccountKeyIds()
         console.log(`[ATLAS] Using all account SSH keys: ${sshKeys.length} keys`)
       }
 
@@ -196,7 +203,7 @@ echo "✅ Basic setup completed"
       }
 
       const rebuildResponse = await axios.post(
-        `https://api.digitalocean.com/v2/droplets/${args.droplet_id}/actions`,
+        `${digitalOceanApiUrl()}/droplets/${args.droplet_id}/actions`,
         {
           type: 'rebuild',
           ...rebuildRequest
@@ -241,7 +248,7 @@ echo "✅ Basic setup completed"
   async getActionStatus(dropletId: string, actionId: string): Promise<any> {
     try {
       const response = await axios.get(
-        `https://api.digitalocean.com/v2/droplets/${dropletId}/actions/${actionId}`,
+        `${digitalOceanApiUrl()}/droplets/${dropletId}/actions/${actionId}`,
         { headers: this.doHeaders }
       )
       return response.data.action
@@ -257,7 +264,7 @@ echo "✅ Basic setup completed"
   async getDropletDetails(dropletId: string): Promise<any> {
     try {
       const response = await axios.get(
-        `https://api.digitalocean.com/v2/droplets/${dropletId}`,
+        `${digitalOceanApiUrl()}/droplets/${dropletId}`,
         { headers: this.doHeaders }
       )
       
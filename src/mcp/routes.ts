@@ -169,7 +169,7 @@ export async function mcpRoutes(fastify: FastifyInstance) {
       
       // Test basic tool availability
       const availableTools = tools.tools.length
-      const expectedTools = 11 // We expect 11 MCP tools for Atlas (9 existing + 2 proven pattern tools)
+      const expectedTools = 18 // We expect 18 MCP tools for Atlas (16 existing + 2 proven pattern tools)
       
       reply.send({
         status: availableTools === expectedTools ? 'healthy' : 'degraded',
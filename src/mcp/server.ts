@@ -19,9 +19,16 @@ import {
   EstimateCostSchema,
   ScaleResourceSchema,
   GetProviderStatusSchema,
-  DestroyInfrastructureSchema
+  DestroyInfrastructureSchema,
+  PlanInfrastructureSchema,
+  ApplyPlanSchema,
+  DetectDriftSchema,
+  CancelOperationSchema,
+  ImportInfrastructureSchema,
+  ManageKubernetesClusterSchema,
+  ManageContainerRegistrySchema
 } from './tools'
-import { CreateInfrastructureRequest, AtlasError } from '../types'
+import { CreateInfrastructureRequest, CreateResourceRequest, DeploymentOperation, InfrastructurePlan, DriftReport, IdempotencyOptions, ProviderRateLimit, AtlasError } from '../types'
 import { createLogger, ErrorCodes, OperationLogger } from '../utils/Logger'
 import { errorStreamingService } from '../services/ErrorStreamingService'
 import { ProvenDropletHandler } from './proven-droplet-handler'
@@ -70,6 +77,15 @@ export class AtlasMCPServer {
         case 'provision_infrastructure':
           return await this.provisionInfrastructure(input)
         
+        case 'plan_infrastructure':
+          return await this.planInfrastructure(input)
+        
+        case 'apply_infrastructure_plan':
+          return await this.applyInfrastructurePlan(input)
+        
+        case 'import_infrastructure':
+          return await this.importInfrastructure(input)
+        
         case 'get_infrastructure_costs':
           return await this.getInfrastructureCosts(input)
         
@@ -82,6 +98,18 @@ export class AtlasMCPServer {
         case 'get_provider_status':
           return await this.getProviderStatus(input)
         
+        case 'detect_infrastructure_drift':
+          return await this.detectInfrastructureDrift(input)
+        
+        case 'manage_kubernetes_cluster':
+          return await this.manageKubernetesCluster(input)
+        
+        case 'manage_container_registry':
+          return await this.manageContainerRegistry(input)
+        
+        case 'cancel_operation':
+          return await this.cancelOperation(input)
+        
         case 'destroy_infrastructure':
           return await this.destroyInfrastructure(input)
         
@@ -235,7 +263,8 @@ export class AtlasMCPServer {
         params.user_id,
         params.workspace_id,
         createRequest,
-        params.jwt_token  // Pass JWT token for provider initialization
+        params.jwt_token,  // Pass JWT token for provider initialization
+        this.idempotencyOptions(params)
       )
 
       opLogger.success('Infrastructure provisioning initiated', {
@@ -245,8 +274,10 @@ export class AtlasMCPServer {
         estimated_cost: result.infrastructure?.estimated_monthly_cost
       })
 
+      const failed = this.isUnsuccessful(result.operation)
       return createMCPResult(
-        `✅ Infrastructure provisioning started successfully!\n\n` +
+        `${result.replayed ? `↩️ Returning the infrastructure created by an earlier call with this idempotency key.\n\n` : ''}` +
+        `${this.creationHeadline('Infrastructure provisioning', result.operation)}\n\n` +
         `Infrastructure ID: ${result.infrastructure?.id}\n` +
         `Operation ID: ${result.operation?.id}\n` +
         `Status: ${result.operation?.status}\n` +
@@ -254,7 +285,8 @@ export class AtlasMCPServer {
         `Region: ${params.region}\n` +
         `Estimated monthly cost: $${result.infrastructure?.estimated_monthly_cost || 0}\n` +
         `Resources being provisioned: ${params.resources.length} resources\n\n` +
-        `🔄 Provisioning is now in progress. You can monitor the status using the operation ID.`
+        `${failed ? '' : `🔄 Provisioning is now in progress. You can monitor the status using the operation ID.`}`,
+        failed
       )
     } catch (error) {
       // Comprehensive error logging and user-friendly error messages
@@ -522,6 +554,129 @@ export class AtlasMCPServer {
     }
   }
 
+  /**
+   * MCP Tool: Plan Infrastructure
+   */
+  private async planInfrastructure(input: unknown): Promise<MCPToolResult> {
+    const tool = ATLAS_MCP_TOOLS.find(t => t.name === 'plan_infrastructure')!
+    const params = validateMCPToolInput<typeof PlanInfrastructureSchema._type>(tool, input)
+
+    try {
+      let plan: InfrastructurePlan
+
+      if (params.infrastructure_id) {
+        plan = await this.infrastructureService.planInfrastructureUpdate(params.infrastructure_id, {
+          name: params.name,
+          resources: params.resource_updates,
+          tags: params.tags
+        }, params.jwt_token)
+      } else {
+        if (!params.name || !params.provider || !params.region || !params.resources?.length) {
+          return createMCPResult(
+            'Planning new infrastructure requires name, provider, region and resources ' +
+            '(or pass infrastructure_id to plan an update)',
+            true
+          )
+        }
+
+        plan = await this.infrastructureService.planInfrastructure(
+          params.user_id,
+          params.workspace_id,
+          {
+            name: params.name,
+            provider: params.provider,
+            region: params.region,
+            resources: params.resources,
+            configuration: {},
+            tags: { created_via: 'mcp', ...params.tags }
+          },
+          params.jwt_token
+        )
+      }
+
+      const lines = plan.resource_changes.map(change => {
+        const symbol = change.action === 'create' ? '+' : change.action === 'update' ? '~' : ' '
+        const details = change.action === 'update'
+          ? change.changes.map(c => `\n      ${c.path}: ${JSON.stringify(c.before)} -> ${JSON.stringify(c.after)}`).join('')
+          : ''
+        return `  ${symbol} ${change.type} ${change.name} ($${change.monthly_cost_after.toFixed(2)}/mo)${details}`
+      })
+
+      return createMCPResult(
+        `Plan ID: ${plan.id}\n` +
+        `Operation: ${plan.operation_type}${plan.infrastructure_id ? ` (infrastructure ${plan.infrastructure_id})` : ''}\n` +
+        `Resources:\n${lines.join('\n')}\n` +
+        `Monthly cost change: ${plan.cost_change >= 0 ? '+' : '-'}$${Math.abs(plan.cost_change).toFixed(2)}\n` +
+        `Estimated monthly cost after apply: $${plan.estimated_monthly_cost.toFixed(2)}\n` +
+        `Expires: ${plan.expires_at}\n\n` +
+        `Nothing has been provisioned. Apply with apply_infrastructure_plan and this plan ID.`
+      )
+    } catch (error) {
+      return createMCPResult(`Planning failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+    }
+  }
+
+  /**
+   * MCP Tool: Apply Infrastructure Plan
+   */
+  private async applyInfrastructurePlan(input: unknown): Promise<MCPToolResult> {
+    const tool = ATLAS_MCP_TOOLS.find(t => t.name === 'apply_infrastructure_plan')!
+    const params = validateMCPToolInput<typeof ApplyPlanSchema._type>(tool, input)
+
+    try {
+      const result = await this.infrastructureService.applyPlan(params.plan_id, params.workspace_id, params.jwt_token)
+
+      return createMCPResult(
+        `Plan applied:\n` +
+        `Plan ID: ${result.plan.id}\n` +
+        `Infrastructure ID: ${result.infrastructure.id}\n` +
+        `Operation ID: ${result.operation.id}\n` +
+        `Status: ${result.operation.status}\n` +
+        `Monthly cost change: $${result.plan.cost_change.toFixed(2)}`
+      )
+    } catch (error) {
+      return createMCPResult(`Plan apply failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+    }
+  }
+
+  /**
+   * MCP Tool: Import Infrastructure
+   */
+  private async importInfrastructure(input: unknown): Promise<MCPToolResult> {
+    const tool = ATLAS_MCP_TOOLS.find(t => t.name === 'import_infrastructure')!
+    const params = validateMCPToolInput<typeof ImportInfrastructureSchema._type>(tool, input)
+
+    try {
+      const result = await this.infrastructureService.importInfrastructure(
+        params.user_id,
+        params.workspace_id,
+        {
+          infrastructure_id: params.infrastructure_id,
+          name: params.name,
+          provider: params.provider,
+          resources: params.resources,
+          tag_name: params.tag_name,
+          tags: params.infrastructure_id ? undefined : { created_via: 'mcp_import' }
+        },
+        params.jwt_token
+      )
+
+      const resources = result.imported
+        .map(r => `  - ${r.type} ${r.name} (${r.provider_id}) $${r.monthly_cost.toFixed(2)}/mo`)
+        .join('\n')
+
+      return createMCPResult(
+        `✅ Imported ${result.imported.length} resources\n\n` +
+        `Infrastructure ID: ${result.infrastructure.id}\n` +
+        `Infrastructure: ${result.infrastructure.name}\n` +
+        `Resources:\n${resources}\n` +
+        `Estimated monthly cost: $${result.infrastructure.estimated_monthly_cost.toFixed(2)}`
+      )
+    } catch (error) {
+      return createMCPResult(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+    }
+  }
+
   /**
    * MCP Tool: Scale Infrastructure Resource
    */
@@ -570,13 +725,19 @@ export class AtlasMCPServer {
         const connected = await this.infrastructureService.testProviderConnection(params.provider)
         const info = await this.infrastructureService.getProviderInfo(params.provider)
 
+        const rateLimit: ProviderRateLimit | null = info.rate_limit
+
         return createMCPResult(
           `Provider Status: ${params.provider}\n` +
           `Status: ${connected ? 'Connected' : 'Disconnected'}\n` +
           `Name: ${info.name}\n` +
-          `Supported Regions: ${info.supported_regions?.length || 0}\n` +
-          `Supported Resources: ${info.supported_resource_types?.length || 0}\n` +
-          `API Version: ${info.api_version || 'Unknown'}`
+          `Supported Regions: ${info.regions?.length || 0}\n` +
+          `Supported Resources: ${info.resource_types?.length || 0}\n` +
+          `API Version: ${info.api_version || 'Unknown'}\n` +
+          `Rate Limit: ${rateLimit
+            ? `${rateLimit.remaining ?? '?'}/${rateLimit.limit ?? '?'} requests remaining` +
+              `${rateLimit.reset_at ? `, resets ${rateLimit.reset_at}` : ''}`
+            : 'No requests made yet'}`
         )
       } else {
         // Check all providers
@@ -605,6 +766,197 @@ export class AtlasMCPServer {
     }
   }
 
+  /**
+   * MCP Tool: Detect Infrastructure Drift
+   */
+  private async detectInfrastructureDrift(input: unknown): Promise<MCPToolResult> {
+    const tool = ATLAS_MCP_TOOLS.find(t => t.name === 'detect_infrastructure_drift')!
+    const params = validateMCPToolInput<typeof DetectDriftSchema._type>(tool, input)
+
+    try {
+      const reports: DriftReport[] = params.infrastructure_id
+        ? [await this.infrastructureService.detectDrift(params.infrastructure_id, params.jwt_token)]
+        : await this.infrastructureService.detectDriftForAll(params.workspace_id, params.jwt_token)
+
+      const skipped = reports.filter(report => report.skipped_reason)
+      const skippedNote = skipped.length > 0
+        ? `\n\nSkipped ${skipped.length} infrastructures:\n` +
+          skipped.map(report => `  ${report.infrastructure_id}: ${report.skipped_reason}`).join('\n')
+        : ''
+
+      const drifted = reports.filter(report => report.drifted)
+      if (drifted.length === 0) {
+        return createMCPResult(
+          `No drift detected.\n` +
+          `Infrastructures checked: ${reports.length - skipped.length}\n` +
+          `Resources checked: ${reports.reduce((total, report) => total + report.resources_checked, 0)}` +
+          skippedNote
+        )
+      }
+
+      const details = drifted.map(report =>
+        `Infrastructure ${report.infrastructure_id}:\n` +
+        report.issues.map(issue => `  [${issue.severity}] ${issue.title} - ${issue.description}`).join('\n')
+      )
+
+      return createMCPResult(
+        `Drift detected in ${drifted.length} of ${reports.length - skipped.length} infrastructures:\n\n` +
+        `${details.join('\n\n')}` +
+        skippedNote
+      )
+    } catch (error) {
+      return createMCPResult(`Drift detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+    }
+  }
+
+  /**
+   * Headline for a create result. A replayed result may be an earlier call's
+   * failed or cancelled operation.
+   */
+  private creationHeadline(subject: string, operation?: DeploymentOperation): string {
+    if (operation?.status === 'failed') {
+      return `❌ ${subject} failed: ${operation.error_message || 'Unknown error'}`
+    }
+    if (operation?.status === 'cancelled') {
+      return `⚠️ ${subject} was cancelled`
+    }
+    return `✅ ${subject} started successfully!`
+  }
+
+  private isUnsuccessful(operation?: DeploymentOperation): boolean {
+    return operation?.status === 'failed' || operation?.status === 'cancelled'
+  }
+
+  /**
+   * MCP Tool: Manage Kubernetes Cluster
+   */
+  private async manageKubernetesCluster(input: unknown): Promise<MCPToolResult> {
+    const tool = ATLAS_MCP_TOOLS.find(t => t.name === 'manage_kubernetes_cluster')!
+    const params = validateMCPToolInput<typeof ManageKubernetesClusterSchema._type>(tool, input)
+
+    try {
+      if (params.action === 'get_kubeconfig') {
+        const { kubeconfig, stored } = await this.infrastructureService.getKubeconfig(
+          params.workspace_id,
+          params.infrastructure_id,
+          params.resource_id,
+          params.jwt_token
+        )
+
+        return createMCPResult(
+          `Kubeconfig for cluster ${params.resource_id}` +
+          `${stored ? ' (stored in Context Manager)' : ' (could not be stored in Context Manager)'}:\n\n` +
+          kubeconfig
+        )
+      }
+
+      if (!params.node_pool) {
+        return createMCPResult('scale_node_pool needs a node_pool', true)
+      }
+
+      const { operation } = await this.infrastructureService.scaleNodePool(
+        params.workspace_id,
+        params.infrastructure_id,
+        params.resource_id,
+        params.node_pool,
+        params.jwt_token
+      )
+      const pool = params.node_pool
+
+      return createMCPResult(
+        `Node pool update started:\n` +
+        `Pool: ${pool.name}\n` +
+        `Target: ${pool.auto_scale ? `auto-scale ${pool.min_nodes ?? 1}-${pool.max_nodes ?? pool.count ?? '?'} nodes` : `${pool.count ?? 'unchanged'} nodes`}\n` +
+        `Operation ID: ${operation.id}\n` +
+        `Monitor operation status for completion`
+      )
+    } catch (error) {
+      return createMCPResult(`Kubernetes cluster ${params.action} failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+    }
+  }
+
+  /**
+   * MCP Tool: Manage Container Registry
+   */
+  private async manageContainerRegistry(input: unknown): Promise<MCPToolResult> {
+    const tool = ATLAS_MCP_TOOLS.find(t => t.name === 'manage_container_registry')!
+    const params = validateMCPToolInput<typeof ManageContainerRegistrySchema._type>(tool, input)
+
+    try {
+      if (params.action === 'get_docker_credentials') {
+        const { docker_config, stored } = await this.infrastructureService.getDockerCredentials(
+          params.workspace_id,
+          params.infrastructure_id,
+          params.resource_id,
+          params.jwt_token
+        )
+
+        return createMCPResult(
+          `Docker credentials for registry ${params.resource_id}` +
+          `${stored ? ' (stored in Context Manager)' : ' (could not be stored in Context Manager)'}.\n` +
+          `Save as ~/.docker/config.json:\n\n` +
+          docker_config
+        )
+      }
+
+      if (params.action === 'list_repositories') {
+        const repositories = await this.infrastructureService.listRegistryRepositories(
+          params.workspace_id,
+          params.infrastructure_id,
+          params.resource_id,
+          params.jwt_token
+        )
+
+        return createMCPResult(
+          `Registry ${params.resource_id}: ${repositories.length} repositories\n\n` +
+          repositories.map(repository =>
+            `- ${repository.name}: ${repository.tag_count} tags, ${repository.manifest_count} manifests` +
+            `${repository.latest_tag ? ` (latest: ${repository.latest_tag})` : ''}`
+          ).join('\n')
+        )
+      }
+
+      const run = await this.infrastructureService.startRegistryGarbageCollection(
+        params.workspace_id,
+        params.infrastructure_id,
+        params.resource_id,
+        params.jwt_token
+      )
+
+      return createMCPResult(
+        `Garbage collection started:\n` +
+        `ID: ${run.id}\n` +
+        `Status: ${run.status}\n` +
+        `The registry is read-only until it finishes`
+      )
+    } catch (error) {
+      return createMCPResult(`Container registry ${params.action} failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+    }
+  }
+
+  /**
+   * MCP Tool: Cancel Operation
+   */
+  private async cancelOperation(input: unknown): Promise<MCPToolResult> {
+    const tool = ATLAS_MCP_TOOLS.find(t => t.name === 'cancel_operation')!
+    const params = validateMCPToolInput<typeof CancelOperationSchema._type>(tool, input)
+
+    try {
+      const operation = await this.infrastructureService.cancelOperation(params.operation_id, params.workspace_id, {
+        rollback: params.rollback
+      })
+
+      return createMCPResult(
+        `Cancellation requested for ${operation.operation_type} operation ${operation.id}.\n` +
+        `Progress: ${operation.completed_steps}/${operation.total_steps} steps\n` +
+        `Rollback: ${operation.rollback_on_cancel ? 'created resources will be deleted' : 'no'}\n\n` +
+        `The operation stops after its current step; check its status for the final result.`
+      )
+    } catch (error) {
+      return createMCPResult(`Cancellation failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+    }
+  }
+
   /**
    * MCP Tool: Destroy Infrastructure
    */
@@ -622,7 +974,7 @@ export class AtlasMCPServer {
     }
 
     try {
-      const operation = await this.infrastructureService.destroyInfrastructure(params.infrastructure_id)
+      const operation = await this.infrastructureService.destroyInfrastructure(params.infrastructure_id, params.jwt_token)
 
       return createMCPResult(
         `Infrastructure destruction initiated:\n` +
@@ -735,22 +1087,37 @@ export class AtlasMCPServer {
     })
 
     try {
+      const resources: CreateResourceRequest[] = [{
+        type: 'droplet',
+        name: params.name,
+        specifications: {
+          size: params.size,
+          image: params.image,
+          ssh_keys: params.ssh_keys || [],
+          monitoring: true,
+          backups: false
+        }
+      }]
+
+      // Point the domain at the droplet once it has an IP; the record is destroyed with it
+      if (params.domain) {
+        resources.push({
+          type: 'dns_record',
+          name: `${params.name}-dns`,
+          specifications: {
+            fqdn: params.domain,
+            record_type: 'A',
+            data: `\${resources.${params.name}.public_ip}`
+          }
+        })
+      }
+
       // Create infrastructure request for single droplet
       const createRequest: CreateInfrastructureRequest = {
         name: `droplet-${params.name}`,
         provider: 'digitalocean',
         region: params.region,
-        resources: [{
-          type: 'droplet',
-          name: params.name,
-          specifications: {
-            size: params.size,
-            image: params.image,
-            ssh_keys: params.ssh_keys || [],
-            monitoring: true,
-            backups: false
-          }
-        }],
+        resources,
         configuration: {} as any,
         tags: {
           created_via: 'mcp_direct',
@@ -762,7 +1129,8 @@ export class AtlasMCPServer {
         params.user_id,
         params.workspace_id,
         createRequest,
-        params.jwt_token
+        params.jwt_token,
+        this.idempotencyOptions(params)
       )
 
       opLogger.success('Droplet creation initiated', {
@@ -773,8 +1141,10 @@ export class AtlasMCPServer {
 
       const dropletResource = result.infrastructure?.resources[0]
 
+      const failed = this.isUnsuccessful(result.operation)
       return createMCPResult(
-        `✅ Droplet creation started successfully!\n\n` +
+        `${result.replayed ? `↩️ Returning the droplet created by an earlier call with this idempotency key.\n\n` : ''}` +
+        `${this.creationHeadline('Droplet creation', result.operation)}\n\n` +
         `Droplet Name: ${params.name}\n` +
         `Infrastructure ID: ${result.infrastructure?.id}\n` +
         `Operation ID: ${result.operation?.id}\n` +
@@ -783,8 +1153,9 @@ export class AtlasMCPServer {
         `Region: ${params.region}\n` +
         `Image: ${params.image}\n` +
         `Estimated Monthly Cost: $${dropletResource?.monthly_cost || 0}\n` +
-        `${params.domain ? `Domain: ${params.domain}\n` : ''}` +
-        `\n🔄 Provisioning is now in progress. The droplet should be available in 1-2 minutes.`
+        `${params.domain ? `Domain: ${params.domain} (A record created once the droplet has an IP)\n` : ''}` +
+        `${failed ? '' : `\n🔄 Provisioning is now in progress. The droplet should be available in 1-2 minutes.`}`,
+        failed
       )
     } catch (error) {
       // Use the same comprehensive error parsing as provision_infrastructure
@@ -849,8 +1220,23 @@ export class AtlasMCPServer {
       // Initialize proven handler with token
       const handler = new ProvenDropletHandler(digitalOceanToken)
       
-      // Create droplet with proven patterns
-      const result = await handler.createDropletWithApp(params)
+      // Create droplet with proven patterns - once per idempotency key
+      const idempotency = this.idempotencyOptions(params)
+      const { result, replayed } = idempotency
+        ? await this.infrastructureService.runIdempotent(
+            params.workspace_id,
+            'create_droplet_with_app',
+            idempotency,
+            async () => {
+              const created = await handler.createDropletWithApp(params)
+              if (!created.success) {
+                // Release the key so the call can be retried
+                throw new Error(created.error || 'Droplet creation failed')
+              }
+              return created
+            }
+          )
+        : { result: await handler.createDropletWithApp(params), replayed: false }
 
       opLogger.success('Proven droplet creation initiated', {
         droplet_id: result.droplet?.id,
@@ -860,6 +1246,7 @@ export class AtlasMCPServer {
 
       if (result.success && result.droplet && result.deployment) {
         return createMCPResult(
+          `${replayed ? `↩️ Returning the droplet created by an earlier call with this idempotency key.\n\n` : ''}` +
           `✅ Droplet with application deployment created successfully!\n\n` +
           `🖥️ **Droplet Details:**\n` +
           `- Name: ${result.droplet.name}\n` +
@@ -963,6 +1350,17 @@ export class AtlasMCPServer {
   /**
    * Helper method to get DigitalOcean token from Context Manager
    */
+  /**
+   * Idempotency options for a creating tool: the key, and the arguments that identify the request
+   */
+  private idempotencyOptions(params: { idempotency_key?: string; jwt_token?: string }): IdempotencyOptions | undefined {
+    if (!params.idempotency_key) {
+      return undefined
+    }
+    const { idempotency_key, jwt_token, ...body } = params
+    return { key: idempotency_key, body }
+  }
+
   private async getDigitalOceanToken(workspaceId: string, userId: string, jwtToken: string): Promise<string> {
     try {
       // Use the context service directly
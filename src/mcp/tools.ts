@@ -31,7 +31,8 @@ export const CreateDropletSchema = z.object({
   region: z.string().default('nyc3').describe("Region (nyc3, sfo3, etc)"),
   image: z.string().default('ubuntu-22-04-x64').describe("OS image slug"),
   ssh_keys: z.array(z.string()).optional().describe("SSH key fingerprints"),
-  domain: z.string().optional().describe("Domain to configure (e.g., 'riskguard.controlvector.io')"),
+  domain: z.string().optional().describe("Hostname to point at the droplet with an A record (e.g., 'riskguard.controlvector.io'); its domain must already be in the DigitalOcean account, or no droplet is created"),
+  idempotency_key: z.string().max(255).optional().describe("Reuse the same key when retrying; a repeated call returns the original result instead of creating more resources"),
   workspace_id: z.string().describe("Workspace identifier"),
   user_id: z.string().describe("User identifier"),
   jwt_token: z.string().describe("JWT token for credential access")
@@ -45,13 +46,15 @@ export const CheckDropletStatusSchema = z.object({
 
 export const ProvisionInfrastructureSchema = z.object({
   name: z.string().describe("Human-readable name for the infrastructure"),
-  provider: z.enum(['digitalocean', 'aws', 'gcp', 'azure']).describe("Cloud provider to use"),
+  provider: z.enum(['digitalocean', 'aws', 'gcp', 'azure', 'linode', 'vultr']).describe("Cloud provider to use"),
   region: z.string().describe("Region to deploy in (e.g., 'nyc3', 'us-east-1')"),
   resources: z.array(z.object({
-    type: z.enum(['droplet', 'volume', 'database', 'load_balancer', 'vpc']).describe("Type of resource to create"),
+    type: z.enum(['droplet', 'volume', 'database', 'load_balancer', 'vpc', 'kubernetes', 'domain', 'dns_record', 'container_registry']).describe("Type of resource to create"),
     name: z.string().describe("Name for this resource"),
-    specifications: z.record(z.any()).describe("Resource-specific configuration")
+    specifications: z.record(z.any()).describe("Resource-specific configuration"),
+    depends_on: z.array(z.string()).optional().describe("Names of resources in this request that must be created first")
   })).describe("List of resources to provision"),
+  idempotency_key: z.string().max(255).optional().describe("Reuse the same key when retrying; a repeated call returns the original result instead of creating more resources"),
   workspace_id: z.string().describe("Workspace identifier"),
   user_id: z.string().describe("User identifier"),
   jwt_token: z.string().optional().describe("JWT token for credential access")
@@ -70,10 +73,10 @@ export const GetInfrastructureCostsSchema = z.object({
 })
 
 export const EstimateCostSchema = z.object({
-  provider: z.enum(['digitalocean', 'aws', 'gcp', 'azure']).describe("Cloud provider"),
+  provider: z.enum(['digitalocean', 'aws', 'gcp', 'azure', 'linode', 'vultr']).describe("Cloud provider"),
   region: z.string().describe("Target region"),
   resources: z.array(z.object({
-    type: z.enum(['droplet', 'volume', 'database', 'load_balancer', 'vpc']),
+    type: z.enum(['droplet', 'volume', 'database', 'load_balancer', 'vpc', 'kubernetes', 'domain', 'dns_record', 'container_registry']),
     specifications: z.record(z.any())
   })).describe("Resources to estimate costs for")
 })
@@ -86,12 +89,88 @@ export const ScaleResourceSchema = z.object({
 })
 
 export const GetProviderStatusSchema = z.object({
-  provider: z.enum(['digitalocean', 'aws', 'gcp', 'azure']).optional().describe("Specific provider to check, or all if not specified")
+  provider: z.enum(['digitalocean', 'aws', 'gcp', 'azure', 'linode', 'vultr']).optional().describe("Specific provider to check, or all if not specified")
 })
 
 export const DestroyInfrastructureSchema = z.object({
   infrastructure_id: z.string().describe("Infrastructure ID to destroy"),
-  confirm: z.boolean().describe("Confirmation that destruction is intended")
+  confirm: z.boolean().describe("Confirmation that destruction is intended"),
+  jwt_token: z.string().optional().describe("JWT token for credential access")
+})
+
+export const PlanInfrastructureSchema = z.object({
+  infrastructure_id: z.string().optional().describe("Existing infrastructure to plan an update for; omit to plan new infrastructure"),
+  name: z.string().optional().describe("Infrastructure name (required for new infrastructure)"),
+  provider: ProvisionInfrastructureSchema.shape.provider.optional().describe("Cloud provider (required for new infrastructure)"),
+  region: z.string().optional().describe("Region (required for new infrastructure)"),
+  resources: ProvisionInfrastructureSchema.shape.resources.optional().describe("Resources to create (new infrastructure)"),
+  resource_updates: z.array(z.object({
+    id: z.string().describe("Resource ID"),
+    specifications: z.record(z.any()).describe("Specification changes")
+  })).optional().describe("Resource changes (existing infrastructure)"),
+  tags: z.record(z.string()).optional().describe("Tags to set"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().optional().describe("JWT token for credential access")
+})
+
+export const ApplyPlanSchema = z.object({
+  plan_id: z.string().describe("ID of a plan returned by plan_infrastructure"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  jwt_token: z.string().optional().describe("JWT token for credential access")
+})
+
+export const DetectDriftSchema = z.object({
+  infrastructure_id: z.string().optional().describe("Infrastructure to check; omit to check all active infrastructure in the workspace"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  jwt_token: z.string().optional().describe("JWT token for credential access")
+})
+
+export const ImportInfrastructureSchema = z.object({
+  infrastructure_id: z.string().optional().describe("Existing infrastructure to add the resources to; omit to create a new record"),
+  name: z.string().optional().describe("Name for the new infrastructure record (required without infrastructure_id)"),
+  provider: z.enum(['digitalocean']).default('digitalocean').describe("Cloud provider the resources live in"),
+  resources: z.array(z.object({
+    type: z.enum(['droplet', 'volume', 'database', 'load_balancer', 'firewall', 'vpc']).describe("Resource type"),
+    provider_id: z.string().describe("ID of the resource at the provider (e.g. droplet ID)"),
+    name: z.string().optional().describe("Name to record; defaults to the provider's name")
+  })).optional().describe("Specific resources to import"),
+  tag_name: z.string().optional().describe("Import every unmanaged resource with this provider tag"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().optional().describe("JWT token for credential access")
+})
+
+export const KubernetesNodePoolSchema = z.object({
+  name: z.string().describe("Node pool name"),
+  size: z.string().optional().describe("Droplet size of each node (required for a new pool)"),
+  count: z.number().int().min(1).optional().describe("Node count, or the starting count when auto-scaling"),
+  auto_scale: z.boolean().optional().describe("Let the cluster add and remove nodes between min_nodes and max_nodes"),
+  min_nodes: z.number().int().min(0).optional(),
+  max_nodes: z.number().int().min(1).optional()
+})
+
+export const ManageKubernetesClusterSchema = z.object({
+  infrastructure_id: z.string().describe("Infrastructure holding the cluster"),
+  resource_id: z.string().describe("Atlas resource ID or name of the Kubernetes cluster"),
+  action: z.enum(['get_kubeconfig', 'scale_node_pool']).describe("Fetch (and store) the kubeconfig, or scale or add a node pool"),
+  node_pool: KubernetesNodePoolSchema.optional().describe("Pool to scale or add (scale_node_pool)"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  jwt_token: z.string().optional().describe("JWT token for credential access")
+})
+
+export const ManageContainerRegistrySchema = z.object({
+  infrastructure_id: z.string().describe("Infrastructure holding the registry"),
+  resource_id: z.string().describe("Atlas resource ID or name of the container registry"),
+  action: z.enum(['get_docker_credentials', 'list_repositories', 'garbage_collect']).describe("Fetch (and store) read-write Docker credentials, list repositories, or start garbage collection"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  jwt_token: z.string().optional().describe("JWT token for credential access")
+})
+
+export const CancelOperationSchema = z.object({
+  operation_id: z.string().describe("ID of the running deployment operation"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  rollback: z.boolean().default(false).describe("Delete resources the operation already created")
 })
 
 // MCP Tool Definitions
@@ -124,9 +203,24 @@ export const ATLAS_MCP_TOOLS: MCPTool[] = [
   },
   {
     name: 'provision_infrastructure',
-    description: 'Provision new cloud infrastructure resources including droplets, databases, load balancers, and networking',
+    description: 'Provision new cloud infrastructure resources including droplets, databases, load balancers, Kubernetes clusters, and networking',
     inputSchema: ProvisionInfrastructureSchema
   },
+  {
+    name: 'plan_infrastructure',
+    description: 'Dry run: show what provisioning or updating infrastructure would create or change and the monthly cost delta. Returns a plan ID for apply_infrastructure_plan',
+    inputSchema: PlanInfrastructureSchema
+  },
+  {
+    name: 'apply_infrastructure_plan',
+    description: 'EXECUTE: Apply a previously reviewed plan exactly as planned. Fails if the infrastructure changed since the plan was created',
+    inputSchema: ApplyPlanSchema
+  },
+  {
+    name: 'import_infrastructure',
+    description: 'Adopt existing cloud resources (by provider ID or tag) into Atlas so they can be scaled, cost-tracked and destroyed. Nothing is recreated',
+    inputSchema: ImportInfrastructureSchema
+  },
   {
     name: 'get_infrastructure_costs',
     description: 'Get current infrastructure costs and usage metrics from cloud providers',
@@ -147,6 +241,26 @@ export const ATLAS_MCP_TOOLS: MCPTool[] = [
     description: 'Check the status and availability of cloud providers and their services',
     inputSchema: GetProviderStatusSchema
   },
+  {
+    name: 'detect_infrastructure_drift',
+    description: 'Compare stored infrastructure with live cloud state and report resources that were resized, retagged, moved or deleted outside Atlas',
+    inputSchema: DetectDriftSchema
+  },
+  {
+    name: 'manage_kubernetes_cluster',
+    description: 'Get the kubeconfig of a Kubernetes cluster provisioned by Atlas (stored in Context Manager), or scale, auto-scale or add one of its node pools',
+    inputSchema: ManageKubernetesClusterSchema
+  },
+  {
+    name: 'manage_container_registry',
+    description: 'Get Docker credentials for a container registry provisioned by Atlas (stored in Context Manager), list its repositories, or start garbage collection (the registry is read-only while it runs)',
+    inputSchema: ManageContainerRegistrySchema
+  },
+  {
+    name: 'cancel_operation',
+    description: 'Stop a running deployment operation after its current step, optionally rolling back resources it created',
+    inputSchema: CancelOperationSchema
+  },
   {
     name: 'destroy_infrastructure',
     description: 'Safely destroy infrastructure resources with confirmation',
@@ -0,0 +1,1090 @@
+import axios, { AxiosInstance } from 'axios'
+import { XMLParser } from 'fast-xml-parser'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  CloudProviderInterface,
+  CloudProvider,
+  ResourceType,
+  ResourceStatus,
+  InfrastructureResource,
+  ResourceSpec,
+  ResourceCost,
+  ResourceHealth,
+  ProviderError,
+  ResourceNotFoundError,
+  UpdateResourceOptions,
+  AtlasError
+} from '../types'
+import { attachRetryPolicy, retryOptionsFromEnv } from '../utils/RetryPolicy'
+import { paginationOptionsFromEnv } from '../utils/Paginator'
+import { AwsCredentials, canonicalQueryString, signRequest } from '../utils/AwsSignature'
+
+/*
+ * Atlas resource types map onto AWS as:
+ *   droplet -> EC2 instance       volume -> EBS volume        firewall -> security group
+ *   vpc -> VPC (plus one subnet)  database -> RDS instance    load_balancer -> ELB (v2)
+ *
+ * provider_id is '<region>/<AWS ID>' (e.g. 'us-east-1/i-0abc...'), since AWS IDs
+ * are only meaningful within their region.
+ */
+
+// Specification fields each resource type can change in place
+export const AWS_UPDATABLE_FIELDS: Partial<Record<ResourceType, string[]>> = {
+  droplet: ['size', 'tags'],
+  volume: ['size_gigabytes', 'tags'],
+  database: ['size'],
+  firewall: ['tags'],
+  vpc: ['tags']
+}
+
+type AwsService = 'ec2' | 'rds' | 'elasticloadbalancing'
+
+const API_VERSIONS: Record<AwsService, string> = {
+  ec2: '2016-11-15',
+  rds: '2014-10-31',
+  elasticloadbalancing: '2015-12-01'
+}
+
+// EC2 resource type used in TagSpecification, for the Atlas types that live in EC2
+const EC2_TAG_TYPES: Partial<Record<ResourceType, string>> = {
+  droplet: 'instance',
+  volume: 'volume',
+  firewall: 'security-group',
+  vpc: 'vpc'
+}
+
+// Default image: Canonical's latest Ubuntu 22.04 AMI in the region
+const UBUNTU_OWNER_ID = '099720109477'
+const UBUNTU_IMAGE_NAME = 'ubuntu/images/hvm-ssd/ubuntu-jammy-22.04-amd64-server-*'
+
+const RDS_ENGINES: Record<string, string> = {
+  postgresql: 'postgres',
+  postgres: 'postgres',
+  mysql: 'mysql',
+  mariadb: 'mariadb'
+}
+
+// Firewall rules in the same form the DigitalOcean provider accepts
+interface FirewallRuleSpec {
+  protocol: 'tcp' | 'udp' | 'icmp'
+  ports?: string // '22', '8000-9000' or 'all'
+  sources?: { addresses?: string[] }
+  destinations?: { addresses?: string[] }
+}
+
+// Instance stops and volume detaches are polled until they finish
+const WAIT_POLL_INTERVAL_MS = 5000
+const WAIT_TIMEOUT_MS = 10 * 60 * 1000
+
+/**
+ * Endpoint for an AWS service. AWS_ENDPOINT_URL sends every service to one
+ * endpoint, such as the local stand-in from fake-aws-api.ts or LocalStack.
+ */
+export function awsEndpoint(service: AwsService, region: string, env: NodeJS.ProcessEnv = process.env): string {
+  return (env.AWS_ENDPOINT_URL || `https://${service}.${region}.amazonaws.com`).replace(/\/+$/, '')
+}
+
+/**
+ * Region used when a spec or provider ID does not name one (AWS_REGION, default us-east-1)
+ */
+export function awsDefaultRegion(env: NodeJS.ProcessEnv = process.env): string {
+  return env.AWS_REGION || env.AWS_DEFAULT_REGION || 'us-east-1'
+}
+
+/**
+ * Split a provider ID into region and AWS ID. Bare AWS IDs use the fallback region.
+ */
+export function parseAwsProviderId(providerId: string, fallbackRegion: string = awsDefaultRegion()): { region: string; id: string } {
+  const separator = providerId.indexOf('/')
+  if (separator === -1 || providerId.startsWith('arn:')) {
+    return { region: fallbackRegion, id: providerId }
+  }
+  return { region: providerId.slice(0, separator), id: providerId.slice(separator + 1) }
+}
+
+/**
+ * Flatten nested params into Query API form: { Tag: [{ Key: 'a' }] } -> { 'Tag.1.Key': 'a' }.
+ * Undefined values are dropped.
+ */
+export function flattenQueryParams(params: Record<string, any>, prefix = ''): Record<string, string> {
+  const flat: Record<string, string> = {}
+  for (const [key, value] of Object.entries(params)) {
+    const name = prefix ? `${prefix}.${key}` : key
+    if (value === undefined || value === null) {
+      continue
+    }
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (item !== null && typeof item === 'object') {
+          Object.assign(flat, flattenQueryParams(item, `${name}.${index + 1}`))
+        } else if (item !== undefined) {
+          flat[`${name}.${index + 1}`] = String(item)
+        }
+      })
+    } else if (typeof value === 'object') {
+      Object.assign(flat, flattenQueryParams(value, name))
+    } else {
+      flat[name] = String(value)
+    }
+  }
+  return flat
+}
+
+// EC2 wraps lists in <item>, RDS and ELB in <member> (RDS instances in <DBInstance>)
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  isArray: (name, jpath) => name === 'item' || name === 'member' || String(jpath).endsWith('DBInstances.DBInstance')
+})
+
+/**
+ * Items of a parsed XML list, however it is wrapped
+ */
+function listOf(value: any): any[] {
+  if (!value || typeof value !== 'object') {
+    return []
+  }
+  return value.item || value.member || value.DBInstance || []
+}
+
+/**
+ * AWS tags ([{ Key, Value }] or <tagSet>) as a { key: value } object, without the Name tag
+ */
+function parseAwsTags(tags: any): Record<string, string> {
+  return Object.fromEntries(listOf(tags)
+    .map((tag: any) => [tag.key ?? tag.Key, tag.value ?? tag.Value ?? ''])
+    .filter(([key]) => key && key !== 'Name'))
+}
+
+export class AWSProvider implements CloudProviderInterface {
+  name: CloudProvider = 'aws'
+  private client: AxiosInstance
+  private credentials: AwsCredentials
+  private defaultRegion: string
+  private pagination = paginationOptionsFromEnv()
+
+  regions = [
+    'us-east-1', 'us-east-2', 'us-west-1', 'us-west-2', 'ca-central-1',
+    'eu-west-1', 'eu-west-2', 'eu-central-1', 'eu-north-1',
+    'ap-south-1', 'ap-southeast-1', 'ap-southeast-2', 'ap-northeast-1', 'sa-east-1'
+  ]
+
+  resource_types: ResourceType[] = ['droplet', 'volume', 'database', 'load_balancer', 'firewall', 'vpc']
+
+  // On-demand pricing in us-east-1 (USD)
+  static readonly PRICING = {
+    // EC2 Linux instances (per hour)
+    instance: {
+      't3.nano': 0.0052,
+      't3.micro': 0.0104,
+      't3.small': 0.0208,
+      't3.medium': 0.0416,
+      't3.large': 0.0832,
+      't3.xlarge': 0.1664,
+      'm5.large': 0.096,
+      'm5.xlarge': 0.192,
+      'm5.2xlarge': 0.384,
+      'c5.large': 0.085,
+      'c5.xlarge': 0.17,
+      'r5.large': 0.126,
+      'r5.xlarge': 0.252,
+    },
+    // EBS volumes (per GB per month)
+    volume: {
+      'gp3': 0.08,
+      'gp2': 0.10,
+      'io1': 0.125,
+      'st1': 0.045,
+      'sc1': 0.015,
+    },
+    // RDS single-AZ PostgreSQL/MySQL instances (per hour; Multi-AZ doubles it)
+    database: {
+      'db.t3.micro': 0.018,
+      'db.t3.small': 0.036,
+      'db.t3.medium': 0.072,
+      'db.t3.large': 0.145,
+      'db.m5.large': 0.178,
+      'db.m5.xlarge': 0.356,
+      'db.r5.large': 0.25,
+    },
+    // RDS gp2 storage (per GB per month)
+    database_storage: 0.115,
+    // Application/Network Load Balancer (per hour, before capacity units)
+    load_balancer: 0.0225,
+  }
+
+  constructor(credentials: AwsCredentials, defaultRegion: string = awsDefaultRegion()) {
+    this.credentials = credentials
+    this.defaultRegion = defaultRegion
+    this.client = axios.create({ timeout: 30000 })
+
+    // Retries transient failures; registered first so it sees raw axios errors.
+    // Reads are sent as GET so they are retried on 5xx too.
+    attachRetryPolicy(this.client, retryOptionsFromEnv())
+
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        if (error instanceof ProviderError) {
+          throw error // Already converted by a retried request
+        }
+        if (error.response) {
+          const { status, data } = error.response
+          const parsed = typeof data === 'string' ? xmlParser.parse(data) : {}
+          const details = parsed.Response?.Errors?.Error || parsed.ErrorResponse?.Error || {}
+          const code: string = details.Code || ''
+          throw new ProviderError(
+            `AWS API Error: ${code ? `${code}: ` : ''}${details.Message || error.message}`,
+            'aws',
+            code.endsWith('NotFound') ? 404 : status
+          )
+        }
+        throw new ProviderError(error.message, 'aws')
+      }
+    )
+  }
+
+  /**
+   * Call a Query API action and return its result element. Reads go as signed GETs,
+   * everything else as signed form POSTs.
+   */
+  private async call(
+    service: AwsService,
+    region: string,
+    action: string,
+    params: Record<string, any> = {},
+    options: { read?: boolean } = {}
+  ): Promise<any> {
+    const query = canonicalQueryString({ Action: action, Version: API_VERSIONS[service], ...flattenQueryParams(params) })
+    const endpoint = `${awsEndpoint(service, region)}/`
+
+    const response = options.read
+      ? await this.client.get(`${endpoint}?${query}`, {
+        headers: signRequest({ method: 'GET', url: `${endpoint}?${query}` }, this.credentials, region, service),
+        responseType: 'text'
+      })
+      : await this.client.post(endpoint, query, {
+        headers: signRequest({
+          method: 'POST',
+          url: endpoint,
+          headers: { 'content-type': 'application/x-www-form-urlencoded; charset=utf-8' },
+          body: query
+        }, this.credentials, region, service),
+        responseType: 'text'
+      })
+
+    const body = xmlParser.parse(response.data)[`${action}Response`] || {}
+    return body[`${action}Result`] ?? body
+  }
+
+  /**
+   * Every item from a paginated Describe action, following nextToken (EC2) or Marker (RDS, ELB)
+   */
+  private async describeAll(
+    service: AwsService,
+    region: string,
+    action: string,
+    params: Record<string, any>,
+    items: (result: any) => any[]
+  ): Promise<any[]> {
+    const collected: any[] = []
+    const ec2 = service === 'ec2'
+    const pageSize = ec2
+      ? Math.min(Math.max(this.pagination.pageSize, 5), 1000)
+      : Math.min(Math.max(this.pagination.pageSize, 20), 100)
+    let token: string | undefined
+
+    for (let page = 1; ; page++) {
+      if (page > this.pagination.maxPages) {
+        console.warn(`[AWS] Stopped ${action} after ${this.pagination.maxPages} pages (${collected.length} items)`)
+        break
+      }
+
+      const result = await this.call(service, region, action, {
+        ...params,
+        ...(ec2 ? { MaxResults: pageSize, NextToken: token } : { MaxRecords: service === 'rds' ? pageSize : undefined, PageSize: service === 'rds' ? undefined : pageSize, Marker: token })
+      }, { read: true })
+      collected.push(...items(result))
+
+      token = result.nextToken || result.NextToken || result.Marker || result.NextMarker || undefined
+      if (!token) {
+        break
+      }
+    }
+
+    return collected
+  }
+
+  private ec2(region: string, action: string, params?: Record<string, any>, read = false): Promise<any> {
+    return this.call('ec2', region, action, params, { read })
+  }
+
+  private providerId(region: string, id: string): string {
+    return `${region}/${id}`
+  }
+
+  /**
+   * AWS ID from a value that may be a provider ID (e.g. a resolved ${web.provider_id} reference)
+   */
+  private awsId(value: string | number): string {
+    return parseAwsProviderId(String(value), this.defaultRegion).id
+  }
+
+  async authenticate(credentials: Record<string, string>): Promise<boolean> {
+    try {
+      await this.ec2(this.defaultRegion, 'DescribeAccountAttributes', {}, true)
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  async createResource(type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource> {
+    const region = spec.region || this.defaultRegion
+    switch (type) {
+      case 'droplet':
+        return await this.createInstance(spec, region)
+      case 'volume':
+        return await this.createVolume(spec, region)
+      case 'database':
+        return await this.createDatabase(spec, region)
+      case 'load_balancer':
+        return await this.createLoadBalancer(spec, region)
+      case 'firewall':
+        return await this.createSecurityGroup(spec, region)
+      case 'vpc':
+        return await this.createVPC(spec, region)
+      default:
+        throw new ProviderError(`Resource type ${type} not supported`, 'aws')
+    }
+  }
+
+  private async createInstance(spec: ResourceSpec, region: string): Promise<InfrastructureResource> {
+    const name = spec.name || `instance-${Date.now()}`
+    const instanceType = spec.size || 't3.micro'
+    const imageId = spec.image?.startsWith('ami-') ? spec.image : await this.defaultImage(region)
+    const subnetId = spec.subnet_id
+      ? this.awsId(spec.subnet_id)
+      : spec.vpc_uuid ? (await this.subnetsOf(region, this.awsId(spec.vpc_uuid)))[0] : undefined
+
+    const result = await this.ec2(region, 'RunInstances', {
+      ImageId: imageId,
+      InstanceType: instanceType,
+      MinCount: 1,
+      MaxCount: 1,
+      KeyName: spec.ssh_keys?.[0],
+      SubnetId: subnetId,
+      SecurityGroupId: (spec.security_group_ids || []).map((id: string) => this.awsId(id)),
+      Monitoring: spec.monitoring ? { Enabled: true } : undefined,
+      UserData: spec.user_data ? Buffer.from(spec.user_data).toString('base64') : undefined,
+      TagSpecification: [this.tagSpecification('instance', name, spec.tags)]
+    })
+    const instance = listOf(result.instancesSet)[0]
+
+    const hourlyCost = this.calculateInstanceCost(instanceType)
+    return this.buildResource('droplet', name, this.providerId(region, instance.instanceId), 'creating', undefined, hourlyCost, spec)
+  }
+
+  private async createVolume(spec: ResourceSpec, region: string): Promise<InfrastructureResource> {
+    const name = spec.name || `volume-${Date.now()}`
+    const size = spec.size_gigabytes || 10
+    const volumeType = spec.volume_type || 'gp3'
+    const instanceId = spec.droplet_id ? this.awsId(spec.droplet_id) : undefined
+
+    // A volume can only attach to an instance in its own availability zone
+    const zone = spec.availability_zone
+      || (instanceId ? (await this.describeInstance(region, instanceId))?.placement?.availabilityZone : undefined)
+      || `${region}a`
+
+    const volume = await this.ec2(region, 'CreateVolume', {
+      AvailabilityZone: zone,
+      Size: size,
+      VolumeType: volumeType,
+      TagSpecification: [this.tagSpecification('volume', name, spec.tags)]
+    })
+
+    if (instanceId) {
+      await this.waitFor(`volume ${volume.volumeId} to become available`, async () =>
+        (await this.describeVolume(region, volume.volumeId))?.status === 'available')
+      await this.ec2(region, 'AttachVolume', {
+        VolumeId: volume.volumeId,
+        InstanceId: instanceId,
+        Device: spec.device || '/dev/sdf'
+      })
+    }
+
+    const hourlyCost = size * this.volumePrice(volumeType) / (24 * 30)
+    return this.buildResource('volume', name, this.providerId(region, volume.volumeId), 'creating', undefined, hourlyCost, spec)
+  }
+
+  private async createDatabase(spec: ResourceSpec, region: string): Promise<InfrastructureResource> {
+    const name = spec.name || `db-${Date.now()}`
+    const engine = RDS_ENGINES[spec.engine || 'postgresql']
+    if (!engine) {
+      throw new ProviderError(`Database engine ${spec.engine} is not supported on RDS`, 'aws')
+    }
+
+    const instanceClass = spec.size || 'db.t3.micro'
+    const storage = spec.size_gigabytes || 20
+    const multiAz = (spec.num_nodes || 1) > 1
+
+    await this.call('rds', region, 'CreateDBInstance', {
+      DBInstanceIdentifier: name,
+      Engine: engine,
+      EngineVersion: spec.version,
+      DBInstanceClass: instanceClass,
+      AllocatedStorage: storage,
+      MasterUsername: spec.master_username || 'atlas',
+      ManageMasterUserPassword: true, // Password lives in Secrets Manager, never in Atlas
+      MultiAZ: multiAz,
+      'Tags.member': this.tagList(name, spec.tags)
+    })
+
+    const hourlyCost = this.calculateDatabaseCost(instanceClass, storage, multiAz)
+    return this.buildResource('database', name, this.providerId(region, name), 'creating', undefined, hourlyCost, spec)
+  }
+
+  private async createLoadBalancer(spec: ResourceSpec, region: string): Promise<InfrastructureResource> {
+    const name = spec.name || `lb-${Date.now()}`
+    const subnets = spec.subnet_ids
+      ? spec.subnet_ids.map((id: string) => this.awsId(id))
+      : spec.vpc_uuid ? await this.subnetsOf(region, this.awsId(spec.vpc_uuid)) : []
+    if (subnets.length === 0) {
+      throw new ProviderError('An AWS load balancer needs subnet_ids or a vpc_uuid with subnets', 'aws')
+    }
+
+    const result = await this.call('elasticloadbalancing', region, 'CreateLoadBalancer', {
+      Name: name,
+      Type: spec.load_balancer_type || 'application',
+      Scheme: spec.internal ? 'internal' : 'internet-facing',
+      'Subnets.member': subnets,
+      'SecurityGroups.member': (spec.security_group_ids || []).map((id: string) => this.awsId(id)),
+      'Tags.member': this.tagList(name, spec.tags)
+    })
+    const loadBalancer = listOf(result.LoadBalancers)[0]
+
+    // One target group and listener per forwarding rule, forwarding to the given instances
+    const rules = spec.forwarding_rules || [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 80 }]
+    for (const rule of rules) {
+      const targetGroup = listOf((await this.call('elasticloadbalancing', region, 'CreateTargetGroup', {
+        Name: `${name}-${rule.target_port}`.slice(0, 32),
+        Protocol: rule.target_protocol.toUpperCase(),
+        Port: rule.target_port,
+        VpcId: loadBalancer.VpcId,
+        TargetType: 'instance',
+        HealthCheckPath: spec.health_check?.path,
+        HealthCheckIntervalSeconds: spec.health_check?.check_interval_seconds,
+        HealthyThresholdCount: spec.health_check?.healthy_threshold,
+        UnhealthyThresholdCount: spec.health_check?.unhealthy_threshold
+      })).TargetGroups)[0]
+
+      if (spec.droplet_ids?.length) {
+        await this.call('elasticloadbalancing', region, 'RegisterTargets', {
+          TargetGroupArn: targetGroup.TargetGroupArn,
+          'Targets.member': spec.droplet_ids.map((id: string | number) => ({ Id: this.awsId(id) }))
+        })
+      }
+
+      await this.call('elasticloadbalancing', region, 'CreateListener', {
+        LoadBalancerArn: loadBalancer.LoadBalancerArn,
+        Protocol: rule.entry_protocol.toUpperCase(),
+        Port: rule.entry_port,
+        'Certificates.member': rule.certificate_id ? [{ CertificateArn: rule.certificate_id }] : undefined,
+        'DefaultActions.member': [{ Type: 'forward', TargetGroupArn: targetGroup.TargetGroupArn }]
+      })
+    }
+
+    return this.buildResource(
+      'load_balancer', name, this.providerId(region, loadBalancer.LoadBalancerArn), 'creating',
+      undefined, AWSProvider.PRICING.load_balancer, spec
+    )
+  }
+
+  private async createSecurityGroup(spec: ResourceSpec, region: string): Promise<InfrastructureResource> {
+    const name = spec.name || `firewall-${Date.now()}`
+    const group = await this.ec2(region, 'CreateSecurityGroup', {
+      GroupName: name,
+      GroupDescription: spec.description || `Atlas firewall ${name}`,
+      VpcId: spec.vpc_uuid ? this.awsId(spec.vpc_uuid) : undefined,
+      TagSpecification: [this.tagSpecification('security-group', name, spec.tags)]
+    })
+
+    const inbound: FirewallRuleSpec[] = spec.inbound_rules || ['22', '80', '443'].map(ports => ({
+      protocol: 'tcp' as const,
+      ports,
+      sources: { addresses: ['0.0.0.0/0', '::/0'] }
+    }))
+    await this.ec2(region, 'AuthorizeSecurityGroupIngress', {
+      GroupId: group.groupId,
+      IpPermissions: inbound.map(rule => this.ipPermission(rule, rule.sources?.addresses))
+    })
+
+    // New groups allow all outbound traffic; replace that only when rules are given
+    if (spec.outbound_rules) {
+      await this.ec2(region, 'RevokeSecurityGroupEgress', {
+        GroupId: group.groupId,
+        IpPermissions: [{ IpProtocol: '-1', IpRanges: [{ CidrIp: '0.0.0.0/0' }] }]
+      })
+      await this.ec2(region, 'AuthorizeSecurityGroupEgress', {
+        GroupId: group.groupId,
+        IpPermissions: spec.outbound_rules.map((rule: FirewallRuleSpec) => this.ipPermission(rule, rule.destinations?.addresses))
+      })
+    }
+
+    for (const instanceId of spec.droplet_ids || []) {
+      await this.addSecurityGroup(region, this.awsId(instanceId), group.groupId)
+    }
+
+    return this.buildResource('firewall', name, this.providerId(region, group.groupId), 'active', undefined, 0, spec)
+  }
+
+  private async createVPC(spec: ResourceSpec, region: string): Promise<InfrastructureResource> {
+    const name = spec.name || `vpc-${Date.now()}`
+    const cidr = spec.ip_range || '10.0.0.0/16'
+
+    const { vpc } = await this.ec2(region, 'CreateVpc', {
+      CidrBlock: cidr,
+      TagSpecification: [this.tagSpecification('vpc', name, spec.tags)]
+    })
+
+    // Instances and load balancers are placed in subnets, so start with one spanning the VPC
+    await this.ec2(region, 'CreateSubnet', {
+      VpcId: vpc.vpcId,
+      CidrBlock: spec.subnet_cidr || cidr,
+      AvailabilityZone: spec.availability_zone,
+      TagSpecification: [this.tagSpecification('subnet', name, spec.tags)]
+    })
+
+    return this.buildResource('vpc', name, this.providerId(region, vpc.vpcId), 'active', undefined, 0, spec)
+  }
+
+  /**
+   * Convert a DigitalOcean-style firewall rule ({ protocol, ports: '22' | '8000-9000' | 'all' })
+   * into an EC2 IpPermission
+   */
+  private ipPermission(rule: FirewallRuleSpec, addresses: string[] = ['0.0.0.0/0', '::/0']): Record<string, any> {
+    const allPorts = !rule.ports || rule.ports === 'all' || rule.protocol === 'icmp'
+    const [from, to] = allPorts ? [undefined, undefined] : rule.ports!.split('-').map(Number)
+
+    return {
+      IpProtocol: rule.protocol,
+      FromPort: allPorts ? (rule.protocol === 'icmp' ? -1 : 0) : from,
+      ToPort: allPorts ? (rule.protocol === 'icmp' ? -1 : 65535) : (to ?? from),
+      IpRanges: addresses.filter(address => !address.includes(':')).map(address => ({ CidrIp: address })),
+      Ipv6Ranges: addresses.filter(address => address.includes(':')).map(address => ({ CidrIpv6: address }))
+    }
+  }
+
+  private async addSecurityGroup(region: string, instanceId: string, groupId: string): Promise<void> {
+    const instance = await this.describeInstance(region, instanceId)
+    if (!instance) {
+      throw new ResourceNotFoundError(instanceId)
+    }
+    const groups = listOf(instance.groupSet).map((group: any) => group.groupId)
+    await this.ec2(region, 'ModifyInstanceAttribute', {
+      InstanceId: instanceId,
+      GroupId: [...new Set([...groups, groupId])]
+    })
+  }
+
+  private async defaultImage(region: string): Promise<string> {
+    const result = await this.ec2(region, 'DescribeImages', {
+      Owner: [UBUNTU_OWNER_ID],
+      Filter: [{ Name: 'name', Value: [UBUNTU_IMAGE_NAME] }, { Name: 'state', Value: ['available'] }]
+    }, true)
+
+    const newest = listOf(result.imagesSet).sort((a: any, b: any) => String(b.creationDate).localeCompare(String(a.creationDate)))[0]
+    if (!newest) {
+      throw new ProviderError(`No Ubuntu 22.04 image found in ${region}; pass an AMI ID as image`, 'aws')
+    }
+    return newest.imageId
+  }
+
+  private async subnetsOf(region: string, vpcId: string): Promise<string[]> {
+    const result = await this.ec2(region, 'DescribeSubnets', { Filter: [{ Name: 'vpc-id', Value: [vpcId] }] }, true)
+    return listOf(result.subnetSet).map((subnet: any) => subnet.subnetId)
+  }
+
+  private tagSpecification(resourceType: string, name: string, tags: Record<string, string> = {}): Record<string, any> {
+    return { ResourceType: resourceType, Tag: this.tagList(name, tags) }
+  }
+
+  private tagList(name: string, tags: Record<string, string> = {}): Array<{ Key: string; Value: string }> {
+    return [{ Key: 'Name', Value: name }, ...Object.entries(tags).map(([Key, Value]) => ({ Key, Value: String(Value) }))]
+  }
+
+  async updateResource(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    options: UpdateResourceOptions = {}
+  ): Promise<InfrastructureResource> {
+    const type = options.type || 'droplet'
+    const current = options.current || {}
+    const onStep = options.onStep || (() => {})
+    const { region, id } = parseAwsProviderId(providerId, this.defaultRegion)
+
+    const allowed = AWS_UPDATABLE_FIELDS[type] || []
+    const unsupported = Object.keys(spec).filter(field => !allowed.includes(field))
+    if (unsupported.length > 0) {
+      throw new AtlasError(
+        `Cannot change ${unsupported.join(', ')} on ${type} in place (supported: ${allowed.join(', ') || 'none'})`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    switch (type) {
+      case 'droplet':
+        if (spec.size) {
+          await this.resizeInstance(region, id, spec.size, onStep)
+        }
+        break
+      case 'volume':
+        if (spec.size_gigabytes) {
+          await onStep(`Resize volume to ${spec.size_gigabytes} GB`)
+          await this.ec2(region, 'ModifyVolume', { VolumeId: id, Size: spec.size_gigabytes })
+        }
+        break
+      case 'database':
+        if (spec.size) {
+          await onStep(`Change database instance class to ${spec.size}`)
+          await this.call('rds', region, 'ModifyDBInstance', {
+            DBInstanceIdentifier: id,
+            DBInstanceClass: spec.size,
+            ApplyImmediately: true
+          })
+        }
+        break
+    }
+
+    if (spec.tags && EC2_TAG_TYPES[type]) {
+      await this.updateTags(region, id, current.tags || {}, spec.tags, onStep)
+    }
+
+    const live = await this.getResource(providerId, type)
+    if (!live) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return { ...live, specifications: { ...current, ...spec } }
+  }
+
+  /**
+   * Stop, change the instance type and start again (only if it was running before)
+   */
+  private async resizeInstance(
+    region: string,
+    instanceId: string,
+    instanceType: string,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const instance = await this.describeInstance(region, instanceId)
+    const wasRunning = instance?.instanceState?.name === 'running'
+
+    if (wasRunning) {
+      await onStep('Stop instance')
+      await this.ec2(region, 'StopInstances', { InstanceId: [instanceId] })
+      await this.waitFor(`instance ${instanceId} to stop`, async () =>
+        (await this.describeInstance(region, instanceId))?.instanceState?.name === 'stopped')
+    }
+
+    await onStep(`Change instance type to ${instanceType}`)
+    await this.ec2(region, 'ModifyInstanceAttribute', { InstanceId: instanceId, InstanceType: { Value: instanceType } })
+
+    if (wasRunning) {
+      await onStep('Start instance')
+      await this.ec2(region, 'StartInstances', { InstanceId: [instanceId] })
+    }
+  }
+
+  private async updateTags(
+    region: string,
+    resourceId: string,
+    before: Record<string, string>,
+    after: Record<string, string>,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const removed = Object.keys(before).filter(key => !(key in after))
+    const changed = Object.entries(after).filter(([key, value]) => before[key] !== value)
+
+    if (removed.length > 0) {
+      await onStep(`Remove tags ${removed.join(', ')}`)
+      await this.ec2(region, 'DeleteTags', { ResourceId: [resourceId], Tag: removed.map(Key => ({ Key })) })
+    }
+    if (changed.length > 0) {
+      await onStep(`Set tags ${changed.map(([key]) => key).join(', ')}`)
+      await this.ec2(region, 'CreateTags', {
+        ResourceId: [resourceId],
+        Tag: changed.map(([Key, Value]) => ({ Key, Value: String(Value) }))
+      })
+    }
+  }
+
+  /**
+   * Delete a resource. A resource that is already gone counts as deleted,
+   * so destroy can be retried safely.
+   */
+  async deleteResource(providerId: string, type: ResourceType = 'droplet'): Promise<void> {
+    const { region, id } = parseAwsProviderId(providerId, this.defaultRegion)
+    try {
+      switch (type) {
+        case 'droplet':
+          // Attached EBS volumes are detached by termination and kept for their own destroy
+          await this.ec2(region, 'TerminateInstances', { InstanceId: [id] })
+          break
+        case 'volume':
+          await this.detachVolume(region, id)
+          await this.ec2(region, 'DeleteVolume', { VolumeId: id })
+          break
+        case 'database':
+          await this.call('rds', region, 'DeleteDBInstance', {
+            DBInstanceIdentifier: id,
+            SkipFinalSnapshot: true,
+            DeleteAutomatedBackups: true
+          })
+          break
+        case 'load_balancer':
+          await this.deleteLoadBalancer(region, id)
+          break
+        case 'firewall':
+          await this.ec2(region, 'DeleteSecurityGroup', { GroupId: id })
+          break
+        case 'vpc':
+          for (const subnetId of await this.subnetsOf(region, id)) {
+            await this.ec2(region, 'DeleteSubnet', { SubnetId: subnetId })
+          }
+          await this.ec2(region, 'DeleteVpc', { VpcId: id })
+          break
+        default:
+          throw new ProviderError(`Resource type ${type} not supported`, 'aws')
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return
+      }
+      throw error
+    }
+  }
+
+  private async detachVolume(region: string, volumeId: string): Promise<void> {
+    const volume = await this.describeVolume(region, volumeId)
+    if (!volume || volume.status !== 'in-use') {
+      return
+    }
+
+    await this.ec2(region, 'DetachVolume', { VolumeId: volumeId })
+    await this.waitFor(`volume ${volumeId} to detach`, async () =>
+      (await this.describeVolume(region, volumeId))?.status !== 'in-use')
+  }
+
+  /**
+   * Delete the load balancer (which removes its listeners), then the target groups they forwarded to
+   */
+  private async deleteLoadBalancer(region: string, arn: string): Promise<void> {
+    const listeners = listOf((await this.call('elasticloadbalancing', region, 'DescribeListeners', { LoadBalancerArn: arn }, { read: true })).Listeners)
+    const targetGroups = new Set<string>(listeners.flatMap((listener: any) =>
+      listOf(listener.DefaultActions).map((action: any) => action.TargetGroupArn).filter(Boolean)))
+
+    await this.call('elasticloadbalancing', region, 'DeleteLoadBalancer', { LoadBalancerArn: arn })
+
+    for (const targetGroupArn of targetGroups) {
+      try {
+        await this.call('elasticloadbalancing', region, 'DeleteTargetGroup', { TargetGroupArn: targetGroupArn })
+      } catch (error) {
+        console.warn(`[AWS] Could not delete target group ${targetGroupArn}:`, error)
+      }
+    }
+  }
+
+  async getResource(providerId: string, type: ResourceType = 'droplet'): Promise<InfrastructureResource | null> {
+    const { region, id } = parseAwsProviderId(providerId, this.defaultRegion)
+    try {
+      switch (type) {
+        case 'droplet': {
+          const instance = await this.describeInstance(region, id)
+          if (!instance || instance.instanceState?.name === 'terminated') {
+            return null
+          }
+          return this.instanceResource(region, instance)
+        }
+        case 'volume': {
+          const volume = await this.describeVolume(region, id)
+          if (!volume || volume.status === 'deleted') {
+            return null
+          }
+          return this.volumeResource(region, volume)
+        }
+        case 'database': {
+          const result = await this.call('rds', region, 'DescribeDBInstances', { DBInstanceIdentifier: id }, { read: true })
+          const database = listOf(result.DBInstances)[0]
+          return database ? this.databaseResource(region, database) : null
+        }
+        case 'load_balancer': {
+          const result = await this.call('elasticloadbalancing', region, 'DescribeLoadBalancers', { 'LoadBalancerArns.member': [id] }, { read: true })
+          const loadBalancer = listOf(result.LoadBalancers)[0]
+          if (!loadBalancer) {
+            return null
+          }
+          const state = loadBalancer.State?.Code
+          const resource = this.buildResource(
+            'load_balancer', loadBalancer.LoadBalancerName, providerId,
+            state === 'active' ? 'active' : state === 'failed' ? 'error' : 'creating',
+            loadBalancer.CreatedTime, AWSProvider.PRICING.load_balancer
+          )
+          return { ...resource, specifications: { dns_name: loadBalancer.DNSName } }
+        }
+        case 'firewall': {
+          const result = await this.ec2(region, 'DescribeSecurityGroups', { GroupId: [id] }, true)
+          const group = listOf(result.securityGroupInfo)[0]
+          if (!group) {
+            return null
+          }
+          const resource = this.buildResource('firewall', group.groupName, providerId, 'active', undefined, 0)
+          return { ...resource, specifications: { tags: parseAwsTags(group.tagSet) } }
+        }
+        case 'vpc': {
+          const result = await this.ec2(region, 'DescribeVpcs', { VpcId: [id] }, true)
+          const vpc = listOf(result.vpcSet)[0]
+          if (!vpc) {
+            return null
+          }
+          const name = listOf(vpc.tagSet).find((tag: any) => tag.key === 'Name')?.value || vpc.vpcId
+          const resource = this.buildResource('vpc', name, providerId, vpc.state === 'available' ? 'active' : 'creating', undefined, 0)
+          return { ...resource, specifications: { ip_range: vpc.cidrBlock, tags: parseAwsTags(vpc.tagSet) } }
+        }
+        default:
+          return null
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private async describeInstance(region: string, instanceId: string): Promise<any | null> {
+    const result = await this.ec2(region, 'DescribeInstances', { InstanceId: [instanceId] }, true)
+    return listOf(result.reservationSet).flatMap((reservation: any) => listOf(reservation.instancesSet))[0] || null
+  }
+
+  private async describeVolume(region: string, volumeId: string): Promise<any | null> {
+    const result = await this.ec2(region, 'DescribeVolumes', { VolumeId: [volumeId] }, true)
+    return listOf(result.volumeSet)[0] || null
+  }
+
+  private instanceResource(region: string, instance: any): InfrastructureResource {
+    const name = listOf(instance.tagSet).find((tag: any) => tag.key === 'Name')?.value || instance.instanceId
+    const resource = this.buildResource(
+      'droplet', name, this.providerId(region, instance.instanceId), this.mapInstanceStatus(instance.instanceState?.name),
+      instance.launchTime, this.calculateInstanceCost(instance.instanceType)
+    )
+
+    return {
+      ...resource,
+      specifications: {
+        region,
+        size: instance.instanceType,
+        image: instance.imageId,
+        availability_zone: instance.placement?.availabilityZone,
+        tags: parseAwsTags(instance.tagSet)
+      },
+      public_ip: instance.ipAddress || undefined,
+      private_ip: instance.privateIpAddress || undefined
+    }
+  }
+
+  private volumeResource(region: string, volume: any): InfrastructureResource {
+    const name = listOf(volume.tagSet).find((tag: any) => tag.key === 'Name')?.value || volume.volumeId
+    const size = Number(volume.size)
+    const status: ResourceStatus = volume.status === 'creating' ? 'creating'
+      : volume.status === 'deleting' ? 'deleting'
+        : volume.status === 'error' ? 'error' : 'active'
+    const resource = this.buildResource(
+      'volume', name, this.providerId(region, volume.volumeId), status,
+      volume.createTime, size * this.volumePrice(volume.volumeType) / (24 * 30)
+    )
+
+    return {
+      ...resource,
+      specifications: { region, size_gigabytes: size, availability_zone: volume.availabilityZone, tags: parseAwsTags(volume.tagSet) }
+    }
+  }
+
+  private databaseResource(region: string, database: any): InfrastructureResource {
+    const status: ResourceStatus = database.DBInstanceStatus === 'available' ? 'active'
+      : database.DBInstanceStatus === 'deleting' ? 'deleting'
+        : database.DBInstanceStatus === 'failed' ? 'error'
+          : database.DBInstanceStatus === 'creating' ? 'creating' : 'updating'
+    const multiAz = database.MultiAZ === 'true'
+    const resource = this.buildResource(
+      'database', database.DBInstanceIdentifier, this.providerId(region, database.DBInstanceIdentifier), status,
+      database.InstanceCreateTime, this.calculateDatabaseCost(database.DBInstanceClass, Number(database.AllocatedStorage) || 20, multiAz)
+    )
+
+    return {
+      ...resource,
+      specifications: {
+        region,
+        engine: database.Engine,
+        version: database.EngineVersion,
+        size: database.DBInstanceClass,
+        num_nodes: multiAz ? 2 : 1,
+        host: database.Endpoint?.Address,
+        port: database.Endpoint?.Port ? Number(database.Endpoint.Port) : undefined
+      }
+    }
+  }
+
+  async listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]> {
+    const resources: InfrastructureResource[] = []
+    const region = filters?.region || this.defaultRegion
+
+    // Supported filters: region, tag_name ('key:value', e.g. 'atlas_operation:<id>')
+    const tagFilter = filters?.tag_name
+      ? [{ Name: `tag:${String(filters.tag_name).split(':')[0]}`, Value: [String(filters.tag_name).split(':').slice(1).join(':')] }]
+      : []
+
+    try {
+      const reservations = await this.describeAll('ec2', region, 'DescribeInstances', {
+        Filter: [...tagFilter, { Name: 'instance-state-name', Value: ['pending', 'running', 'stopping', 'stopped'] }]
+      }, result => listOf(result.reservationSet))
+      for (const instance of reservations.flatMap((reservation: any) => listOf(reservation.instancesSet))) {
+        resources.push(this.instanceResource(region, instance))
+      }
+
+      const volumes = await this.describeAll('ec2', region, 'DescribeVolumes', { Filter: tagFilter }, result => listOf(result.volumeSet))
+      for (const volume of volumes) {
+        resources.push(this.volumeResource(region, volume))
+      }
+
+      const databases = await this.describeAll('rds', region, 'DescribeDBInstances', {}, result => listOf(result.DBInstances))
+      for (const database of databases) {
+        const tags = parseAwsTags(database.TagList)
+        const [key, ...value] = filters?.tag_name ? String(filters.tag_name).split(':') : []
+        if (!key || tags[key] === value.join(':')) {
+          resources.push(this.databaseResource(region, database))
+        }
+      }
+    } catch (error) {
+      console.error('Error listing resources:', error)
+    }
+
+    return resources
+  }
+
+  async getResourceCost(providerId: string): Promise<ResourceCost> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    const uptimeHours = Math.max(1, (Date.now() - new Date(resource.created_at).getTime()) / (1000 * 60 * 60))
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      resource_name: resource.name,
+      hourly_cost: resource.hourly_cost,
+      daily_cost: resource.hourly_cost * 24,
+      monthly_cost: resource.monthly_cost,
+      total_cost: resource.hourly_cost * uptimeHours,
+      uptime_hours: uptimeHours
+    }
+  }
+
+  async estimateCost(spec: ResourceSpec): Promise<number> {
+    if (spec.size?.startsWith('db.')) {
+      return this.calculateDatabaseCost(spec.size, spec.size_gigabytes || 20, (spec.num_nodes || 1) > 1) * 24 * 30
+    }
+
+    if (spec.size) {
+      return this.calculateInstanceCost(spec.size) * 24 * 30
+    }
+
+    if (spec.size_gigabytes) {
+      return spec.size_gigabytes * this.volumePrice(spec.volume_type || 'gp3')
+    }
+
+    if (spec.forwarding_rules) {
+      return AWSProvider.PRICING.load_balancer * 24 * 30
+    }
+
+    return 15.00 // Default estimate
+  }
+
+  async checkResourceHealth(providerId: string): Promise<ResourceHealth> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      status: resource.status === 'active' ? 'healthy' : 'warning',
+      last_check: new Date().toISOString(),
+      uptime_percentage: resource.status === 'active' ? 100 : 0
+    }
+  }
+
+  private async waitFor(description: string, done: () => Promise<boolean>): Promise<void> {
+    const deadline = Date.now() + WAIT_TIMEOUT_MS
+    while (!(await done())) {
+      if (Date.now() > deadline) {
+        throw new ProviderError(`Timed out waiting for ${description}`, 'aws')
+      }
+      await new Promise(resolve => setTimeout(resolve, WAIT_POLL_INTERVAL_MS))
+    }
+  }
+
+  private buildResource(
+    type: ResourceType,
+    name: string,
+    providerId: string,
+    status: ResourceStatus,
+    createdAt: string | undefined,
+    hourlyCost: number,
+    specifications: ResourceSpec = {}
+  ): InfrastructureResource {
+    return {
+      id: uuidv4(),
+      type,
+      name,
+      provider_id: providerId,
+      specifications,
+      status,
+      created_at: createdAt || new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      dependencies: [],
+      dependents: [],
+      hourly_cost: hourlyCost,
+      monthly_cost: hourlyCost * 24 * 30
+    }
+  }
+
+  private calculateInstanceCost(instanceType: string): number {
+    return AWSProvider.PRICING.instance[instanceType as keyof typeof AWSProvider.PRICING.instance] || 0.0104
+  }
+
+  private calculateDatabaseCost(instanceClass: string, storageGigabytes: number, multiAz: boolean): number {
+    const hourly = AWSProvider.PRICING.database[instanceClass as keyof typeof AWSProvider.PRICING.database] || 0.018
+    return hourly * (multiAz ? 2 : 1) + storageGigabytes * AWSProvider.PRICING.database_storage / (24 * 30)
+  }
+
+  private volumePrice(volumeType: string): number {
+    return AWSProvider.PRICING.volume[volumeType as keyof typeof AWSProvider.PRICING.volume] || 0.08
+  }
+
+  private mapInstanceStatus(state: string): ResourceStatus {
+    switch (state) {
+      case 'pending': return 'creating'
+      case 'running': return 'active'
+      case 'stopping':
+      case 'stopped': return 'active' // Stopped instances still exist, like powered-off droplets
+      case 'shutting-down': return 'deleting'
+      case 'terminated': return 'deleted'
+      default: return 'active'
+    }
+  }
+}
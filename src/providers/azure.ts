@@ -0,0 +1,1048 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  CloudProviderInterface,
+  CloudProvider,
+  ResourceType,
+  ResourceStatus,
+  InfrastructureResource,
+  ResourceSpec,
+  ResourceCost,
+  ResourceHealth,
+  ProviderError,
+  ResourceNotFoundError,
+  UpdateResourceOptions,
+  CreateResourceOptions,
+  AtlasError
+} from '../types'
+import { attachRetryPolicy, retryOptionsFromEnv } from '../utils/RetryPolicy'
+import { paginationOptionsFromEnv } from '../utils/Paginator'
+import { AzureClientCredentials, AzureTokenSource } from '../utils/AzureCredentials'
+
+/*
+ * Atlas resource types map onto Azure as:
+ *   droplet -> virtual machine (plus NIC and public IP)   volume -> managed disk
+ *   vpc -> virtual network (plus one subnet)              firewall -> network security group
+ *   database -> Azure Database for PostgreSQL flexible server
+ *   load_balancer -> Standard load balancer (plus public IP)
+ *
+ * Each infrastructure gets its own resource group, atlas-<infrastructure id>,
+ * which is removed once the infrastructure is destroyed. provider_id is the
+ * full Azure Resource Manager ID, so it names the resource group too.
+ */
+
+// Specification fields each resource type can change in place
+export const AZURE_UPDATABLE_FIELDS: Partial<Record<ResourceType, string[]>> = {
+  droplet: ['size', 'tags'],
+  volume: ['size_gigabytes', 'tags'],
+  database: ['size', 'size_gigabytes', 'tags'],
+  load_balancer: ['tags'],
+  firewall: ['tags'],
+  vpc: ['tags']
+}
+
+const API_VERSIONS = {
+  resources: '2021-04-01',
+  compute: '2023-03-01',
+  disks: '2023-01-02',
+  network: '2023-05-01',
+  postgres: '2022-12-01'
+}
+
+// Azure resource type of each Atlas type, for listing
+const ARM_TYPES: Record<string, ResourceType> = {
+  'microsoft.compute/virtualmachines': 'droplet',
+  'microsoft.compute/disks': 'volume',
+  'microsoft.dbforpostgresql/flexibleservers': 'database',
+  'microsoft.network/loadbalancers': 'load_balancer',
+  'microsoft.network/networksecuritygroups': 'firewall',
+  'microsoft.network/virtualnetworks': 'vpc'
+}
+
+const UBUNTU_IMAGE = { publisher: 'Canonical', offer: '0001-com-ubuntu-server-jammy', sku: '22_04-lts-gen2', version: 'latest' }
+
+// Network for VMs created without a vpc_uuid, one per resource group
+const DEFAULT_NETWORK = 'atlas-vnet'
+
+// Firewall rules in the same form the DigitalOcean provider accepts
+interface FirewallRuleSpec {
+  protocol: 'tcp' | 'udp' | 'icmp'
+  ports?: string // '22', '8000-9000' or 'all'
+  sources?: { addresses?: string[] }
+  destinations?: { addresses?: string[] }
+}
+
+// Long-running operations are polled until they finish
+const LRO_POLL_INTERVAL_MS = 2000
+const LRO_TIMEOUT_MS = 15 * 60 * 1000
+
+/**
+ * Azure Resource Manager endpoint (AZURE_ENDPOINT_URL overrides it)
+ */
+export function azureEndpoint(env: NodeJS.ProcessEnv = process.env): string {
+  return (env.AZURE_ENDPOINT_URL || 'https://management.azure.com').replace(/\/+$/, '')
+}
+
+/**
+ * Location used when a spec names none (AZURE_LOCATION, default eastus)
+ */
+export function azureDefaultLocation(env: NodeJS.ProcessEnv = process.env): string {
+  return env.AZURE_LOCATION || 'eastus'
+}
+
+/**
+ * Resource group holding an infrastructure's resources. Resources created outside an
+ * infrastructure go to AZURE_RESOURCE_GROUP (default 'atlas').
+ */
+export function azureResourceGroupName(infrastructureId?: string, env: NodeJS.ProcessEnv = process.env): string {
+  return infrastructureId ? `atlas-${infrastructureId}` : env.AZURE_RESOURCE_GROUP || 'atlas'
+}
+
+/**
+ * Subscription, resource group and name from an Azure Resource Manager ID
+ */
+export function parseAzureResourceId(id: string): { subscriptionId: string; resourceGroup: string; name: string } {
+  const parts = id.split('/')
+  const segment = (key: string) => {
+    const index = parts.findIndex(part => part.toLowerCase() === key)
+    return index === -1 ? '' : parts[index + 1] || ''
+  }
+  return { subscriptionId: segment('subscriptions'), resourceGroup: segment('resourcegroups'), name: parts[parts.length - 1] }
+}
+
+/**
+ * A valid Azure resource name (letters, digits, '-', '_' and '.', at most 64 characters, not ending in '.' or '-')
+ */
+export function azureName(value: string, maxLength = 64): string {
+  const name = value.replace(/[^A-Za-z0-9_.-]+/g, '-').slice(0, maxLength).replace(/[.-]+$/, '')
+  return name || 'atlas'
+}
+
+// Provisioning state shared by most Resource Manager resources
+function provisioningStatus(state: string | undefined): ResourceStatus {
+  switch (state) {
+    case 'Succeeded': return 'active'
+    case 'Failed': return 'error'
+    case 'Deleting': return 'deleting'
+    case 'Updating': return 'updating'
+    default: return 'creating'
+  }
+}
+
+export class AzureProvider implements CloudProviderInterface {
+  name: CloudProvider = 'azure'
+  private client: AxiosInstance
+  private subscriptionId: string
+  private tenantId: string
+  private defaultLocation: string
+  private pagination = paginationOptionsFromEnv()
+
+  // Resource groups already created by this client, and the default network of each
+  private resourceGroups = new Set<string>()
+  private defaultNetworks = new Map<string, Promise<string>>()
+
+  regions = [
+    'eastus', 'eastus2', 'centralus', 'westus2', 'westus3', 'canadacentral',
+    'northeurope', 'westeurope', 'uksouth', 'francecentral', 'germanywestcentral', 'swedencentral',
+    'southeastasia', 'japaneast', 'australiaeast', 'centralindia', 'brazilsouth'
+  ]
+
+  resource_types: ResourceType[] = ['droplet', 'volume', 'database', 'load_balancer', 'firewall', 'vpc']
+
+  // Pay-as-you-go pricing in East US (USD)
+  static readonly PRICING = {
+    // Linux virtual machines (per hour)
+    instance: {
+      'Standard_B1s': 0.0104,
+      'Standard_B1ms': 0.0207,
+      'Standard_B2s': 0.0416,
+      'Standard_B2ms': 0.0832,
+      'Standard_B4ms': 0.166,
+      'Standard_D2s_v5': 0.096,
+      'Standard_D4s_v5': 0.192,
+      'Standard_D8s_v5': 0.384,
+      'Standard_E2s_v5': 0.126,
+      'Standard_F2s_v2': 0.0846,
+    },
+    // Managed disks (per GB per month)
+    volume: {
+      'Standard_LRS': 0.046,
+      'StandardSSD_LRS': 0.075,
+      'Premium_LRS': 0.154,
+    },
+    // PostgreSQL flexible server compute (per hour; zone-redundant HA doubles it)
+    database: {
+      'Standard_B1ms': 0.017,
+      'Standard_B2s': 0.068,
+      'Standard_D2ds_v4': 0.178,
+      'Standard_D4ds_v4': 0.356,
+      'Standard_E2ds_v4': 0.244,
+    },
+    // PostgreSQL flexible server storage (per GB per month)
+    database_storage: 0.115,
+    // Standard load balancer (per hour, first five rules)
+    load_balancer: 0.025,
+    // Standard static public IP (per hour), one per VM and load balancer
+    public_ip: 0.005,
+  }
+
+  constructor(
+    subscriptionId: string,
+    credentials: AzureClientCredentials,
+    defaultLocation: string = azureDefaultLocation(),
+    tokens: AzureTokenSource = new AzureTokenSource(credentials)
+  ) {
+    this.subscriptionId = subscriptionId
+    this.tenantId = credentials.tenantId
+    this.defaultLocation = defaultLocation
+    this.client = axios.create({
+      baseURL: azureEndpoint(),
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 30000
+    })
+
+    this.client.interceptors.request.use(async config => {
+      config.headers.Authorization = `Bearer ${await tokens.getAccessToken()}`
+      return config
+    })
+
+    // Retries transient failures; registered first so it sees raw axios errors
+    attachRetryPolicy(this.client, retryOptionsFromEnv())
+
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        if (error instanceof ProviderError) {
+          throw error // Already converted by a retried request, or a failed token request
+        }
+        if (error.response) {
+          const { status, data } = error.response
+          const details = data?.error || {}
+          throw new ProviderError(
+            `Azure API Error: ${details.code ? `${details.code}: ` : ''}${details.message || error.message}`,
+            'azure',
+            status
+          )
+        }
+        throw new ProviderError(error.message, 'azure')
+      }
+    )
+  }
+
+  /**
+   * Call Resource Manager. Mutations that start a long-running operation are
+   * followed until it finishes when `wait` is set.
+   */
+  private async arm(
+    method: 'get' | 'put' | 'patch' | 'delete' | 'post',
+    path: string,
+    apiVersion: string,
+    body?: any,
+    options: { wait?: boolean; params?: Record<string, string> } = {}
+  ): Promise<any> {
+    const config = { params: { 'api-version': apiVersion, ...options.params } }
+    const response = method === 'get' || method === 'delete'
+      ? await this.client[method](path, config)
+      : await this.client[method](path, body, config)
+
+    if (options.wait) {
+      await this.waitForOperation(response)
+    }
+    return response.data
+  }
+
+  private async waitForOperation(response: AxiosResponse): Promise<void> {
+    const headers = response.headers || {}
+    const asyncUrl: string | undefined = headers['azure-asyncoperation']
+    let locationUrl: string | undefined = headers.location
+    if (!asyncUrl && !(locationUrl && response.status === 202)) {
+      return
+    }
+
+    const deadline = Date.now() + LRO_TIMEOUT_MS
+    for (;;) {
+      if (Date.now() > deadline) {
+        throw new ProviderError(`Timed out waiting for ${asyncUrl || locationUrl}`, 'azure')
+      }
+      const delay = Number(headers['retry-after']) * 1000 || LRO_POLL_INTERVAL_MS
+      await new Promise(resolve => setTimeout(resolve, delay))
+
+      const poll = await this.client.get(asyncUrl || locationUrl!)
+      if (asyncUrl) {
+        const status = poll.data?.status
+        if (status === 'Failed' || status === 'Canceled') {
+          throw new ProviderError(`Azure API Error: ${poll.data?.error?.message || `operation ${status.toLowerCase()}`}`, 'azure')
+        }
+        if (status === 'Succeeded') {
+          return
+        }
+      } else if (poll.status !== 202) {
+        return
+      }
+      locationUrl = poll.headers?.location || locationUrl
+    }
+  }
+
+  private resourceGroupPath(resourceGroup: string): string {
+    return `/subscriptions/${this.subscriptionId}/resourceGroups/${resourceGroup}`
+  }
+
+  private resourceId(resourceGroup: string, type: string, name: string): string {
+    return `${this.resourceGroupPath(resourceGroup)}/providers/${type}/${name}`
+  }
+
+  private async ensureResourceGroup(resourceGroup: string, location: string): Promise<void> {
+    if (this.resourceGroups.has(resourceGroup)) {
+      return
+    }
+    await this.arm('put', this.resourceGroupPath(resourceGroup), API_VERSIONS.resources, {
+      location,
+      tags: { atlas_managed: 'true' }
+    })
+    this.resourceGroups.add(resourceGroup)
+  }
+
+  /**
+   * Subnet for VMs created without a vpc_uuid, created once per resource group
+   */
+  private defaultSubnet(resourceGroup: string, location: string): Promise<string> {
+    if (!this.defaultNetworks.has(resourceGroup)) {
+      const id = this.resourceId(resourceGroup, 'Microsoft.Network/virtualNetworks', DEFAULT_NETWORK)
+      const created = this.arm('put', id, API_VERSIONS.network, {
+        location,
+        properties: {
+          addressSpace: { addressPrefixes: ['10.0.0.0/16'] },
+          subnets: [{ name: 'default', properties: { addressPrefix: '10.0.0.0/24' } }]
+        }
+      }, { wait: true }).then(() => `${id}/subnets/default`)
+
+      // A failed attempt is retried by the next VM
+      created.catch(() => this.defaultNetworks.delete(resourceGroup))
+      this.defaultNetworks.set(resourceGroup, created)
+    }
+    return this.defaultNetworks.get(resourceGroup)!
+  }
+
+  async authenticate(credentials: Record<string, string>): Promise<boolean> {
+    try {
+      await this.arm('get', `/subscriptions/${this.subscriptionId}`, API_VERSIONS.resources)
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  async createResource(type: ResourceType, spec: ResourceSpec, options: CreateResourceOptions = {}): Promise<InfrastructureResource> {
+    if (!this.resource_types.includes(type)) {
+      throw new ProviderError(`Resource type ${type} not supported`, 'azure')
+    }
+
+    const location = spec.region || this.defaultLocation
+    const resourceGroup = azureResourceGroupName(options.infrastructure_id)
+    await this.ensureResourceGroup(resourceGroup, location)
+
+    switch (type) {
+      case 'droplet':
+        return await this.createVirtualMachine(spec, resourceGroup, location)
+      case 'volume':
+        return await this.createDisk(spec, resourceGroup, location)
+      case 'database':
+        return await this.createDatabase(spec, resourceGroup, location, options.infrastructure_id)
+      case 'load_balancer':
+        return await this.createLoadBalancer(spec, resourceGroup, location)
+      case 'firewall':
+        return await this.createNetworkSecurityGroup(spec, resourceGroup, location)
+      default:
+        return await this.createVirtualNetwork(spec, resourceGroup, location)
+    }
+  }
+
+  private async createVirtualMachine(spec: ResourceSpec, resourceGroup: string, location: string): Promise<InfrastructureResource> {
+    const name = azureName(spec.name || `vm-${Date.now()}`)
+    const size = spec.size || 'Standard_B1s'
+    const sshKeys = (spec.ssh_keys || []).filter(key => key.startsWith('ssh-') || key.startsWith('ecdsa-'))
+    if (sshKeys.length === 0) {
+      throw new ProviderError('Azure Linux VMs need an SSH public key in ssh_keys', 'azure')
+    }
+
+    const subnetId = spec.vpc_uuid ? `${spec.vpc_uuid}/subnets/default` : await this.defaultSubnet(resourceGroup, location)
+    const publicIpId = await this.createPublicIp(`${name}-ip`, resourceGroup, location, spec.tags)
+
+    const nicId = this.resourceId(resourceGroup, 'Microsoft.Network/networkInterfaces', `${name}-nic`)
+    await this.arm('put', nicId, API_VERSIONS.network, {
+      location,
+      tags: spec.tags,
+      properties: {
+        networkSecurityGroup: spec.firewall_id ? { id: spec.firewall_id } : undefined,
+        ipConfigurations: [{
+          name: 'ipconfig1',
+          properties: { subnet: { id: subnetId }, publicIPAddress: { id: publicIpId }, privateIPAllocationMethod: 'Dynamic' }
+        }]
+      }
+    }, { wait: true })
+
+    const vmId = this.resourceId(resourceGroup, 'Microsoft.Compute/virtualMachines', name)
+    await this.arm('put', vmId, API_VERSIONS.compute, {
+      location,
+      tags: spec.tags,
+      properties: {
+        hardwareProfile: { vmSize: size },
+        storageProfile: {
+          imageReference: UBUNTU_IMAGE,
+          osDisk: { createOption: 'FromImage', deleteOption: 'Delete', managedDisk: { storageAccountType: 'StandardSSD_LRS' } }
+        },
+        osProfile: {
+          computerName: name,
+          adminUsername: 'atlas',
+          customData: spec.user_data ? Buffer.from(spec.user_data).toString('base64') : undefined,
+          linuxConfiguration: {
+            disablePasswordAuthentication: true,
+            ssh: { publicKeys: sshKeys.map(keyData => ({ path: '/home/atlas/.ssh/authorized_keys', keyData })) }
+          }
+        },
+        networkProfile: { networkInterfaces: [{ id: nicId, properties: { primary: true, deleteOption: 'Delete' } }] }
+      }
+    })
+
+    return this.buildResource('droplet', name, vmId, 'creating', undefined, this.calculateInstanceCost(size), spec)
+  }
+
+  private async createPublicIp(name: string, resourceGroup: string, location: string, tags?: Record<string, string>): Promise<string> {
+    const id = this.resourceId(resourceGroup, 'Microsoft.Network/publicIPAddresses', name)
+    await this.arm('put', id, API_VERSIONS.network, {
+      location,
+      tags,
+      sku: { name: 'Standard' },
+      properties: { publicIPAllocationMethod: 'Static' }
+    }, { wait: true })
+    return id
+  }
+
+  private async createDisk(spec: ResourceSpec, resourceGroup: string, location: string): Promise<InfrastructureResource> {
+    const name = azureName(spec.name || `disk-${Date.now()}`)
+    const size = spec.size_gigabytes || 10
+    const sku = spec.volume_type || 'StandardSSD_LRS'
+
+    const diskId = this.resourceId(resourceGroup, 'Microsoft.Compute/disks', name)
+    await this.arm('put', diskId, API_VERSIONS.disks, {
+      location,
+      tags: spec.tags,
+      sku: { name: sku },
+      properties: { creationData: { createOption: 'Empty' }, diskSizeGB: size }
+    }, { wait: true })
+
+    if (spec.droplet_id) {
+      const vm = await this.arm('get', spec.droplet_id, API_VERSIONS.compute)
+      const dataDisks: any[] = vm.properties?.storageProfile?.dataDisks || []
+      const lun = dataDisks.reduce((highest, disk) => Math.max(highest, disk.lun), -1) + 1
+      await this.arm('patch', spec.droplet_id, API_VERSIONS.compute, {
+        properties: { storageProfile: { dataDisks: [...dataDisks, { lun, createOption: 'Attach', managedDisk: { id: diskId } }] } }
+      }, { wait: true })
+    }
+
+    const hourlyCost = size * this.volumePrice(sku) / (24 * 30)
+    return this.buildResource('volume', name, diskId, 'creating', undefined, hourlyCost, spec)
+  }
+
+  private async createDatabase(
+    spec: ResourceSpec,
+    resourceGroup: string,
+    location: string,
+    infrastructureId?: string
+  ): Promise<InfrastructureResource> {
+    if (spec.engine && spec.engine !== 'postgresql' && spec.engine !== 'postgres') {
+      throw new ProviderError(`Database engine ${spec.engine} is not supported on Azure Database for PostgreSQL`, 'azure')
+    }
+
+    // Server names are global DNS names, so they carry part of the infrastructure ID
+    const base = azureName(spec.name || `db-${Date.now()}`, 54).toLowerCase().replace(/[^a-z0-9-]/g, '-')
+    const name = infrastructureId ? `${base}-${infrastructureId.slice(0, 8).toLowerCase()}` : base
+    const tier = spec.size || 'Standard_B1ms'
+    const storage = spec.size_gigabytes || 32
+    const highAvailability = (spec.num_nodes || 1) > 1
+
+    const serverId = this.resourceId(resourceGroup, 'Microsoft.DBforPostgreSQL/flexibleServers', name)
+    await this.arm('put', serverId, API_VERSIONS.postgres, {
+      location,
+      tags: spec.tags,
+      sku: { name: tier, tier: this.databaseTier(tier) },
+      properties: {
+        version: spec.version || '15',
+        storage: { storageSizeGB: storage },
+        highAvailability: { mode: highAvailability ? 'ZoneRedundant' : 'Disabled' },
+        // Sign-in is through Entra ID, so no password is created or kept in Atlas
+        authConfig: { activeDirectoryAuth: 'Enabled', passwordAuth: 'Disabled', tenantId: this.tenantId }
+      }
+    })
+
+    const hourlyCost = this.calculateDatabaseCost(tier, storage, highAvailability)
+    return this.buildResource('database', name, serverId, 'creating', undefined, hourlyCost, spec)
+  }
+
+  private databaseTier(sku: string): string {
+    return sku.startsWith('Standard_B') ? 'Burstable' : sku.startsWith('Standard_E') ? 'MemoryOptimized' : 'GeneralPurpose'
+  }
+
+  /**
+   * A Standard load balancer on its own public IP, with one rule per forwarding rule
+   * and the NICs of droplet_ids in its backend pool. It balances TCP/UDP, so HTTP
+   * rules are forwarded as TCP.
+   */
+  private async createLoadBalancer(spec: ResourceSpec, resourceGroup: string, location: string): Promise<InfrastructureResource> {
+    const name = azureName(spec.name || `lb-${Date.now()}`)
+    const rules = spec.forwarding_rules || [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 80 }]
+    const publicIpId = await this.createPublicIp(`${name}-ip`, resourceGroup, location, spec.tags)
+
+    const lbId = this.resourceId(resourceGroup, 'Microsoft.Network/loadBalancers', name)
+    const check = spec.health_check
+    const probeProtocol = check?.protocol === 'tcp' ? 'Tcp' : check?.protocol === 'https' ? 'Https' : 'Http'
+
+    await this.arm('put', lbId, API_VERSIONS.network, {
+      location,
+      tags: spec.tags,
+      sku: { name: 'Standard' },
+      properties: {
+        frontendIPConfigurations: [{ name: 'frontend', properties: { publicIPAddress: { id: publicIpId } } }],
+        backendAddressPools: [{ name: 'backend' }],
+        probes: [{
+          name: 'health',
+          properties: {
+            protocol: probeProtocol,
+            port: check?.port || rules[0].target_port,
+            requestPath: probeProtocol === 'Tcp' ? undefined : check?.path || '/',
+            intervalInSeconds: check?.check_interval_seconds || 15,
+            numberOfProbes: check?.unhealthy_threshold || 2
+          }
+        }],
+        loadBalancingRules: rules.map(rule => ({
+          name: `${rule.entry_protocol}-${rule.entry_port}`,
+          properties: {
+            protocol: rule.entry_protocol === 'udp' ? 'Udp' : 'Tcp',
+            frontendPort: rule.entry_port,
+            backendPort: rule.target_port,
+            frontendIPConfiguration: { id: `${lbId}/frontendIPConfigurations/frontend` },
+            backendAddressPool: { id: `${lbId}/backendAddressPools/backend` },
+            probe: { id: `${lbId}/probes/health` },
+            loadDistribution: 'Default'
+          }
+        }))
+      }
+    }, { wait: true })
+
+    for (const vmId of spec.droplet_ids || []) {
+      await this.updateNic(vmId, nic => {
+        const ipConfiguration = nic.properties.ipConfigurations[0].properties
+        ipConfiguration.loadBalancerBackendAddressPools = [
+          ...(ipConfiguration.loadBalancerBackendAddressPools || []),
+          { id: `${lbId}/backendAddressPools/backend` }
+        ]
+      })
+    }
+
+    const hourlyCost = AzureProvider.PRICING.load_balancer + AzureProvider.PRICING.public_ip
+    return this.buildResource('load_balancer', name, lbId, 'creating', undefined, hourlyCost, spec)
+  }
+
+  private async createNetworkSecurityGroup(spec: ResourceSpec, resourceGroup: string, location: string): Promise<InfrastructureResource> {
+    const name = azureName(spec.name || `nsg-${Date.now()}`)
+    const inbound: FirewallRuleSpec[] = spec.inbound_rules || ['22', '80', '443'].map(ports => ({ protocol: 'tcp' as const, ports }))
+    const outbound: FirewallRuleSpec[] = spec.outbound_rules || []
+
+    const nsgId = this.resourceId(resourceGroup, 'Microsoft.Network/networkSecurityGroups', name)
+    await this.arm('put', nsgId, API_VERSIONS.network, {
+      location,
+      tags: spec.tags,
+      properties: {
+        securityRules: [
+          ...inbound.map((rule, index) => this.securityRule(rule, index, 'Inbound', rule.sources?.addresses)),
+          ...outbound.map((rule, index) => this.securityRule(rule, index, 'Outbound', rule.destinations?.addresses))
+        ]
+      }
+    }, { wait: true })
+
+    for (const vmId of spec.droplet_ids || []) {
+      await this.updateNic(vmId, nic => { nic.properties.networkSecurityGroup = { id: nsgId } })
+    }
+
+    return this.buildResource('firewall', name, nsgId, 'creating', undefined, 0, spec)
+  }
+
+  /**
+   * Convert a DigitalOcean-style firewall rule into an NSG security rule
+   */
+  private securityRule(rule: FirewallRuleSpec, index: number, direction: 'Inbound' | 'Outbound', addresses: string[] = ['*']): Record<string, any> {
+    const anywhere = addresses.some(address => address === '*' || address === '0.0.0.0/0' || address === '::/0')
+    const remote = anywhere ? { prefix: '*' } : { prefixes: addresses }
+    const inbound = direction === 'Inbound'
+
+    return {
+      name: `${direction.toLowerCase()}-${index}`,
+      properties: {
+        priority: 100 + index,
+        direction,
+        access: 'Allow',
+        protocol: rule.protocol === 'udp' ? 'Udp' : rule.protocol === 'icmp' ? 'Icmp' : 'Tcp',
+        sourcePortRange: '*',
+        destinationPortRange: rule.protocol === 'icmp' || !rule.ports || rule.ports === 'all' ? '*' : rule.ports,
+        sourceAddressPrefix: inbound ? remote.prefix : '*',
+        sourceAddressPrefixes: inbound ? remote.prefixes : undefined,
+        destinationAddressPrefix: inbound ? '*' : remote.prefix,
+        destinationAddressPrefixes: inbound ? undefined : remote.prefixes
+      }
+    }
+  }
+
+  private async createVirtualNetwork(spec: ResourceSpec, resourceGroup: string, location: string): Promise<InfrastructureResource> {
+    const name = azureName(spec.name || `vnet-${Date.now()}`)
+    const addressSpace = spec.ip_range || '10.0.0.0/16'
+
+    // VMs join the 'default' subnet, which spans the network unless subnet_cidr is given
+    const vnetId = this.resourceId(resourceGroup, 'Microsoft.Network/virtualNetworks', name)
+    await this.arm('put', vnetId, API_VERSIONS.network, {
+      location,
+      tags: spec.tags,
+      properties: {
+        addressSpace: { addressPrefixes: [addressSpace] },
+        subnets: [{ name: 'default', properties: { addressPrefix: spec.subnet_cidr || addressSpace } }]
+      }
+    })
+
+    return this.buildResource('vpc', name, vnetId, 'creating', undefined, 0, spec)
+  }
+
+  /**
+   * Change the primary NIC of a VM and wait for the update
+   */
+  private async updateNic(vmId: string, change: (nic: any) => void): Promise<void> {
+    const vm = await this.arm('get', vmId, API_VERSIONS.compute)
+    const nicId = vm.properties?.networkProfile?.networkInterfaces?.[0]?.id
+    if (!nicId) {
+      throw new ProviderError(`VM ${parseAzureResourceId(vmId).name} has no network interface`, 'azure')
+    }
+    await this.updateNicById(nicId, change)
+  }
+
+  private async updateNicById(nicId: string, change: (nic: any) => void): Promise<void> {
+    const nic = await this.arm('get', nicId, API_VERSIONS.network)
+    change(nic)
+    await this.arm('put', nicId, API_VERSIONS.network, nic, { wait: true })
+  }
+
+  async updateResource(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    options: UpdateResourceOptions = {}
+  ): Promise<InfrastructureResource> {
+    const type = options.type || 'droplet'
+    const current = options.current || {}
+    const onStep = options.onStep || (() => {})
+
+    const allowed = AZURE_UPDATABLE_FIELDS[type] || []
+    const unsupported = Object.keys(spec).filter(field => !allowed.includes(field))
+    if (unsupported.length > 0) {
+      throw new AtlasError(
+        `Cannot change ${unsupported.join(', ')} on ${type} in place (supported: ${allowed.join(', ') || 'none'})`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    switch (type) {
+      case 'droplet':
+        if (spec.size) {
+          // Azure restarts the VM on the new size
+          await onStep(`Resize VM to ${spec.size}`)
+          await this.arm('patch', providerId, API_VERSIONS.compute, { properties: { hardwareProfile: { vmSize: spec.size } } }, { wait: true })
+        }
+        break
+      case 'volume':
+        if (spec.size_gigabytes) {
+          await onStep(`Resize disk to ${spec.size_gigabytes} GB`)
+          await this.arm('patch', providerId, API_VERSIONS.disks, { properties: { diskSizeGB: spec.size_gigabytes } }, { wait: true })
+        }
+        break
+      case 'database':
+        if (spec.size || spec.size_gigabytes) {
+          await onStep(spec.size ? `Change server SKU to ${spec.size}` : `Grow storage to ${spec.size_gigabytes} GB`)
+          await this.arm('patch', providerId, API_VERSIONS.postgres, {
+            sku: spec.size ? { name: spec.size, tier: this.databaseTier(spec.size) } : undefined,
+            properties: spec.size_gigabytes ? { storage: { storageSizeGB: spec.size_gigabytes } } : undefined
+          }, { wait: true })
+        }
+        break
+    }
+
+    if (spec.tags) {
+      await onStep('Update tags')
+      await this.arm('patch', `${providerId}/providers/Microsoft.Resources/tags/default`, API_VERSIONS.resources, {
+        operation: 'Replace',
+        properties: { tags: spec.tags }
+      })
+    }
+
+    const live = await this.getResource(providerId, type)
+    if (!live) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return { ...live, specifications: { ...current, ...spec } }
+  }
+
+  /**
+   * Delete a resource and the parts Atlas created with it. A resource that is
+   * already gone counts as deleted, so destroy can be retried safely.
+   */
+  async deleteResource(providerId: string, type: ResourceType = 'droplet'): Promise<void> {
+    const { resourceGroup, name } = parseAzureResourceId(providerId)
+    try {
+      switch (type) {
+        case 'droplet':
+          // The OS disk and NIC are deleted with the VM; data disks are kept for their own destroy
+          await this.ignoreNotFound(this.arm('delete', providerId, API_VERSIONS.compute, undefined, { wait: true }))
+          await this.ignoreNotFound(this.arm('delete', this.resourceId(resourceGroup, 'Microsoft.Network/networkInterfaces', `${name}-nic`), API_VERSIONS.network, undefined, { wait: true }))
+          await this.arm('delete', this.resourceId(resourceGroup, 'Microsoft.Network/publicIPAddresses', `${name}-ip`), API_VERSIONS.network, undefined, { wait: true })
+          break
+        case 'volume':
+          await this.detachDisk(providerId)
+          await this.arm('delete', providerId, API_VERSIONS.disks, undefined, { wait: true })
+          break
+        case 'database':
+          await this.arm('delete', providerId, API_VERSIONS.postgres)
+          break
+        case 'load_balancer':
+          await this.deleteLoadBalancer(providerId)
+          break
+        case 'firewall': {
+          // A security group still associated with NICs cannot be deleted
+          const nsg = await this.arm('get', providerId, API_VERSIONS.network)
+          for (const nic of nsg.properties?.networkInterfaces || []) {
+            await this.updateNicById(nic.id, value => { delete value.properties.networkSecurityGroup })
+          }
+          await this.arm('delete', providerId, API_VERSIONS.network, undefined, { wait: true })
+          break
+        }
+        case 'vpc':
+          await this.arm('delete', providerId, API_VERSIONS.network, undefined, { wait: true })
+          break
+        default:
+          throw new ProviderError(`Resource type ${type} not supported`, 'azure')
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return
+      }
+      throw error
+    }
+  }
+
+  private async detachDisk(diskId: string): Promise<void> {
+    const disk = await this.arm('get', diskId, API_VERSIONS.disks)
+    if (!disk.managedBy) {
+      return
+    }
+
+    const vm = await this.arm('get', disk.managedBy, API_VERSIONS.compute)
+    const dataDisks = (vm.properties?.storageProfile?.dataDisks || [])
+      .filter((attached: any) => attached.managedDisk?.id?.toLowerCase() !== diskId.toLowerCase())
+    await this.arm('patch', disk.managedBy, API_VERSIONS.compute, { properties: { storageProfile: { dataDisks } } }, { wait: true })
+  }
+
+  /**
+   * Take the backend NICs out of the pool, delete the load balancer, then its public IP
+   */
+  private async deleteLoadBalancer(lbId: string): Promise<void> {
+    const { resourceGroup, name } = parseAzureResourceId(lbId)
+    const loadBalancer = await this.ignoreNotFound(this.arm('get', lbId, API_VERSIONS.network))
+
+    const pools: any[] = loadBalancer?.properties?.backendAddressPools || []
+    const nicIds = new Set<string>(pools.flatMap(pool => (pool.properties?.backendIPConfigurations || [])
+      .map((ipConfiguration: any) => ipConfiguration.id.split('/ipConfigurations/')[0])))
+    for (const nicId of nicIds) {
+      await this.updateNicById(nicId, nic => {
+        for (const ipConfiguration of nic.properties.ipConfigurations) {
+          ipConfiguration.properties.loadBalancerBackendAddressPools = (ipConfiguration.properties.loadBalancerBackendAddressPools || [])
+            .filter((pool: any) => !pool.id.toLowerCase().startsWith(lbId.toLowerCase()))
+        }
+      })
+    }
+
+    if (loadBalancer) {
+      await this.arm('delete', lbId, API_VERSIONS.network, undefined, { wait: true })
+    }
+    await this.arm('delete', this.resourceId(resourceGroup, 'Microsoft.Network/publicIPAddresses', `${name}-ip`), API_VERSIONS.network, undefined, { wait: true })
+  }
+
+  /**
+   * Delete an infrastructure's resource group once nothing but Atlas's default
+   * network is left in it. Anything else added to the group keeps it alive.
+   */
+  async releaseInfrastructure(infrastructureId: string): Promise<void> {
+    const resourceGroup = azureResourceGroupName(infrastructureId)
+    const path = this.resourceGroupPath(resourceGroup)
+
+    try {
+      const remaining = (await this.arm('get', `${path}/resources`, API_VERSIONS.resources)).value || []
+      const foreign = remaining.filter((resource: any) => resource.name !== DEFAULT_NETWORK)
+      if (foreign.length > 0) {
+        console.warn(`[Azure] Keeping resource group ${resourceGroup}: it still holds ${foreign.map((resource: any) => resource.name).join(', ')}`)
+        return
+      }
+      await this.arm('delete', path, API_VERSIONS.resources)
+    } catch (error) {
+      if (!(error instanceof ProviderError && error.providerStatus === 404)) {
+        throw error
+      }
+    }
+
+    this.resourceGroups.delete(resourceGroup)
+    this.defaultNetworks.delete(resourceGroup)
+  }
+
+  private async ignoreNotFound<T>(promise: Promise<T>): Promise<T | null> {
+    try {
+      return await promise
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async getResource(providerId: string, type: ResourceType = 'droplet'): Promise<InfrastructureResource | null> {
+    try {
+      switch (type) {
+        case 'droplet':
+          return await this.virtualMachineResource(providerId)
+        case 'volume': {
+          const disk = await this.arm('get', providerId, API_VERSIONS.disks)
+          const size = Number(disk.properties?.diskSizeGB) || 0
+          const resource = this.buildResource(
+            'volume', disk.name, disk.id || providerId, provisioningStatus(disk.properties?.provisioningState),
+            disk.properties?.timeCreated, size * this.volumePrice(disk.sku?.name) / (24 * 30)
+          )
+          return {
+            ...resource,
+            specifications: { region: disk.location, size_gigabytes: size, droplet_id: disk.managedBy || undefined, tags: disk.tags || {} }
+          }
+        }
+        case 'database': {
+          const server = await this.arm('get', providerId, API_VERSIONS.postgres)
+          const state = server.properties?.state
+          const storage = Number(server.properties?.storage?.storageSizeGB) || 32
+          const highAvailability = server.properties?.highAvailability?.mode === 'ZoneRedundant'
+          const resource = this.buildResource(
+            'database', server.name, server.id || providerId,
+            state === 'Ready' ? 'active' : state === 'Dropping' ? 'deleting' : state === 'Updating' || state === 'Starting' ? 'updating' : 'creating',
+            server.systemData?.createdAt, this.calculateDatabaseCost(server.sku?.name, storage, highAvailability)
+          )
+          return {
+            ...resource,
+            specifications: {
+              region: server.location,
+              engine: 'postgresql',
+              version: server.properties?.version,
+              size: server.sku?.name,
+              size_gigabytes: storage,
+              num_nodes: highAvailability ? 2 : 1,
+              host: server.properties?.fullyQualifiedDomainName,
+              port: 5432,
+              tags: server.tags || {}
+            }
+          }
+        }
+        case 'load_balancer': {
+          const loadBalancer = await this.arm('get', providerId, API_VERSIONS.network)
+          const publicIpId = loadBalancer.properties?.frontendIPConfigurations?.[0]?.properties?.publicIPAddress?.id
+          const publicIp = publicIpId ? await this.ignoreNotFound(this.arm('get', publicIpId, API_VERSIONS.network)) : null
+          const resource = this.buildResource(
+            'load_balancer', loadBalancer.name, loadBalancer.id || providerId, provisioningStatus(loadBalancer.properties?.provisioningState),
+            undefined, AzureProvider.PRICING.load_balancer + AzureProvider.PRICING.public_ip
+          )
+          return { ...resource, public_ip: publicIp?.properties?.ipAddress, specifications: { region: loadBalancer.location, tags: loadBalancer.tags || {} } }
+        }
+        case 'firewall':
+        case 'vpc': {
+          const network = await this.arm('get', providerId, API_VERSIONS.network)
+          const resource = this.buildResource(type, network.name, network.id || providerId, provisioningStatus(network.properties?.provisioningState), undefined, 0)
+          return {
+            ...resource,
+            specifications: {
+              region: network.location,
+              ip_range: type === 'vpc' ? network.properties?.addressSpace?.addressPrefixes?.[0] : undefined,
+              tags: network.tags || {}
+            }
+          }
+        }
+        default:
+          return null
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private async virtualMachineResource(vmId: string): Promise<InfrastructureResource> {
+    const vm = await this.arm('get', vmId, API_VERSIONS.compute, undefined, { params: { $expand: 'instanceView' } })
+    const size = vm.properties?.hardwareProfile?.vmSize
+    const resource = this.buildResource(
+      'droplet', vm.name, vm.id || vmId, provisioningStatus(vm.properties?.provisioningState),
+      vm.properties?.timeCreated, this.calculateInstanceCost(size)
+    )
+
+    // Addresses live on the NIC and its public IP
+    const nicId = vm.properties?.networkProfile?.networkInterfaces?.[0]?.id
+    const nic = nicId ? await this.ignoreNotFound(this.arm('get', nicId, API_VERSIONS.network)) : null
+    const ipConfiguration = nic?.properties?.ipConfigurations?.[0]?.properties
+    const publicIp = ipConfiguration?.publicIPAddress?.id
+      ? await this.ignoreNotFound(this.arm('get', ipConfiguration.publicIPAddress.id, API_VERSIONS.network))
+      : null
+
+    return {
+      ...resource,
+      specifications: { region: vm.location, size, tags: vm.tags || {} },
+      public_ip: publicIp?.properties?.ipAddress || undefined,
+      private_ip: ipConfiguration?.privateIPAddress || undefined
+    }
+  }
+
+  async listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]> {
+    const resources: InfrastructureResource[] = []
+
+    // Supported filters: tag_name ('key:value', e.g. 'atlas_operation:<id>')
+    const [key, ...value] = filters?.tag_name ? String(filters.tag_name).split(':') : []
+    const params: Record<string, string> = { $top: String(Math.min(Math.max(this.pagination.pageSize, 1), 1000)) }
+    if (key) {
+      params.$filter = `tagName eq '${key}' and tagValue eq '${value.join(':')}'`
+    }
+
+    try {
+      let next: string | undefined = `/subscriptions/${this.subscriptionId}/resources`
+      for (let page = 1; next; page++) {
+        if (page > this.pagination.maxPages) {
+          console.warn(`[Azure] Stopped listing resources after ${this.pagination.maxPages} pages (${resources.length} items)`)
+          break
+        }
+        // nextLink already carries the query, api-version included
+        const response: AxiosResponse = page === 1
+          ? await this.client.get(next, { params: { 'api-version': API_VERSIONS.resources, ...params } })
+          : await this.client.get(next)
+
+        for (const item of response.data?.value || []) {
+          const type = ARM_TYPES[String(item.type).toLowerCase()]
+          // OS disks belong to their VM
+          if (!type || (type === 'volume' && /_OsDisk_/i.test(item.name))) {
+            continue
+          }
+          const resource = await this.getResource(item.id, type)
+          if (resource) {
+            resources.push(resource)
+          }
+        }
+        next = response.data?.nextLink
+      }
+    } catch (error) {
+      console.error('Error listing resources:', error)
+    }
+
+    return resources
+  }
+
+  async getResourceCost(providerId: string): Promise<ResourceCost> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    const uptimeHours = Math.max(1, (Date.now() - new Date(resource.created_at).getTime()) / (1000 * 60 * 60))
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      resource_name: resource.name,
+      hourly_cost: resource.hourly_cost,
+      daily_cost: resource.hourly_cost * 24,
+      monthly_cost: resource.monthly_cost,
+      total_cost: resource.hourly_cost * uptimeHours,
+      uptime_hours: uptimeHours
+    }
+  }
+
+  async estimateCost(spec: ResourceSpec): Promise<number> {
+    if (spec.engine) {
+      return this.calculateDatabaseCost(spec.size || 'Standard_B1ms', spec.size_gigabytes || 32, (spec.num_nodes || 1) > 1) * 24 * 30
+    }
+
+    if (spec.size) {
+      return this.calculateInstanceCost(spec.size) * 24 * 30
+    }
+
+    if (spec.size_gigabytes) {
+      return spec.size_gigabytes * this.volumePrice(spec.volume_type || 'StandardSSD_LRS')
+    }
+
+    if (spec.forwarding_rules) {
+      return (AzureProvider.PRICING.load_balancer + AzureProvider.PRICING.public_ip) * 24 * 30
+    }
+
+    return 15.00 // Default estimate
+  }
+
+  async checkResourceHealth(providerId: string): Promise<ResourceHealth> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      status: resource.status === 'active' ? 'healthy' : 'warning',
+      last_check: new Date().toISOString(),
+      uptime_percentage: resource.status === 'active' ? 100 : 0
+    }
+  }
+
+  private buildResource(
+    type: ResourceType,
+    name: string,
+    providerId: string,
+    status: ResourceStatus,
+    createdAt: string | undefined,
+    hourlyCost: number,
+    specifications: ResourceSpec = {}
+  ): InfrastructureResource {
+    return {
+      id: uuidv4(),
+      type,
+      name,
+      provider_id: providerId,
+      specifications,
+      status,
+      created_at: createdAt ? new Date(createdAt).toISOString() : new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      dependencies: [],
+      dependents: [],
+      hourly_cost: hourlyCost,
+      monthly_cost: hourlyCost * 24 * 30
+    }
+  }
+
+  // VMs are priced with their public IP
+  private calculateInstanceCost(size: string): number {
+    const hourly = AzureProvider.PRICING.instance[size as keyof typeof AzureProvider.PRICING.instance] || 0.0104
+    return hourly + AzureProvider.PRICING.public_ip
+  }
+
+  private calculateDatabaseCost(sku: string, storageGigabytes: number, highAvailability: boolean): number {
+    const hourly = AzureProvider.PRICING.database[sku as keyof typeof AzureProvider.PRICING.database] || 0.017
+    return hourly * (highAvailability ? 2 : 1) + storageGigabytes * AzureProvider.PRICING.database_storage / (24 * 30)
+  }
+
+  private volumePrice(sku: string): number {
+    return AzureProvider.PRICING.volume[sku as keyof typeof AzureProvider.PRICING.volume] || 0.075
+  }
+}
@@ -4,14 +4,75 @@ import {
   CloudProviderInterface,
   CloudProvider,
   ResourceType,
+  ResourceStatus,
   InfrastructureResource,
   ResourceSpec,
   ResourceCost,
   ResourceHealth,
+  KubernetesNodePool,
+  DNSRecordType,
+  DockerCredentialOptions,
+  RegistryRepository,
+  RegistryGarbageCollection,
   ProviderError,
   ResourceNotFoundError,
-  DigitalOceanDroplet
+  UpdateResourceOptions,
+  AtlasError,
+  DigitalOceanDroplet,
+  ProviderRateLimit
 } from '../types'
+import { attachRetryPolicy, retryOptionsFromEnv } from '../utils/RetryPolicy'
+import { fetchAllPages, paginationOptionsFromEnv } from '../utils/Paginator'
+
+// Specification fields each resource type can change in place
+export const UPDATABLE_FIELDS: Partial<Record<ResourceType, string[]>> = {
+  droplet: ['size', 'resize_disk', 'tags'],
+  volume: ['size_gigabytes', 'tags'],
+  database: ['size', 'num_nodes', 'tags'],
+  load_balancer: ['forwarding_rules', 'health_check', 'algorithm', 'droplet_ids', 'sticky_sessions', 'redirect_http_to_https'],
+  firewall: ['inbound_rules', 'outbound_rules', 'droplet_ids', 'tags'],
+  kubernetes: ['node_pools', 'registry'],
+  dns_record: ['data', 'ttl', 'priority'],
+  container_registry: ['tier']
+}
+
+export const DNS_RECORD_TYPES: DNSRecordType[] = ['A', 'AAAA', 'CNAME', 'TXT', 'MX']
+
+/**
+ * Why an applied change cannot be undone by updating back to the earlier
+ * specification, or null. Droplet disks and volumes can grow but never shrink.
+ */
+export function irreversibleChange(type: ResourceType, before: ResourceSpec, after: ResourceSpec): string | null {
+  if (type === 'droplet' && after.resize_disk && after.size !== before.size) {
+    return `Droplet disk was resized for ${after.size} and cannot shrink back to ${before.size}`
+  }
+  if (type === 'volume' && (after.size_gigabytes || 0) > (before.size_gigabytes || 0)) {
+    return `Volume cannot shrink from ${after.size_gigabytes}GB back to ${before.size_gigabytes}GB`
+  }
+  return null
+}
+
+// DigitalOcean's default record TTL, in seconds
+const DEFAULT_DNS_TTL = 1800
+
+// Resource types accepted by the DigitalOcean tags API
+const TAGGABLE_RESOURCE_TYPES: Partial<Record<ResourceType, string>> = {
+  droplet: 'droplet',
+  volume: 'volume',
+  database: 'database'
+}
+
+// Droplet/volume actions (power off, resize, ...) are polled until they finish
+const ACTION_POLL_INTERVAL_MS = 5000
+const ACTION_TIMEOUT_MS = 15 * 60 * 1000
+
+/**
+ * Base URL of the DigitalOcean v2 API. DIGITALOCEAN_API_URL points Atlas at another
+ * endpoint, such as the local stand-in from fake-digitalocean-api.ts.
+ */
+export function digitalOceanApiUrl(env: NodeJS.ProcessEnv = process.env): string {
+  return (env.DIGITALOCEAN_API_URL || 'https://api.digitalocean.com/v2').replace(/\/+$/, '')
+}
 
 // Import services for SSH key generation and storage
 interface HermesSSHKeyResponse {
@@ -30,6 +91,8 @@ export class DigitalOceanProvider implements CloudProviderInterface {
   name: CloudProvider = 'digitalocean'
   private client: AxiosInstance
   private apiToken: string
+  private retryPolicy: { getRateLimit(): ProviderRateLimit | null }
+  private pagination = paginationOptionsFromEnv()
 
   // DigitalOcean regions
   regions = [
@@ -46,13 +109,14 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     'firewall',
     'vpc',
     'domain',
+    'dns_record',
     'cdn',
     'kubernetes',
     'container_registry'
   ]
 
   // Pricing information (per hour in USD)
-  private static readonly PRICING = {
+  static readonly PRICING = {
     // Droplet sizes (per hour)
     droplet: {
       's-1vcpu-512mb-10gb': 0.00744,
@@ -80,14 +144,20 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     },
     // Load balancers (per month)
     load_balancer: 12.00,
-    // Kubernetes clusters (per month)
-    kubernetes: 12.00,
+    // Kubernetes high-availability control plane (per month; nodes are priced as droplets)
+    kubernetes: 40.00,
+    // Container registry subscription tiers (per month)
+    container_registry: {
+      'starter': 0,
+      'basic': 5.00,
+      'professional': 20.00,
+    },
   }
 
   constructor(apiToken: string) {
     this.apiToken = apiToken
     this.client = axios.create({
-      baseURL: 'https://api.digitalocean.com/v2',
+      baseURL: digitalOceanApiUrl(),
       headers: {
         'Authorization': `Bearer ${apiToken}`,
         'Content-Type': 'application/json'
@@ -95,15 +165,22 @@ export class DigitalOceanProvider implements CloudProviderInterface {
       timeout: 30000
     })
 
+    // Retries transient failures; registered first so it sees raw axios errors
+    this.retryPolicy = attachRetryPolicy(this.client, retryOptionsFromEnv())
+
     // Add response interceptor for error handling
     this.client.interceptors.response.use(
       response => response,
       error => {
+        if (error instanceof ProviderError) {
+          throw error // Already converted by a retried request
+        }
         if (error.response) {
           const { status, data } = error.response
           throw new ProviderError(
-            `DigitalOcean API Error: ${data.message || error.message}`,
-            'digitalocean'
+            `DigitalOcean API Error: ${data?.message || error.message}`,
+            'digitalocean',
+            status
           )
         }
         throw new ProviderError(error.message, 'digitalocean')
@@ -111,6 +188,17 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     )
   }
 
+  /**
+   * Every item from a paginated list endpoint, e.g. listAll('/droplets', 'droplets')
+   */
+  private listAll<T = any>(path: string, key: string, params?: Record<string, any>): Promise<T[]> {
+    return fetchAllPages<T>((url, config) => this.client.get(url, config), path, key, params, this.pagination)
+  }
+
+  getRateLimit(): ProviderRateLimit | null {
+    return this.retryPolicy.getRateLimit()
+  }
+
   async authenticate(credentials: Record<string, string>): Promise<boolean> {
     try {
       const response = await this.client.get('/account')
@@ -120,6 +208,11 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     }
   }
 
+  async getAccountId(): Promise<string> {
+    const response = await this.client.get('/account')
+    return response.data.account.uuid
+  }
+
   async createResource(type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource> {
     switch (type) {
       case 'droplet':
@@ -134,6 +227,14 @@ export class DigitalOceanProvider implements CloudProviderInterface {
         return await this.createFirewall(spec)
       case 'vpc':
         return await this.createVPC(spec)
+      case 'kubernetes':
+        return await this.createKubernetesCluster(spec)
+      case 'domain':
+        return await this.createDomain(spec)
+      case 'dns_record':
+        return await this.createDNSRecord(spec)
+      case 'container_registry':
+        return await this.createContainerRegistry(spec)
       default:
         throw new ProviderError(`Resource type ${type} not supported`, 'digitalocean')
     }
@@ -163,6 +264,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
       ipv6: spec.ipv6 || false,
       monitoring: spec.monitoring || true,
       vpc_uuid: spec.vpc_uuid,
+      user_data: await this.dropletUserData(spec),
       tags: Object.keys(spec.tags || {}).map(key => `${key}:${spec.tags![key]}`),
     }
 
@@ -191,7 +293,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     } catch (error) {
       console.error('[DigitalOcean] Droplet creation failed:', {
         error: error,
-        dropletSpec,
+        dropletSpec: { ...dropletSpec, user_data: dropletSpec.user_data && '[redacted]' },
         apiToken: this.apiToken ? 'Present' : 'Missing'
       })
       
@@ -205,6 +307,34 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     }
   }
 
+  /**
+   * User data for a droplet. With `registry`, read-only Docker credentials for the
+   * registry are written to /root/.docker/config.json before the rest of the script.
+   */
+  private async dropletUserData(spec: ResourceSpec): Promise<string | undefined> {
+    if (!spec.registry) {
+      return spec.user_data
+    }
+    if (spec.user_data && !spec.user_data.startsWith('#!')) {
+      throw new AtlasError('A droplet that pulls from a registry takes user_data as a shell script', 'INVALID_USER_DATA', 400)
+    }
+
+    const dockerConfig = await this.getDockerCredentials(spec.registry)
+    const login = [
+      'mkdir -p /root/.docker',
+      "cat > /root/.docker/config.json <<'ATLAS_DOCKER_CONFIG'",
+      dockerConfig,
+      'ATLAS_DOCKER_CONFIG',
+      'chmod 600 /root/.docker/config.json'
+    ].join('\n')
+
+    if (!spec.user_data) {
+      return `#!/bin/bash\n${login}\n`
+    }
+    const [shebang, ...script] = spec.user_data.split('\n')
+    return [shebang, login, ...script].join('\n')
+  }
+
   private async createVolume(spec: ResourceSpec): Promise<InfrastructureResource> {
     const volumeSpec = {
       type: 'gp1', // General purpose SSD
@@ -219,6 +349,21 @@ export class DigitalOceanProvider implements CloudProviderInterface {
       const response = await this.client.post('/volumes', volumeSpec)
       const volume = response.data.volume
 
+      // Attach to a droplet when one is given (e.g. a resolved reference); the
+      // volume is not recorded yet, so don't leave it behind if that fails
+      if (spec.droplet_id) {
+        try {
+          await this.client.post(`/volumes/${volume.id}/actions`, {
+            type: 'attach',
+            droplet_id: Number(spec.droplet_id),
+            region: volumeSpec.region
+          })
+        } catch (error) {
+          await this.client.delete(`/volumes/${volume.id}`).catch(() => undefined)
+          throw error
+        }
+      }
+
       // Calculate costs ($0.10 per GB per month)
       const monthlyCost = volumeSpec.size_gigabytes * 0.10
       const hourlyCost = monthlyCost / (24 * 30)
@@ -314,7 +459,8 @@ export class DigitalOceanProvider implements CloudProviderInterface {
         cookie_name: null,
         cookie_ttl_seconds: null
       },
-      droplet_ids: [],
+      droplet_ids: (spec.droplet_ids || []).map((id: string | number) => Number(id)),
+      vpc_uuid: spec.vpc_uuid,
       redirect_http_to_https: false,
       enable_proxy_protocol: false,
       enable_backend_keepalive: false,
@@ -355,7 +501,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
   private async createFirewall(spec: ResourceSpec): Promise<InfrastructureResource> {
     const firewallSpec = {
       name: spec.name || `firewall-${Date.now()}`,
-      inbound_rules: [
+      inbound_rules: spec.inbound_rules || [
         {
           protocol: 'tcp',
           ports: '22',
@@ -378,7 +524,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
           }
         }
       ],
-      outbound_rules: [
+      outbound_rules: spec.outbound_rules || [
         {
           protocol: 'tcp',
           ports: '1-65535',
@@ -394,7 +540,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
           }
         }
       ],
-      droplet_ids: [],
+      droplet_ids: (spec.droplet_ids || []).map((id: string | number) => Number(id)),
       tags: Object.keys(spec.tags || {})
     }
 
@@ -451,6 +597,261 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     }
   }
 
+  /**
+   * DOKS cluster. Without `node_pools`, one pool of `node_count` (default 1)
+   * nodes of `size` (default s-2vcpu-4gb) is created.
+   */
+  private async createKubernetesCluster(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = spec.name || `k8s-${Date.now()}`
+    const nodePools: KubernetesNodePool[] = spec.node_pools || [{
+      name: `${name}-default-pool`,
+      size: spec.size || 's-2vcpu-4gb',
+      count: spec.node_count || 1
+    }]
+
+    const clusterSpec = {
+      name,
+      region: spec.region || 'nyc3',
+      version: await this.resolveKubernetesVersion(spec.version),
+      vpc_uuid: spec.vpc_uuid,
+      auto_upgrade: spec.auto_upgrade ?? false,
+      ha: spec.ha ?? false,
+      tags: Object.keys(spec.tags || {}).map(key => `${key}:${spec.tags![key]}`),
+      node_pools: nodePools.map(pool => this.nodePoolBody(pool))
+    }
+
+    try {
+      const response = await this.client.post('/kubernetes/clusters', clusterSpec)
+      const cluster = response.data.kubernetes_cluster
+
+      // Give the cluster a pull secret for the registry; don't leave it behind if that fails
+      if (spec.registry) {
+        try {
+          await this.client.post('/kubernetes/registry', { cluster_uuids: [cluster.id] })
+        } catch (error) {
+          await this.client.delete(`/kubernetes/clusters/${cluster.id}`).catch(() => undefined)
+          throw error
+        }
+      }
+
+      const hourlyCost = this.calculateKubernetesCost(nodePools, clusterSpec.ha)
+      const resource = this.buildResource('kubernetes', cluster.name, cluster.id, 'creating', cluster.created_at, hourlyCost)
+      // Record the exact version, as getResource reports it
+      resource.specifications = { ...spec, version: cluster.version || clusterSpec.version }
+      return resource
+    } catch (error) {
+      throw new ProviderError(`Failed to create Kubernetes cluster: ${error}`, 'digitalocean')
+    }
+  }
+
+  /**
+   * Domain named `domain` (or the resource name). An `ip_address` also creates
+   * an A record for the apex.
+   */
+  private async createDomain(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = (spec.domain || spec.name || '').toLowerCase()
+
+    try {
+      const response = await this.client.post('/domains', { name, ip_address: spec.ip_address })
+      const domain = response.data.domain
+
+      const resource = this.buildResource('domain', domain.name, domain.name, 'active', undefined, 0)
+      resource.specifications = { ...spec, domain: domain.name }
+      return resource
+    } catch (error) {
+      throw new ProviderError(`Failed to create domain: ${error}`, 'digitalocean')
+    }
+  }
+
+  /**
+   * A, AAAA, CNAME, TXT or MX record. Give either `domain` and `hostname`, or an
+   * `fqdn` whose domain already exists in the account.
+   */
+  private async createDNSRecord(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const recordType = (spec.record_type || 'A').toUpperCase() as DNSRecordType
+    if (!DNS_RECORD_TYPES.includes(recordType)) {
+      throw new AtlasError(
+        `DNS record type ${recordType} is not supported (supported: ${DNS_RECORD_TYPES.join(', ')})`,
+        'INVALID_DNS_RECORD',
+        400
+      )
+    }
+    if (!spec.data) {
+      throw new AtlasError(`A ${recordType} record needs data`, 'INVALID_DNS_RECORD', 400)
+    }
+
+    const { domain, hostname } = spec.domain
+      ? { domain: spec.domain.toLowerCase(), hostname: spec.hostname || '@' }
+      : await this.resolveRecordDomain(spec.fqdn)
+
+    const recordSpec = {
+      type: recordType,
+      name: hostname,
+      data: this.recordData(recordType, spec.data),
+      ttl: spec.ttl || DEFAULT_DNS_TTL,
+      priority: recordType === 'MX' ? spec.priority ?? 10 : null
+    }
+
+    try {
+      const response = await this.client.post(`/domains/${domain}/records`, recordSpec)
+      const record = response.data.domain_record
+
+      const resource = this.buildResource('dns_record', this.recordName(domain, record.name), `${domain}/${record.id}`, 'active', undefined, 0)
+      resource.specifications = { ...spec, domain, hostname, record_type: recordType, ttl: recordSpec.ttl }
+      return resource
+    } catch (error) {
+      throw new ProviderError(`Failed to create ${recordType} record: ${error}`, 'digitalocean')
+    }
+  }
+
+  /**
+   * Split a full record name into the account's most specific matching domain
+   * and the record name within it
+   */
+  private async resolveRecordDomain(fqdn?: string): Promise<{ domain: string; hostname: string }> {
+    if (!fqdn) {
+      throw new AtlasError('A DNS record needs a domain or an fqdn', 'INVALID_DNS_RECORD', 400)
+    }
+
+    const name = fqdn.toLowerCase().replace(/\.$/, '')
+    const domain = await this.findDomain(name)
+    if (!domain) {
+      throw new AtlasError(`No domain in the DigitalOcean account contains ${name} - add the domain first`, 'DOMAIN_NOT_FOUND', 404)
+    }
+    return { domain, hostname: name === domain ? '@' : name.slice(0, -(domain.length + 1)) }
+  }
+
+  irreversibleChange(type: ResourceType, before: ResourceSpec, after: ResourceSpec): string | null {
+    return irreversibleChange(type, before, after)
+  }
+
+  async findDomain(fqdn: string): Promise<string | null> {
+    const name = fqdn.toLowerCase().replace(/\.$/, '')
+    const domains = await this.listAll<{ name: string }>('/domains', 'domains')
+    return domains
+      .map(candidate => candidate.name)
+      .filter(candidate => name === candidate || name.endsWith(`.${candidate}`))
+      .sort((a, b) => b.length - a.length)[0] || null
+  }
+
+  // CNAME and MX targets must end with a dot, or DigitalOcean appends the domain
+  private recordData(recordType: DNSRecordType, data: string): string {
+    return (recordType === 'CNAME' || recordType === 'MX') && data !== '@' && !data.endsWith('.') ? `${data}.` : data
+  }
+
+  private recordName(domain: string, hostname: string): string {
+    return hostname === '@' ? domain : `${hostname}.${domain}`
+  }
+
+  // Record provider IDs are '<domain>/<record id>'
+  private parseRecordId(providerId: string): { domain: string; recordId: string } {
+    const separator = providerId.lastIndexOf('/')
+    return { domain: providerId.slice(0, separator), recordId: providerId.slice(separator + 1) }
+  }
+
+  /**
+   * The account's container registry - DigitalOcean allows one. `tier` is
+   * starter (default, free), basic or professional.
+   */
+  private async createContainerRegistry(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const tier = spec.tier || 'starter'
+    const registrySpec = {
+      name: (spec.name || `registry-${Date.now()}`).toLowerCase(),
+      subscription_tier_slug: tier,
+      region: spec.region
+    }
+
+    try {
+      const response = await this.client.post('/registry', registrySpec)
+      const registry = response.data.registry
+
+      const resource = this.buildResource('container_registry', registry.name, registry.name, 'active', registry.created_at, this.calculateRegistryCost(tier))
+      resource.specifications = { ...spec, tier }
+      return resource
+    } catch (error) {
+      throw new ProviderError(`Failed to create container registry: ${error}`, 'digitalocean')
+    }
+  }
+
+  /**
+   * Docker config.json credentials for the registry. Without an expiry they stay valid
+   * until revoked.
+   */
+  async getDockerCredentials(registryName: string, options: DockerCredentialOptions = {}): Promise<string> {
+    const response = await this.client.get('/registry/docker-credentials', {
+      params: { read_write: options.readWrite ?? false, expiry_seconds: options.expirySeconds }
+    })
+    return JSON.stringify(response.data)
+  }
+
+  async listRegistryRepositories(registryName: string): Promise<RegistryRepository[]> {
+    const repositories = await this.listAll(`/registry/${registryName}/repositoriesV2`, 'repositories')
+    return repositories.map(repository => ({
+      name: repository.name,
+      tag_count: repository.tag_count,
+      manifest_count: repository.manifest_count,
+      latest_tag: repository.latest_manifest?.tags?.[0],
+      updated_at: repository.latest_manifest?.updated_at
+    }))
+  }
+
+  /**
+   * Remove untagged manifests and unreferenced blobs. The registry is read-only
+   * until the run finishes.
+   */
+  async startRegistryGarbageCollection(registryName: string): Promise<RegistryGarbageCollection> {
+    const response = await this.client.post(`/registry/${registryName}/garbage-collection`, {
+      type: 'untagged manifests and unreferenced blobs'
+    })
+    const run = response.data.garbage_collection
+    return { id: run.uuid, status: run.status, created_at: run.created_at }
+  }
+
+  /**
+   * Turn a version such as '1.29' into the newest matching DOKS slug ('1.29.1-do.0').
+   * No version means the latest one.
+   */
+  private async resolveKubernetesVersion(version?: string): Promise<string> {
+    if (!version || version === 'latest') {
+      return 'latest'
+    }
+
+    const response = await this.client.get('/kubernetes/options')
+    const versions: { slug: string; kubernetes_version: string }[] = response.data.options?.versions || []
+    const match = versions.find(v => v.slug === version) ||
+      versions.find(v => v.kubernetes_version === version || v.kubernetes_version.startsWith(`${version}.`))
+    if (!match) {
+      throw new AtlasError(
+        `Kubernetes version ${version} is not available (available: ${versions.map(v => v.kubernetes_version).join(', ') || 'none'})`,
+        'UNSUPPORTED_KUBERNETES_VERSION',
+        400
+      )
+    }
+    return match.slug
+  }
+
+  private nodePoolBody(pool: KubernetesNodePool): Record<string, any> {
+    return {
+      name: pool.name,
+      size: pool.size,
+      count: pool.count,
+      auto_scale: pool.auto_scale ?? false,
+      min_nodes: pool.auto_scale ? pool.min_nodes ?? 1 : undefined,
+      max_nodes: pool.auto_scale ? pool.max_nodes ?? pool.count : undefined
+    }
+  }
+
+  /**
+   * Kubeconfig for a cluster, with credentials valid for seven days
+   */
+  async getKubeconfig(clusterId: string): Promise<string> {
+    const response = await this.client.get(`/kubernetes/clusters/${clusterId}/kubeconfig`, {
+      responseType: 'text',
+      headers: { Accept: 'application/yaml' }
+    })
+    return response.data
+  }
+
   /**
    * Generate SSH key via Hermes and upload to DigitalOcean
    * Following the CLI success pattern: Generate → Upload → Store
@@ -518,65 +919,620 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     }
   }
 
-  async updateResource(id: string, spec: Partial<ResourceSpec>): Promise<InfrastructureResource> {
-    // Implementation would depend on resource type
-    // For now, return a placeholder
-    throw new Error('Update resource not yet implemented')
+  /**
+   * Apply changed specification fields to an existing resource.
+   * `spec` should contain only the fields that changed; each provider action
+   * is reported through `options.onStep` before it runs.
+   */
+  async updateResource(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    options: UpdateResourceOptions = {}
+  ): Promise<InfrastructureResource> {
+    const type = options.type || 'droplet'
+    const current = options.current || {}
+    const onStep = options.onStep || (() => undefined)
+
+    // Reject the whole update before any action runs
+    const allowed = UPDATABLE_FIELDS[type] || []
+    const unsupported = Object.keys(spec).filter(field => !allowed.includes(field))
+    if (unsupported.length > 0) {
+      throw new AtlasError(
+        `Cannot change ${unsupported.join(', ')} on ${type} in place (supported: ${allowed.join(', ') || 'none'})`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    switch (type) {
+      case 'droplet':
+        if (spec.size) {
+          await this.resizeDroplet(providerId, spec.size, spec.resize_disk ?? current.resize_disk ?? false, onStep)
+        }
+        break
+      case 'volume':
+        if (spec.size_gigabytes) {
+          await this.resizeVolume(providerId, spec.size_gigabytes, onStep)
+        }
+        break
+      case 'database':
+        if (spec.size || spec.num_nodes) {
+          await onStep(`Resize database to ${spec.size || current.size} x ${spec.num_nodes || current.num_nodes || 1} nodes`)
+          await this.client.put(`/databases/${providerId}/resize`, {
+            size: spec.size || current.size,
+            num_nodes: spec.num_nodes || current.num_nodes || 1
+          })
+        }
+        break
+      case 'load_balancer':
+        await this.updateLoadBalancer(providerId, spec, onStep)
+        break
+      case 'firewall':
+        await this.updateFirewall(providerId, spec, onStep)
+        break
+      case 'kubernetes':
+        if (spec.node_pools) {
+          await this.updateNodePools(providerId, spec.node_pools, onStep)
+        }
+        if ('registry' in spec) {
+          await onStep(`${spec.registry ? 'Connect' : 'Disconnect'} cluster ${providerId} ${spec.registry ? 'to' : 'from'} the container registry`)
+          const clusters = { cluster_uuids: [providerId] }
+          if (spec.registry) {
+            await this.client.post('/kubernetes/registry', clusters)
+          } else {
+            await this.client.delete('/kubernetes/registry', { data: clusters })
+          }
+        }
+        break
+      case 'dns_record':
+        await this.updateDNSRecord(providerId, spec, onStep)
+        break
+      case 'container_registry':
+        if (spec.tier) {
+          await onStep(`Change registry ${providerId} subscription to ${spec.tier}`)
+          await this.client.post('/registry/subscription', { tier_slug: spec.tier })
+        }
+        break
+    }
+
+    if (spec.tags && TAGGABLE_RESOURCE_TYPES[type]) {
+      await this.updateTags(providerId, TAGGABLE_RESOURCE_TYPES[type]!, current.tags || {}, spec.tags, onStep)
+    }
+
+    const live = await this.getResource(providerId, type)
+    if (!live) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return { ...live, specifications: { ...current, ...spec } }
+  }
+
+  /**
+   * Power off, resize and power back on (only if it was running before)
+   */
+  private async resizeDroplet(
+    dropletId: string,
+    size: string,
+    resizeDisk: boolean,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const response = await this.client.get(`/droplets/${dropletId}`)
+    const wasRunning = response.data.droplet.status === 'active'
+
+    if (wasRunning) {
+      await onStep(`Power off droplet ${dropletId}`)
+      await this.runAction(`/droplets/${dropletId}/actions`, { type: 'power_off' })
+    }
+
+    await onStep(`Resize droplet ${dropletId} to ${size}${resizeDisk ? ' (including disk)' : ''}`)
+    await this.runAction(`/droplets/${dropletId}/actions`, { type: 'resize', size, disk: resizeDisk })
+
+    if (wasRunning) {
+      await onStep(`Power on droplet ${dropletId}`)
+      await this.runAction(`/droplets/${dropletId}/actions`, { type: 'power_on' })
+    }
   }
 
-  async deleteResource(providerId: string): Promise<void> {
-    try {
-      // Try droplet first (most common)
-      await this.client.delete(`/droplets/${providerId}`)
-    } catch (error) {
-      // If not a droplet, try other resource types
+  /**
+   * Volumes can only grow
+   */
+  private async resizeVolume(
+    volumeId: string,
+    sizeGigabytes: number,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const response = await this.client.get(`/volumes/${volumeId}`)
+    const volume = response.data.volume
+
+    if (sizeGigabytes < volume.size_gigabytes) {
+      throw new AtlasError(
+        `Volume ${volumeId} cannot shrink from ${volume.size_gigabytes}GB to ${sizeGigabytes}GB`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+    if (sizeGigabytes === volume.size_gigabytes) return
+
+    await onStep(`Expand volume ${volumeId} to ${sizeGigabytes}GB`)
+    await this.runAction(`/volumes/${volumeId}/actions`, {
+      type: 'resize',
+      size_gigabytes: sizeGigabytes,
+      region: volume.region?.slug
+    })
+  }
+
+  /**
+   * The load balancer API replaces the whole configuration, so start from the live one
+   */
+  private async updateLoadBalancer(
+    loadBalancerId: string,
+    spec: Partial<ResourceSpec>,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const response = await this.client.get(`/load_balancers/${loadBalancerId}`)
+    const loadBalancer = response.data.load_balancer
+
+    await onStep(`Update load balancer ${loadBalancerId} (${Object.keys(spec).join(', ')})`)
+    await this.client.put(`/load_balancers/${loadBalancerId}`, {
+      name: loadBalancer.name,
+      region: loadBalancer.region?.slug,
+      size_unit: loadBalancer.size_unit,
+      vpc_uuid: loadBalancer.vpc_uuid,
+      algorithm: spec.algorithm || loadBalancer.algorithm,
+      forwarding_rules: spec.forwarding_rules || loadBalancer.forwarding_rules,
+      health_check: spec.health_check || loadBalancer.health_check,
+      sticky_sessions: spec.sticky_sessions || loadBalancer.sticky_sessions,
+      redirect_http_to_https: spec.redirect_http_to_https ?? loadBalancer.redirect_http_to_https,
+      droplet_ids: spec.droplet_ids
+        ? spec.droplet_ids.map((id: string | number) => Number(id))
+        : loadBalancer.droplet_ids
+    })
+  }
+
+  /**
+   * The firewall API replaces rules and targets wholesale, so start from the live firewall
+   */
+  private async updateFirewall(
+    firewallId: string,
+    spec: Partial<ResourceSpec>,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const response = await this.client.get(`/firewalls/${firewallId}`)
+    const firewall = response.data.firewall
+
+    await onStep(`Update firewall ${firewallId} (${Object.keys(spec).join(', ')})`)
+    await this.client.put(`/firewalls/${firewallId}`, {
+      name: firewall.name,
+      inbound_rules: spec.inbound_rules || firewall.inbound_rules,
+      outbound_rules: spec.outbound_rules || firewall.outbound_rules,
+      droplet_ids: spec.droplet_ids
+        ? spec.droplet_ids.map((id: string | number) => Number(id))
+        : firewall.droplet_ids,
+      // Firewall tags select target droplets, matching createFirewall
+      tags: spec.tags ? Object.keys(spec.tags) : firewall.tags
+    })
+  }
+
+  /**
+   * Make the cluster's node pools match `pools`, matched by name: pools are
+   * scaled in place, added, or removed along with their nodes. A pool's
+   * droplet size cannot change; add a new pool instead.
+   */
+  private async updateNodePools(
+    clusterId: string,
+    pools: KubernetesNodePool[],
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const response = await this.client.get(`/kubernetes/clusters/${clusterId}/node_pools`)
+    const live: any[] = response.data.node_pools || []
+
+    // Reject the whole update before any pool changes
+    const resized = pools.filter(pool => live.some(current => current.name === pool.name && current.size !== pool.size))
+    if (resized.length > 0) {
+      throw new AtlasError(
+        `Cannot change the node size of pool ${resized.map(pool => pool.name).join(', ')} in place - add a new pool instead`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    for (const pool of pools) {
+      const current = live.find(candidate => candidate.name === pool.name)
+      const body = this.nodePoolBody(pool)
+
+      if (!current) {
+        await onStep(`Add node pool ${pool.name} (${pool.count} x ${pool.size})`)
+        await this.client.post(`/kubernetes/clusters/${clusterId}/node_pools`, body)
+      } else if (
+        current.count !== body.count ||
+        Boolean(current.auto_scale) !== body.auto_scale ||
+        (body.auto_scale && (current.min_nodes !== body.min_nodes || current.max_nodes !== body.max_nodes))
+      ) {
+        const scaling = body.auto_scale ? `auto-scale ${body.min_nodes}-${body.max_nodes} nodes` : `${body.count} nodes`
+        await onStep(`Scale node pool ${pool.name} to ${scaling}`)
+        await this.client.put(`/kubernetes/clusters/${clusterId}/node_pools/${current.id}`, {
+          name: body.name,
+          count: body.count,
+          auto_scale: body.auto_scale,
+          min_nodes: body.min_nodes,
+          max_nodes: body.max_nodes
+        })
+      }
+    }
+
+    for (const current of live.filter(candidate => !pools.some(pool => pool.name === candidate.name))) {
+      await onStep(`Remove node pool ${current.name}`)
+      await this.client.delete(`/kubernetes/clusters/${clusterId}/node_pools/${current.id}`)
+    }
+  }
+
+  /**
+   * The record API expects the full record, so start from the live one
+   */
+  private async updateDNSRecord(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const { domain, recordId } = this.parseRecordId(providerId)
+    const response = await this.client.get(`/domains/${domain}/records/${recordId}`)
+    const record = response.data.domain_record
+
+    await onStep(`Update ${record.type} record ${this.recordName(domain, record.name)} (${Object.keys(spec).join(', ')})`)
+    await this.client.put(`/domains/${domain}/records/${recordId}`, {
+      type: record.type,
+      name: record.name,
+      data: spec.data ? this.recordData(record.type, spec.data) : record.data,
+      ttl: spec.ttl ?? record.ttl,
+      priority: spec.priority ?? record.priority
+    })
+  }
+
+  /**
+   * Tag and untag a resource so its DigitalOcean tags match `next`
+   */
+  private async updateTags(
+    resourceId: string,
+    resourceType: string,
+    current: Record<string, string>,
+    next: Record<string, string>,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const toNames = (tags: Record<string, string>) => Object.keys(tags).map(key => `${key}:${tags[key]}`)
+    const currentNames = toNames(current)
+    const nextNames = toNames(next)
+    const added = nextNames.filter(name => !currentNames.includes(name))
+    const removed = currentNames.filter(name => !nextNames.includes(name))
+    const resources = [{ resource_id: resourceId, resource_type: resourceType }]
+
+    for (const name of added) {
+      await onStep(`Tag ${resourceType} ${resourceId} with ${name}`)
       try {
-        await this.client.delete(`/volumes/${providerId}`)
-      } catch (error2) {
-        try {
+        await this.client.post('/tags', { name })
+      } catch (error) {
+        // 422 means the tag already exists
+        if (!(error instanceof ProviderError && error.providerStatus === 422)) throw error
+      }
+      await this.client.post(`/tags/${encodeURIComponent(name)}/resources`, { resources })
+    }
+
+    for (const name of removed) {
+      await onStep(`Remove tag ${name} from ${resourceType} ${resourceId}`)
+      await this.client.delete(`/tags/${encodeURIComponent(name)}/resources`, { data: { resources } })
+    }
+  }
+
+  /**
+   * Start a droplet or volume action and wait for it to finish
+   */
+  private async runAction(path: string, body: Record<string, any>): Promise<void> {
+    const response = await this.client.post(path, body)
+    let action = response.data.action
+    const deadline = Date.now() + ACTION_TIMEOUT_MS
+
+    while (action.status === 'in-progress') {
+      if (Date.now() > deadline) {
+        throw new ProviderError(`Action ${action.id} (${body.type}) timed out`, 'digitalocean')
+      }
+      await new Promise(resolve => setTimeout(resolve, ACTION_POLL_INTERVAL_MS))
+      action = (await this.client.get(`/actions/${action.id}`)).data.action
+    }
+
+    if (action.status === 'errored') {
+      throw new ProviderError(`Action ${action.id} (${body.type}) failed`, 'digitalocean')
+    }
+  }
+
+  /**
+   * Delete a resource through its own endpoint. A resource that is already
+   * gone counts as deleted, so destroy can be retried safely.
+   */
+  async deleteResource(providerId: string, type: ResourceType = 'droplet'): Promise<void> {
+    try {
+      switch (type) {
+        case 'droplet':
+          await this.detachDropletAttachments(providerId)
+          await this.client.delete(`/droplets/${providerId}`)
+          break
+        case 'volume':
+          await this.detachVolume(providerId)
+          await this.client.delete(`/volumes/${providerId}`)
+          break
+        case 'database':
           await this.client.delete(`/databases/${providerId}`)
-        } catch (error3) {
-          throw new ProviderError(`Failed to delete resource ${providerId}`, 'digitalocean')
+          break
+        case 'load_balancer':
+          await this.client.delete(`/load_balancers/${providerId}`)
+          break
+        case 'firewall':
+          await this.client.delete(`/firewalls/${providerId}`)
+          break
+        case 'vpc':
+          await this.client.delete(`/vpcs/${providerId}`)
+          break
+        case 'kubernetes':
+          // Load balancers and volumes created from inside the cluster are left in place
+          await this.client.delete(`/kubernetes/clusters/${providerId}`)
+          break
+        case 'domain':
+          // Removes the domain's records too
+          await this.client.delete(`/domains/${providerId}`)
+          break
+        case 'dns_record': {
+          const { domain, recordId } = this.parseRecordId(providerId)
+          await this.client.delete(`/domains/${domain}/records/${recordId}`)
+          break
         }
+        case 'container_registry': {
+          // Only delete the account's registry if it is still this one
+          const response = await this.client.get('/registry')
+          if (response.data.registry?.name === providerId) {
+            await this.client.delete('/registry')
+          }
+          break
+        }
+        default:
+          throw new ProviderError(`Resource type ${type} not supported`, 'digitalocean')
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Detach volumes and remove the droplet from firewalls and load balancers,
+   * so those resources stay intact and can be destroyed on their own
+   */
+  private async detachDropletAttachments(dropletId: string): Promise<void> {
+    const response = await this.client.get(`/droplets/${dropletId}`)
+    const droplet: DigitalOceanDroplet = response.data.droplet
+
+    for (const volumeId of droplet.volume_ids || []) {
+      await this.runAction(`/volumes/${volumeId}/actions`, {
+        type: 'detach',
+        droplet_id: droplet.id,
+        region: droplet.region?.slug
+      })
+    }
+
+    const [firewalls, loadBalancers] = await Promise.all([
+      this.listAll('/firewalls', 'firewalls'),
+      this.listAll('/load_balancers', 'load_balancers')
+    ])
+    const dropletIds = { droplet_ids: [droplet.id] }
+
+    for (const firewall of firewalls) {
+      if ((firewall.droplet_ids || []).includes(droplet.id)) {
+        await this.client.delete(`/firewalls/${firewall.id}/droplets`, { data: dropletIds })
+      }
+    }
+    for (const loadBalancer of loadBalancers) {
+      if ((loadBalancer.droplet_ids || []).includes(droplet.id)) {
+        await this.client.delete(`/load_balancers/${loadBalancer.id}/droplets`, { data: dropletIds })
       }
     }
   }
 
-  async getResource(providerId: string): Promise<InfrastructureResource | null> {
+  /**
+   * Attached volumes cannot be deleted - detach from every droplet first
+   */
+  private async detachVolume(volumeId: string): Promise<void> {
+    const response = await this.client.get(`/volumes/${volumeId}`)
+    const volume = response.data.volume
+
+    for (const dropletId of volume.droplet_ids || []) {
+      await this.runAction(`/volumes/${volumeId}/actions`, {
+        type: 'detach',
+        droplet_id: dropletId,
+        region: volume.region?.slug
+      })
+    }
+  }
+
+  async getResource(providerId: string, type: ResourceType = 'droplet'): Promise<InfrastructureResource | null> {
     try {
-      // Try to get droplet
-      const response = await this.client.get(`/droplets/${providerId}`)
-      const droplet: DigitalOceanDroplet = response.data.droplet
+      switch (type) {
+        case 'droplet': {
+          const response = await this.client.get(`/droplets/${providerId}`)
+          const droplet: DigitalOceanDroplet = response.data.droplet
+
+          const hourlyCost = droplet.size?.price_hourly ?? this.calculateDropletCost(droplet.size_slug)
+          const resource = this.buildResource('droplet', droplet.name, droplet.id.toString(), this.mapDropletStatus(droplet.status), droplet.created_at, hourlyCost)
+          resource.public_ip = droplet.networks?.v4?.find((n: any) => n.type === 'public')?.ip_address
+          resource.private_ip = droplet.networks?.v4?.find((n: any) => n.type === 'private')?.ip_address
+          resource.specifications = {
+            size: droplet.size_slug,
+            region: droplet.region?.slug,
+            image: droplet.image?.slug || droplet.image?.id?.toString(),
+            vpc_uuid: droplet.vpc_uuid,
+            tags: this.parseTags(droplet.tags)
+          }
+          return resource
+        }
+        case 'volume': {
+          const response = await this.client.get(`/volumes/${providerId}`)
+          const volume = response.data.volume
+
+          const monthlyCost = volume.size_gigabytes * 0.10
+          const resource = this.buildResource('volume', volume.name, volume.id, 'active', volume.created_at, monthlyCost / (24 * 30))
+          resource.specifications = {
+            size_gigabytes: volume.size_gigabytes,
+            region: volume.region?.slug,
+            droplet_ids: volume.droplet_ids || [],
+            tags: this.parseTags(volume.tags)
+          }
+          return resource
+        }
+        case 'database': {
+          const response = await this.client.get(`/databases/${providerId}`)
+          const database = response.data.database
+
+          const monthlyCost = DigitalOceanProvider.PRICING.database[database.size as keyof typeof DigitalOceanProvider.PRICING.database] || 15.00
+          const status = database.status === 'online' ? 'active' : 'creating'
+          const resource = this.buildResource('database', database.name, database.id, status, database.created_at, monthlyCost / (24 * 30))
+          resource.specifications = {
+            size: database.size,
+            region: database.region,
+            engine: database.engine,
+            version: database.version,
+            num_nodes: database.num_nodes,
+            tags: this.parseTags(database.tags)
+          }
+          return resource
+        }
+        case 'load_balancer': {
+          const response = await this.client.get(`/load_balancers/${providerId}`)
+          const loadBalancer = response.data.load_balancer
+
+          const status = loadBalancer.status === 'active' ? 'active' : loadBalancer.status === 'errored' ? 'error' : 'creating'
+          const resource = this.buildResource('load_balancer', loadBalancer.name, loadBalancer.id, status, loadBalancer.created_at, DigitalOceanProvider.PRICING.load_balancer / (24 * 30))
+          resource.public_ip = loadBalancer.ip || undefined
+          resource.specifications = {
+            region: loadBalancer.region?.slug,
+            droplet_ids: loadBalancer.droplet_ids || [],
+            forwarding_rules: loadBalancer.forwarding_rules || []
+          }
+          return resource
+        }
+        case 'firewall': {
+          const response = await this.client.get(`/firewalls/${providerId}`)
+          const firewall = response.data.firewall
+
+          const status = firewall.status === 'failed' ? 'error' : 'active'
+          const resource = this.buildResource('firewall', firewall.name, firewall.id, status, firewall.created_at, 0)
+          resource.specifications = {
+            droplet_ids: firewall.droplet_ids || [],
+            inbound_rules: firewall.inbound_rules || [],
+            outbound_rules: firewall.outbound_rules || [],
+            tags: this.parseTags(firewall.tags)
+          }
+          return resource
+        }
+        case 'vpc': {
+          const response = await this.client.get(`/vpcs/${providerId}`)
+          const vpc = response.data.vpc
+
+          const resource = this.buildResource('vpc', vpc.name, vpc.id, 'active', vpc.created_at, 0)
+          resource.specifications = {
+            region: vpc.region,
+            ip_range: vpc.ip_range
+          }
+          return resource
+        }
+        case 'kubernetes': {
+          const response = await this.client.get(`/kubernetes/clusters/${providerId}`)
+          const cluster = response.data.kubernetes_cluster
+
+          const nodePools: KubernetesNodePool[] = (cluster.node_pools || []).map((pool: any) => ({
+            name: pool.name,
+            size: pool.size,
+            count: pool.count,
+            auto_scale: pool.auto_scale,
+            min_nodes: pool.auto_scale ? pool.min_nodes : undefined,
+            max_nodes: pool.auto_scale ? pool.max_nodes : undefined
+          }))
+          const resource = this.buildResource(
+            'kubernetes', cluster.name, cluster.id, this.mapClusterStatus(cluster.status?.state),
+            cluster.created_at, this.calculateKubernetesCost(nodePools, cluster.ha)
+          )
+          resource.public_ip = cluster.ipv4 || undefined
+          resource.specifications = {
+            region: cluster.region,
+            version: cluster.version,
+            vpc_uuid: cluster.vpc_uuid,
+            endpoint: cluster.endpoint,
+            node_pools: nodePools,
+            auto_upgrade: cluster.auto_upgrade,
+            ha: cluster.ha,
+            tags: this.parseTags((cluster.tags || []).filter((tag: string) => !tag.startsWith('k8s')))
+          }
+          return resource
+        }
+        case 'domain': {
+          const response = await this.client.get(`/domains/${providerId}`)
+          const domain = response.data.domain
 
-      const hourlyCost = this.calculateDropletCost(droplet.size_slug)
-      const monthlyCost = hourlyCost * 24 * 30
+          const resource = this.buildResource('domain', domain.name, domain.name, 'active', undefined, 0)
+          resource.specifications = { domain: domain.name, ttl: domain.ttl }
+          return resource
+        }
+        case 'dns_record': {
+          const { domain, recordId } = this.parseRecordId(providerId)
+          const response = await this.client.get(`/domains/${domain}/records/${recordId}`)
+          const record = response.data.domain_record
+
+          const resource = this.buildResource('dns_record', this.recordName(domain, record.name), providerId, 'active', undefined, 0)
+          resource.specifications = {
+            domain,
+            hostname: record.name,
+            record_type: record.type,
+            data: record.data,
+            ttl: record.ttl,
+            priority: record.priority ?? undefined
+          }
+          return resource
+        }
+        case 'container_registry': {
+          const response = await this.client.get('/registry')
+          const registry = response.data.registry
+          if (registry?.name !== providerId) {
+            return null // Replaced by another registry
+          }
 
-      return {
-        id: uuidv4(),
-        type: 'droplet',
-        name: droplet.name,
-        provider_id: droplet.id.toString(),
-        specifications: {},
-        status: this.mapDropletStatus(droplet.status),
-        created_at: droplet.created_at,
-        updated_at: new Date().toISOString(),
-        dependencies: [],
-        dependents: [],
-        hourly_cost: hourlyCost,
-        monthly_cost: monthlyCost
+          const subscription = (await this.client.get('/registry/subscription')).data.subscription
+          const tier = subscription?.tier?.slug
+          const resource = this.buildResource('container_registry', registry.name, registry.name, 'active', registry.created_at, this.calculateRegistryCost(tier))
+          resource.specifications = {
+            tier,
+            region: registry.region,
+            storage_usage_bytes: registry.storage_usage_bytes
+          }
+          return resource
+        }
+        default:
+          throw new ProviderError(`Resource type ${type} not supported`, 'digitalocean')
       }
     } catch (error) {
-      return null
+      // Only a 404 means the resource is gone - anything else is a real failure
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
     }
   }
 
   async listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]> {
     const resources: InfrastructureResource[] = []
 
+    // Supported filters: tag_name (DigitalOcean tag, e.g. 'atlas_operation:<id>')
+    const params = filters?.tag_name ? { tag_name: filters.tag_name } : undefined
+
     try {
       // Get droplets
-      const dropletsResponse = await this.client.get('/droplets')
-      const droplets: DigitalOceanDroplet[] = dropletsResponse.data.droplets
+      const droplets = await this.listAll<DigitalOceanDroplet>('/droplets', 'droplets', params)
 
       for (const droplet of droplets) {
         const hourlyCost = this.calculateDropletCost(droplet.size_slug)
@@ -599,8 +1555,8 @@ export class DigitalOceanProvider implements CloudProviderInterface {
       }
 
       // Get volumes
-      const volumesResponse = await this.client.get('/volumes')
-      const volumes = volumesResponse.data.volumes || []
+      const volumes = (await this.listAll('/volumes', 'volumes'))
+        .filter((volume: any) => !params || (volume.tags || []).includes(params.tag_name))
 
       for (const volume of volumes) {
         const monthlyCost = volume.size_gigabytes * 0.10
@@ -622,6 +1578,26 @@ export class DigitalOceanProvider implements CloudProviderInterface {
         })
       }
 
+      // Get databases
+      const databases = await this.listAll('/databases', 'databases', params)
+
+      for (const database of databases) {
+        const monthlyCost = DigitalOceanProvider.PRICING.database[database.size as keyof typeof DigitalOceanProvider.PRICING.database] || 15.00
+        const status = database.status === 'online' ? 'active' : 'creating'
+        resources.push(this.buildResource('database', database.name, database.id, status, database.created_at, monthlyCost / (24 * 30)))
+      }
+
+      // Get Kubernetes clusters (the list endpoint has no tag filter)
+      const clusters = (await this.listAll('/kubernetes/clusters', 'kubernetes_clusters'))
+        .filter((cluster: any) => !params || (cluster.tags || []).includes(params.tag_name))
+
+      for (const cluster of clusters) {
+        const hourlyCost = this.calculateKubernetesCost(cluster.node_pools || [], cluster.ha)
+        resources.push(this.buildResource('kubernetes', cluster.name, cluster.id, this.mapClusterStatus(cluster.status?.state), cluster.created_at, hourlyCost))
+      }
+
+      // Domains, records and the container registry cannot be tagged, so they are not listed here
+
     } catch (error) {
       console.error('Error listing resources:', error)
     }
@@ -654,6 +1630,18 @@ export class DigitalOceanProvider implements CloudProviderInterface {
 
   async estimateCost(spec: ResourceSpec): Promise<number> {
     // Estimate monthly cost based on resource specifications
+    if (spec.type === 'domain' || spec.type === 'dns_record' || spec.record_type) {
+      return 0 // DNS hosting is free
+    }
+
+    if (spec.type === 'container_registry' || spec.tier) {
+      return this.calculateRegistryCost(spec.tier) * 24 * 30
+    }
+
+    if (spec.node_pools) {
+      return this.calculateKubernetesCost(spec.node_pools, spec.ha) * 24 * 30
+    }
+
     if (spec.size) {
       return this.calculateDropletCost(spec.size) * 24 * 30
     }
@@ -705,10 +1693,68 @@ export class DigitalOceanProvider implements CloudProviderInterface {
     }
   }
 
+  private buildResource(
+    type: ResourceType,
+    name: string,
+    providerId: string,
+    status: ResourceStatus,
+    createdAt: string | undefined,
+    hourlyCost: number
+  ): InfrastructureResource {
+    return {
+      id: uuidv4(),
+      type,
+      name,
+      provider_id: providerId,
+      specifications: {},
+      status,
+      created_at: createdAt || new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      dependencies: [],
+      dependents: [],
+      hourly_cost: hourlyCost,
+      monthly_cost: hourlyCost * 24 * 30
+    }
+  }
+
+  /**
+   * DigitalOcean tags are "key:value" strings - turn them back into the { key: value } form used in specs
+   */
+  private parseTags(tags: string[] = []): Record<string, string> {
+    return Object.fromEntries(tags.map(tag => {
+      const separator = tag.indexOf(':')
+      return separator === -1 ? [tag, ''] : [tag.slice(0, separator), tag.slice(separator + 1)]
+    }))
+  }
+
   private calculateDropletCost(sizeSlug: string): number {
     return DigitalOceanProvider.PRICING.droplet[sizeSlug as keyof typeof DigitalOceanProvider.PRICING.droplet] || 0.00893
   }
 
+  // Nodes are priced as droplets; the control plane only costs extra when highly available
+  private calculateKubernetesCost(pools: { size: string; count: number }[], ha?: boolean): number {
+    const nodes = pools.reduce((total, pool) => total + this.calculateDropletCost(pool.size) * pool.count, 0)
+    return nodes + (ha ? DigitalOceanProvider.PRICING.kubernetes / (24 * 30) : 0)
+  }
+
+  private calculateRegistryCost(tier: string = 'starter'): number {
+    const monthlyCost = DigitalOceanProvider.PRICING.container_registry[tier as keyof typeof DigitalOceanProvider.PRICING.container_registry] || 0
+    return monthlyCost / (24 * 30)
+  }
+
+  private mapClusterStatus(state: string): ResourceStatus {
+    switch (state) {
+      case 'running':
+      case 'degraded': return 'active' // Degraded clusters still serve; health checks report it
+      case 'upgrading': return 'updating'
+      case 'deleting': return 'deleting'
+      case 'deleted': return 'deleted'
+      case 'error':
+      case 'invalid': return 'error'
+      default: return 'creating'
+    }
+  }
+
   private mapDropletStatus(doStatus: string): any {
     switch (doStatus) {
       case 'new': return 'creating'
@@ -722,8 +1768,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
   // Utility methods for getting available options
   async getAvailableSizes(): Promise<any[]> {
     try {
-      const response = await this.client.get('/sizes')
-      return response.data.sizes
+      return await this.listAll('/sizes', 'sizes')
     } catch (error) {
       return []
     }
@@ -731,8 +1776,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
 
   async getAvailableImages(): Promise<any[]> {
     try {
-      const response = await this.client.get('/images?type=distribution')
-      return response.data.images
+      return await this.listAll('/images', 'images', { type: 'distribution' })
     } catch (error) {
       return []
     }
@@ -740,8 +1784,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
 
   async getAvailableRegions(): Promise<any[]> {
     try {
-      const response = await this.client.get('/regions')
-      return response.data.regions
+      return await this.listAll('/regions', 'regions')
     } catch (error) {
       return []
     }
@@ -752,8 +1795,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
    */
   async listDroplets(): Promise<any[]> {
     try {
-      const response = await this.client.get('/droplets')
-      return response.data.droplets || []
+      return await this.listAll('/droplets', 'droplets')
     } catch (error) {
       console.error('Failed to list DigitalOcean droplets:', error)
       throw new ProviderError(`Failed to list droplets: ${error instanceof Error ? error.message : 'Unknown error'}`, 'digitalocean')
@@ -765,8 +1807,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
    */
   async listDatabases(): Promise<any[]> {
     try {
-      const response = await this.client.get('/databases')
-      return response.data.databases || []
+      return await this.listAll('/databases', 'databases')
     } catch (error) {
       console.error('Failed to list DigitalOcean databases:', error)
       // Don't throw error for databases, just return empty array
@@ -779,8 +1820,7 @@ export class DigitalOceanProvider implements CloudProviderInterface {
    */
   async listLoadBalancers(): Promise<any[]> {
     try {
-      const response = await this.client.get('/load_balancers')
-      return response.data.load_balancers || []
+      return await this.listAll('/load_balancers', 'load_balancers')
     } catch (error) {
       console.error('Failed to list DigitalOcean load balancers:', error)
       // Don't throw error for load balancers, just return empty array
@@ -0,0 +1,736 @@
+/**
+ * Local HTTP stand-in for the EC2, RDS and Elastic Load Balancing Query API actions
+ * the AWS provider calls. Point Atlas at it with AWS_ENDPOINT_URL=http://localhost:3011
+ * (any access key works) to exercise the real AWSProvider - request signing, XML
+ * parsing, pagination - without an account.
+ *
+ * Run with `npm run fake-aws`. The service is taken from the signature's credential scope.
+ */
+
+import Fastify, { FastifyInstance, FastifyReply } from 'fastify'
+import { XMLBuilder } from 'fast-xml-parser'
+
+export interface FakeAwsApiOptions {
+  transitionMs: number // How long instances, databases and load balancers take to become ready
+}
+
+export const DEFAULT_FAKE_AWS_API_OPTIONS: FakeAwsApiOptions = {
+  transitionMs: 2000
+}
+
+type Params = Record<string, string>
+
+// A handler returns the action's result element, or an error to send instead
+type Handler = (params: Params) => any
+
+class FakeAwsError {
+  constructor(public status: number, public code: string, public message: string) {}
+}
+
+const xmlBuilder = new XMLBuilder({ ignoreAttributes: true, suppressEmptyNode: false })
+
+/**
+ * Read ATLAS_FAKE_TRANSITION_MS
+ */
+export function fakeAwsApiOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): FakeAwsApiOptions {
+  const transitionMs = Number(env.ATLAS_FAKE_TRANSITION_MS)
+  return {
+    transitionMs: env.ATLAS_FAKE_TRANSITION_MS !== undefined && !isNaN(transitionMs)
+      ? transitionMs
+      : DEFAULT_FAKE_AWS_API_OPTIONS.transitionMs
+  }
+}
+
+/**
+ * Values of a Query API list: indexed(params, 'InstanceId') reads InstanceId.1, InstanceId.2, ...
+ */
+function indexed(params: Params, prefix: string): string[] {
+  const values: string[] = []
+  for (let i = 1; params[`${prefix}.${i}`] !== undefined; i++) {
+    values.push(params[`${prefix}.${i}`])
+  }
+  return values
+}
+
+/**
+ * Structured list entries: entries(params, 'Tag') reads Tag.1.Key, Tag.1.Value, Tag.2.Key, ...
+ */
+function entries(params: Params, prefix: string): Params[] {
+  const found: Params[] = []
+  for (let i = 1; Object.keys(params).some(key => key.startsWith(`${prefix}.${i}.`)); i++) {
+    const start = `${prefix}.${i}.`
+    found.push(Object.fromEntries(Object.entries(params)
+      .filter(([key]) => key.startsWith(start))
+      .map(([key, value]) => [key.slice(start.length), value])))
+  }
+  return found
+}
+
+function tagsFrom(params: Params, prefix: string): Array<{ key: string; value: string }> {
+  return entries(params, prefix).map(tag => ({ key: tag.Key, value: tag.Value || '' }))
+}
+
+/**
+ * Slice `items` per MaxResults/MaxRecords and the continuation token from an earlier page
+ */
+function page<T>(params: Params, items: T[], tokenParam: 'NextToken' | 'Marker'): { items: T[]; next?: string } {
+  const size = Number(params.MaxResults || params.MaxRecords || params.PageSize) || items.length || 1
+  const start = Number(params[tokenParam]) || 0
+  const next = start + size < items.length ? String(start + size) : undefined
+  return { items: items.slice(start, start + size), next }
+}
+
+class FakeAwsState {
+  private sequence = 0
+  instances = new Map<string, any>()
+  volumes = new Map<string, any>()
+  groups = new Map<string, any>()
+  vpcs = new Map<string, any>()
+  subnets = new Map<string, any>()
+  databases = new Map<string, any>()
+  loadBalancers = new Map<string, any>()
+  targetGroups = new Map<string, any>()
+  listeners = new Map<string, any>()
+
+  constructor(private options: FakeAwsApiOptions) {}
+
+  reset(): void {
+    this.sequence = 0
+    for (const map of [this.instances, this.volumes, this.groups, this.vpcs, this.subnets,
+      this.databases, this.loadBalancers, this.targetGroups, this.listeners]) {
+      map.clear()
+    }
+  }
+
+  /**
+   * Deterministic IDs in AWS's format: i-00000000000000001, vol-00000000000000002, ...
+   */
+  id(prefix: string): string {
+    this.sequence++
+    return `${prefix}-${this.sequence.toString(16).padStart(17, '0')}`
+  }
+
+  arn(service: string, resource: string): string {
+    return `arn:aws:${service}:us-east-1:000000000000:${resource}`
+  }
+
+  settlesAt(): number {
+    return Date.now() + this.options.transitionMs
+  }
+
+  instance(id: string): any {
+    const instance = this.instances.get(id)
+    if (!instance) {
+      throw new FakeAwsError(400, 'InvalidInstanceID.NotFound', `The instance ID '${id}' does not exist`)
+    }
+    if (instance.instanceState.name === 'pending' && Date.now() >= instance.settlesAt) {
+      const n = this.instances.size
+      instance.instanceState = { code: 16, name: 'running' }
+      instance.ipAddress = `198.51.100.${n}`
+    }
+    return instance
+  }
+
+  volume(id: string): any {
+    const volume = this.volumes.get(id)
+    if (!volume) {
+      throw new FakeAwsError(400, 'InvalidVolume.NotFound', `The volume '${id}' does not exist.`)
+    }
+    return volume
+  }
+
+  group(id: string): any {
+    const group = this.groups.get(id)
+    if (!group) {
+      throw new FakeAwsError(400, 'InvalidGroup.NotFound', `The security group '${id}' does not exist`)
+    }
+    return group
+  }
+
+  database(id: string): any {
+    const database = this.databases.get(id)
+    if (!database) {
+      throw new FakeAwsError(404, 'DBInstanceNotFound', `DBInstance ${id} not found.`)
+    }
+    if (Date.now() >= database.settlesAt) {
+      if (database.DBInstanceStatus === 'deleting') {
+        this.databases.delete(id)
+        throw new FakeAwsError(404, 'DBInstanceNotFound', `DBInstance ${id} not found.`)
+      }
+      database.DBInstanceStatus = 'available'
+    }
+    return database
+  }
+
+  loadBalancer(arn: string): any {
+    const loadBalancer = this.loadBalancers.get(arn)
+    if (!loadBalancer) {
+      throw new FakeAwsError(400, 'LoadBalancerNotFound', `Load balancers '[${arn}]' not found`)
+    }
+    if (Date.now() >= loadBalancer.settlesAt) {
+      loadBalancer.State = { Code: 'active' }
+    }
+    return loadBalancer
+  }
+
+  taggable(id: string): any {
+    const resource = this.instances.get(id) || this.volumes.get(id) || this.groups.get(id) || this.vpcs.get(id) || this.subnets.get(id)
+    if (!resource) {
+      throw new FakeAwsError(400, 'InvalidID', `The ID '${id}' is not valid`)
+    }
+    return resource
+  }
+}
+
+function ec2Handlers(state: FakeAwsState): Record<string, Handler> {
+  const tagSpecification = (params: Params, resourceType: string) => {
+    const spec = entries(params, 'TagSpecification').findIndex(entry => entry.ResourceType === resourceType)
+    return spec === -1 ? [] : tagsFrom(params, `TagSpecification.${spec + 1}.Tag`)
+  }
+  const matchesTags = (tagSet: Array<{ key: string; value: string }>, filters: Params[]) =>
+    filters.filter(filter => filter.Name.startsWith('tag:')).every(filter =>
+      tagSet.some(tag => `tag:${tag.key}` === filter.Name && tag.value === filter['Value.1']))
+
+  const view = ({ settlesAt, ...instance }: any) => instance
+
+  return {
+    DescribeAccountAttributes: () => ({ accountAttributeSet: { item: [] } }),
+
+    DescribeImages: () => ({
+      imagesSet: {
+        item: [
+          { imageId: 'ami-0000000000000a001', name: 'ubuntu/images/hvm-ssd/ubuntu-jammy-22.04-amd64-server-20240101', creationDate: '2024-01-01T00:00:00.000Z' },
+          { imageId: 'ami-0000000000000a002', name: 'ubuntu/images/hvm-ssd/ubuntu-jammy-22.04-amd64-server-20240601', creationDate: '2024-06-01T00:00:00.000Z' }
+        ]
+      }
+    }),
+
+    RunInstances: params => {
+      const instanceId = state.id('i')
+      const subnet = params.SubnetId ? state.subnets.get(params.SubnetId) : undefined
+      const instance = {
+        instanceId,
+        imageId: params.ImageId,
+        instanceType: params.InstanceType,
+        keyName: params.KeyName,
+        instanceState: { code: 0, name: 'pending' },
+        privateIpAddress: `10.20.0.${state.instances.size + 2}`,
+        launchTime: new Date().toISOString(),
+        placement: { availabilityZone: subnet?.availabilityZone || 'us-east-1a' },
+        subnetId: params.SubnetId,
+        vpcId: subnet?.vpcId,
+        groupSet: { item: indexed(params, 'SecurityGroupId').map(groupId => ({ groupId })) },
+        tagSet: { item: tagSpecification(params, 'instance') },
+        settlesAt: state.settlesAt()
+      }
+      state.instances.set(instanceId, instance)
+      return { reservationId: state.id('r'), instancesSet: { item: [view(instance)] } }
+    },
+
+    DescribeInstances: params => {
+      const ids = indexed(params, 'InstanceId')
+      const filters = entries(params, 'Filter')
+      const stateFilter = filters.find(filter => filter.Name === 'instance-state-name')
+      const instances = (ids.length ? ids : Array.from(state.instances.keys()))
+        .map(id => state.instance(id))
+        .filter(instance => !stateFilter || indexed(stateFilter, 'Value').includes(instance.instanceState.name))
+        .filter(instance => matchesTags(instance.tagSet.item, filters))
+
+      const { items, next } = page(params, instances, 'NextToken')
+      return {
+        reservationSet: { item: items.map(instance => ({ reservationId: 'r-fake', instancesSet: { item: [view(instance)] } })) },
+        nextToken: next
+      }
+    },
+
+    TerminateInstances: params => {
+      const instances = indexed(params, 'InstanceId').map(id => state.instance(id))
+      for (const instance of instances) {
+        instance.instanceState = { code: 48, name: 'terminated' }
+        for (const volume of state.volumes.values()) {
+          if (volume.attachedTo === instance.instanceId) {
+            volume.status = 'available'
+            delete volume.attachedTo
+          }
+        }
+      }
+      return { instancesSet: { item: instances.map(instance => ({ instanceId: instance.instanceId })) } }
+    },
+
+    StopInstances: params => {
+      indexed(params, 'InstanceId').forEach(id => { state.instance(id).instanceState = { code: 80, name: 'stopped' } })
+      return { instancesSet: { item: [] } }
+    },
+
+    StartInstances: params => {
+      indexed(params, 'InstanceId').forEach(id => { state.instance(id).instanceState = { code: 16, name: 'running' } })
+      return { instancesSet: { item: [] } }
+    },
+
+    ModifyInstanceAttribute: params => {
+      const instance = state.instance(params.InstanceId)
+      if (params['InstanceType.Value']) {
+        if (instance.instanceState.name !== 'stopped') {
+          throw new FakeAwsError(400, 'IncorrectInstanceState', `The instance '${instance.instanceId}' is not in the 'stopped' state.`)
+        }
+        instance.instanceType = params['InstanceType.Value']
+      }
+      const groups = indexed(params, 'GroupId')
+      if (groups.length) {
+        groups.forEach(groupId => state.group(groupId))
+        instance.groupSet = { item: groups.map(groupId => ({ groupId })) }
+      }
+      return { return: 'true' }
+    },
+
+    CreateVolume: params => {
+      const volumeId = state.id('vol')
+      const volume = {
+        volumeId,
+        size: params.Size,
+        volumeType: params.VolumeType || 'gp2',
+        availabilityZone: params.AvailabilityZone,
+        status: 'available',
+        createTime: new Date().toISOString(),
+        tagSet: { item: tagSpecification(params, 'volume') }
+      }
+      state.volumes.set(volumeId, volume)
+      return volume
+    },
+
+    DescribeVolumes: params => {
+      const ids = indexed(params, 'VolumeId')
+      const filters = entries(params, 'Filter')
+      const volumes = (ids.length ? ids : Array.from(state.volumes.keys()))
+        .map(id => state.volume(id))
+        .filter(volume => matchesTags(volume.tagSet.item, filters))
+
+      const { items, next } = page(params, volumes, 'NextToken')
+      return {
+        volumeSet: {
+          item: items.map(({ attachedTo, ...volume }) => ({
+            ...volume,
+            attachmentSet: { item: attachedTo ? [{ instanceId: attachedTo, status: 'attached' }] : [] }
+          }))
+        },
+        nextToken: next
+      }
+    },
+
+    AttachVolume: params => {
+      const volume = state.volume(params.VolumeId)
+      const instance = state.instance(params.InstanceId)
+      if (volume.status !== 'available') {
+        throw new FakeAwsError(400, 'IncorrectState', `vol '${volume.volumeId}' is not 'available'.`)
+      }
+      if (instance.placement.availabilityZone !== volume.availabilityZone) {
+        throw new FakeAwsError(400, 'InvalidVolume.ZoneMismatch', 'The volume is not in the same availability zone as the instance')
+      }
+      volume.status = 'in-use'
+      volume.attachedTo = instance.instanceId
+      return { volumeId: volume.volumeId, instanceId: instance.instanceId, device: params.Device, status: 'attaching' }
+    },
+
+    DetachVolume: params => {
+      const volume = state.volume(params.VolumeId)
+      volume.status = 'available'
+      delete volume.attachedTo
+      return { volumeId: volume.volumeId, status: 'detaching' }
+    },
+
+    DeleteVolume: params => {
+      const volume = state.volume(params.VolumeId)
+      if (volume.status === 'in-use') {
+        throw new FakeAwsError(400, 'VolumeInUse', `Volume ${volume.volumeId} is currently attached`)
+      }
+      state.volumes.delete(volume.volumeId)
+      return { return: 'true' }
+    },
+
+    ModifyVolume: params => {
+      const volume = state.volume(params.VolumeId)
+      if (Number(params.Size) < Number(volume.size)) {
+        throw new FakeAwsError(400, 'InvalidParameterValue', 'New size cannot be smaller than existing size')
+      }
+      volume.size = params.Size
+      return { volumeModification: { volumeId: volume.volumeId, modificationState: 'modifying', targetSize: params.Size } }
+    },
+
+    CreateSecurityGroup: params => {
+      if (Array.from(state.groups.values()).some(group => group.groupName === params.GroupName)) {
+        throw new FakeAwsError(400, 'InvalidGroup.Duplicate', `The security group '${params.GroupName}' already exists`)
+      }
+      const groupId = state.id('sg')
+      state.groups.set(groupId, {
+        groupId,
+        groupName: params.GroupName,
+        groupDescription: params.GroupDescription,
+        vpcId: params.VpcId,
+        ipPermissions: { item: [] },
+        ipPermissionsEgress: { item: [{ ipProtocol: '-1', ipRanges: { item: [{ cidrIp: '0.0.0.0/0' }] } }] },
+        tagSet: { item: tagSpecification(params, 'security-group') }
+      })
+      return { groupId }
+    },
+
+    AuthorizeSecurityGroupIngress: params => {
+      const group = state.group(params.GroupId)
+      group.ipPermissions.item.push(...entries(params, 'IpPermissions').map(permission => ({
+        ipProtocol: permission.IpProtocol,
+        fromPort: permission.FromPort,
+        toPort: permission.ToPort,
+        ipRanges: { item: entries(permission, 'IpRanges').map(range => ({ cidrIp: range.CidrIp })) }
+      })))
+      return { return: 'true' }
+    },
+
+    AuthorizeSecurityGroupEgress: params => {
+      const group = state.group(params.GroupId)
+      group.ipPermissionsEgress.item.push(...entries(params, 'IpPermissions').map(permission => ({
+        ipProtocol: permission.IpProtocol,
+        fromPort: permission.FromPort,
+        toPort: permission.ToPort
+      })))
+      return { return: 'true' }
+    },
+
+    RevokeSecurityGroupEgress: params => {
+      state.group(params.GroupId).ipPermissionsEgress.item = []
+      return { return: 'true' }
+    },
+
+    DescribeSecurityGroups: params => ({
+      securityGroupInfo: { item: indexed(params, 'GroupId').map(id => state.group(id)) }
+    }),
+
+    DeleteSecurityGroup: params => {
+      const group = state.group(params.GroupId)
+      const inUse = Array.from(state.instances.values()).some(instance =>
+        instance.instanceState.name !== 'terminated' && instance.groupSet.item.some((item: any) => item.groupId === group.groupId))
+      if (inUse) {
+        throw new FakeAwsError(400, 'DependencyViolation', `resource ${group.groupId} has a dependent object`)
+      }
+      state.groups.delete(group.groupId)
+      return { return: 'true' }
+    },
+
+    CreateVpc: params => {
+      const vpcId = state.id('vpc')
+      const vpc = { vpcId, cidrBlock: params.CidrBlock, state: 'available', tagSet: { item: tagSpecification(params, 'vpc') } }
+      state.vpcs.set(vpcId, vpc)
+      return { vpc }
+    },
+
+    DescribeVpcs: params => ({
+      vpcSet: {
+        item: indexed(params, 'VpcId').map(id => {
+          const vpc = state.vpcs.get(id)
+          if (!vpc) {
+            throw new FakeAwsError(400, 'InvalidVpcID.NotFound', `The vpc ID '${id}' does not exist`)
+          }
+          return vpc
+        })
+      }
+    }),
+
+    DeleteVpc: params => {
+      if (!state.vpcs.has(params.VpcId)) {
+        throw new FakeAwsError(400, 'InvalidVpcID.NotFound', `The vpc ID '${params.VpcId}' does not exist`)
+      }
+      if (Array.from(state.subnets.values()).some(subnet => subnet.vpcId === params.VpcId)) {
+        throw new FakeAwsError(400, 'DependencyViolation', `The vpc '${params.VpcId}' has dependencies and cannot be deleted.`)
+      }
+      state.vpcs.delete(params.VpcId)
+      return { return: 'true' }
+    },
+
+    CreateSubnet: params => {
+      if (!state.vpcs.has(params.VpcId)) {
+        throw new FakeAwsError(400, 'InvalidVpcID.NotFound', `The vpc ID '${params.VpcId}' does not exist`)
+      }
+      const subnetId = state.id('subnet')
+      const subnet = {
+        subnetId,
+        vpcId: params.VpcId,
+        cidrBlock: params.CidrBlock,
+        availabilityZone: params.AvailabilityZone || 'us-east-1a',
+        state: 'available',
+        tagSet: { item: tagSpecification(params, 'subnet') }
+      }
+      state.subnets.set(subnetId, subnet)
+      return { subnet }
+    },
+
+    DescribeSubnets: params => {
+      const vpcFilter = entries(params, 'Filter').find(filter => filter.Name === 'vpc-id')
+      const vpcIds = vpcFilter ? indexed(vpcFilter, 'Value') : undefined
+      return {
+        subnetSet: { item: Array.from(state.subnets.values()).filter(subnet => !vpcIds || vpcIds.includes(subnet.vpcId)) }
+      }
+    },
+
+    DeleteSubnet: params => {
+      state.subnets.delete(params.SubnetId)
+      return { return: 'true' }
+    },
+
+    CreateTags: params => {
+      const tags = tagsFrom(params, 'Tag')
+      for (const id of indexed(params, 'ResourceId')) {
+        const resource = state.taggable(id)
+        resource.tagSet.item = [...resource.tagSet.item.filter((tag: any) => !tags.some(t => t.key === tag.key)), ...tags]
+      }
+      return { return: 'true' }
+    },
+
+    DeleteTags: params => {
+      const keys = tagsFrom(params, 'Tag').map(tag => tag.key)
+      for (const id of indexed(params, 'ResourceId')) {
+        const resource = state.taggable(id)
+        resource.tagSet.item = resource.tagSet.item.filter((tag: any) => !keys.includes(tag.key))
+      }
+      return { return: 'true' }
+    }
+  }
+}
+
+function rdsHandlers(state: FakeAwsState): Record<string, Handler> {
+  const view = ({ settlesAt, ...database }: any) => database
+
+  return {
+    CreateDBInstance: params => {
+      if (state.databases.has(params.DBInstanceIdentifier)) {
+        throw new FakeAwsError(400, 'DBInstanceAlreadyExists', 'DB instance already exists')
+      }
+      const database = {
+        DBInstanceIdentifier: params.DBInstanceIdentifier,
+        DBInstanceClass: params.DBInstanceClass,
+        Engine: params.Engine,
+        EngineVersion: params.EngineVersion || '16.3',
+        DBInstanceStatus: 'creating',
+        AllocatedStorage: params.AllocatedStorage,
+        MultiAZ: params.MultiAZ || 'false',
+        MasterUsername: params.MasterUsername,
+        Endpoint: { Address: `${params.DBInstanceIdentifier}.fake.us-east-1.rds.amazonaws.com`, Port: params.Engine === 'postgres' ? 5432 : 3306 },
+        InstanceCreateTime: new Date().toISOString(),
+        TagList: { member: entries(params, 'Tags.member').map(tag => ({ Key: tag.Key, Value: tag.Value || '' })) },
+        settlesAt: state.settlesAt()
+      }
+      state.databases.set(database.DBInstanceIdentifier, database)
+      return { DBInstance: view(database) }
+    },
+
+    DescribeDBInstances: params => {
+      const databases = params.DBInstanceIdentifier
+        ? [state.database(params.DBInstanceIdentifier)]
+        : Array.from(state.databases.keys()).flatMap(id => {
+          try {
+            return [state.database(id)]
+          } catch (error) {
+            return [] // Finished deleting
+          }
+        })
+
+      const { items, next } = page(params, databases, 'Marker')
+      return { DBInstances: { DBInstance: items.map(view) }, Marker: next }
+    },
+
+    ModifyDBInstance: params => {
+      const database = state.database(params.DBInstanceIdentifier)
+      database.DBInstanceClass = params.DBInstanceClass || database.DBInstanceClass
+      database.DBInstanceStatus = 'modifying'
+      database.settlesAt = state.settlesAt()
+      return { DBInstance: view(database) }
+    },
+
+    DeleteDBInstance: params => {
+      const database = state.database(params.DBInstanceIdentifier)
+      if (database.DBInstanceStatus === 'deleting') {
+        throw new FakeAwsError(400, 'InvalidDBInstanceState', 'Instance is already being deleted.')
+      }
+      database.DBInstanceStatus = 'deleting'
+      database.settlesAt = state.settlesAt()
+      return { DBInstance: view(database) }
+    }
+  }
+}
+
+function elbHandlers(state: FakeAwsState): Record<string, Handler> {
+  const view = ({ settlesAt, ...loadBalancer }: any) => loadBalancer
+
+  return {
+    CreateLoadBalancer: params => {
+      const subnets = indexed(params, 'Subnets.member').map(id => {
+        const subnet = state.subnets.get(id)
+        if (!subnet) {
+          throw new FakeAwsError(400, 'SubnetNotFound', `The subnet ID '${id}' is not valid`)
+        }
+        return subnet
+      })
+      const name = params.Name
+      const loadBalancer = {
+        LoadBalancerArn: state.arn('elasticloadbalancing', `loadbalancer/app/${name}/${state.id('lb').slice(3)}`),
+        LoadBalancerName: name,
+        DNSName: `${name}.us-east-1.elb.amazonaws.com`,
+        Type: params.Type || 'application',
+        Scheme: params.Scheme || 'internet-facing',
+        VpcId: subnets[0]?.vpcId,
+        State: { Code: 'provisioning' },
+        CreatedTime: new Date().toISOString(),
+        settlesAt: state.settlesAt()
+      }
+      state.loadBalancers.set(loadBalancer.LoadBalancerArn, loadBalancer)
+      return { LoadBalancers: { member: [view(loadBalancer)] } }
+    },
+
+    DescribeLoadBalancers: params => ({
+      LoadBalancers: { member: indexed(params, 'LoadBalancerArns.member').map(arn => view(state.loadBalancer(arn))) }
+    }),
+
+    DeleteLoadBalancer: params => {
+      const loadBalancer = state.loadBalancer(params.LoadBalancerArn)
+      state.loadBalancers.delete(loadBalancer.LoadBalancerArn)
+      for (const [arn, listener] of state.listeners) {
+        if (listener.LoadBalancerArn === loadBalancer.LoadBalancerArn) {
+          state.listeners.delete(arn)
+        }
+      }
+      return {}
+    },
+
+    CreateTargetGroup: params => {
+      const targetGroup = {
+        TargetGroupArn: state.arn('elasticloadbalancing', `targetgroup/${params.Name}/${state.id('tg').slice(3)}`),
+        TargetGroupName: params.Name,
+        Protocol: params.Protocol,
+        Port: params.Port,
+        VpcId: params.VpcId,
+        targets: [] as string[]
+      }
+      state.targetGroups.set(targetGroup.TargetGroupArn, targetGroup)
+      const { targets, ...result } = targetGroup
+      return { TargetGroups: { member: [result] } }
+    },
+
+    RegisterTargets: params => {
+      const targetGroup = state.targetGroups.get(params.TargetGroupArn)
+      if (!targetGroup) {
+        throw new FakeAwsError(400, 'TargetGroupNotFound', `Target groups '[${params.TargetGroupArn}]' not found`)
+      }
+      const ids = entries(params, 'Targets.member').map(target => target.Id)
+      ids.forEach(id => state.instance(id))
+      targetGroup.targets.push(...ids)
+      return {}
+    },
+
+    CreateListener: params => {
+      state.loadBalancer(params.LoadBalancerArn)
+      const listener = {
+        ListenerArn: state.arn('elasticloadbalancing', `listener/app/${state.id('listener').slice(9)}`),
+        LoadBalancerArn: params.LoadBalancerArn,
+        Protocol: params.Protocol,
+        Port: params.Port,
+        DefaultActions: { member: entries(params, 'DefaultActions.member').map(action => ({ Type: action.Type, TargetGroupArn: action.TargetGroupArn })) }
+      }
+      state.listeners.set(listener.ListenerArn, listener)
+      return { Listeners: { member: [listener] } }
+    },
+
+    DescribeListeners: params => {
+      state.loadBalancer(params.LoadBalancerArn)
+      return {
+        Listeners: { member: Array.from(state.listeners.values()).filter(listener => listener.LoadBalancerArn === params.LoadBalancerArn) }
+      }
+    },
+
+    DeleteTargetGroup: params => {
+      const inUse = Array.from(state.listeners.values()).some(listener =>
+        listener.DefaultActions.member.some((action: any) => action.TargetGroupArn === params.TargetGroupArn))
+      if (inUse) {
+        throw new FakeAwsError(400, 'ResourceInUse', `Target group '${params.TargetGroupArn}' is currently in use by a listener or a rule`)
+      }
+      state.targetGroups.delete(params.TargetGroupArn)
+      return {}
+    }
+  }
+}
+
+export function buildFakeAwsApi(options: FakeAwsApiOptions = DEFAULT_FAKE_AWS_API_OPTIONS): FastifyInstance {
+  const fastify = Fastify({ logger: false })
+  const state = new FakeAwsState(options)
+  const handlers: Record<string, Record<string, Handler>> = {
+    ec2: ec2Handlers(state),
+    rds: rdsHandlers(state),
+    elasticloadbalancing: elbHandlers(state)
+  }
+
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) => {
+    done(null, Object.fromEntries(new URLSearchParams(body as string)))
+  })
+
+  const sendError = (reply: FastifyReply, service: string, error: FakeAwsError) => {
+    const body = service === 'ec2'
+      ? { Response: { Errors: { Error: { Code: error.code, Message: error.message } }, RequestID: 'fake' } }
+      : { ErrorResponse: { Error: { Type: 'Sender', Code: error.code, Message: error.message }, RequestId: 'fake' } }
+    return reply.code(error.status).type('text/xml').send(xmlBuilder.build(body))
+  }
+
+  fastify.post('/_fake/reset', async (request, reply) => {
+    state.reset()
+    return reply.code(204).send()
+  })
+
+  fastify.route({
+    method: ['GET', 'POST'],
+    url: '/',
+    handler: async (request, reply) => {
+      // Credential=<key>/<date>/<region>/<service>/aws4_request
+      const scope = /Credential=[^/]+\/\d{8}\/([^/]+)\/([^/]+)\/aws4_request/.exec(String(request.headers.authorization || ''))
+      const service = scope?.[2] || 'ec2'
+      if (!scope || !request.headers['x-amz-date']) {
+        return sendError(reply, service, new FakeAwsError(403, 'MissingAuthenticationToken', 'Request is missing Authentication Token'))
+      }
+
+      const params: Params = { ...(request.query as Params), ...((request.body as Params) || {}) }
+      const handler = handlers[service]?.[params.Action]
+      if (!handler) {
+        return sendError(reply, service, new FakeAwsError(400, 'InvalidAction', `The action ${params.Action} is not valid for this web service.`))
+      }
+
+      try {
+        const result = handler(params)
+        const body = service === 'ec2'
+          ? { [`${params.Action}Response`]: { requestId: 'fake', ...result } }
+          : { [`${params.Action}Response`]: { [`${params.Action}Result`]: result, ResponseMetadata: { RequestId: 'fake' } } }
+        return reply.type('text/xml').send(xmlBuilder.build(body))
+      } catch (error) {
+        if (error instanceof FakeAwsError) {
+          return sendError(reply, service, error)
+        }
+        throw error
+      }
+    }
+  })
+
+  return fastify
+}
+
+/**
+ * Start the stand-in on ATLAS_FAKE_AWS_PORT (default 3011)
+ */
+export async function startFakeAwsApi(
+  port = Number(process.env.ATLAS_FAKE_AWS_PORT || 3011),
+  host = process.env.HOST || '127.0.0.1'
+): Promise<FastifyInstance> {
+  const fastify = buildFakeAwsApi(fakeAwsApiOptionsFromEnv())
+  await fastify.listen({ port, host })
+  console.log(`Fake AWS API listening - set AWS_ENDPOINT_URL=http://${host}:${port}`)
+  return fastify
+}
+
+if (require.main === module) {
+  startFakeAwsApi().catch(error => {
+    console.error('Failed to start the fake AWS API:', error)
+    process.exit(1)
+  })
+}
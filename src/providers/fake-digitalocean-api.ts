@@ -0,0 +1,628 @@
+/**
+ * Local HTTP stand-in for the DigitalOcean v2 endpoints Atlas calls. Point Atlas at
+ * it with DIGITALOCEAN_API_URL=http://localhost:3010/v2 to exercise the real
+ * DigitalOceanProvider (retries, pagination, action polling) without an account.
+ *
+ * Run with `npm run fake-do`. Failures use the same format as the in-process fake
+ * (ATLAS_FAKE_FAILURES) and can be changed at runtime through /_fake/failures.
+ */
+
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { ResourceType } from '../types'
+import { DigitalOceanProvider } from './digitalocean'
+import {
+  FakeFailure,
+  FakeFailureInjector,
+  FakeFailureKind,
+  FakeIdSequence,
+  FakeOperation,
+  FakeProviderOptions,
+  FakeRequestBudget,
+  fakeProviderOptionsFromEnv
+} from './fake'
+
+export interface FakeDigitalOceanApiOptions extends FakeProviderOptions {
+  timeoutDelayMs: number // How long an injected timeout holds the request; longer than Atlas's 30s client timeout
+  retryAfterSeconds: number // Retry-After sent with injected 429s
+  dropletLimit: number
+}
+
+export const DEFAULT_FAKE_API_OPTIONS: FakeDigitalOceanApiOptions = {
+  transitionMs: 2000,
+  failures: [],
+  timeoutDelayMs: 35000,
+  retryAfterSeconds: 1,
+  dropletLimit: 25
+}
+
+// Collections served under /v2, with the resource type failures are matched against
+const COLLECTIONS: Record<string, { key: string; type?: ResourceType }> = {
+  droplets: { key: 'droplet', type: 'droplet' },
+  volumes: { key: 'volume', type: 'volume' },
+  databases: { key: 'database', type: 'database' },
+  load_balancers: { key: 'load_balancer', type: 'load_balancer' },
+  firewalls: { key: 'firewall', type: 'firewall' },
+  vpcs: { key: 'vpc', type: 'vpc' }
+}
+
+const REGIONS = ['nyc1', 'nyc3', 'ams3', 'sfo3', 'sgp1', 'lon1', 'fra1', 'tor1', 'blr1', 'syd1']
+
+const IMAGES = ['ubuntu-22-04-x64', 'ubuntu-24-04-x64', 'debian-12-x64', 'fedora-40-x64']
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 200
+
+/**
+ * Read ATLAS_FAKE_TRANSITION_MS, ATLAS_FAKE_FAILURES, ATLAS_FAKE_TIMEOUT_MS,
+ * ATLAS_FAKE_RETRY_AFTER_SECONDS and ATLAS_FAKE_DROPLET_LIMIT
+ */
+export function fakeApiOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): FakeDigitalOceanApiOptions {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && !isNaN(Number(value)) ? Number(value) : fallback
+
+  return {
+    ...fakeProviderOptionsFromEnv(env),
+    timeoutDelayMs: number(env.ATLAS_FAKE_TIMEOUT_MS, DEFAULT_FAKE_API_OPTIONS.timeoutDelayMs),
+    retryAfterSeconds: number(env.ATLAS_FAKE_RETRY_AFTER_SECONDS, DEFAULT_FAKE_API_OPTIONS.retryAfterSeconds),
+    dropletLimit: number(env.ATLAS_FAKE_DROPLET_LIMIT, DEFAULT_FAKE_API_OPTIONS.dropletLimit)
+  }
+}
+
+/**
+ * The call a request stands for, for matching injected failures
+ */
+function classifyRequest(method: string, segments: string[]): { operation: FakeOperation; type?: ResourceType } {
+  const type = COLLECTIONS[segments[0]]?.type
+  if (segments.length === 1) {
+    return { operation: method === 'POST' ? 'create' : 'list', type }
+  }
+  if (segments.length === 2) {
+    return { operation: method === 'DELETE' ? 'delete' : method === 'GET' ? 'get' : 'update', type }
+  }
+  // Sub-resources: actions, resize, attached droplets, tagged resources
+  return { operation: method === 'GET' ? 'get' : 'update', type }
+}
+
+class FakeDigitalOceanState {
+  ids = new FakeIdSequence()
+  collections = new Map<string, Map<string, any>>()
+  settlesAt = new WeakMap<object, number>()
+  failing = new WeakSet<object>() // Objects that end up errored when they settle
+  tags = new Set<string>()
+
+  constructor(private options: FakeDigitalOceanApiOptions) {
+    this.reset()
+  }
+
+  reset(): void {
+    this.ids.reset()
+    this.tags.clear()
+    this.collections = new Map(
+      [...Object.keys(COLLECTIONS), 'actions', 'ssh_keys'].map(name => [name, new Map<string, any>()])
+    )
+  }
+
+  items(collection: string): any[] {
+    return Array.from(this.collections.get(collection)!.values()).map(item => this.settle(collection, item))
+  }
+
+  find(collection: string, id: string): any | undefined {
+    const item = this.collections.get(collection)?.get(String(id))
+    return item && this.settle(collection, item)
+  }
+
+  add(collection: string, item: any, options: { transition?: boolean; fail?: boolean } = {}): any {
+    this.collections.get(collection)!.set(String(item.id), item)
+    if (options.transition !== false) {
+      this.settlesAt.set(item, Date.now() + this.options.transitionMs)
+    }
+    if (options.fail) {
+      this.failing.add(item)
+    }
+    return item
+  }
+
+  /**
+   * Start an action that completes (or errors) after the transition time
+   */
+  action(type: string, resourceId: string | number, resourceType: string, fail = false): any {
+    return this.add('actions', {
+      id: this.ids.integer('action', 2000000000),
+      status: 'in-progress',
+      type,
+      started_at: new Date().toISOString(),
+      completed_at: null,
+      resource_id: resourceId,
+      resource_type: resourceType,
+      region_slug: 'nyc3'
+    }, { fail })
+  }
+
+  /**
+   * Move an object to its finished state once its transition time has passed
+   */
+  private settle(collection: string, item: any): any {
+    const settlesAt = this.settlesAt.get(item)
+    if (settlesAt === undefined || Date.now() < settlesAt) {
+      return item
+    }
+    this.settlesAt.delete(item)
+    const failed = this.failing.delete(item)
+
+    switch (collection) {
+      case 'droplets':
+        item.status = 'active'
+        item.locked = false
+        item.networks = {
+          v4: [
+            { ip_address: this.ids.publicIp(), netmask: '255.255.240.0', gateway: '203.0.113.1', type: 'public' },
+            { ip_address: this.ids.privateIp(), netmask: '255.255.0.0', gateway: '10.10.0.1', type: 'private' }
+          ],
+          v6: []
+        }
+        break
+      case 'databases':
+        item.status = failed ? 'failed' : 'online'
+        break
+      case 'load_balancers':
+        item.status = failed ? 'errored' : 'active'
+        item.ip = failed ? '' : this.ids.publicIp()
+        break
+      case 'actions':
+        item.status = failed ? 'errored' : 'completed'
+        item.completed_at = new Date().toISOString()
+        break
+    }
+    return item
+  }
+}
+
+/**
+ * Build the stand-in server. Routes live under /v2 like the real API.
+ */
+export function buildFakeDigitalOceanApi(options: Partial<FakeDigitalOceanApiOptions> = {}): FastifyInstance {
+  const settings: FakeDigitalOceanApiOptions = { ...DEFAULT_FAKE_API_OPTIONS, ...options }
+  const state = new FakeDigitalOceanState(settings)
+  const failures = new FakeFailureInjector(settings.failures)
+  const budget = new FakeRequestBudget()
+  const provisionErrors = new WeakSet<FastifyRequest>()
+  const pricing = DigitalOceanProvider.PRICING
+
+  const fastify = Fastify({ logger: false })
+
+  const notFound = (reply: FastifyReply) =>
+    reply.code(404).send({ id: 'not_found', message: 'The resource you were accessing could not be found.' })
+
+  const tagList = (tags: unknown): string[] => Array.isArray(tags) ? tags.map(String) : []
+
+  // Auth, rate-limit headers and injected failures for every API call
+  fastify.addHook('onRequest', async (request, reply) => {
+    const [path] = request.url.split('?')
+    if (!path.startsWith('/v2/')) {
+      return
+    }
+
+    if (!/^Bearer \S+/.test(request.headers.authorization || '')) {
+      return reply.code(401).send({ id: 'unauthorized', message: 'Unable to authenticate you.' })
+    }
+
+    const rateLimit = budget.spend()
+    reply.headers({
+      'ratelimit-limit': rateLimit.limit,
+      'ratelimit-remaining': rateLimit.remaining,
+      'ratelimit-reset': Math.floor(new Date(rateLimit.reset_at!).getTime() / 1000)
+    })
+
+    const { operation, type } = classifyRequest(request.method, path.split('/').slice(2).filter(Boolean))
+    const failure: FakeFailureKind | null = failures.take(operation, type)
+    switch (failure) {
+      case 'rate_limit':
+        return reply.code(429).header('retry-after', settings.retryAfterSeconds)
+          .send({ id: 'too_many_requests', message: 'API Rate limit exceeded.' })
+      case 'quota':
+        return reply.code(422).send({
+          id: 'unprocessable_entity',
+          message: `creating this ${type || 'resource'} will exceed your ${type || 'resource'} limit`
+        })
+      case 'server_error':
+        return reply.code(500).send({ id: 'server_error', message: 'Server was unable to give you a response.' })
+      case 'timeout':
+        await new Promise(resolve => setTimeout(resolve, settings.timeoutDelayMs))
+        return reply.code(504).send({ id: 'gateway_timeout', message: 'Gateway timeout.' })
+      case 'provision_error':
+        provisionErrors.add(request)
+        break
+    }
+  })
+
+  // Test controls, outside the API surface
+  fastify.post('/_fake/failures', async (request, reply) => {
+    const body = request.body as { failures?: FakeFailure[] } & Partial<FakeFailure>
+    const added = body.failures || [body as FakeFailure]
+    added.forEach(failure => failures.inject(failure))
+    return reply.code(201).send({ injected: added.length })
+  })
+
+  fastify.delete('/_fake/failures', async (request, reply) => {
+    failures.clear()
+    return reply.code(204).send()
+  })
+
+  fastify.post('/_fake/reset', async (request, reply) => {
+    state.reset()
+    failures.clear()
+    return reply.code(204).send()
+  })
+
+  // Account
+  fastify.get('/v2/account', async () => ({
+    account: {
+      droplet_limit: settings.dropletLimit,
+      floating_ip_limit: 3,
+      email: 'fake@example.com',
+      uuid: '00000000-0000-4000-8000-000000000000',
+      email_verified: true,
+      status: 'active'
+    }
+  }))
+
+  fastify.get('/v2/account/keys', async request => paginate(request, 'ssh_keys', state.items('ssh_keys')))
+
+  fastify.post('/v2/account/keys', async (request, reply) => {
+    const body = request.body as { name: string; public_key: string }
+    const id = state.ids.integer('ssh_key', 40000000)
+    const fingerprint = Array.from({ length: 16 }, (_, i) => ((id + i) % 256).toString(16).padStart(2, '0')).join(':')
+    const key = state.add('ssh_keys', { id, name: body.name, public_key: body.public_key, fingerprint }, { transition: false })
+    return reply.code(201).send({ ssh_key: key })
+  })
+
+  // Catalog
+  fastify.get('/v2/sizes', async request => paginate(request, 'sizes', Object.entries(pricing.droplet).map(([slug, hourly]) => ({
+    slug,
+    price_hourly: hourly,
+    price_monthly: Math.round(hourly * 24 * 30 * 100) / 100,
+    regions: REGIONS,
+    available: true
+  }))))
+
+  fastify.get('/v2/regions', async request => paginate(request, 'regions', REGIONS.map(slug => ({
+    slug,
+    name: slug.toUpperCase(),
+    sizes: Object.keys(pricing.droplet),
+    available: true
+  }))))
+
+  fastify.get('/v2/images', async request => paginate(request, 'images', IMAGES.map((slug, index) => ({
+    id: 100000 + index,
+    slug,
+    name: slug,
+    type: 'base',
+    distribution: slug.split('-')[0],
+    regions: REGIONS,
+    public: true
+  }))))
+
+  // Creates
+  fastify.post('/v2/droplets', async (request, reply) => {
+    const body = request.body as Record<string, any>
+    if (state.items('droplets').length >= settings.dropletLimit) {
+      return reply.code(422).send({
+        id: 'unprocessable_entity',
+        message: `creating this/these droplet(s) will exceed your droplet limit`
+      })
+    }
+
+    const size = body.size || 's-1vcpu-1gb'
+    const hourly = pricing.droplet[size as keyof typeof pricing.droplet] || 0.00893
+    const droplet = state.add('droplets', {
+      id: state.ids.integer('droplet', 400000000),
+      name: body.name,
+      memory: 1024,
+      vcpus: 1,
+      disk: 25,
+      locked: true,
+      status: 'new',
+      created_at: new Date().toISOString(),
+      features: body.monitoring ? ['monitoring'] : [],
+      backup_ids: [],
+      snapshot_ids: [],
+      image: { slug: body.image },
+      volume_ids: [],
+      size: { slug: size, price_hourly: hourly, price_monthly: Math.round(hourly * 24 * 30 * 100) / 100 },
+      size_slug: size,
+      networks: { v4: [], v6: [] },
+      region: { slug: body.region, name: body.region },
+      tags: tagList(body.tags),
+      vpc_uuid: body.vpc_uuid
+    })
+    return reply.code(202).send({ droplet, links: { actions: [state.action('create', droplet.id, 'droplet')] } })
+  })
+
+  fastify.post('/v2/volumes', async (request, reply) => {
+    const body = request.body as Record<string, any>
+    const volume = state.add('volumes', {
+      id: state.ids.uuid(),
+      name: body.name,
+      size_gigabytes: body.size_gigabytes,
+      filesystem_type: body.filesystem_type,
+      region: { slug: body.region, name: body.region },
+      droplet_ids: [],
+      tags: tagList(body.tags),
+      created_at: new Date().toISOString()
+    }, { transition: false })
+    return reply.code(201).send({ volume })
+  })
+
+  fastify.post('/v2/databases', async (request, reply) => {
+    const body = request.body as Record<string, any>
+    const database = state.add('databases', {
+      id: state.ids.uuid(),
+      name: body.name,
+      engine: body.engine,
+      version: body.version,
+      size: body.size,
+      num_nodes: body.num_nodes,
+      region: body.region,
+      status: 'creating',
+      tags: tagList(body.tags),
+      created_at: new Date().toISOString()
+    }, { fail: provisionErrors.has(request) })
+    return reply.code(201).send({ database })
+  })
+
+  fastify.post('/v2/load_balancers', async (request, reply) => {
+    const body = request.body as Record<string, any>
+    const loadBalancer = state.add('load_balancers', {
+      ...body,
+      id: state.ids.uuid(),
+      ip: '',
+      status: 'new',
+      droplet_ids: body.droplet_ids || [],
+      created_at: new Date().toISOString()
+    }, { fail: provisionErrors.has(request) })
+    return reply.code(202).send({ load_balancer: loadBalancer })
+  })
+
+  fastify.post('/v2/firewalls', async (request, reply) => {
+    const body = request.body as Record<string, any>
+    const firewall = state.add('firewalls', {
+      ...body,
+      id: state.ids.uuid(),
+      status: 'succeeded',
+      droplet_ids: body.droplet_ids || [],
+      tags: tagList(body.tags),
+      created_at: new Date().toISOString()
+    }, { transition: false })
+    return reply.code(202).send({ firewall })
+  })
+
+  fastify.post('/v2/vpcs', async (request, reply) => {
+    const body = request.body as Record<string, any>
+    const vpc = state.add('vpcs', {
+      id: state.ids.uuid(),
+      name: body.name,
+      region: body.region,
+      ip_range: body.ip_range,
+      created_at: new Date().toISOString()
+    }, { transition: false })
+    return reply.code(201).send({ vpc })
+  })
+
+  // List, get and delete for every collection
+  for (const [collection, { key }] of Object.entries(COLLECTIONS)) {
+    fastify.get(`/v2/${collection}`, async request => {
+      const { tag_name: tagName } = request.query as { tag_name?: string }
+      const items = state.items(collection).filter(item => !tagName || tagList(item.tags).includes(tagName))
+      return paginate(request, collection, items)
+    })
+
+    fastify.get(`/v2/${collection}/:id`, async (request, reply) => {
+      const item = state.find(collection, (request.params as { id: string }).id)
+      return item ? { [key]: item } : notFound(reply)
+    })
+
+    fastify.delete(`/v2/${collection}/:id`, async (request, reply) => {
+      const { id } = request.params as { id: string }
+      if (!state.find(collection, id)) {
+        return notFound(reply)
+      }
+      state.collections.get(collection)!.delete(id)
+      return reply.code(204).send()
+    })
+  }
+
+  // Droplet actions
+  fastify.post('/v2/droplets/:id/actions', async (request, reply) => {
+    const droplet = state.find('droplets', (request.params as { id: string }).id)
+    if (!droplet) {
+      return notFound(reply)
+    }
+
+    const body = request.body as { type: string; size?: string }
+    switch (body.type) {
+      case 'power_off':
+        droplet.status = 'off'
+        break
+      case 'power_on':
+        droplet.status = 'active'
+        break
+      case 'resize': {
+        const hourly = pricing.droplet[body.size as keyof typeof pricing.droplet] || 0.00893
+        droplet.size_slug = body.size
+        droplet.size = { slug: body.size, price_hourly: hourly, price_monthly: Math.round(hourly * 24 * 30 * 100) / 100 }
+        break
+      }
+    }
+    return reply.code(201).send({ action: state.action(body.type, droplet.id, 'droplet', provisionErrors.has(request)) })
+  })
+
+  fastify.get('/v2/droplets/:id/actions/:actionId', async (request, reply) => {
+    const action = state.find('actions', (request.params as { actionId: string }).actionId)
+    return action ? { action } : notFound(reply)
+  })
+
+  fastify.get('/v2/actions/:id', async (request, reply) => {
+    const action = state.find('actions', (request.params as { id: string }).id)
+    return action ? { action } : notFound(reply)
+  })
+
+  // Volume actions
+  fastify.post('/v2/volumes/:id/actions', async (request, reply) => {
+    const volume = state.find('volumes', (request.params as { id: string }).id)
+    if (!volume) {
+      return notFound(reply)
+    }
+
+    const body = request.body as { type: string; droplet_id?: number; size_gigabytes?: number }
+    const droplet = body.droplet_id !== undefined ? state.find('droplets', String(body.droplet_id)) : undefined
+    switch (body.type) {
+      case 'attach':
+        if (!droplet) {
+          return notFound(reply)
+        }
+        volume.droplet_ids = [...new Set([...volume.droplet_ids, droplet.id])]
+        droplet.volume_ids = [...new Set([...droplet.volume_ids, volume.id])]
+        break
+      case 'detach':
+        volume.droplet_ids = volume.droplet_ids.filter((id: number) => id !== body.droplet_id)
+        if (droplet) {
+          droplet.volume_ids = droplet.volume_ids.filter((id: string) => id !== volume.id)
+        }
+        break
+      case 'resize':
+        volume.size_gigabytes = body.size_gigabytes
+        break
+    }
+    return reply.code(202).send({ action: state.action(body.type, volume.id, 'volume', provisionErrors.has(request)) })
+  })
+
+  fastify.put('/v2/databases/:id/resize', async (request, reply) => {
+    const database = state.find('databases', (request.params as { id: string }).id)
+    if (!database) {
+      return notFound(reply)
+    }
+
+    const body = request.body as { size: string; num_nodes: number }
+    Object.assign(database, { size: body.size, num_nodes: body.num_nodes, status: 'resizing' })
+    state.settlesAt.set(database, Date.now() + settings.transitionMs)
+    return reply.code(202).send()
+  })
+
+  // Load balancer and firewall configuration, and the droplets they apply to
+  for (const [collection, key] of [['load_balancers', 'load_balancer'], ['firewalls', 'firewall']]) {
+    fastify.put(`/v2/${collection}/:id`, async (request, reply) => {
+      const item = state.find(collection, (request.params as { id: string }).id)
+      if (!item) {
+        return notFound(reply)
+      }
+      Object.assign(item, request.body as Record<string, any>)
+      return { [key]: item }
+    })
+
+    fastify.post(`/v2/${collection}/:id/droplets`, async (request, reply) => {
+      const item = state.find(collection, (request.params as { id: string }).id)
+      if (!item) {
+        return notFound(reply)
+      }
+      const { droplet_ids: dropletIds = [] } = request.body as { droplet_ids?: number[] }
+      item.droplet_ids = [...new Set([...item.droplet_ids, ...dropletIds])]
+      return reply.code(204).send()
+    })
+
+    fastify.delete(`/v2/${collection}/:id/droplets`, async (request, reply) => {
+      const item = state.find(collection, (request.params as { id: string }).id)
+      if (!item) {
+        return notFound(reply)
+      }
+      const { droplet_ids: dropletIds = [] } = (request.body || {}) as { droplet_ids?: number[] }
+      item.droplet_ids = item.droplet_ids.filter((id: number) => !dropletIds.includes(id))
+      return reply.code(204).send()
+    })
+  }
+
+  // Tags
+  fastify.post('/v2/tags', async (request, reply) => {
+    const { name } = request.body as { name: string }
+    if (state.tags.has(name)) {
+      return reply.code(422).send({ id: 'unprocessable_entity', message: 'tag already exists' })
+    }
+    state.tags.add(name)
+    return reply.code(201).send({ tag: { name } })
+  })
+
+  for (const method of ['POST', 'DELETE'] as const) {
+    fastify.route({
+      method,
+      url: '/v2/tags/:name/resources',
+      handler: async (request, reply) => {
+        const { name } = request.params as { name: string }
+        const { resources = [] } = (request.body || {}) as { resources?: Array<{ resource_id: string; resource_type: string }> }
+
+        for (const { resource_id: resourceId, resource_type: resourceType } of resources) {
+          const item = state.find(`${resourceType}s`, resourceId)
+          if (!item) {
+            return notFound(reply)
+          }
+          item.tags = method === 'POST'
+            ? [...new Set([...tagList(item.tags), name])]
+            : tagList(item.tags).filter(tag => tag !== name)
+        }
+        return reply.code(204).send()
+      }
+    })
+  }
+
+  return fastify
+}
+
+/**
+ * One page of `items` in DigitalOcean's list format, with links.pages.next
+ * pointing at the following page
+ */
+function paginate(request: FastifyRequest, collection: string, items: any[]) {
+  const query = request.query as Record<string, string>
+  const perPage = Math.min(Number(query.per_page) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  const page = Math.max(Number(query.page) || 1, 1)
+  const lastPage = Math.max(Math.ceil(items.length / perPage), 1)
+
+  const pageUrl = (number: number) => {
+    const params = new URLSearchParams({ ...query, page: String(number), per_page: String(perPage) })
+    return `${request.protocol}://${request.headers.host}/v2/${collection}?${params.toString()}`
+  }
+
+  const pages: Record<string, string> = {}
+  if (page > 1) {
+    pages.first = pageUrl(1)
+    pages.prev = pageUrl(page - 1)
+  }
+  if (page < lastPage) {
+    pages.next = pageUrl(page + 1)
+    pages.last = pageUrl(lastPage)
+  }
+
+  return {
+    [collection]: items.slice((page - 1) * perPage, page * perPage),
+    links: { pages },
+    meta: { total: items.length }
+  }
+}
+
+/**
+ * Start the stand-in on ATLAS_FAKE_DO_PORT (default 3010)
+ */
+export async function startFakeDigitalOceanApi(
+  port = Number(process.env.ATLAS_FAKE_DO_PORT || 3010),
+  host = process.env.HOST || '127.0.0.1'
+): Promise<FastifyInstance> {
+  const fastify = buildFakeDigitalOceanApi(fakeApiOptionsFromEnv())
+  await fastify.listen({ port, host })
+  console.log(`Fake DigitalOcean API listening - set DIGITALOCEAN_API_URL=http://${host}:${port}/v2`)
+  return fastify
+}
+
+if (require.main === module) {
+  startFakeDigitalOceanApi().catch(error => {
+    console.error('Failed to start the fake DigitalOcean API:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,645 @@
+/**
+ * Offline stand-in for the DigitalOcean provider, for local development and tests.
+ * Resources live in memory, settle after a short delay like real ones do, get
+ * deterministic IDs, and failures can be injected per operation and resource type.
+ */
+
+import {
+  CloudProviderInterface,
+  CloudProvider,
+  ResourceType,
+  ResourceStatus,
+  InfrastructureResource,
+  ResourceSpec,
+  ResourceCost,
+  ResourceHealth,
+  KubernetesNodePool,
+  DockerCredentialOptions,
+  RegistryRepository,
+  RegistryGarbageCollection,
+  ProviderError,
+  ResourceNotFoundError,
+  UpdateResourceOptions,
+  AtlasError,
+  ProviderRateLimit
+} from '../types'
+import { DigitalOceanProvider, UPDATABLE_FIELDS, irreversibleChange } from './digitalocean'
+
+export type FakeOperation = 'create' | 'update' | 'delete' | 'get' | 'list'
+
+export type FakeFailureKind =
+  | 'quota'           // 422 - account limit reached
+  | 'rate_limit'      // 429 - too many requests
+  | 'timeout'         // No response
+  | 'server_error'    // 500
+  | 'provision_error' // Accepted, but the resource ends up in 'error'
+
+export interface FakeFailure {
+  operation: FakeOperation | '*'
+  resource_type?: ResourceType | '*'
+  kind: FakeFailureKind
+  times?: number // How many matching calls fail (default 1, 0 = every call)
+}
+
+export interface FakeProviderOptions {
+  transitionMs: number // How long creates and updates take to settle
+  failures: FakeFailure[]
+  accountId?: string // Defaults to a new account per instance
+}
+
+export const DEFAULT_FAKE_PROVIDER_OPTIONS: FakeProviderOptions = {
+  transitionMs: 2000,
+  failures: []
+}
+
+let fakeAccounts = 0
+
+const FAILURE_KINDS: FakeFailureKind[] = ['quota', 'rate_limit', 'timeout', 'server_error', 'provision_error']
+const OPERATIONS: Array<FakeOperation | '*'> = ['create', 'update', 'delete', 'get', 'list', '*']
+
+// Settle at once, as they do on DigitalOcean
+const INSTANT_TYPES: ResourceType[] = ['firewall', 'vpc', 'domain', 'dns_record', 'container_registry']
+
+const SUPPORTED_TYPES: ResourceType[] = [
+  'droplet', 'volume', 'database', 'load_balancer', 'firewall', 'vpc',
+  'kubernetes', 'domain', 'dns_record', 'container_registry'
+]
+
+// Budget reported through getRateLimit, matching DigitalOcean's hourly limit
+const REQUESTS_PER_HOUR = 5000
+
+/**
+ * Parse a failure list such as "create:droplet:quota,get:*:rate_limit:3".
+ * Each entry is operation:resource_type:kind[:times]; '*' matches anything.
+ */
+export function parseFakeFailures(value: string): FakeFailure[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [operation, resourceType, kind, times] = entry.split(':')
+    if (!OPERATIONS.includes(operation as FakeOperation) || !FAILURE_KINDS.includes(kind as FakeFailureKind)) {
+      throw new Error(`Invalid fake failure "${entry}" (expected operation:resource_type:kind[:times])`)
+    }
+    return {
+      operation: operation as FakeOperation | '*',
+      resource_type: (resourceType || '*') as ResourceType | '*',
+      kind: kind as FakeFailureKind,
+      times: times !== undefined ? Number(times) : 1
+    }
+  })
+}
+
+/**
+ * Read ATLAS_FAKE_TRANSITION_MS and ATLAS_FAKE_FAILURES
+ */
+export function fakeProviderOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): FakeProviderOptions {
+  const transitionMs = Number(env.ATLAS_FAKE_TRANSITION_MS)
+
+  return {
+    transitionMs: env.ATLAS_FAKE_TRANSITION_MS !== undefined && !isNaN(transitionMs)
+      ? transitionMs
+      : DEFAULT_FAKE_PROVIDER_OPTIONS.transitionMs,
+    failures: env.ATLAS_FAKE_FAILURES ? parseFakeFailures(env.ATLAS_FAKE_FAILURES) : []
+  }
+}
+
+/**
+ * Queue of injected failures. Each matching call consumes one use of the first
+ * failure that applies.
+ */
+export class FakeFailureInjector {
+  private failures: Array<FakeFailure & { remaining: number }> = []
+
+  constructor(failures: FakeFailure[] = []) {
+    failures.forEach(failure => this.inject(failure))
+  }
+
+  inject(failure: FakeFailure): void {
+    const times = failure.times ?? 1
+    this.failures.push({ ...failure, remaining: times === 0 ? Infinity : times })
+  }
+
+  clear(): void {
+    this.failures = []
+  }
+
+  /**
+   * The failure this call should hit, if any
+   */
+  take(operation: FakeOperation, resourceType?: ResourceType): FakeFailureKind | null {
+    const failure = this.failures.find(f =>
+      f.remaining > 0 &&
+      (f.operation === '*' || f.operation === operation) &&
+      (!f.resource_type || f.resource_type === '*' || f.resource_type === resourceType)
+    )
+    if (!failure) {
+      return null
+    }
+
+    failure.remaining--
+    this.failures = this.failures.filter(f => f.remaining > 0)
+    return failure.kind
+  }
+}
+
+/**
+ * The error the DigitalOcean provider raises for this kind of failure
+ */
+export function fakeFailureError(kind: FakeFailureKind, operation: FakeOperation, resourceType?: ResourceType): ProviderError {
+  const target = resourceType || 'resource'
+  switch (kind) {
+    case 'quota':
+      return new ProviderError(`DigitalOcean API Error: creating this ${target} will exceed your ${target} limit`, 'digitalocean', 422)
+    case 'rate_limit':
+      return new ProviderError('DigitalOcean API Error: Too many requests', 'digitalocean', 429)
+    case 'timeout':
+      return new ProviderError('timeout of 30000ms exceeded', 'digitalocean')
+    default:
+      return new ProviderError(`DigitalOcean API Error: Server was unable to ${operation} ${target}`, 'digitalocean', 500)
+  }
+}
+
+/**
+ * Sequential IDs in the formats DigitalOcean uses, so runs are reproducible
+ */
+export class FakeIdSequence {
+  private counters = new Map<string, number>()
+
+  next(kind: string): number {
+    const value = (this.counters.get(kind) || 0) + 1
+    this.counters.set(kind, value)
+    return value
+  }
+
+  uuid(): string {
+    return `00000000-0000-4000-8000-${this.next('uuid').toString(16).padStart(12, '0')}`
+  }
+
+  // Droplet and action IDs are integers
+  integer(kind: string, base: number): number {
+    return base + this.next(kind)
+  }
+
+  publicIp(): string {
+    const n = this.next('public_ip')
+    return `203.0.113.${((n - 1) % 254) + 1}` // TEST-NET-3
+  }
+
+  privateIp(): string {
+    const n = this.next('private_ip')
+    return `10.10.${Math.floor(n / 254)}.${(n % 254) + 1}` // .1 of the first block is the gateway
+  }
+
+  reset(): void {
+    this.counters.clear()
+  }
+}
+
+/**
+ * Requests made in the current hour, reported like DigitalOcean's ratelimit-* headers
+ */
+export class FakeRequestBudget {
+  private windowStart = Date.now()
+  private used = 0
+
+  spend(): ProviderRateLimit {
+    const now = Date.now()
+    if (now - this.windowStart >= 60 * 60 * 1000) {
+      this.windowStart = now
+      this.used = 0
+    }
+    this.used++
+    return this.current()!
+  }
+
+  current(): ProviderRateLimit | null {
+    if (this.used === 0) {
+      return null
+    }
+    return {
+      limit: REQUESTS_PER_HOUR,
+      remaining: Math.max(REQUESTS_PER_HOUR - this.used, 0),
+      reset_at: new Date(this.windowStart + 60 * 60 * 1000).toISOString(),
+      updated_at: new Date().toISOString()
+    }
+  }
+}
+
+interface FakeResourceRecord {
+  resource: InfrastructureResource
+  settles_at: number // When the current create or update finishes
+  settles_to: ResourceStatus
+}
+
+export class FakeCloudProvider implements CloudProviderInterface {
+  name: CloudProvider = 'digitalocean'
+  regions = ['nyc1', 'nyc3', 'ams3', 'sfo3', 'sgp1', 'lon1', 'fra1', 'tor1', 'blr1', 'syd1']
+  resource_types: ResourceType[] = SUPPORTED_TYPES
+
+  private options: FakeProviderOptions
+  private accountId: string
+  private failures: FakeFailureInjector
+  private ids = new FakeIdSequence()
+  private budget = new FakeRequestBudget()
+  private records = new Map<string, FakeResourceRecord>()
+
+  constructor(options: Partial<FakeProviderOptions> = {}) {
+    this.options = { ...DEFAULT_FAKE_PROVIDER_OPTIONS, ...options }
+    this.accountId = this.options.accountId || `fake-account-${++fakeAccounts}`
+    this.failures = new FakeFailureInjector(this.options.failures)
+  }
+
+  injectFailure(failure: FakeFailure): void {
+    this.failures.inject(failure)
+  }
+
+  clearFailures(): void {
+    this.failures.clear()
+  }
+
+  /**
+   * Forget every resource and restart the ID sequences
+   */
+  reset(): void {
+    this.records.clear()
+    this.ids.reset()
+    this.failures.clear()
+  }
+
+  getRateLimit(): ProviderRateLimit | null {
+    return this.budget.current()
+  }
+
+  async authenticate(credentials: Record<string, string>): Promise<boolean> {
+    this.budget.spend()
+    return true
+  }
+
+  async getAccountId(): Promise<string> {
+    this.budget.spend()
+    return this.accountId
+  }
+
+  async createResource(type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource> {
+    const failure = this.request('create', type)
+    if (!SUPPORTED_TYPES.includes(type)) {
+      throw new ProviderError(`Resource type ${type} not supported`, 'digitalocean')
+    }
+
+    const now = new Date().toISOString()
+    spec = this.withProviderDefaults(type, spec)
+    const monthlyCost = await this.estimateCost({ ...spec, type })
+    const providerId = this.providerIdFor(type, spec)
+    const instant = INSTANT_TYPES.includes(type)
+
+    const resource: InfrastructureResource = {
+      id: this.ids.uuid(),
+      type,
+      name: spec.name || `${type}-${providerId}`,
+      provider_id: providerId,
+      specifications: spec,
+      status: instant ? 'active' : 'creating',
+      created_at: now,
+      updated_at: now,
+      dependencies: [],
+      dependents: [],
+      hourly_cost: monthlyCost / (24 * 30),
+      monthly_cost: monthlyCost
+    }
+
+    this.records.set(providerId, {
+      resource,
+      settles_at: instant ? Date.now() : Date.now() + this.options.transitionMs,
+      settles_to: failure === 'provision_error' ? 'error' : 'active'
+    })
+    return this.copy(resource)
+  }
+
+  async updateResource(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    options: UpdateResourceOptions = {}
+  ): Promise<InfrastructureResource> {
+    const type = options.type || 'droplet'
+    const failure = this.request('update', type)
+
+    const allowed = UPDATABLE_FIELDS[type] || []
+    const unsupported = Object.keys(spec).filter(field => !allowed.includes(field))
+    if (unsupported.length > 0) {
+      throw new AtlasError(
+        `Cannot change ${unsupported.join(', ')} on ${type} in place (supported: ${allowed.join(', ') || 'none'})`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    const record = this.records.get(providerId)
+    if (!record) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    await options.onStep?.(`Update ${type} ${providerId} (${Object.keys(spec).join(', ')})`)
+
+    const resource = record.resource
+    resource.specifications = { ...resource.specifications, ...spec }
+    resource.monthly_cost = await this.estimateCost({ ...resource.specifications, type })
+    resource.hourly_cost = resource.monthly_cost / (24 * 30)
+    resource.status = 'updating'
+    resource.updated_at = new Date().toISOString()
+    record.settles_at = Date.now() + this.options.transitionMs
+    record.settles_to = failure === 'provision_error' ? 'error' : 'active'
+
+    return { ...this.copy(resource), specifications: { ...options.current, ...spec } }
+  }
+
+  irreversibleChange(type: ResourceType, before: ResourceSpec, after: ResourceSpec): string | null {
+    return irreversibleChange(type, before, after)
+  }
+
+  async deleteResource(providerId: string, type: ResourceType = 'droplet'): Promise<void> {
+    this.request('delete', type)
+    this.records.delete(providerId)
+
+    // Deleting a domain deletes its records
+    if (type === 'domain') {
+      Array.from(this.records.keys())
+        .filter(id => id.startsWith(`${providerId}/`))
+        .forEach(id => this.records.delete(id))
+    }
+  }
+
+  async getResource(providerId: string, type?: ResourceType): Promise<InfrastructureResource | null> {
+    this.request('get', type)
+    const record = this.records.get(providerId)
+    return record ? this.copy(this.settle(record)) : null
+  }
+
+  async listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]> {
+    this.request('list')
+
+    // Supported filters: tag_name ('key:value'), as with DigitalOcean tags
+    const tag: string | undefined = filters?.tag_name
+    const separator = tag ? tag.indexOf(':') : -1
+    const [tagKey, tagValue] = separator === -1 ? [tag, ''] : [tag!.slice(0, separator), tag!.slice(separator + 1)]
+    return Array.from(this.records.values())
+      .map(record => this.settle(record))
+      .filter(resource => !tagKey || (resource.specifications.tags || {})[tagKey] === tagValue)
+      .map(resource => this.copy(resource))
+  }
+
+  async getResourceCost(providerId: string): Promise<ResourceCost> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    const uptimeHours = Math.max(1, (Date.now() - new Date(resource.created_at).getTime()) / (1000 * 60 * 60))
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      resource_name: resource.name,
+      hourly_cost: resource.hourly_cost,
+      daily_cost: resource.hourly_cost * 24,
+      monthly_cost: resource.monthly_cost,
+      total_cost: resource.hourly_cost * uptimeHours,
+      uptime_hours: uptimeHours
+    }
+  }
+
+  /**
+   * Monthly cost at DigitalOcean's list prices
+   */
+  async estimateCost(spec: ResourceSpec): Promise<number> {
+    const pricing = DigitalOceanProvider.PRICING
+    switch (spec.type) {
+      case 'volume':
+        return (spec.size_gigabytes || 10) * pricing.volume
+      case 'database':
+        return pricing.database[spec.size as keyof typeof pricing.database] || 15.00
+      case 'load_balancer':
+        return pricing.load_balancer
+      case 'firewall':
+      case 'vpc':
+      case 'domain':
+      case 'dns_record':
+        return 0
+      case 'container_registry':
+        return pricing.container_registry[(spec.tier || 'starter') as keyof typeof pricing.container_registry] || 0
+      case 'kubernetes': {
+        const pools: KubernetesNodePool[] = spec.node_pools || [{ name: 'default', size: spec.size || 's-2vcpu-4gb', count: spec.node_count || 1 }]
+        const nodes = pools.reduce((total, pool) =>
+          total + (pricing.droplet[pool.size as keyof typeof pricing.droplet] || 0.00893) * 24 * 30 * pool.count, 0)
+        return nodes + (spec.ha ? pricing.kubernetes : 0)
+      }
+      case 'droplet':
+        return (pricing.droplet[spec.size as keyof typeof pricing.droplet] || 0.00893) * 24 * 30
+    }
+
+    // Untyped specs are estimated the way DigitalOceanProvider.estimateCost does
+    if (spec.size) {
+      return (pricing.droplet[spec.size as keyof typeof pricing.droplet] || 0.00893) * 24 * 30
+    }
+    return spec.size_gigabytes ? spec.size_gigabytes * pricing.volume : 15.00
+  }
+
+  async checkResourceHealth(providerId: string): Promise<ResourceHealth> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      status: resource.status === 'active' ? 'healthy' : resource.status === 'error' ? 'critical' : 'warning',
+      last_check: new Date().toISOString(),
+      uptime_percentage: resource.status === 'active' ? 100 : 0
+    }
+  }
+
+  async getKubeconfig(providerId: string): Promise<string> {
+    this.request('get', 'kubernetes')
+    const resource = this.findRecord(providerId, 'kubernetes')
+    return [
+      'apiVersion: v1',
+      'kind: Config',
+      'clusters:',
+      `- name: do-${resource.specifications.region || 'nyc3'}-${resource.name}`,
+      '  cluster:',
+      `    server: https://${providerId}.k8s.ondigitalocean.com`,
+      ''
+    ].join('\n')
+  }
+
+  async getDockerCredentials(registryName: string, options: DockerCredentialOptions = {}): Promise<string> {
+    this.request('get', 'container_registry')
+    this.findRecord(registryName, 'container_registry')
+    const token = Buffer.from(`fake-${options.readWrite ? 'rw' : 'ro'}:${registryName}`).toString('base64')
+    return JSON.stringify({ auths: { 'registry.digitalocean.com': { auth: token } } })
+  }
+
+  async listRegistryRepositories(registryName: string): Promise<RegistryRepository[]> {
+    this.request('list', 'container_registry')
+    this.findRecord(registryName, 'container_registry')
+    return [] // Nothing is ever pushed to the fake registry
+  }
+
+  async startRegistryGarbageCollection(registryName: string): Promise<RegistryGarbageCollection> {
+    this.request('update', 'container_registry')
+    this.findRecord(registryName, 'container_registry')
+    return { id: this.ids.uuid(), status: 'requested', created_at: new Date().toISOString() }
+  }
+
+  async findDomain(fqdn: string): Promise<string | null> {
+    this.request('list', 'domain')
+    return this.domainFor(fqdn.toLowerCase().replace(/\.$/, '')) || null
+  }
+
+  async listDroplets(): Promise<any[]> {
+    return this.listRaw('droplet')
+  }
+
+  async listDatabases(): Promise<any[]> {
+    return this.listRaw('database')
+  }
+
+  async listLoadBalancers(): Promise<any[]> {
+    return this.listRaw('load_balancer')
+  }
+
+  /**
+   * Count the request against the budget and raise any injected failure.
+   * Returns 'provision_error' for the caller to apply; other kinds throw.
+   */
+  private request(operation: FakeOperation, type?: ResourceType): FakeFailureKind | null {
+    this.budget.spend()
+    const failure = this.failures.take(operation, type)
+    if (failure && failure !== 'provision_error') {
+      throw fakeFailureError(failure, operation, type)
+    }
+    return failure
+  }
+
+  /**
+   * Fill in what DigitalOcean would: a cluster's default node pool, and the domain
+   * and hostname of a record given by fqdn (which must be in a domain that exists)
+   */
+  private withProviderDefaults(type: ResourceType, spec: ResourceSpec): ResourceSpec {
+    if (type === 'kubernetes' && !spec.node_pools) {
+      const name = spec.name || 'k8s'
+      return {
+        ...spec,
+        node_pools: [{ name: `${name}-default-pool`, size: spec.size || 's-2vcpu-4gb', count: spec.node_count || 1 }]
+      }
+    }
+    if (type === 'domain') {
+      return { ...spec, domain: (spec.domain || spec.name || '').toLowerCase() }
+    }
+    if (type === 'container_registry') {
+      return { ...spec, tier: spec.tier || 'starter' }
+    }
+    if (type === 'dns_record') {
+      if (spec.domain) {
+        return { ...spec, domain: spec.domain.toLowerCase(), hostname: spec.hostname || '@' }
+      }
+      if (!spec.fqdn) {
+        throw new AtlasError('A DNS record needs a domain or an fqdn', 'INVALID_DNS_RECORD', 400)
+      }
+
+      const name = spec.fqdn.toLowerCase().replace(/\.$/, '')
+      const domain = this.domainFor(name)
+      if (!domain) {
+        throw new AtlasError(`No domain in the DigitalOcean account contains ${name} - add the domain first`, 'DOMAIN_NOT_FOUND', 404)
+      }
+      return { ...spec, domain, hostname: name === domain ? '@' : name.slice(0, -(domain.length + 1)) }
+    }
+    return spec
+  }
+
+  // Droplets have integer IDs, domains and registries are known by name, records by '<domain>/<record id>'
+  private providerIdFor(type: ResourceType, spec: ResourceSpec): string {
+    switch (type) {
+      case 'droplet':
+        return String(this.ids.integer('droplet', 400000000))
+      case 'domain':
+        return spec.domain!
+      case 'dns_record':
+        return `${spec.domain}/${this.ids.integer('dns_record', 100000000)}`
+      case 'container_registry':
+        return (spec.name || 'registry').toLowerCase()
+      default:
+        return this.ids.uuid()
+    }
+  }
+
+  private domainFor(name: string): string | undefined {
+    return Array.from(this.records.values())
+      .filter(record => record.resource.type === 'domain')
+      .map(record => record.resource.provider_id!)
+      .filter(candidate => name === candidate || name.endsWith(`.${candidate}`))
+      .sort((a, b) => b.length - a.length)[0]
+  }
+
+  private findRecord(providerId: string, type: ResourceType): InfrastructureResource {
+    const record = this.records.get(providerId)
+    if (!record || record.resource.type !== type) {
+      throw new ResourceNotFoundError(providerId)
+    }
+    return this.settle(record)
+  }
+
+  /**
+   * Finish a create or update whose transition time has passed
+   */
+  private settle(record: FakeResourceRecord): InfrastructureResource {
+    const resource = record.resource
+    if ((resource.status !== 'creating' && resource.status !== 'updating') || Date.now() < record.settles_at) {
+      return resource
+    }
+
+    resource.status = record.settles_to
+    resource.updated_at = new Date().toISOString()
+    if (resource.status === 'active') {
+      if ((resource.type === 'droplet' || resource.type === 'load_balancer') && !resource.public_ip) {
+        resource.public_ip = this.ids.publicIp()
+      }
+      if (resource.type === 'droplet' && !resource.private_ip) {
+        resource.private_ip = this.ids.privateIp()
+      }
+      if (resource.type === 'volume' && resource.specifications.droplet_id) {
+        resource.specifications = { ...resource.specifications, droplet_ids: [resource.specifications.droplet_id] }
+      }
+    }
+    return resource
+  }
+
+  private listRaw(type: ResourceType): any[] {
+    return Array.from(this.records.values())
+      .map(record => this.settle(record))
+      .filter(resource => resource.type === type)
+      .map(resource => ({
+        id: type === 'droplet' ? Number(resource.provider_id) : resource.provider_id,
+        name: resource.name,
+        status: resource.status,
+        size: { price_hourly: resource.hourly_cost },
+        created_at: resource.created_at
+      }))
+  }
+
+  private copy(resource: InfrastructureResource): InfrastructureResource {
+    return {
+      ...resource,
+      specifications: { ...resource.specifications },
+      dependencies: [...resource.dependencies],
+      dependents: [...resource.dependents]
+    }
+  }
+}
+
+// One fake account shared by the REST controller and the MCP server
+let sharedFakeProvider: FakeCloudProvider | null = null
+
+export function getFakeCloudProvider(): FakeCloudProvider {
+  if (!sharedFakeProvider) {
+    sharedFakeProvider = new FakeCloudProvider(fakeProviderOptionsFromEnv())
+  }
+  return sharedFakeProvider
+}
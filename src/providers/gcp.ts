@@ -0,0 +1,1034 @@
+import axios, { AxiosInstance } from 'axios'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  CloudProviderInterface,
+  CloudProvider,
+  ResourceType,
+  ResourceStatus,
+  InfrastructureResource,
+  ResourceSpec,
+  ResourceCost,
+  ResourceHealth,
+  ProviderError,
+  ResourceNotFoundError,
+  UpdateResourceOptions,
+  AtlasError
+} from '../types'
+import { attachRetryPolicy, retryOptionsFromEnv } from '../utils/RetryPolicy'
+import { paginationOptionsFromEnv } from '../utils/Paginator'
+import { GcpServiceAccountKey, GcpTokenSource } from '../utils/GcpServiceAccount'
+
+/*
+ * Atlas resource types map onto Google Cloud as:
+ *   droplet -> Compute Engine instance   volume -> persistent disk
+ *   vpc -> VPC network (plus one subnet) firewall -> VPC firewall rules
+ *   database -> Cloud SQL instance       load_balancer -> global external HTTP(S) load balancer
+ *
+ * GCP resources are addressed by name within a location, so provider_id is
+ * '<location>/<name>': a zone for instances and disks, a region for Cloud SQL
+ * and VPCs, 'global' for firewalls and load balancers.
+ */
+
+// Specification fields each resource type can change in place
+export const GCP_UPDATABLE_FIELDS: Partial<Record<ResourceType, string[]>> = {
+  droplet: ['size', 'tags'],
+  volume: ['size_gigabytes', 'tags'],
+  database: ['size', 'size_gigabytes']
+}
+
+type GcpService = 'compute' | 'sqladmin'
+
+const DEFAULT_IMAGE = 'projects/ubuntu-os-cloud/global/images/family/ubuntu-2204-lts'
+
+const SQL_ENGINES: Record<string, { prefix: string; version: string }> = {
+  postgresql: { prefix: 'POSTGRES', version: '15' },
+  postgres: { prefix: 'POSTGRES', version: '15' },
+  mysql: { prefix: 'MYSQL', version: '8.0' }
+}
+
+// Firewall rules in the same form the DigitalOcean provider accepts
+interface FirewallRuleSpec {
+  protocol: 'tcp' | 'udp' | 'icmp'
+  ports?: string // '22', '8000-9000' or 'all'
+  sources?: { addresses?: string[] }
+  destinations?: { addresses?: string[] }
+}
+
+const ZONE_PATTERN = /^[a-z]+-[a-z]+\d+-[a-z]$/
+
+/**
+ * API root for a Google service. GCP_ENDPOINT_URL sends every service to one
+ * endpoint, such as an emulator or a recording proxy.
+ */
+export function gcpEndpoint(service: GcpService, env: NodeJS.ProcessEnv = process.env): string {
+  return (env.GCP_ENDPOINT_URL || `https://${service}.googleapis.com`).replace(/\/+$/, '')
+}
+
+/**
+ * Region used when a spec or infrastructure names none (GCP_REGION, default us-central1)
+ */
+export function gcpDefaultRegion(env: NodeJS.ProcessEnv = process.env): string {
+  return env.GCP_REGION || 'us-central1'
+}
+
+/**
+ * Read an infrastructure region that may name a region ('us-central1') or a zone
+ * ('us-central1-b'). A zone is only returned when one was given.
+ */
+export function gcpLocation(value: string | undefined, fallbackRegion: string = gcpDefaultRegion()): { region: string; zone?: string } {
+  if (value && ZONE_PATTERN.test(value)) {
+    return { region: value.replace(/-[a-z]$/, ''), zone: value }
+  }
+  return { region: value || fallbackRegion }
+}
+
+/**
+ * Split a provider ID into location and resource name. Bare names have no location.
+ */
+export function parseGcpProviderId(providerId: string): { location: string; name: string } {
+  const separator = providerId.lastIndexOf('/')
+  if (separator === -1) {
+    return { location: '', name: providerId }
+  }
+  return { location: providerId.slice(0, separator), name: providerId.slice(separator + 1) }
+}
+
+/**
+ * A valid GCP resource name (lowercase letters, digits and hyphens, starting with a letter, at most 63 characters)
+ */
+export function gcpName(value: string, maxLength = 63): string {
+  const name = value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^[^a-z]+/, '')
+  return (name || 'atlas').slice(0, maxLength).replace(/-+$/, '')
+}
+
+/**
+ * Atlas tags as GCP labels (lowercase keys and values of letters, digits, '_' and '-')
+ */
+function toLabels(tags: Record<string, string> = {}): Record<string, string> {
+  const clean = (value: string) => String(value).toLowerCase().replace(/[^a-z0-9_-]/g, '_').slice(0, 63)
+  return Object.fromEntries(Object.entries(tags).map(([key, value]) => [clean(key), clean(value)]))
+}
+
+// Last segment of a resource URL ('.../zones/us-central1-a' -> 'us-central1-a')
+const lastSegment = (url: string = '') => url.slice(url.lastIndexOf('/') + 1)
+
+export class GCPProvider implements CloudProviderInterface {
+  name: CloudProvider = 'gcp'
+  private client: AxiosInstance
+  private project: string
+  private defaultRegion: string
+  private pagination = paginationOptionsFromEnv()
+
+  // Zones of each region, looked up once
+  private zones = new Map<string, string[]>()
+
+  regions = [
+    'us-central1', 'us-east1', 'us-east4', 'us-west1', 'us-west2', 'northamerica-northeast1',
+    'europe-west1', 'europe-west2', 'europe-west3', 'europe-west4', 'europe-north1',
+    'asia-east1', 'asia-northeast1', 'asia-southeast1', 'asia-south1', 'australia-southeast1', 'southamerica-east1'
+  ]
+
+  resource_types: ResourceType[] = ['droplet', 'volume', 'database', 'load_balancer', 'firewall', 'vpc']
+
+  // On-demand pricing in us-central1 (USD)
+  static readonly PRICING = {
+    // Compute Engine machine types (per hour)
+    instance: {
+      'e2-micro': 0.0084,
+      'e2-small': 0.0168,
+      'e2-medium': 0.0335,
+      'e2-standard-2': 0.0670,
+      'e2-standard-4': 0.1340,
+      'e2-standard-8': 0.2681,
+      'n1-standard-1': 0.0475,
+      'n1-standard-2': 0.0950,
+      'n2-standard-2': 0.0971,
+      'n2-standard-4': 0.1942,
+      'n2-standard-8': 0.3885,
+      'c2-standard-4': 0.2088,
+    },
+    // Persistent disks (per GB per month)
+    volume: {
+      'pd-standard': 0.04,
+      'pd-balanced': 0.10,
+      'pd-ssd': 0.17,
+    },
+    // Cloud SQL tiers (per hour; high availability doubles it)
+    database: {
+      'db-f1-micro': 0.0105,
+      'db-g1-small': 0.0350,
+      'db-custom-1-3840': 0.0676,
+      'db-custom-2-7680': 0.1351,
+      'db-custom-4-15360': 0.2702,
+    },
+    // Cloud SQL SSD storage (per GB per month)
+    database_storage: 0.17,
+    // Global forwarding rule (per hour, before data processing)
+    load_balancer: 0.025,
+  }
+
+  constructor(key: GcpServiceAccountKey, defaultRegion: string = gcpDefaultRegion(), tokens: GcpTokenSource = new GcpTokenSource(key)) {
+    this.project = key.project_id
+    this.defaultRegion = defaultRegion
+    this.client = axios.create({ timeout: 30000, headers: { 'Content-Type': 'application/json' } })
+
+    this.client.interceptors.request.use(async config => {
+      config.headers.Authorization = `Bearer ${await tokens.getAccessToken()}`
+      return config
+    })
+
+    // Retries transient failures; registered first so it sees raw axios errors
+    attachRetryPolicy(this.client, retryOptionsFromEnv())
+
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        if (error instanceof ProviderError) {
+          throw error // Already converted by a retried request, or a failed token exchange
+        }
+        if (error.response) {
+          const { status, data } = error.response
+          throw new ProviderError(
+            `GCP API Error: ${data?.error?.message || error.message}`,
+            'gcp',
+            status
+          )
+        }
+        throw new ProviderError(error.message, 'gcp')
+      }
+    )
+  }
+
+  private computeUrl(path: string): string {
+    return `${gcpEndpoint('compute')}/compute/v1/projects/${this.project}/${path}`
+  }
+
+  private sqlUrl(path: string): string {
+    return `${gcpEndpoint('sqladmin')}/v1/projects/${this.project}/${path}`
+  }
+
+  /**
+   * Send a Compute Engine mutation and wait for its operation to finish
+   */
+  private async mutate(method: 'post' | 'delete', path: string, body?: any): Promise<void> {
+    const response = method === 'post'
+      ? await this.client.post(this.computeUrl(path), body)
+      : await this.client.delete(this.computeUrl(path))
+    await this.waitForOperation(response.data)
+  }
+
+  /**
+   * Wait on a Compute Engine operation. The wait endpoint returns when the operation
+   * is done or after about two minutes, so it is called until the operation reports DONE.
+   */
+  private async waitForOperation(operation: any): Promise<void> {
+    const scope = operation.zone ? `zones/${lastSegment(operation.zone)}`
+      : operation.region ? `regions/${lastSegment(operation.region)}` : 'global'
+
+    while (operation.status !== 'DONE') {
+      operation = (await this.client.post(this.computeUrl(`${scope}/operations/${operation.name}/wait`))).data
+    }
+
+    const errors = operation.error?.errors || []
+    if (errors.length > 0) {
+      throw new ProviderError(`GCP API Error: ${errors.map((error: any) => error.message).join('; ')}`, 'gcp', operation.httpErrorStatusCode)
+    }
+  }
+
+  /**
+   * Every item from a paginated Compute Engine list, following nextPageToken
+   */
+  private async listAll(path: string, params: Record<string, string> = {}): Promise<any[]> {
+    const items: any[] = []
+    const maxResults = Math.min(Math.max(this.pagination.pageSize, 1), 500)
+    let pageToken: string | undefined
+
+    for (let page = 1; ; page++) {
+      if (page > this.pagination.maxPages) {
+        console.warn(`[GCP] Stopped listing ${path} after ${this.pagination.maxPages} pages (${items.length} items)`)
+        break
+      }
+
+      const response = await this.client.get(this.computeUrl(path), { params: { ...params, maxResults, pageToken } })
+      const data = response.data || {}
+      // Aggregated lists group items by scope: { 'zones/us-central1-a': { instances: [...] } }
+      items.push(...(Array.isArray(data.items) ? data.items
+        : Object.values(data.items || {}).flatMap((scoped: any) => Object.values(scoped).find(Array.isArray) || [])))
+
+      pageToken = data.nextPageToken
+      if (!pageToken) {
+        break
+      }
+    }
+
+    return items
+  }
+
+  /**
+   * Zone for a new zonal resource: spec.zone, a zone given as the region, or the first zone of the region
+   */
+  private async zoneFor(spec: ResourceSpec): Promise<string> {
+    if (spec.zone) {
+      return spec.zone
+    }
+    const location = gcpLocation(spec.region, this.defaultRegion)
+    if (location.zone) {
+      return location.zone
+    }
+
+    if (!this.zones.has(location.region)) {
+      const region = (await this.client.get(this.computeUrl(`regions/${location.region}`))).data
+      this.zones.set(location.region, (region.zones || []).map(lastSegment).sort())
+    }
+    const zone = this.zones.get(location.region)![0]
+    if (!zone) {
+      throw new ProviderError(`Region ${location.region} has no zones`, 'gcp')
+    }
+    return zone
+  }
+
+  /**
+   * Zone and name of an instance from a provider ID (e.g. a resolved ${web.provider_id} reference)
+   */
+  private instanceRef(value: string | number, fallbackZone: string): { zone: string; name: string } {
+    const { location, name } = parseGcpProviderId(String(value))
+    return { zone: location || fallbackZone, name }
+  }
+
+  /**
+   * Zone for droplet_ids given as bare instance names; only looked up when there are any
+   */
+  private async fallbackZone(spec: ResourceSpec): Promise<string> {
+    const bare = (spec.droplet_ids || []).some((id: string | number) => !parseGcpProviderId(String(id)).location)
+    return bare ? this.zoneFor(spec) : ''
+  }
+
+  async authenticate(credentials: Record<string, string>): Promise<boolean> {
+    try {
+      await this.client.get(this.computeUrl(`regions/${this.defaultRegion}`))
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  async createResource(type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource> {
+    switch (type) {
+      case 'droplet':
+        return await this.createInstance(spec)
+      case 'volume':
+        return await this.createDisk(spec)
+      case 'database':
+        return await this.createDatabase(spec)
+      case 'load_balancer':
+        return await this.createLoadBalancer(spec)
+      case 'firewall':
+        return await this.createFirewall(spec)
+      case 'vpc':
+        return await this.createVPC(spec)
+      default:
+        throw new ProviderError(`Resource type ${type} not supported`, 'gcp')
+    }
+  }
+
+  private async createInstance(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = gcpName(spec.name || `instance-${Date.now()}`)
+    const zone = await this.zoneFor(spec)
+    const machineType = spec.size || 'e2-small'
+    const sshUser = spec.ssh_user || 'atlas'
+    const sshKeys = (spec.ssh_keys || []).filter(key => key.startsWith('ssh-') || key.startsWith('ecdsa-'))
+
+    await this.mutate('post', `zones/${zone}/instances`, {
+      name,
+      machineType: `zones/${zone}/machineTypes/${machineType}`,
+      disks: [{
+        boot: true,
+        autoDelete: true,
+        initializeParams: { sourceImage: spec.image || DEFAULT_IMAGE, diskSizeGb: spec.disk_size_gigabytes }
+      }],
+      networkInterfaces: [{
+        network: `global/networks/${spec.vpc_uuid ? parseGcpProviderId(spec.vpc_uuid).name : 'default'}`,
+        subnetwork: spec.vpc_uuid ? `regions/${zone.replace(/-[a-z]$/, '')}/subnetworks/${parseGcpProviderId(spec.vpc_uuid).name}` : undefined,
+        accessConfigs: [{ type: 'ONE_TO_ONE_NAT', name: 'External NAT' }]
+      }],
+      // Firewalls apply to instances through network tags
+      tags: { items: spec.network_tags || [] },
+      labels: toLabels(spec.tags),
+      metadata: {
+        items: [
+          ...(sshKeys.length > 0 ? [{ key: 'ssh-keys', value: sshKeys.map(key => `${sshUser}:${key}`).join('\n') }] : []),
+          ...(spec.user_data ? [{ key: 'startup-script', value: spec.user_data }] : [])
+        ]
+      }
+    })
+
+    return this.buildResource('droplet', name, `${zone}/${name}`, 'creating', undefined, this.calculateInstanceCost(machineType), spec)
+  }
+
+  private async createDisk(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = gcpName(spec.name || `volume-${Date.now()}`)
+    const size = spec.size_gigabytes || 10
+    const diskType = spec.volume_type || 'pd-balanced'
+
+    // A disk can only attach to an instance in its own zone
+    const instance = spec.droplet_id ? this.instanceRef(spec.droplet_id, '') : undefined
+    const zone = instance?.zone || await this.zoneFor(spec)
+
+    await this.mutate('post', `zones/${zone}/disks`, {
+      name,
+      sizeGb: String(size),
+      type: `zones/${zone}/diskTypes/${diskType}`,
+      labels: toLabels(spec.tags)
+    })
+
+    if (instance) {
+      await this.mutate('post', `zones/${zone}/instances/${instance.name}/attachDisk`, {
+        source: `zones/${zone}/disks/${name}`,
+        deviceName: name
+      })
+    }
+
+    const hourlyCost = size * this.volumePrice(diskType) / (24 * 30)
+    return this.buildResource('volume', name, `${zone}/${name}`, 'creating', undefined, hourlyCost, spec)
+  }
+
+  private async createDatabase(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = gcpName(spec.name || `db-${Date.now()}`, 84)
+    const engine = SQL_ENGINES[spec.engine || 'postgresql']
+    if (!engine) {
+      throw new ProviderError(`Database engine ${spec.engine} is not supported on Cloud SQL`, 'gcp')
+    }
+
+    const { region } = gcpLocation(spec.region, this.defaultRegion)
+    const tier = spec.size || 'db-f1-micro'
+    const storage = spec.size_gigabytes || 10
+    const highAvailability = (spec.num_nodes || 1) > 1
+
+    // No root password is set: users are created through Cloud SQL, never stored in Atlas
+    await this.client.post(this.sqlUrl('instances'), {
+      name,
+      region,
+      databaseVersion: `${engine.prefix}_${(spec.version || engine.version).replace(/\./g, '_')}`,
+      settings: {
+        tier,
+        availabilityType: highAvailability ? 'REGIONAL' : 'ZONAL',
+        dataDiskSizeGb: String(storage),
+        userLabels: toLabels(spec.tags),
+        ipConfiguration: spec.vpc_uuid
+          ? { ipv4Enabled: false, privateNetwork: `projects/${this.project}/global/networks/${parseGcpProviderId(spec.vpc_uuid).name}` }
+          : undefined
+      }
+    })
+
+    const hourlyCost = this.calculateDatabaseCost(tier, storage, highAvailability)
+    return this.buildResource('database', name, `${region}/${name}`, 'creating', undefined, hourlyCost, spec)
+  }
+
+  /**
+   * A global external Application Load Balancer: instance groups for the backends,
+   * a health check, backend service and URL map, then a proxy and forwarding rule
+   * per forwarding rule, all on one reserved address. Every backend serves the
+   * target port of the first rule.
+   */
+  private async createLoadBalancer(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = gcpName(spec.name || `lb-${Date.now()}`, 50)
+    const rules = spec.forwarding_rules || [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 80 }]
+    if (rules.some(rule => rule.entry_protocol !== 'http' && rule.entry_protocol !== 'https')) {
+      throw new ProviderError('GCP load balancers created by Atlas only forward HTTP and HTTPS', 'gcp')
+    }
+
+    const targetPort = rules[0].target_port
+    const network = `global/networks/${spec.vpc_uuid ? parseGcpProviderId(spec.vpc_uuid).name : 'default'}`
+    const fallbackZone = await this.fallbackZone(spec)
+
+    // Unmanaged instance groups are zonal, so there is one per zone the backends run in
+    const byZone = new Map<string, string[]>()
+    for (const id of spec.droplet_ids || []) {
+      const instance = this.instanceRef(id, fallbackZone)
+      byZone.set(instance.zone, [...(byZone.get(instance.zone) || []), instance.name])
+    }
+
+    const groups: string[] = []
+    for (const [zone, instances] of byZone) {
+      const group = gcpName(`${name}-${zone}`)
+      await this.mutate('post', `zones/${zone}/instanceGroups`, { name: group, network, namedPorts: [{ name: 'http', port: targetPort }] })
+      await this.mutate('post', `zones/${zone}/instanceGroups/${group}/addInstances`, {
+        instances: instances.map(instance => ({ instance: `zones/${zone}/instances/${instance}` }))
+      })
+      groups.push(`zones/${zone}/instanceGroups/${group}`)
+    }
+
+    const check = spec.health_check
+    const checkType = check?.protocol === 'tcp' ? 'TCP' : check?.protocol === 'https' ? 'HTTPS' : 'HTTP'
+    await this.mutate('post', 'global/healthChecks', {
+      name: `${name}-hc`,
+      type: checkType,
+      [`${checkType.toLowerCase()}HealthCheck`]: { port: check?.port || targetPort, requestPath: checkType === 'TCP' ? undefined : check?.path || '/' },
+      checkIntervalSec: check?.check_interval_seconds,
+      timeoutSec: check?.response_timeout_seconds,
+      healthyThreshold: check?.healthy_threshold,
+      unhealthyThreshold: check?.unhealthy_threshold
+    })
+
+    await this.mutate('post', 'global/backendServices', {
+      name: `${name}-backend`,
+      protocol: rules[0].target_protocol === 'https' ? 'HTTPS' : 'HTTP',
+      portName: 'http',
+      loadBalancingScheme: 'EXTERNAL_MANAGED',
+      localityLbPolicy: spec.algorithm === 'least_connections' ? 'LEAST_REQUEST' : 'ROUND_ROBIN',
+      healthChecks: [`global/healthChecks/${name}-hc`],
+      backends: groups.map(group => ({ group, balancingMode: 'UTILIZATION' }))
+    })
+    await this.mutate('post', 'global/urlMaps', { name: `${name}-urlmap`, defaultService: `global/backendServices/${name}-backend` })
+    await this.mutate('post', 'global/addresses', { name, ipVersion: 'IPV4' })
+
+    for (const rule of rules) {
+      const https = rule.entry_protocol === 'https'
+      const proxy = `${name}-proxy-${rule.entry_port}`
+      await this.mutate('post', https ? 'global/targetHttpsProxies' : 'global/targetHttpProxies', {
+        name: proxy,
+        urlMap: `global/urlMaps/${name}-urlmap`,
+        sslCertificates: https && rule.certificate_id ? [`global/sslCertificates/${rule.certificate_id}`] : undefined
+      })
+      await this.mutate('post', 'global/forwardingRules', {
+        name: `${name}-${rule.entry_port}`,
+        IPProtocol: 'TCP',
+        portRange: String(rule.entry_port),
+        IPAddress: `global/addresses/${name}`,
+        target: `global/${https ? 'targetHttpsProxies' : 'targetHttpProxies'}/${proxy}`,
+        loadBalancingScheme: 'EXTERNAL_MANAGED'
+      })
+    }
+
+    const hourlyCost = GCPProvider.PRICING.load_balancer * rules.length
+    return this.buildResource('load_balancer', name, `global/${name}`, 'creating', undefined, hourlyCost, spec)
+  }
+
+  /**
+   * One VPC firewall rule per Atlas rule and address family (GCP rules cannot mix
+   * IPv4 and IPv6 ranges), applied to instances carrying the firewall's name as a network tag
+   */
+  private async createFirewall(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = gcpName(spec.name || `firewall-${Date.now()}`, 50)
+    const network = `global/networks/${spec.vpc_uuid ? parseGcpProviderId(spec.vpc_uuid).name : 'default'}`
+
+    const inbound: FirewallRuleSpec[] = spec.inbound_rules || [{ protocol: 'tcp', ports: '22' }, { protocol: 'tcp', ports: '80' }, { protocol: 'tcp', ports: '443' }]
+    const rules: Array<{ rule: FirewallRuleSpec; index: number; direction: 'in' | 'out'; addresses: string[] }> = [
+      ...inbound.map((rule, index) => ({ rule, index, direction: 'in' as const, addresses: rule.sources?.addresses || ['0.0.0.0/0'] })),
+      ...(spec.outbound_rules || []).map((rule: FirewallRuleSpec, index: number) => ({ rule, index, direction: 'out' as const, addresses: rule.destinations?.addresses || ['0.0.0.0/0'] }))
+    ]
+
+    for (const { rule, index, direction, addresses } of rules) {
+      const families = [addresses.filter(address => !address.includes(':')), addresses.filter(address => address.includes(':'))]
+      for (const [family, ranges] of families.entries()) {
+        if (ranges.length === 0) {
+          continue
+        }
+        const ingress = direction === 'in'
+        await this.mutate('post', 'global/firewalls', {
+          name: `${name}-${direction}${family === 1 ? '6' : ''}-${index}`,
+          network,
+          direction: ingress ? 'INGRESS' : 'EGRESS',
+          targetTags: [name],
+          sourceRanges: ingress ? ranges : undefined,
+          destinationRanges: ingress ? undefined : ranges,
+          allowed: [{
+            IPProtocol: rule.protocol,
+            ports: rule.protocol === 'icmp' || !rule.ports || rule.ports === 'all' ? undefined : [rule.ports]
+          }]
+        })
+      }
+    }
+
+    const fallbackZone = await this.fallbackZone(spec)
+    for (const id of spec.droplet_ids || []) {
+      const instance = this.instanceRef(id, fallbackZone)
+      await this.addNetworkTag(instance.zone, instance.name, name)
+    }
+
+    return this.buildResource('firewall', name, `global/${name}`, 'active', undefined, 0, spec)
+  }
+
+  private async addNetworkTag(zone: string, instanceName: string, tag: string): Promise<void> {
+    const instance = (await this.client.get(this.computeUrl(`zones/${zone}/instances/${instanceName}`))).data
+    const items: string[] = instance.tags?.items || []
+    if (items.includes(tag)) {
+      return
+    }
+    await this.mutate('post', `zones/${zone}/instances/${instanceName}/setTags`, {
+      items: [...items, tag],
+      fingerprint: instance.tags?.fingerprint
+    })
+  }
+
+  private async createVPC(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = gcpName(spec.name || `vpc-${Date.now()}`)
+    const { region } = gcpLocation(spec.region, this.defaultRegion)
+
+    await this.mutate('post', 'global/networks', {
+      name,
+      autoCreateSubnetworks: false,
+      routingConfig: { routingMode: 'REGIONAL' }
+    })
+
+    // Instances attach to subnets, so start with one spanning ip_range in the region
+    await this.mutate('post', `regions/${region}/subnetworks`, {
+      name,
+      network: `global/networks/${name}`,
+      ipCidrRange: spec.ip_range || '10.0.0.0/20'
+    })
+
+    return this.buildResource('vpc', name, `${region}/${name}`, 'active', undefined, 0, spec)
+  }
+
+  async updateResource(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    options: UpdateResourceOptions = {}
+  ): Promise<InfrastructureResource> {
+    const type = options.type || 'droplet'
+    const current = options.current || {}
+    const onStep = options.onStep || (() => {})
+    const { location, name } = parseGcpProviderId(providerId)
+
+    const allowed = GCP_UPDATABLE_FIELDS[type] || []
+    const unsupported = Object.keys(spec).filter(field => !allowed.includes(field))
+    if (unsupported.length > 0) {
+      throw new AtlasError(
+        `Cannot change ${unsupported.join(', ')} on ${type} in place (supported: ${allowed.join(', ') || 'none'})`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    switch (type) {
+      case 'droplet':
+        if (spec.size) {
+          await this.resizeInstance(location, name, spec.size, onStep)
+        }
+        if (spec.tags) {
+          await onStep('Update labels')
+          await this.setLabels(`zones/${location}/instances/${name}`, spec.tags)
+        }
+        break
+      case 'volume':
+        if (spec.size_gigabytes) {
+          await onStep(`Resize disk to ${spec.size_gigabytes} GB`)
+          await this.mutate('post', `zones/${location}/disks/${name}/resize`, { sizeGb: String(spec.size_gigabytes) })
+        }
+        if (spec.tags) {
+          await onStep('Update labels')
+          await this.setLabels(`zones/${location}/disks/${name}`, spec.tags)
+        }
+        break
+      case 'database':
+        await onStep(spec.size ? `Change Cloud SQL tier to ${spec.size}` : `Grow storage to ${spec.size_gigabytes} GB`)
+        await this.client.patch(this.sqlUrl(`instances/${name}`), {
+          settings: {
+            tier: spec.size,
+            dataDiskSizeGb: spec.size_gigabytes ? String(spec.size_gigabytes) : undefined
+          }
+        })
+        break
+    }
+
+    const live = await this.getResource(providerId, type)
+    if (!live) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return { ...live, specifications: { ...current, ...spec } }
+  }
+
+  /**
+   * Stop, change the machine type and start again (only if it was running before)
+   */
+  private async resizeInstance(
+    zone: string,
+    name: string,
+    machineType: string,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const instance = (await this.client.get(this.computeUrl(`zones/${zone}/instances/${name}`))).data
+    const wasRunning = instance.status === 'RUNNING'
+
+    if (wasRunning) {
+      await onStep('Stop instance')
+      await this.mutate('post', `zones/${zone}/instances/${name}/stop`)
+    }
+
+    await onStep(`Change machine type to ${machineType}`)
+    await this.mutate('post', `zones/${zone}/instances/${name}/setMachineType`, { machineType: `zones/${zone}/machineTypes/${machineType}` })
+
+    if (wasRunning) {
+      await onStep('Start instance')
+      await this.mutate('post', `zones/${zone}/instances/${name}/start`)
+    }
+  }
+
+  /**
+   * Replace the labels of an instance or disk (GCP requires the current fingerprint)
+   */
+  private async setLabels(path: string, tags: Record<string, string>): Promise<void> {
+    const resource = (await this.client.get(this.computeUrl(path))).data
+    await this.mutate('post', `${path}/setLabels`, { labels: toLabels(tags), labelFingerprint: resource.labelFingerprint })
+  }
+
+  /**
+   * Delete a resource. A resource that is already gone counts as deleted,
+   * so destroy can be retried safely.
+   */
+  async deleteResource(providerId: string, type: ResourceType = 'droplet'): Promise<void> {
+    const { location, name } = parseGcpProviderId(providerId)
+    try {
+      switch (type) {
+        case 'droplet':
+          // The boot disk is deleted with the instance; attached data disks are kept for their own destroy
+          await this.mutate('delete', `zones/${location}/instances/${name}`)
+          break
+        case 'volume':
+          await this.detachDisk(location, name)
+          await this.mutate('delete', `zones/${location}/disks/${name}`)
+          break
+        case 'database':
+          await this.client.delete(this.sqlUrl(`instances/${name}`))
+          break
+        case 'load_balancer':
+          await this.deleteLoadBalancer(name)
+          break
+        case 'firewall':
+          for (const rule of await this.firewallRules(name)) {
+            await this.mutate('delete', `global/firewalls/${rule.name}`)
+          }
+          break
+        case 'vpc':
+          await this.ignoreNotFound(this.mutate('delete', `regions/${location}/subnetworks/${name}`))
+          await this.mutate('delete', `global/networks/${name}`)
+          break
+        default:
+          throw new ProviderError(`Resource type ${type} not supported`, 'gcp')
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return
+      }
+      throw error
+    }
+  }
+
+  private async detachDisk(zone: string, name: string): Promise<void> {
+    const disk = (await this.client.get(this.computeUrl(`zones/${zone}/disks/${name}`))).data
+    for (const user of disk.users || []) {
+      const instanceName = lastSegment(user)
+      const instance = (await this.client.get(this.computeUrl(`zones/${zone}/instances/${instanceName}`))).data
+      const attached = (instance.disks || []).find((attachedDisk: any) => lastSegment(attachedDisk.source) === name)
+      if (attached) {
+        await this.mutate('post', `zones/${zone}/instances/${instanceName}/detachDisk?deviceName=${encodeURIComponent(attached.deviceName)}`)
+      }
+    }
+  }
+
+  /**
+   * Delete the load balancer's parts in reverse order of creation. Parts that are
+   * already gone are skipped, so a partly created load balancer can be removed too.
+   */
+  private async deleteLoadBalancer(name: string): Promise<void> {
+    const backend = await this.ignoreNotFound(this.client.get(this.computeUrl(`global/backendServices/${name}-backend`)))
+    const groups: string[] = (backend?.data?.backends || []).map((item: any) => item.group)
+
+    for (const rule of await this.listAll('global/forwardingRules', { filter: `name eq "${name}-[0-9]+"` })) {
+      await this.mutate('delete', `global/forwardingRules/${rule.name}`)
+    }
+    for (const collection of ['targetHttpProxies', 'targetHttpsProxies']) {
+      for (const proxy of await this.listAll(`global/${collection}`, { filter: `name eq "${name}-proxy-[0-9]+"` })) {
+        await this.mutate('delete', `global/${collection}/${proxy.name}`)
+      }
+    }
+
+    await this.ignoreNotFound(this.mutate('delete', `global/urlMaps/${name}-urlmap`))
+    await this.ignoreNotFound(this.mutate('delete', `global/backendServices/${name}-backend`))
+    await this.ignoreNotFound(this.mutate('delete', `global/healthChecks/${name}-hc`))
+    for (const group of groups) {
+      const zone = lastSegment(group.slice(0, group.indexOf('/instanceGroups/')))
+      await this.ignoreNotFound(this.mutate('delete', `zones/${zone}/instanceGroups/${lastSegment(group)}`))
+    }
+    await this.mutate('delete', `global/addresses/${name}`)
+  }
+
+  private async firewallRules(name: string): Promise<any[]> {
+    return this.listAll('global/firewalls', { filter: `name eq "${name}-(in|in6|out|out6)-[0-9]+"` })
+  }
+
+  private async ignoreNotFound<T>(promise: Promise<T>): Promise<T | null> {
+    try {
+      return await promise
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async getResource(providerId: string, type: ResourceType = 'droplet'): Promise<InfrastructureResource | null> {
+    const { location, name } = parseGcpProviderId(providerId)
+    try {
+      switch (type) {
+        case 'droplet': {
+          const instance = (await this.client.get(this.computeUrl(`zones/${location}/instances/${name}`))).data
+          return this.instanceResource(instance)
+        }
+        case 'volume': {
+          const disk = (await this.client.get(this.computeUrl(`zones/${location}/disks/${name}`))).data
+          return this.diskResource(disk)
+        }
+        case 'database': {
+          const database = (await this.client.get(this.sqlUrl(`instances/${name}`))).data
+          return this.databaseResource(database)
+        }
+        case 'load_balancer': {
+          const address = (await this.client.get(this.computeUrl(`global/addresses/${name}`))).data
+          const rules = await this.listAll('global/forwardingRules', { filter: `name eq "${name}-[0-9]+"` })
+          const resource = this.buildResource(
+            'load_balancer', name, providerId, address.status === 'IN_USE' ? 'active' : 'creating',
+            address.creationTimestamp, GCPProvider.PRICING.load_balancer * Math.max(rules.length, 1)
+          )
+          return { ...resource, public_ip: address.address }
+        }
+        case 'firewall': {
+          const rules = await this.firewallRules(name)
+          if (rules.length === 0) {
+            return null
+          }
+          const resource = this.buildResource('firewall', name, providerId, 'active', rules[0].creationTimestamp, 0)
+          return { ...resource, specifications: { network: lastSegment(rules[0].network) } }
+        }
+        case 'vpc': {
+          const network = (await this.client.get(this.computeUrl(`global/networks/${name}`))).data
+          const subnet = await this.ignoreNotFound(this.client.get(this.computeUrl(`regions/${location}/subnetworks/${name}`)))
+          const resource = this.buildResource('vpc', name, providerId, 'active', network.creationTimestamp, 0)
+          return { ...resource, specifications: { region: location, ip_range: subnet?.data?.ipCidrRange } }
+        }
+        default:
+          return null
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private instanceResource(instance: any): InfrastructureResource {
+    const zone = lastSegment(instance.zone)
+    const machineType = lastSegment(instance.machineType)
+    const resource = this.buildResource(
+      'droplet', instance.name, `${zone}/${instance.name}`, this.mapInstanceStatus(instance.status),
+      instance.creationTimestamp, this.calculateInstanceCost(machineType)
+    )
+    const networkInterface = instance.networkInterfaces?.[0]
+
+    return {
+      ...resource,
+      specifications: {
+        region: zone.replace(/-[a-z]$/, ''),
+        zone,
+        size: machineType,
+        tags: instance.labels || {}
+      },
+      public_ip: networkInterface?.accessConfigs?.[0]?.natIP || undefined,
+      private_ip: networkInterface?.networkIP || undefined
+    }
+  }
+
+  private diskResource(disk: any): InfrastructureResource {
+    const zone = lastSegment(disk.zone)
+    const size = Number(disk.sizeGb)
+    const status: ResourceStatus = disk.status === 'READY' ? 'active'
+      : disk.status === 'DELETING' ? 'deleting'
+        : disk.status === 'FAILED' ? 'error' : 'creating'
+    const resource = this.buildResource(
+      'volume', disk.name, `${zone}/${disk.name}`, status,
+      disk.creationTimestamp, size * this.volumePrice(lastSegment(disk.type)) / (24 * 30)
+    )
+    const user = disk.users?.[0]
+
+    return {
+      ...resource,
+      specifications: {
+        zone,
+        size_gigabytes: size,
+        droplet_id: user ? `${zone}/${lastSegment(user)}` : undefined,
+        tags: disk.labels || {}
+      }
+    }
+  }
+
+  private databaseResource(database: any): InfrastructureResource {
+    const status: ResourceStatus = database.state === 'RUNNABLE' ? 'active'
+      : database.state === 'PENDING_CREATE' ? 'creating'
+        : database.state === 'FAILED' ? 'error' : 'updating'
+    const highAvailability = database.settings?.availabilityType === 'REGIONAL'
+    const storage = Number(database.settings?.dataDiskSizeGb) || 10
+    const resource = this.buildResource(
+      'database', database.name, `${database.region}/${database.name}`, status,
+      database.createTime, this.calculateDatabaseCost(database.settings?.tier, storage, highAvailability)
+    )
+    const [engine, ...version] = String(database.databaseVersion || '').split('_')
+
+    return {
+      ...resource,
+      specifications: {
+        region: database.region,
+        engine: engine === 'POSTGRES' ? 'postgresql' : engine.toLowerCase(),
+        version: version.join('.'),
+        size: database.settings?.tier,
+        size_gigabytes: storage,
+        num_nodes: highAvailability ? 2 : 1,
+        host: database.ipAddresses?.[0]?.ipAddress,
+        connection_name: database.connectionName,
+        tags: database.settings?.userLabels || {}
+      }
+    }
+  }
+
+  async listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]> {
+    const resources: InfrastructureResource[] = []
+
+    // Supported filters: tag_name ('key:value' as a label, e.g. 'atlas_operation:<id>')
+    const [key, ...value] = filters?.tag_name ? String(filters.tag_name).split(':') : []
+    const label = key ? Object.entries(toLabels({ [key]: value.join(':') }))[0] : undefined
+    const params: Record<string, string> = label ? { filter: `labels.${label[0]} = "${label[1]}"` } : {}
+
+    try {
+      for (const instance of await this.listAll('aggregated/instances', params)) {
+        resources.push(this.instanceResource(instance))
+      }
+      for (const disk of await this.listAll('aggregated/disks', params)) {
+        // Boot disks belong to their instance
+        if (!(disk.users || []).some((user: string) => lastSegment(user) === disk.name)) {
+          resources.push(this.diskResource(disk))
+        }
+      }
+
+      const databases = (await this.client.get(this.sqlUrl('instances'))).data.items || []
+      for (const database of databases) {
+        if (!label || database.settings?.userLabels?.[label[0]] === label[1]) {
+          resources.push(this.databaseResource(database))
+        }
+      }
+    } catch (error) {
+      console.error('Error listing resources:', error)
+    }
+
+    return resources
+  }
+
+  async getResourceCost(providerId: string): Promise<ResourceCost> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    const uptimeHours = Math.max(1, (Date.now() - new Date(resource.created_at).getTime()) / (1000 * 60 * 60))
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      resource_name: resource.name,
+      hourly_cost: resource.hourly_cost,
+      daily_cost: resource.hourly_cost * 24,
+      monthly_cost: resource.monthly_cost,
+      total_cost: resource.hourly_cost * uptimeHours,
+      uptime_hours: uptimeHours
+    }
+  }
+
+  async estimateCost(spec: ResourceSpec): Promise<number> {
+    if (spec.size?.startsWith('db-')) {
+      return this.calculateDatabaseCost(spec.size, spec.size_gigabytes || 10, (spec.num_nodes || 1) > 1) * 24 * 30
+    }
+
+    if (spec.size) {
+      return this.calculateInstanceCost(spec.size) * 24 * 30
+    }
+
+    if (spec.size_gigabytes) {
+      return spec.size_gigabytes * this.volumePrice(spec.volume_type || 'pd-balanced')
+    }
+
+    if (spec.forwarding_rules) {
+      return GCPProvider.PRICING.load_balancer * spec.forwarding_rules.length * 24 * 30
+    }
+
+    return 15.00 // Default estimate
+  }
+
+  async checkResourceHealth(providerId: string): Promise<ResourceHealth> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      status: resource.status === 'active' ? 'healthy' : 'warning',
+      last_check: new Date().toISOString(),
+      uptime_percentage: resource.status === 'active' ? 100 : 0
+    }
+  }
+
+  private buildResource(
+    type: ResourceType,
+    name: string,
+    providerId: string,
+    status: ResourceStatus,
+    createdAt: string | undefined,
+    hourlyCost: number,
+    specifications: ResourceSpec = {}
+  ): InfrastructureResource {
+    return {
+      id: uuidv4(),
+      type,
+      name,
+      provider_id: providerId,
+      specifications,
+      status,
+      created_at: createdAt ? new Date(createdAt).toISOString() : new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      dependencies: [],
+      dependents: [],
+      hourly_cost: hourlyCost,
+      monthly_cost: hourlyCost * 24 * 30
+    }
+  }
+
+  private calculateInstanceCost(machineType: string): number {
+    return GCPProvider.PRICING.instance[machineType as keyof typeof GCPProvider.PRICING.instance] || 0.0168
+  }
+
+  private calculateDatabaseCost(tier: string, storageGigabytes: number, highAvailability: boolean): number {
+    const hourly = GCPProvider.PRICING.database[tier as keyof typeof GCPProvider.PRICING.database] || 0.0105
+    return hourly * (highAvailability ? 2 : 1) + storageGigabytes * GCPProvider.PRICING.database_storage / (24 * 30)
+  }
+
+  private volumePrice(diskType: string): number {
+    return GCPProvider.PRICING.volume[diskType as keyof typeof GCPProvider.PRICING.volume] || 0.10
+  }
+
+  private mapInstanceStatus(status: string): ResourceStatus {
+    switch (status) {
+      case 'PROVISIONING':
+      case 'STAGING': return 'creating'
+      case 'RUNNING': return 'active'
+      case 'STOPPING':
+      case 'SUSPENDING':
+      case 'SUSPENDED':
+      case 'TERMINATED': return 'active' // Stopped instances still exist, like powered-off droplets
+      case 'REPAIRING': return 'updating'
+      default: return 'active'
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { CloudProvider, CloudProviderInterface } from '../types'
+import { ContextManagerCredentials } from '../services/ContextService'
+import { DigitalOceanProvider } from './digitalocean'
+import { AWSProvider } from './aws'
+import { LinodeProvider } from './linode'
+import { VultrProvider } from './vultr'
+import { GCPProvider } from './gcp'
+import { AzureProvider } from './azure'
+import { parseServiceAccountKey } from '../utils/GcpServiceAccount'
+
+/**
+ * Create a provider client for a set of credentials, or null when the provider
+ * is not supported or the credentials are incomplete. A GCP key that cannot be
+ * parsed throws INVALID_CREDENTIALS.
+ */
+export function createCloudProvider(
+  provider: CloudProvider,
+  credentials: ContextManagerCredentials
+): CloudProviderInterface | null {
+  switch (provider) {
+    case 'digitalocean':
+      return credentials.digitalocean_api_token ? new DigitalOceanProvider(credentials.digitalocean_api_token) : null
+    case 'aws':
+      return credentials.aws_access_key_id && credentials.aws_secret_access_key
+        ? new AWSProvider({ accessKeyId: credentials.aws_access_key_id, secretAccessKey: credentials.aws_secret_access_key })
+        : null
+    case 'gcp':
+      return credentials.gcp_service_account_key
+        ? new GCPProvider(parseServiceAccountKey(credentials.gcp_service_account_key))
+        : null
+    case 'azure':
+      return credentials.azure_subscription_id && credentials.azure_tenant_id && credentials.azure_client_id && credentials.azure_client_secret
+        ? new AzureProvider(credentials.azure_subscription_id, {
+          tenantId: credentials.azure_tenant_id,
+          clientId: credentials.azure_client_id,
+          clientSecret: credentials.azure_client_secret
+        })
+        : null
+    case 'linode':
+      return credentials.linode_api_token ? new LinodeProvider(credentials.linode_api_token) : null
+    case 'vultr':
+      return credentials.vultr_api_key ? new VultrProvider(credentials.vultr_api_key) : null
+    default:
+      return null
+  }
+}
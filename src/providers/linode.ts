@@ -0,0 +1,625 @@
+import axios, { AxiosInstance } from 'axios'
+import { randomBytes } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  CloudProviderInterface,
+  CloudProvider,
+  ResourceType,
+  ResourceStatus,
+  InfrastructureResource,
+  ResourceSpec,
+  ResourceCost,
+  ResourceHealth,
+  ProviderError,
+  ResourceNotFoundError,
+  UpdateResourceOptions,
+  AtlasError,
+  ProviderRateLimit
+} from '../types'
+import { attachRetryPolicy, retryOptionsFromEnv } from '../utils/RetryPolicy'
+import { paginationOptionsFromEnv } from '../utils/Paginator'
+
+/*
+ * Atlas resource types map onto Linode as:
+ *   droplet -> Linode instance   volume -> Block Storage volume   load_balancer -> NodeBalancer
+ *   firewall -> Cloud Firewall   vpc -> VPC (with one subnet)
+ */
+
+// Specification fields each resource type can change in place
+export const LINODE_UPDATABLE_FIELDS: Partial<Record<ResourceType, string[]>> = {
+  droplet: ['size', 'tags'],
+  volume: ['size_gigabytes', 'tags'],
+  firewall: ['inbound_rules', 'outbound_rules', 'droplet_ids', 'tags']
+}
+
+// Volume detaches are polled until the volume is free
+const DETACH_POLL_INTERVAL_MS = 3000
+const DETACH_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * Base URL of the Linode v4 API (LINODE_API_URL overrides it)
+ */
+export function linodeApiUrl(env: NodeJS.ProcessEnv = process.env): string {
+  return (env.LINODE_API_URL || 'https://api.linode.com/v4').replace(/\/+$/, '')
+}
+
+export class LinodeProvider implements CloudProviderInterface {
+  name: CloudProvider = 'linode'
+  private client: AxiosInstance
+  private retryPolicy: { getRateLimit(): ProviderRateLimit | null }
+  private pagination = paginationOptionsFromEnv()
+
+  regions = [
+    'us-east', 'us-central', 'us-west', 'us-southeast', 'us-ord', 'us-iad', 'ca-central',
+    'eu-west', 'eu-central', 'fr-par', 'nl-ams', 'se-sto', 'ap-south', 'ap-northeast', 'ap-southeast', 'in-maa'
+  ]
+
+  resource_types: ResourceType[] = ['droplet', 'volume', 'load_balancer', 'firewall', 'vpc']
+
+  // Pricing information (USD)
+  static readonly PRICING = {
+    // Instance types (per hour)
+    instance: {
+      'g6-nanode-1': 0.0075,
+      'g6-standard-1': 0.018,
+      'g6-standard-2': 0.036,
+      'g6-standard-4': 0.072,
+      'g6-standard-6': 0.144,
+      'g6-standard-8': 0.288,
+      'g6-dedicated-2': 0.054,
+      'g6-dedicated-4': 0.108,
+      'g6-dedicated-8': 0.216,
+    },
+    // Block Storage (per GB per month)
+    volume: 0.10,
+    // NodeBalancers (per month)
+    load_balancer: 10.00,
+  }
+
+  constructor(apiToken: string) {
+    this.client = axios.create({
+      baseURL: linodeApiUrl(),
+      headers: {
+        'Authorization': `Bearer ${apiToken}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: 30000
+    })
+
+    // Retries transient failures; registered first so it sees raw axios errors
+    this.retryPolicy = attachRetryPolicy(this.client, retryOptionsFromEnv())
+
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        if (error instanceof ProviderError) {
+          throw error // Already converted by a retried request
+        }
+        if (error.response) {
+          const { status, data } = error.response
+          const reasons = (data?.errors || []).map((e: any) => e.field ? `${e.field}: ${e.reason}` : e.reason)
+          throw new ProviderError(
+            `Linode API Error: ${reasons.join('; ') || error.message}`,
+            'linode',
+            status
+          )
+        }
+        throw new ProviderError(error.message, 'linode')
+      }
+    )
+  }
+
+  /**
+   * Every item from a paginated list endpoint ({ data, page, pages })
+   */
+  private async listAll<T = any>(path: string): Promise<T[]> {
+    const items: T[] = []
+    const pageSize = Math.min(Math.max(this.pagination.pageSize, 25), 500)
+
+    for (let page = 1; ; page++) {
+      if (page > this.pagination.maxPages) {
+        console.warn(`[Linode] Stopped listing ${path} after ${this.pagination.maxPages} pages (${items.length} items)`)
+        break
+      }
+      const response = await this.client.get(path, { params: { page, page_size: pageSize } })
+      items.push(...(response.data?.data || []))
+      if (!response.data?.pages || page >= response.data.pages) {
+        break
+      }
+    }
+
+    return items
+  }
+
+  getRateLimit(): ProviderRateLimit | null {
+    return this.retryPolicy.getRateLimit()
+  }
+
+  async authenticate(credentials: Record<string, string>): Promise<boolean> {
+    try {
+      const response = await this.client.get('/profile')
+      return response.status === 200
+    } catch (error) {
+      return false
+    }
+  }
+
+  async createResource(type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource> {
+    switch (type) {
+      case 'droplet':
+        return await this.createInstance(spec)
+      case 'volume':
+        return await this.createVolume(spec)
+      case 'load_balancer':
+        return await this.createNodeBalancer(spec)
+      case 'firewall':
+        return await this.createFirewall(spec)
+      case 'vpc':
+        return await this.createVPC(spec)
+      default:
+        throw new ProviderError(`Resource type ${type} not supported`, 'linode')
+    }
+  }
+
+  private async createInstance(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const type = spec.size || 'g6-nanode-1'
+    const interfaces = spec.vpc_uuid
+      ? [{ purpose: 'public' }, { purpose: 'vpc', subnet_id: await this.firstSubnet(spec.vpc_uuid), ipv4: { nat_1_1: 'any' } }]
+      : undefined
+
+    const response = await this.client.post('/linode/instances', {
+      label: spec.name || `linode-${Date.now()}`,
+      region: spec.region || 'us-east',
+      type,
+      image: spec.image || 'linode/ubuntu22.04',
+      // Linode requires a root password with an image; login is by SSH key, so it is random and discarded
+      root_pass: randomBytes(24).toString('base64'),
+      authorized_keys: (spec.ssh_keys || []).filter(key => key.startsWith('ssh-') || key.startsWith('ecdsa-')),
+      authorized_users: spec.authorized_users,
+      private_ip: true, // NodeBalancers reach backends over private IPs
+      interfaces,
+      tags: this.formatTags(spec.tags)
+    })
+    const instance = response.data
+
+    return this.buildResource('droplet', instance.label, String(instance.id), 'creating', instance.created, this.calculateInstanceCost(type), spec)
+  }
+
+  private async createVolume(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const size = spec.size_gigabytes || 10
+    const response = await this.client.post('/volumes', {
+      label: spec.name || `volume-${Date.now()}`,
+      size,
+      // Attaching places the volume in the instance's region
+      region: spec.droplet_id ? undefined : spec.region || 'us-east',
+      linode_id: spec.droplet_id ? Number(spec.droplet_id) : undefined,
+      tags: this.formatTags(spec.tags)
+    })
+    const volume = response.data
+
+    const hourlyCost = size * LinodeProvider.PRICING.volume / (24 * 30)
+    return this.buildResource('volume', volume.label, String(volume.id), 'creating', volume.created, hourlyCost, spec)
+  }
+
+  private async createNodeBalancer(spec: ResourceSpec): Promise<InfrastructureResource> {
+    // Backends are addressed by private IP, so look them up for the given instances
+    const backends = await Promise.all((spec.droplet_ids || []).map(async (id: string | number) => {
+      const instance = (await this.client.get(`/linode/instances/${id}`)).data
+      const privateIp = (instance.ipv4 || []).find((ip: string) => ip.startsWith('192.168.'))
+      if (!privateIp) {
+        throw new ProviderError(`Linode ${id} has no private IP for the NodeBalancer to reach`, 'linode')
+      }
+      return { label: instance.label, privateIp }
+    }))
+
+    const rules = spec.forwarding_rules || [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 80 }]
+    const response = await this.client.post('/nodebalancers', {
+      label: spec.name || `nodebalancer-${Date.now()}`,
+      region: spec.region || 'us-east',
+      tags: this.formatTags(spec.tags),
+      configs: rules.map(rule => ({
+        port: rule.entry_port,
+        protocol: rule.entry_protocol === 'udp' ? 'tcp' : rule.entry_protocol,
+        algorithm: spec.algorithm === 'least_connections' ? 'leastconn' : 'roundrobin',
+        check: spec.health_check?.protocol === 'tcp' ? 'connection' : spec.health_check ? 'http' : 'none',
+        check_path: spec.health_check?.path,
+        check_interval: spec.health_check?.check_interval_seconds,
+        check_timeout: spec.health_check?.response_timeout_seconds,
+        check_attempts: spec.health_check?.unhealthy_threshold,
+        ssl_cert: rule.certificate_id ? spec.ssl_cert : undefined,
+        ssl_key: rule.certificate_id ? spec.ssl_key : undefined,
+        nodes: backends.map(backend => ({
+          label: backend.label,
+          address: `${backend.privateIp}:${rule.target_port}`,
+          mode: 'accept'
+        }))
+      }))
+    })
+    const nodeBalancer = response.data
+
+    const hourlyCost = LinodeProvider.PRICING.load_balancer / (24 * 30)
+    return this.buildResource('load_balancer', nodeBalancer.label, String(nodeBalancer.id), 'creating', nodeBalancer.created, hourlyCost, spec)
+  }
+
+  private async createFirewall(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const response = await this.client.post('/networking/firewalls', {
+      label: spec.name || `firewall-${Date.now()}`,
+      rules: this.firewallRules(spec),
+      devices: { linodes: (spec.droplet_ids || []).map((id: string | number) => Number(id)) },
+      tags: this.formatTags(spec.tags)
+    })
+    const firewall = response.data
+
+    return this.buildResource('firewall', firewall.label, String(firewall.id), 'active', firewall.created, 0, spec)
+  }
+
+  private async createVPC(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const label = spec.name || `vpc-${Date.now()}`
+    const response = await this.client.post('/vpcs', {
+      label,
+      region: spec.region || 'us-east',
+      subnets: [{ label: `${label}-subnet`.slice(0, 64), ipv4: spec.ip_range || '10.0.0.0/24' }]
+    })
+    const vpc = response.data
+
+    return this.buildResource('vpc', vpc.label, String(vpc.id), 'active', vpc.created, 0, spec)
+  }
+
+  /**
+   * Cloud Firewall rules from DigitalOcean-style inbound/outbound rules. Inbound
+   * traffic not matched is dropped; outbound is accepted unless rules are given.
+   */
+  private firewallRules(spec: Partial<ResourceSpec>): Record<string, any> {
+    const convert = (rule: any, addresses: string[] = ['0.0.0.0/0', '::/0']) => ({
+      action: 'ACCEPT',
+      protocol: String(rule.protocol || 'tcp').toUpperCase(),
+      ports: rule.protocol === 'icmp' || !rule.ports || rule.ports === 'all' ? undefined : rule.ports,
+      addresses: {
+        ipv4: addresses.filter(address => !address.includes(':')),
+        ipv6: addresses.filter(address => address.includes(':'))
+      }
+    })
+
+    const inbound = spec.inbound_rules || ['22', '80', '443'].map(ports => ({ protocol: 'tcp', ports }))
+    return {
+      inbound_policy: 'DROP',
+      inbound: inbound.map((rule: any) => convert(rule, rule.sources?.addresses)),
+      outbound_policy: spec.outbound_rules ? 'DROP' : 'ACCEPT',
+      outbound: (spec.outbound_rules || []).map((rule: any) => convert(rule, rule.destinations?.addresses))
+    }
+  }
+
+  private async firstSubnet(vpcId: string): Promise<number> {
+    const subnets = await this.listAll(`/vpcs/${vpcId}/subnets`)
+    if (subnets.length === 0) {
+      throw new ProviderError(`VPC ${vpcId} has no subnets`, 'linode')
+    }
+    return subnets[0].id
+  }
+
+  async updateResource(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    options: UpdateResourceOptions = {}
+  ): Promise<InfrastructureResource> {
+    const type = options.type || 'droplet'
+    const current = options.current || {}
+    const onStep = options.onStep || (() => {})
+
+    const allowed = LINODE_UPDATABLE_FIELDS[type] || []
+    const unsupported = Object.keys(spec).filter(field => !allowed.includes(field))
+    if (unsupported.length > 0) {
+      throw new AtlasError(
+        `Cannot change ${unsupported.join(', ')} on ${type} in place (supported: ${allowed.join(', ') || 'none'})`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    switch (type) {
+      case 'droplet':
+        if (spec.size) {
+          // Linode shuts the instance down, migrates it and boots it again
+          await onStep(`Resize instance to ${spec.size}`)
+          await this.client.post(`/linode/instances/${providerId}/resize`, { type: spec.size, allow_auto_disk_resize: true })
+        }
+        if (spec.tags) {
+          await onStep('Update tags')
+          await this.client.put(`/linode/instances/${providerId}`, { tags: this.formatTags(spec.tags) })
+        }
+        break
+      case 'volume':
+        if (spec.size_gigabytes) {
+          await onStep(`Resize volume to ${spec.size_gigabytes} GB`)
+          await this.client.post(`/volumes/${providerId}/resize`, { size: spec.size_gigabytes })
+        }
+        if (spec.tags) {
+          await onStep('Update tags')
+          await this.client.put(`/volumes/${providerId}`, { tags: this.formatTags(spec.tags) })
+        }
+        break
+      case 'firewall':
+        if (spec.inbound_rules || spec.outbound_rules) {
+          await onStep('Replace firewall rules')
+          await this.client.put(`/networking/firewalls/${providerId}/rules`, this.firewallRules({
+            inbound_rules: spec.inbound_rules || current.inbound_rules,
+            outbound_rules: spec.outbound_rules || current.outbound_rules
+          }))
+        }
+        if (spec.droplet_ids) {
+          await this.updateFirewallDevices(providerId, current.droplet_ids || [], spec.droplet_ids, onStep)
+        }
+        if (spec.tags) {
+          await onStep('Update tags')
+          await this.client.put(`/networking/firewalls/${providerId}`, { tags: this.formatTags(spec.tags) })
+        }
+        break
+    }
+
+    const live = await this.getResource(providerId, type)
+    if (!live) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return { ...live, specifications: { ...current, ...spec } }
+  }
+
+  private async updateFirewallDevices(
+    firewallId: string,
+    before: Array<string | number>,
+    after: Array<string | number>,
+    onStep: (description: string) => Promise<void> | void
+  ): Promise<void> {
+    const wanted = after.map(Number)
+    const devices = await this.listAll(`/networking/firewalls/${firewallId}/devices`)
+
+    for (const device of devices.filter(device => !wanted.includes(device.entity?.id))) {
+      await onStep(`Remove Linode ${device.entity.id} from firewall`)
+      await this.client.delete(`/networking/firewalls/${firewallId}/devices/${device.id}`)
+    }
+    const attached = devices.map(device => device.entity?.id)
+    for (const linodeId of wanted.filter(id => !attached.includes(id))) {
+      await onStep(`Add Linode ${linodeId} to firewall`)
+      await this.client.post(`/networking/firewalls/${firewallId}/devices`, { type: 'linode', id: linodeId })
+    }
+  }
+
+  /**
+   * Delete a resource through its own endpoint. A resource that is already
+   * gone counts as deleted, so destroy can be retried safely.
+   */
+  async deleteResource(providerId: string, type: ResourceType = 'droplet'): Promise<void> {
+    try {
+      switch (type) {
+        case 'droplet':
+          // Attached volumes are detached by the delete and kept for their own destroy
+          await this.client.delete(`/linode/instances/${providerId}`)
+          break
+        case 'volume':
+          await this.detachVolume(providerId)
+          await this.client.delete(`/volumes/${providerId}`)
+          break
+        case 'load_balancer':
+          await this.client.delete(`/nodebalancers/${providerId}`)
+          break
+        case 'firewall':
+          await this.client.delete(`/networking/firewalls/${providerId}`)
+          break
+        case 'vpc':
+          await this.client.delete(`/vpcs/${providerId}`)
+          break
+        default:
+          throw new ProviderError(`Resource type ${type} not supported`, 'linode')
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return
+      }
+      throw error
+    }
+  }
+
+  private async detachVolume(volumeId: string): Promise<void> {
+    const volume = (await this.client.get(`/volumes/${volumeId}`)).data
+    if (!volume.linode_id) {
+      return
+    }
+
+    await this.client.post(`/volumes/${volumeId}/detach`, {})
+    const deadline = Date.now() + DETACH_TIMEOUT_MS
+    while ((await this.client.get(`/volumes/${volumeId}`)).data.linode_id) {
+      if (Date.now() > deadline) {
+        throw new ProviderError(`Timed out detaching volume ${volumeId}`, 'linode')
+      }
+      await new Promise(resolve => setTimeout(resolve, DETACH_POLL_INTERVAL_MS))
+    }
+  }
+
+  async getResource(providerId: string, type: ResourceType = 'droplet'): Promise<InfrastructureResource | null> {
+    try {
+      switch (type) {
+        case 'droplet': {
+          const instance = (await this.client.get(`/linode/instances/${providerId}`)).data
+          return this.instanceResource(instance)
+        }
+        case 'volume': {
+          const volume = (await this.client.get(`/volumes/${providerId}`)).data
+          const resource = this.buildResource(
+            'volume', volume.label, String(volume.id), volume.status === 'active' ? 'active' : 'creating',
+            volume.created, volume.size * LinodeProvider.PRICING.volume / (24 * 30)
+          )
+          return {
+            ...resource,
+            specifications: { region: volume.region, size_gigabytes: volume.size, droplet_id: volume.linode_id ?? undefined, tags: this.parseTags(volume.tags) }
+          }
+        }
+        case 'load_balancer': {
+          const nodeBalancer = (await this.client.get(`/nodebalancers/${providerId}`)).data
+          const resource = this.buildResource(
+            'load_balancer', nodeBalancer.label, String(nodeBalancer.id), nodeBalancer.ipv4 ? 'active' : 'creating',
+            nodeBalancer.created, LinodeProvider.PRICING.load_balancer / (24 * 30)
+          )
+          return { ...resource, public_ip: nodeBalancer.ipv4 || undefined, specifications: { region: nodeBalancer.region, hostname: nodeBalancer.hostname } }
+        }
+        case 'firewall': {
+          const firewall = (await this.client.get(`/networking/firewalls/${providerId}`)).data
+          const resource = this.buildResource('firewall', firewall.label, String(firewall.id), firewall.status === 'enabled' ? 'active' : 'updating', firewall.created, 0)
+          return { ...resource, specifications: { tags: this.parseTags(firewall.tags) } }
+        }
+        case 'vpc': {
+          const vpc = (await this.client.get(`/vpcs/${providerId}`)).data
+          const resource = this.buildResource('vpc', vpc.label, String(vpc.id), 'active', vpc.created, 0)
+          return { ...resource, specifications: { region: vpc.region, ip_range: vpc.subnets?.[0]?.ipv4 } }
+        }
+        default:
+          return null
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private instanceResource(instance: any): InfrastructureResource {
+    const status: ResourceStatus = instance.status === 'running' || instance.status === 'offline' ? 'active'
+      : instance.status === 'deleting' ? 'deleting'
+        : instance.status === 'resizing' || instance.status === 'migrating' || instance.status === 'rebooting' ? 'updating'
+          : 'creating'
+    const resource = this.buildResource('droplet', instance.label, String(instance.id), status, instance.created, this.calculateInstanceCost(instance.type))
+    const ipv4: string[] = instance.ipv4 || []
+
+    return {
+      ...resource,
+      specifications: { region: instance.region, size: instance.type, image: instance.image, tags: this.parseTags(instance.tags) },
+      public_ip: ipv4.find(ip => !ip.startsWith('192.168.') && !ip.startsWith('10.')),
+      private_ip: ipv4.find(ip => ip.startsWith('192.168.'))
+    }
+  }
+
+  async listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]> {
+    const resources: InfrastructureResource[] = []
+
+    // Supported filters: tag_name (Linode tag, e.g. 'atlas_operation:<id>')
+    const tagged = (item: any) => !filters?.tag_name || (item.tags || []).includes(filters.tag_name)
+
+    try {
+      for (const instance of (await this.listAll('/linode/instances')).filter(tagged)) {
+        resources.push(this.instanceResource(instance))
+      }
+
+      for (const volume of (await this.listAll('/volumes')).filter(tagged)) {
+        resources.push(this.buildResource(
+          'volume', volume.label, String(volume.id), volume.status === 'active' ? 'active' : 'creating',
+          volume.created, volume.size * LinodeProvider.PRICING.volume / (24 * 30)
+        ))
+      }
+
+      for (const nodeBalancer of (await this.listAll('/nodebalancers')).filter(tagged)) {
+        resources.push(this.buildResource(
+          'load_balancer', nodeBalancer.label, String(nodeBalancer.id), 'active',
+          nodeBalancer.created, LinodeProvider.PRICING.load_balancer / (24 * 30)
+        ))
+      }
+    } catch (error) {
+      console.error('Error listing resources:', error)
+    }
+
+    return resources
+  }
+
+  async getResourceCost(providerId: string): Promise<ResourceCost> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    const uptimeHours = Math.max(1, (Date.now() - new Date(resource.created_at).getTime()) / (1000 * 60 * 60))
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      resource_name: resource.name,
+      hourly_cost: resource.hourly_cost,
+      daily_cost: resource.hourly_cost * 24,
+      monthly_cost: resource.monthly_cost,
+      total_cost: resource.hourly_cost * uptimeHours,
+      uptime_hours: uptimeHours
+    }
+  }
+
+  async estimateCost(spec: ResourceSpec): Promise<number> {
+    if (spec.size) {
+      return this.calculateInstanceCost(spec.size) * 24 * 30
+    }
+
+    if (spec.size_gigabytes) {
+      return spec.size_gigabytes * LinodeProvider.PRICING.volume
+    }
+
+    if (spec.forwarding_rules) {
+      return LinodeProvider.PRICING.load_balancer
+    }
+
+    return 5.00 // Default estimate
+  }
+
+  async checkResourceHealth(providerId: string): Promise<ResourceHealth> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      status: resource.status === 'active' ? 'healthy' : 'warning',
+      last_check: new Date().toISOString(),
+      uptime_percentage: resource.status === 'active' ? 100 : 0
+    }
+  }
+
+  private buildResource(
+    type: ResourceType,
+    name: string,
+    providerId: string,
+    status: ResourceStatus,
+    createdAt: string | undefined,
+    hourlyCost: number,
+    specifications: ResourceSpec = {}
+  ): InfrastructureResource {
+    return {
+      id: uuidv4(),
+      type,
+      name,
+      provider_id: providerId,
+      specifications,
+      status,
+      created_at: createdAt ? new Date(`${createdAt}${createdAt.endsWith('Z') ? '' : 'Z'}`).toISOString() : new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      dependencies: [],
+      dependents: [],
+      hourly_cost: hourlyCost,
+      monthly_cost: hourlyCost * 24 * 30
+    }
+  }
+
+  /**
+   * Linode tags are plain strings; specs use { key: value }, stored as "key:value"
+   */
+  private formatTags(tags: Record<string, string> = {}): string[] {
+    return Object.entries(tags).map(([key, value]) => value ? `${key}:${value}` : key)
+  }
+
+  private parseTags(tags: string[] = []): Record<string, string> {
+    return Object.fromEntries(tags.map(tag => {
+      const separator = tag.indexOf(':')
+      return separator === -1 ? [tag, ''] : [tag.slice(0, separator), tag.slice(separator + 1)]
+    }))
+  }
+
+  private calculateInstanceCost(type: string): number {
+    return LinodeProvider.PRICING.instance[type as keyof typeof LinodeProvider.PRICING.instance] || 0.0075
+  }
+}
@@ -0,0 +1,580 @@
+import axios, { AxiosInstance } from 'axios'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  CloudProviderInterface,
+  CloudProvider,
+  ResourceType,
+  ResourceStatus,
+  InfrastructureResource,
+  ResourceSpec,
+  ResourceCost,
+  ResourceHealth,
+  ProviderError,
+  ResourceNotFoundError,
+  UpdateResourceOptions,
+  AtlasError,
+  ProviderRateLimit
+} from '../types'
+import { attachRetryPolicy, retryOptionsFromEnv } from '../utils/RetryPolicy'
+import { paginationOptionsFromEnv } from '../utils/Paginator'
+
+/*
+ * Atlas resource types map onto Vultr as:
+ *   droplet -> instance   volume -> block storage   load_balancer -> load balancer
+ *   firewall -> firewall group   vpc -> VPC
+ */
+
+// Specification fields each resource type can change in place
+export const VULTR_UPDATABLE_FIELDS: Partial<Record<ResourceType, string[]>> = {
+  droplet: ['size', 'tags'],
+  volume: ['size_gigabytes'],
+  load_balancer: ['forwarding_rules', 'health_check', 'algorithm', 'droplet_ids']
+}
+
+// Ubuntu 22.04 x64, used when a spec names no image
+const DEFAULT_OS_ID = 1743
+
+/**
+ * Base URL of the Vultr v2 API (VULTR_API_URL overrides it)
+ */
+export function vultrApiUrl(env: NodeJS.ProcessEnv = process.env): string {
+  return (env.VULTR_API_URL || 'https://api.vultr.com/v2').replace(/\/+$/, '')
+}
+
+export class VultrProvider implements CloudProviderInterface {
+  name: CloudProvider = 'vultr'
+  private client: AxiosInstance
+  private retryPolicy: { getRateLimit(): ProviderRateLimit | null }
+  private pagination = paginationOptionsFromEnv()
+
+  regions = [
+    'ewr', 'ord', 'dfw', 'sea', 'lax', 'atl', 'mia', 'sjc', 'yto',
+    'ams', 'lhr', 'fra', 'cdg', 'waw', 'sto', 'mad', 'nrt', 'icn', 'sgp', 'syd', 'bom', 'blr'
+  ]
+
+  resource_types: ResourceType[] = ['droplet', 'volume', 'load_balancer', 'firewall', 'vpc']
+
+  // Pricing information (USD)
+  static readonly PRICING = {
+    // Cloud Compute plans (per hour)
+    instance: {
+      'vc2-1c-0.5gb': 0.004,
+      'vc2-1c-1gb': 0.007,
+      'vc2-1c-2gb': 0.015,
+      'vc2-2c-4gb': 0.030,
+      'vc2-4c-8gb': 0.060,
+      'vc2-6c-16gb': 0.119,
+      'vhf-1c-1gb': 0.009,
+      'vhf-1c-2gb': 0.018,
+      'vhf-2c-4gb': 0.036,
+      'vhf-4c-16gb': 0.095,
+    },
+    // Block storage (per GB per month)
+    volume: {
+      'high_perf': 0.10,
+      'storage_opt': 0.025,
+    },
+    // Load balancers (per month)
+    load_balancer: 10.00,
+  }
+
+  constructor(apiKey: string) {
+    this.client = axios.create({
+      baseURL: vultrApiUrl(),
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: 30000
+    })
+
+    // Retries transient failures; registered first so it sees raw axios errors
+    this.retryPolicy = attachRetryPolicy(this.client, retryOptionsFromEnv())
+
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        if (error instanceof ProviderError) {
+          throw error // Already converted by a retried request
+        }
+        if (error.response) {
+          const { status, data } = error.response
+          throw new ProviderError(
+            `Vultr API Error: ${data?.error || error.message}`,
+            'vultr',
+            status
+          )
+        }
+        throw new ProviderError(error.message, 'vultr')
+      }
+    )
+  }
+
+  /**
+   * Every item from a cursor-paginated list endpoint, e.g. listAll('/instances', 'instances')
+   */
+  private async listAll<T = any>(path: string, key: string): Promise<T[]> {
+    const items: T[] = []
+    const perPage = Math.min(Math.max(this.pagination.pageSize, 1), 500)
+    let cursor: string | undefined
+
+    for (let page = 1; ; page++) {
+      if (page > this.pagination.maxPages) {
+        console.warn(`[Vultr] Stopped listing ${key} from ${path} after ${this.pagination.maxPages} pages (${items.length} items)`)
+        break
+      }
+      const response = await this.client.get(path, { params: { per_page: perPage, cursor } })
+      items.push(...(response.data?.[key] || []))
+      cursor = response.data?.meta?.links?.next || undefined
+      if (!cursor) {
+        break
+      }
+    }
+
+    return items
+  }
+
+  getRateLimit(): ProviderRateLimit | null {
+    return this.retryPolicy.getRateLimit()
+  }
+
+  async authenticate(credentials: Record<string, string>): Promise<boolean> {
+    try {
+      const response = await this.client.get('/account')
+      return response.status === 200
+    } catch (error) {
+      return false
+    }
+  }
+
+  async createResource(type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource> {
+    switch (type) {
+      case 'droplet':
+        return await this.createInstance(spec)
+      case 'volume':
+        return await this.createBlock(spec)
+      case 'load_balancer':
+        return await this.createLoadBalancer(spec)
+      case 'firewall':
+        return await this.createFirewallGroup(spec)
+      case 'vpc':
+        return await this.createVPC(spec)
+      default:
+        throw new ProviderError(`Resource type ${type} not supported`, 'vultr')
+    }
+  }
+
+  private async createInstance(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const label = spec.name || `instance-${Date.now()}`
+    const plan = spec.size || 'vc2-1c-1gb'
+    const image = spec.image ? String(spec.image) : undefined
+
+    const response = await this.client.post('/instances', {
+      label,
+      hostname: label,
+      region: spec.region || 'ewr',
+      plan,
+      // Numeric images are OS IDs; anything else is a marketplace app image ID
+      os_id: !image ? DEFAULT_OS_ID : /^\d+$/.test(image) ? Number(image) : undefined,
+      image_id: image && !/^\d+$/.test(image) ? image : undefined,
+      sshkey_id: spec.ssh_keys || [],
+      attach_vpc: spec.vpc_uuid ? [spec.vpc_uuid] : undefined,
+      firewall_group_id: spec.firewall_group_id,
+      enable_ipv6: spec.ipv6 || false,
+      backups: spec.backups ? 'enabled' : 'disabled',
+      tags: this.formatTags(spec.tags)
+    })
+    const instance = response.data.instance
+
+    return this.buildResource('droplet', instance.label, instance.id, 'creating', instance.date_created, this.calculateInstanceCost(plan), spec)
+  }
+
+  private async createBlock(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const size = spec.size_gigabytes || 10
+    const blockType = spec.block_type || 'high_perf'
+    const response = await this.client.post('/blocks', {
+      label: spec.name || `volume-${Date.now()}`,
+      region: spec.region || 'ewr',
+      size_gb: size,
+      block_type: blockType
+    })
+    const block = response.data.block
+
+    if (spec.droplet_id) {
+      await this.client.post(`/blocks/${block.id}/attach`, { instance_id: String(spec.droplet_id), live: true })
+    }
+
+    const hourlyCost = size * this.volumePrice(blockType) / (24 * 30)
+    return this.buildResource('volume', block.label, block.id, 'creating', block.date_created, hourlyCost, spec)
+  }
+
+  private async createLoadBalancer(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const response = await this.client.post('/load-balancers', {
+      label: spec.name || `lb-${Date.now()}`,
+      region: spec.region || 'ewr',
+      vpc: spec.vpc_uuid,
+      instances: (spec.droplet_ids || []).map(String),
+      ...this.loadBalancerSettings(spec)
+    })
+    const loadBalancer = response.data.load_balancer
+
+    const hourlyCost = VultrProvider.PRICING.load_balancer / (24 * 30)
+    return this.buildResource('load_balancer', loadBalancer.label, loadBalancer.id, 'creating', loadBalancer.date_created, hourlyCost, spec)
+  }
+
+  /**
+   * Forwarding rules, health check and algorithm in Vultr's format
+   */
+  private loadBalancerSettings(spec: Partial<ResourceSpec>): Record<string, any> {
+    const settings: Record<string, any> = {}
+    if (spec.forwarding_rules || !spec.droplet_ids) {
+      const rules = spec.forwarding_rules || [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 80 }]
+      settings.forwarding_rules = rules.map(rule => ({
+        frontend_protocol: rule.entry_protocol,
+        frontend_port: rule.entry_port,
+        backend_protocol: rule.target_protocol,
+        backend_port: rule.target_port
+      }))
+    }
+    if (spec.health_check) {
+      settings.health_check = {
+        protocol: spec.health_check.protocol,
+        port: spec.health_check.port,
+        path: spec.health_check.path,
+        check_interval: spec.health_check.check_interval_seconds,
+        response_timeout: spec.health_check.response_timeout_seconds,
+        healthy_threshold: spec.health_check.healthy_threshold,
+        unhealthy_threshold: spec.health_check.unhealthy_threshold
+      }
+    }
+    if (spec.algorithm) {
+      settings.balancing_algorithm = spec.algorithm === 'least_connections' ? 'leastconn' : 'roundrobin'
+    }
+    return settings
+  }
+
+  private async createFirewallGroup(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = spec.name || `firewall-${Date.now()}`
+    const response = await this.client.post('/firewalls', { description: name })
+    const group = response.data.firewall_group
+
+    // Firewall groups only hold inbound rules; outbound traffic is always allowed
+    const inbound = spec.inbound_rules || ['22', '80', '443'].map(ports => ({ protocol: 'tcp', ports }))
+    for (const rule of inbound) {
+      for (const address of rule.sources?.addresses || ['0.0.0.0/0', '::/0']) {
+        const [subnet, size] = address.split('/')
+        await this.client.post(`/firewalls/${group.id}/rules`, {
+          ip_type: address.includes(':') ? 'v6' : 'v4',
+          protocol: rule.protocol,
+          subnet,
+          subnet_size: Number(size ?? (address.includes(':') ? 128 : 32)),
+          port: rule.protocol === 'icmp' || !rule.ports || rule.ports === 'all' ? undefined : rule.ports.replace('-', ':')
+        })
+      }
+    }
+
+    for (const instanceId of spec.droplet_ids || []) {
+      await this.client.patch(`/instances/${instanceId}`, { firewall_group_id: group.id })
+    }
+
+    return this.buildResource('firewall', name, group.id, 'active', group.date_created, 0, spec)
+  }
+
+  private async createVPC(spec: ResourceSpec): Promise<InfrastructureResource> {
+    const name = spec.name || `vpc-${Date.now()}`
+    const [subnet, mask] = (spec.ip_range || '10.0.0.0/24').split('/')
+    const response = await this.client.post('/vpcs', {
+      region: spec.region || 'ewr',
+      description: name,
+      v4_subnet: subnet,
+      v4_subnet_mask: Number(mask || 24)
+    })
+    const vpc = response.data.vpc
+
+    return this.buildResource('vpc', name, vpc.id, 'active', vpc.date_created, 0, spec)
+  }
+
+  async updateResource(
+    providerId: string,
+    spec: Partial<ResourceSpec>,
+    options: UpdateResourceOptions = {}
+  ): Promise<InfrastructureResource> {
+    const type = options.type || 'droplet'
+    const current = options.current || {}
+    const onStep = options.onStep || (() => {})
+
+    const allowed = VULTR_UPDATABLE_FIELDS[type] || []
+    const unsupported = Object.keys(spec).filter(field => !allowed.includes(field))
+    if (unsupported.length > 0) {
+      throw new AtlasError(
+        `Cannot change ${unsupported.join(', ')} on ${type} in place (supported: ${allowed.join(', ') || 'none'})`,
+        'UNSUPPORTED_UPDATE',
+        400
+      )
+    }
+
+    switch (type) {
+      case 'droplet':
+        if (spec.size) {
+          // Vultr only upgrades plans; the instance restarts on the new one
+          await onStep(`Change plan to ${spec.size}`)
+          await this.client.patch(`/instances/${providerId}`, { plan: spec.size })
+        }
+        if (spec.tags) {
+          await onStep('Update tags')
+          await this.client.patch(`/instances/${providerId}`, { tags: this.formatTags(spec.tags) })
+        }
+        break
+      case 'volume':
+        if (spec.size_gigabytes) {
+          await onStep(`Resize volume to ${spec.size_gigabytes} GB`)
+          await this.client.patch(`/blocks/${providerId}`, { size_gb: spec.size_gigabytes })
+        }
+        break
+      case 'load_balancer':
+        await onStep('Update load balancer')
+        await this.client.patch(`/load-balancers/${providerId}`, {
+          ...this.loadBalancerSettings({ ...spec, droplet_ids: spec.droplet_ids || current.droplet_ids }),
+          instances: spec.droplet_ids ? spec.droplet_ids.map(String) : undefined
+        })
+        break
+    }
+
+    const live = await this.getResource(providerId, type)
+    if (!live) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return { ...live, specifications: { ...current, ...spec } }
+  }
+
+  /**
+   * Delete a resource through its own endpoint. A resource that is already
+   * gone counts as deleted, so destroy can be retried safely.
+   */
+  async deleteResource(providerId: string, type: ResourceType = 'droplet'): Promise<void> {
+    try {
+      switch (type) {
+        case 'droplet':
+          await this.client.delete(`/instances/${providerId}`)
+          break
+        case 'volume': {
+          const block = (await this.client.get(`/blocks/${providerId}`)).data.block
+          if (block.attached_to_instance) {
+            await this.client.post(`/blocks/${providerId}/detach`, { live: true })
+          }
+          await this.client.delete(`/blocks/${providerId}`)
+          break
+        }
+        case 'load_balancer':
+          await this.client.delete(`/load-balancers/${providerId}`)
+          break
+        case 'firewall':
+          await this.client.delete(`/firewalls/${providerId}`)
+          break
+        case 'vpc':
+          await this.client.delete(`/vpcs/${providerId}`)
+          break
+        default:
+          throw new ProviderError(`Resource type ${type} not supported`, 'vultr')
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return
+      }
+      throw error
+    }
+  }
+
+  async getResource(providerId: string, type: ResourceType = 'droplet'): Promise<InfrastructureResource | null> {
+    try {
+      switch (type) {
+        case 'droplet': {
+          const instance = (await this.client.get(`/instances/${providerId}`)).data.instance
+          return this.instanceResource(instance)
+        }
+        case 'volume': {
+          const block = (await this.client.get(`/blocks/${providerId}`)).data.block
+          const resource = this.buildResource(
+            'volume', block.label, block.id, block.status === 'active' ? 'active' : 'creating',
+            block.date_created, block.size_gb * this.volumePrice(block.block_type) / (24 * 30)
+          )
+          return {
+            ...resource,
+            specifications: { region: block.region, size_gigabytes: block.size_gb, droplet_id: block.attached_to_instance || undefined }
+          }
+        }
+        case 'load_balancer': {
+          const loadBalancer = (await this.client.get(`/load-balancers/${providerId}`)).data.load_balancer
+          const resource = this.buildResource(
+            'load_balancer', loadBalancer.label, loadBalancer.id, loadBalancer.status === 'active' ? 'active' : 'creating',
+            loadBalancer.date_created, VultrProvider.PRICING.load_balancer / (24 * 30)
+          )
+          return { ...resource, public_ip: loadBalancer.ipv4 || undefined, specifications: { region: loadBalancer.region } }
+        }
+        case 'firewall': {
+          const group = (await this.client.get(`/firewalls/${providerId}`)).data.firewall_group
+          return this.buildResource('firewall', group.description, group.id, 'active', group.date_created, 0)
+        }
+        case 'vpc': {
+          const vpc = (await this.client.get(`/vpcs/${providerId}`)).data.vpc
+          const resource = this.buildResource('vpc', vpc.description, vpc.id, 'active', vpc.date_created, 0)
+          return { ...resource, specifications: { region: vpc.region, ip_range: `${vpc.v4_subnet}/${vpc.v4_subnet_mask}` } }
+        }
+        default:
+          return null
+      }
+    } catch (error) {
+      if (error instanceof ProviderError && error.providerStatus === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private instanceResource(instance: any): InfrastructureResource {
+    // A new instance reports main_ip 0.0.0.0 until its network is up
+    const hasAddress = instance.main_ip && instance.main_ip !== '0.0.0.0'
+    const status: ResourceStatus = instance.status === 'active' && hasAddress ? 'active'
+      : instance.status === 'suspended' ? 'error'
+        : instance.status === 'resizing' ? 'updating' : 'creating'
+    const resource = this.buildResource('droplet', instance.label, instance.id, status, instance.date_created, this.calculateInstanceCost(instance.plan))
+
+    return {
+      ...resource,
+      specifications: { region: instance.region, size: instance.plan, image: String(instance.os_id), tags: this.parseTags(instance.tags) },
+      public_ip: hasAddress ? instance.main_ip : undefined,
+      private_ip: instance.internal_ip || undefined
+    }
+  }
+
+  async listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]> {
+    const resources: InfrastructureResource[] = []
+
+    // Supported filters: tag_name (Vultr tag, e.g. 'atlas_operation:<id>')
+    try {
+      const instances = await this.listAll('/instances', 'instances')
+      for (const instance of instances.filter(instance => !filters?.tag_name || (instance.tags || []).includes(filters.tag_name))) {
+        resources.push(this.instanceResource(instance))
+      }
+
+      // Blocks and load balancers carry no tags, so a tag filter leaves them out
+      if (!filters?.tag_name) {
+        for (const block of await this.listAll('/blocks', 'blocks')) {
+          resources.push(this.buildResource(
+            'volume', block.label, block.id, block.status === 'active' ? 'active' : 'creating',
+            block.date_created, block.size_gb * this.volumePrice(block.block_type) / (24 * 30)
+          ))
+        }
+        for (const loadBalancer of await this.listAll('/load-balancers', 'load_balancers')) {
+          resources.push(this.buildResource(
+            'load_balancer', loadBalancer.label, loadBalancer.id, loadBalancer.status === 'active' ? 'active' : 'creating',
+            loadBalancer.date_created, VultrProvider.PRICING.load_balancer / (24 * 30)
+          ))
+        }
+      }
+    } catch (error) {
+      console.error('Error listing resources:', error)
+    }
+
+    return resources
+  }
+
+  async getResourceCost(providerId: string): Promise<ResourceCost> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    const uptimeHours = Math.max(1, (Date.now() - new Date(resource.created_at).getTime()) / (1000 * 60 * 60))
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      resource_name: resource.name,
+      hourly_cost: resource.hourly_cost,
+      daily_cost: resource.hourly_cost * 24,
+      monthly_cost: resource.monthly_cost,
+      total_cost: resource.hourly_cost * uptimeHours,
+      uptime_hours: uptimeHours
+    }
+  }
+
+  async estimateCost(spec: ResourceSpec): Promise<number> {
+    if (spec.size) {
+      return this.calculateInstanceCost(spec.size) * 24 * 30
+    }
+
+    if (spec.size_gigabytes) {
+      return spec.size_gigabytes * this.volumePrice(spec.block_type || 'high_perf')
+    }
+
+    if (spec.forwarding_rules) {
+      return VultrProvider.PRICING.load_balancer
+    }
+
+    return 5.00 // Default estimate
+  }
+
+  async checkResourceHealth(providerId: string): Promise<ResourceHealth> {
+    const resource = await this.getResource(providerId)
+    if (!resource) {
+      throw new ResourceNotFoundError(providerId)
+    }
+
+    return {
+      resource_id: resource.id,
+      resource_type: resource.type,
+      status: resource.status === 'active' ? 'healthy' : 'warning',
+      last_check: new Date().toISOString(),
+      uptime_percentage: resource.status === 'active' ? 100 : 0
+    }
+  }
+
+  private buildResource(
+    type: ResourceType,
+    name: string,
+    providerId: string,
+    status: ResourceStatus,
+    createdAt: string | undefined,
+    hourlyCost: number,
+    specifications: ResourceSpec = {}
+  ): InfrastructureResource {
+    return {
+      id: uuidv4(),
+      type,
+      name,
+      provider_id: providerId,
+      specifications,
+      status,
+      created_at: createdAt ? new Date(createdAt).toISOString() : new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      dependencies: [],
+      dependents: [],
+      hourly_cost: hourlyCost,
+      monthly_cost: hourlyCost * 24 * 30
+    }
+  }
+
+  /**
+   * Vultr tags are plain strings; specs use { key: value }, stored as "key:value"
+   */
+  private formatTags(tags: Record<string, string> = {}): string[] {
+    return Object.entries(tags).map(([key, value]) => value ? `${key}:${value}` : key)
+  }
+
+  private parseTags(tags: string[] = []): Record<string, string> {
+    return Object.fromEntries(tags.map(tag => {
+      const separator = tag.indexOf(':')
+      return separator === -1 ? [tag, ''] : [tag.slice(0, separator), tag.slice(separator + 1)]
+    }))
+  }
+
+  private calculateInstanceCost(plan: string): number {
+    return VultrProvider.PRICING.instance[plan as keyof typeof VultrProvider.PRICING.instance] || 0.007
+  }
+
+  private volumePrice(blockType: string): number {
+    return VultrProvider.PRICING.volume[blockType as keyof typeof VultrProvider.PRICING.volume] || 0.10
+  }
+}
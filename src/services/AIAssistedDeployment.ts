@@ -4,6 +4,8 @@
  */
 
 import axios from 'axios'
+import { fetchAllPages, paginationOptionsFromEnv } from '../utils/Paginator'
+import { digitalOceanApiUrl } from '../providers/digitalocean'
 import { spawn } from 'child_process'
 
 export interface DeploymentContext {
@@ -123,7 +125,7 @@ export class AIAssistedDeployment {
       try {
         const keyName = `riskguard-deploy-temp-${Date.now()}`
         const addKeyResponse = await axios.post(
-          'https://api.digitalocean.com/v2/account/keys',
+          `${digitalOceanApiUrl()}/account/keys`,
           {
             name: keyName,
             public_key: publicKey
@@ -141,18 +143,22 @@ export class AIAssistedDeployment {
           logs.push(`[AI Deploy] ✓ Added SSH key to DigitalOcean account: ${keyName}`)
           
           // Get the droplet ID for 157.245.3.76
-          const dropletsResponse = await axios.get(
-            'https://api.digitalocean.com/v2/droplets',
-            {
+          const droplets = await fetchAllPages(
+            (url, config) => axios.get(url, {
+              ...config,
               headers: {
                 'Authorization': `Bearer ${doToken}`
               },
               timeout: 10000
-            }
+            }),
+            `${digitalOceanApiUrl()}/droplets`,
+            'droplets',
+            {},
+            paginationOptionsFromEnv()
           )
           
           let targetDropletId = null
-          for (const droplet of dropletsResponse.data.droplets) {
+          for (const droplet of droplets) {
             for (const network of droplet.networks.v4) {
               if (network.ip_address === context.serverIP) {
                 targetDropletId = droplet.id
@@ -9,6 +9,8 @@ export interface ContextManagerCredentials {
   azure_client_id?: string
   azure_client_secret?: string
   azure_tenant_id?: string
+  linode_api_token?: string
+  vultr_api_key?: string
 }
 
 export class ContextService {
@@ -89,6 +91,20 @@ export class ContextService {
             headers
           )
           break
+
+        case 'linode':
+          credentials.linode_api_token = await this.getCredential(
+            'linode_api_token',
+            headers
+          )
+          break
+
+        case 'vultr':
+          credentials.vultr_api_key = await this.getCredential(
+            'vultr_api_key',
+            headers
+          )
+          break
       }
 
       return credentials
@@ -211,6 +227,78 @@ export class ContextService {
     }
   }
 
+  /**
+   * Store a Kubernetes cluster's kubeconfig in Context Manager, keyed by cluster ID
+   */
+  async storeKubeconfig(
+    workspaceId: string,
+    userId: string,
+    provider: string,
+    clusterId: string,
+    kubeconfig: string,
+    jwtToken?: string
+  ): Promise<boolean> {
+    try {
+      const headers: any = {}
+      if (jwtToken) {
+        headers.Authorization = `Bearer ${jwtToken}`
+      }
+
+      await this.client.post(
+        `/api/v1/context/secret/credential`,
+        {
+          key: `kubeconfig-${clusterId}`,
+          value: kubeconfig,
+          credential_type: 'kubeconfig',
+          provider,
+          expires_at: null
+        },
+        { headers }
+      )
+
+      return true
+    } catch (error) {
+      console.error(`Failed to store kubeconfig for cluster ${clusterId}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Store Docker config.json credentials for a container registry in Context Manager, keyed by registry name
+   */
+  async storeDockerCredentials(
+    workspaceId: string,
+    userId: string,
+    provider: string,
+    registryName: string,
+    dockerConfig: string,
+    jwtToken?: string
+  ): Promise<boolean> {
+    try {
+      const headers: any = {}
+      if (jwtToken) {
+        headers.Authorization = `Bearer ${jwtToken}`
+      }
+
+      await this.client.post(
+        `/api/v1/context/secret/credential`,
+        {
+          key: `docker-credentials-${registryName}`,
+          value: dockerConfig,
+          credential_type: 'docker_config',
+          provider,
+          expires_at: null
+        },
+        { headers }
+      )
+
+      return true
+    } catch (error) {
+      console.error(`Failed to store Docker credentials for registry ${registryName}:`, error)
+      return false
+    }
+  }
+
   /**
    * Get user preferences for infrastructure defaults
    */
@@ -402,6 +490,12 @@ export class ContextService {
         credentials.azure_client_secret = process.env.AZURE_CLIENT_SECRET
         credentials.azure_tenant_id = process.env.AZURE_TENANT_ID
         break
+      case 'linode':
+        credentials.linode_api_token = process.env.LINODE_API_TOKEN
+        break
+      case 'vultr':
+        credentials.vultr_api_key = process.env.VULTR_API_KEY
+        break
     }
 
     return credentials
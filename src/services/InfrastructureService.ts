@@ -1,80 +1,237 @@
 import { v4 as uuidv4 } from 'uuid'
 import { EventEmitter } from 'events'
+import { createHash } from 'crypto'
 import {
   Infrastructure,
   InfrastructureResource,
   DeploymentOperation,
+  ResourceSnapshot,
+  OperationRollback,
   CreateInfrastructureRequest,
   UpdateInfrastructureRequest,
+  ImportInfrastructureRequest,
+  ImportResourceRequest,
+  ResourceSpec,
   CloudProvider,
   CloudProviderInterface,
   InfrastructureStatus,
   ResourceStatus,
+  CreateResourceRequest,
+  InfrastructureRepository,
+  InfrastructurePlan,
+  PlannedResourceChange,
+  DriftReport,
   AtlasError,
-  ResourceNotFoundError
+  ResourceNotFoundError,
+  OperationCancelledError,
+  OperationInProgressError,
+  InfrastructureLock,
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyKeyMismatchError,
+  CredentialUnavailableError,
+  KubernetesNodePool,
+  RegistryRepository,
+  RegistryGarbageCollection,
+  ResourceType
 } from '../types'
 import { DigitalOceanProvider } from '../providers/digitalocean'
+import { getProviderRegistry, ProviderRegistry, ResolvedProvider, ENVIRONMENT_CREDENTIAL_ID } from './ProviderRegistry'
+import { getInfrastructureRepository } from '../storage'
+import { buildCreationLayers, buildDestructionLayers } from '../utils/DependencyGraph'
+import { ResourceReference, resolveReferences, withReferenceDependencies } from '../utils/ResourceReferences'
+import { diffSpecifications } from '../utils/SpecDiff'
+import { detectResourceDrift } from '../utils/DriftDetection'
+import {
+  ReadinessOptions,
+  readinessOptionsFromEnv,
+  waitForResourceReady,
+  waitForResourceDeleted
+} from '../utils/ReadinessPoller'
 import { ContextService } from './ContextService'
 import { AIAssistedDeployment } from './AIAssistedDeployment'
 
+// Provider tag linking created resources back to their deployment operation
+const OPERATION_TAG_KEY = 'atlas_operation'
+
+// Plans must be applied within this window
+const PLAN_TTL_MS = 24 * 60 * 60 * 1000
+
+// Retries with the same idempotency key are recognised for this long
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000
+
+// A lock whose operation record cannot be found is only treated as stale after this long,
+// since the holder may still be saving it
+const LOCK_HOLDER_GRACE_MS = 60 * 1000
+
 export class InfrastructureService extends EventEmitter {
-  private providers: Map<CloudProvider, CloudProviderInterface> = new Map()
+  // Provider clients per workspace and credential, plus environment defaults
+  private registry: ProviderRegistry
   private contextService: ContextService
   private aiDeployment!: AIAssistedDeployment
   
-  // In-memory storage for demo (in production, this would be a database)
-  private infrastructures: Map<string, Infrastructure> = new Map()
-  private deploymentOperations: Map<string, DeploymentOperation> = new Map()
+  // Durable storage for infrastructure records and operation history
+  private repository: InfrastructureRepository
+
+  // How long and how often to poll for resources to become ready
+  private readiness: ReadinessOptions
 
-  constructor() {
+  constructor(
+    repository: InfrastructureRepository = getInfrastructureRepository(),
+    registry: ProviderRegistry = getProviderRegistry(),
+    contextService: ContextService = new ContextService(process.env.CONTEXT_MANAGER_URL || 'http://localhost:3005'),
+    readiness: ReadinessOptions = readinessOptionsFromEnv()
+  ) {
     super()
     
-    // Initialize Context Manager integration
-    this.contextService = new ContextService(process.env.CONTEXT_MANAGER_URL || 'http://localhost:3005')
+    this.repository = repository
+    this.registry = registry
+    this.readiness = readiness
+
+    // Context Manager integration
+    this.contextService = contextService
     
     // Initialize AI-assisted deployment
     this.aiDeployment = new AIAssistedDeployment()
-    
-    // Initialize fallback providers for testing without user context
-    this.initializeFallbackProviders()
   }
 
-  private initializeFallbackProviders() {
-    // Keep environment variable support as fallback for development/testing
-    const doToken = process.env.DIGITALOCEAN_API_TOKEN
-    
-    if (doToken) {
-      console.log('Using DigitalOcean token from environment variable for fallback')
-      this.providers.set('digitalocean', new DigitalOceanProvider(doToken))
-    } else {
-      console.log('No environment DigitalOcean token - will use user credentials from Context Manager')
+  /**
+   * Load a user's stored credentials for a provider into the registry.
+   * Returns the credential ID, or null when the user has none.
+   */
+  private async loadUserCredentials(
+    workspaceId: string,
+    userId: string,
+    provider: CloudProvider,
+    jwtToken: string
+  ): Promise<string | null> {
+    if (process.env.ATLAS_PROVIDER_MODE === 'fake') {
+      return null // Every user shares the fake account
+    }
+
+    try {
+      const credentials = await this.contextService.getProviderCredentials(workspaceId, userId, provider, jwtToken)
+      const resolved = this.registry.register(workspaceId, provider, credentials)
+      if (!resolved) {
+        console.warn(`No ${provider} credentials found for user ${userId}`)
+        return null
+      }
+
+      console.log(`Using ${provider} credential ${resolved.credential_id} for user ${userId}`)
+      return resolved.credential_id
+    } catch (error) {
+      console.error('Failed to load user credentials:', error)
+      return null
     }
   }
 
   /**
-   * Initialize providers for a specific user using their stored credentials
+   * Provider for new work by a user: their own credentials (fetched with the JWT
+   * unless already cached), otherwise the environment default
    */
-  private async initializeUserProviders(workspaceId: string, userId: string, jwtToken: string): Promise<void> {
-    try {
-      // Get DigitalOcean credentials from Context Manager
-      const doCredentials = await this.contextService.getProviderCredentials(
-        workspaceId,
-        userId,
-        'digitalocean',
-        jwtToken
-      )
+  private async resolveProvider(
+    provider: CloudProvider,
+    workspaceId: string,
+    userId: string,
+    jwtToken?: string
+  ): Promise<ResolvedProvider> {
+    if (jwtToken && !this.registry.hasUserCredential(workspaceId, userId, provider)) {
+      const credentialId = await this.loadUserCredentials(workspaceId, userId, provider, jwtToken)
+      if (credentialId) {
+        this.registry.assign(workspaceId, userId, provider, credentialId)
+      }
+    }
 
-      if (doCredentials.digitalocean_api_token) {
-        console.log(`Initializing DigitalOcean provider for user ${userId} with stored credentials`)
-        // Create user-specific provider key
-        const userProviderKey = `digitalocean-${userId}` as CloudProvider
-        this.providers.set(userProviderKey, new DigitalOceanProvider(doCredentials.digitalocean_api_token))
-      } else {
-        console.warn(`No DigitalOcean credentials found for user ${userId}`)
+    const resolved = this.registry.forUser(workspaceId, userId, provider)
+    if (!resolved) {
+      throw new AtlasError(`Provider ${provider} not configured`, 'PROVIDER_NOT_CONFIGURED')
+    }
+    return resolved
+  }
+
+  /**
+   * Provider for an existing infrastructure, using the credential it was created with.
+   * A JWT reloads that credential once the registry has dropped it. If the owner's
+   * credential has since been rotated, the new one takes over only when it reaches
+   * the same provider account; a different account is never substituted.
+   */
+  private async providerFor(infrastructure: Infrastructure, jwtToken?: string): Promise<CloudProviderInterface> {
+    const cached = this.cachedProviderFor(infrastructure)
+    if (cached) {
+      return cached
+    }
+
+    const credentialId = infrastructure.credential_id
+    if (!credentialId) {
+      return (await this.resolveProvider(infrastructure.provider, infrastructure.workspace_id, infrastructure.user_id, jwtToken)).instance
+    }
+
+    if (jwtToken) {
+      const loaded = await this.loadUserCredentials(infrastructure.workspace_id, infrastructure.user_id, infrastructure.provider, jwtToken)
+      const instance = loaded && this.registry.get(infrastructure.workspace_id, infrastructure.provider, loaded)
+      if (instance && loaded === credentialId) {
+        return instance
+      }
+      if (instance && loaded && infrastructure.account_id &&
+          await this.accountIdFor(instance, loaded) === infrastructure.account_id) {
+        console.log(`Credential ${loaded} reaches account ${infrastructure.account_id}; rebinding infrastructure ${infrastructure.id} from ${credentialId}`)
+        infrastructure.credential_id = loaded
+        await this.repository.saveInfrastructure(infrastructure)
+        return instance
       }
+    }
+
+    throw new CredentialUnavailableError(infrastructure.id, credentialId)
+  }
+
+  /**
+   * Account behind a user credential, if the provider reports one. Not looked up
+   * for the environment credential, which is never rotated through Context Manager.
+   */
+  private async accountIdFor(provider: CloudProviderInterface, credentialId: string): Promise<string | undefined> {
+    if (credentialId === ENVIRONMENT_CREDENTIAL_ID || !provider.getAccountId) {
+      return undefined
+    }
+
+    try {
+      return await provider.getAccountId()
     } catch (error) {
-      console.error('Failed to initialize user providers:', error)
+      console.warn(`Could not look up the account for credential ${credentialId}:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Provider for an existing infrastructure if its credential is still cached
+   * (records from before credentials were tracked use the owner's current one)
+   */
+  private cachedProviderFor(infrastructure: Infrastructure): CloudProviderInterface | null {
+    if (!infrastructure.credential_id) {
+      return this.registry.forUser(infrastructure.workspace_id, infrastructure.user_id, infrastructure.provider)?.instance || null
     }
+    return this.registry.get(infrastructure.workspace_id, infrastructure.provider, infrastructure.credential_id)
+  }
+
+  /**
+   * A user's own provider client (never the environment default), or null if they have none
+   */
+  private async userProvider(
+    provider: CloudProvider,
+    workspaceId: string,
+    userId: string,
+    jwtToken: string
+  ): Promise<CloudProviderInterface | null> {
+    const resolved = await this.resolveProvider(provider, workspaceId, userId, jwtToken).catch(() => null)
+    return resolved && resolved.credential_id !== ENVIRONMENT_CREDENTIAL_ID ? resolved.instance : null
+  }
+
+  /**
+   * Drop cached provider clients for a workspace, e.g. after its credentials change
+   * in Context Manager. Infrastructure created with a dropped credential needs a JWT
+   * for that account before it can be changed again.
+   */
+  invalidateProviderCredentials(workspaceId: string, provider?: CloudProvider): number {
+    return this.registry.invalidate(workspaceId, provider)
   }
 
   /**
@@ -84,20 +241,18 @@ export class InfrastructureService extends EventEmitter {
     userId: string,
     workspaceId: string,
     request: CreateInfrastructureRequest,
-    jwtToken?: string
-  ): Promise<{ infrastructure: Infrastructure; operation: DeploymentOperation }> {
-    // Initialize user providers if JWT token is provided
-    if (jwtToken) {
-      await this.initializeUserProviders(workspaceId, userId, jwtToken)
-    }
+    jwtToken?: string,
+    idempotency?: IdempotencyOptions
+  ): Promise<{ infrastructure: Infrastructure; operation: DeploymentOperation; replayed?: boolean }> {
+    // The user's own credentials if they have any, otherwise the environment default
+    const { instance: provider, credential_id: credentialId } =
+      await this.resolveProvider(request.provider, workspaceId, userId, jwtToken)
 
-    // Check for user-specific provider first, then fallback to general provider
-    const userProviderKey = `${request.provider}-${userId}` as CloudProvider
-    let provider = this.providers.get(userProviderKey) || this.providers.get(request.provider)
-    
-    if (!provider) {
-      throw new AtlasError(`Provider ${request.provider} not configured`, 'PROVIDER_NOT_CONFIGURED')
-    }
+    // References to other resources imply a dependency on them
+    const resourceRequests = withReferenceDependencies(request.resources)
+
+    // Reject unknown dependencies and cycles before anything is created
+    buildCreationLayers(resourceRequests)
 
     // Create infrastructure object
     const infrastructure: Infrastructure = {
@@ -106,6 +261,8 @@ export class InfrastructureService extends EventEmitter {
       workspace_id: workspaceId,
       user_id: userId,
       provider: request.provider,
+      credential_id: credentialId,
+      account_id: await this.accountIdFor(provider, credentialId),
       region: request.region,
       resources: [],
       status: 'pending',
@@ -128,20 +285,59 @@ export class InfrastructureService extends EventEmitter {
       created_resources: [],
       updated_resources: [],
       deleted_resources: [],
-      cost_change: 0
+      cost_change: 0,
+      requested_resources: resourceRequests
+    }
+
+    // A retry with the same key gets the original infrastructure and operation once it has finished
+    let claimed: IdempotencyRecord | undefined
+    if (idempotency) {
+      const { record, existing } = await this.claimIdempotencyKey(workspaceId, 'create_infrastructure', idempotency, {
+        infrastructure_id: infrastructure.id,
+        operation_id: operation.id
+      })
+      if (existing) {
+        const original = await this.repository.getInfrastructure(existing.infrastructure_id!)
+        const originalOperation = await this.repository.getOperation(existing.operation_id!)
+        // A key left in progress by a restart counts as finished once its operation was closed out
+        const finished = existing.status === 'completed' || (originalOperation &&
+          originalOperation.status !== 'pending' && originalOperation.status !== 'in_progress')
+        if (!original || !originalOperation || !finished) {
+          throw new AtlasError(
+            `A request with idempotency key ${idempotency.key} is still running`,
+            'IDEMPOTENCY_KEY_IN_PROGRESS',
+            409
+          )
+        }
+        console.log(`Idempotency key ${idempotency.key} replayed - returning infrastructure ${original.id}`)
+        return { infrastructure: original, operation: originalOperation, replayed: true }
+      }
+      claimed = record
     }
 
-    // Store infrastructure and operation
-    this.infrastructures.set(infrastructure.id, infrastructure)
-    this.deploymentOperations.set(operation.id, operation)
+    try {
+      await this.checkRecordDomains(resourceRequests, provider)
+      await this.acquireLock(infrastructure, operation)
+
+      // Store infrastructure and operation
+      await this.persist(infrastructure, operation)
+    } catch (error) {
+      // Nothing was stored, so release the key for a retry
+      if (claimed) {
+        await this.repository.deleteIdempotencyRecord(claimed.id)
+      }
+      throw error
+    }
 
     // Deploy infrastructure synchronously and wait for completion
     try {
-      await this.deployInfrastructure(infrastructure, operation, request.resources)
+      await this.deployInfrastructure(infrastructure, operation, resourceRequests, provider, jwtToken)
       
       // Only log success if the deployment actually completed successfully
       if (operation.status === 'completed') {
         console.log(`Infrastructure deployment completed successfully: ${infrastructure.id}`)
+      } else if (operation.status === 'cancelled') {
+        console.log(`Infrastructure deployment cancelled: ${infrastructure.id}`)
       } else {
         console.error(`Infrastructure deployment failed: ${infrastructure.id}, status: ${operation.status}`)
         throw new Error(`Deployment failed with status: ${operation.status}`)
@@ -152,6 +348,7 @@ export class InfrastructureService extends EventEmitter {
       operation.error_message = error instanceof Error ? error.message : 'Unknown error'
       operation.completed_at = new Date().toISOString()
       infrastructure.status = 'error'
+      await this.persist(infrastructure, operation)
       
       // Emit error event for monitoring
       this.emit('deployment_failed', {
@@ -161,6 +358,11 @@ export class InfrastructureService extends EventEmitter {
       })
       
       throw error // Re-throw so Victor gets the error
+    } finally {
+      // Retries now replay this infrastructure and operation, whatever the outcome
+      if (claimed) {
+        await this.repository.saveIdempotencyRecord({ ...claimed, status: 'completed' })
+      }
     }
 
     return { infrastructure, operation }
@@ -172,39 +374,108 @@ export class InfrastructureService extends EventEmitter {
   private async deployInfrastructure(
     infrastructure: Infrastructure,
     operation: DeploymentOperation,
-    resourceRequests: any[]
+    resourceRequests: CreateResourceRequest[],
+    provider: CloudProviderInterface,
+    jwtToken?: string
   ) {
     operation.status = 'in_progress'
     operation.current_step = 'Starting deployment'
     infrastructure.status = 'provisioning'
+    await this.persist(infrastructure, operation)
 
-    const provider = this.providers.get(infrastructure.provider)!
+    // Resources already in the record (e.g. when resuming) satisfy dependencies
+    const resourcesByName = new Map(
+      infrastructure.resources
+        .filter(r => r.status !== 'deleted')
+        .map(r => [r.name, r] as [string, InfrastructureResource])
+    )
 
     try {
-      for (let i = 0; i < resourceRequests.length; i++) {
-        const resourceRequest = resourceRequests[i]
-        operation.current_step = `Creating ${resourceRequest.type}: ${resourceRequest.name}`
+      // Dependents of resources still starting up (after a restart) must wait for them
+      const starting = Array.from(resourcesByName.values()).filter(r => r.status === 'creating' && r.provider_id)
+      if (starting.length > 0) {
+        operation.current_step = `Waiting for ${starting.map(r => `${r.type}: ${r.name}`).join(', ')}`
+        await Promise.all(starting.map(r => waitForResourceReady(provider, r, this.readiness)))
+        await this.persist(infrastructure, operation)
+      }
 
-        // Create resource through provider
-        const resource = await provider.createResource(
-          resourceRequest.type,
-          {
-            ...resourceRequest.specifications,
-            name: resourceRequest.name,
-            region: infrastructure.region
+      const layers = buildCreationLayers(resourceRequests, new Set(resourcesByName.keys()))
+
+      for (const layer of layers) {
+        await this.throwIfCancelled(operation)
+        operation.current_step = `Creating ${layer.map(r => `${r.type}: ${r.name}`).join(', ')}`
+
+        // Independent resources in a layer are created in parallel
+        const results = await Promise.allSettled(layer.map(async resourceRequest => {
+          // Fill in references to resources created in earlier layers
+          const specifications = await resolveReferences(
+            resourceRequest.specifications || {},
+            async reference => this.resolveReference(reference, resourcesByName)
+          )
+
+          // DNS records without their own TTL use the infrastructure's DNS settings
+          const dnsTtl = infrastructure.configuration?.networking?.dns_settings?.ttl
+          if (resourceRequest.type === 'dns_record' && specifications.ttl === undefined && dnsTtl) {
+            specifications.ttl = dnsTtl
           }
-        )
 
-        // Add to infrastructure
-        infrastructure.resources.push(resource)
-        operation.created_resources.push(resource.id)
-        operation.completed_steps++
+          // Create resource through provider, tagged with the operation so an
+          // interrupted deployment can find what was already created
+          const resource = await provider.createResource(
+            resourceRequest.type,
+            {
+              ...specifications,
+              name: resourceRequest.name,
+              region: infrastructure.region,
+              tags: {
+                ...(resourceRequest.specifications?.tags || {}),
+                [OPERATION_TAG_KEY]: operation.id
+              }
+            },
+            { infrastructure_id: infrastructure.id }
+          )
+
+          // Link to the resources it depends on
+          for (const dependencyName of resourceRequest.depends_on || []) {
+            const dependency = resourcesByName.get(dependencyName)!
+            resource.dependencies.push(dependency.id)
+            dependency.dependents.push(resource.id)
+          }
+
+          // Add to infrastructure
+          resourcesByName.set(resourceRequest.name, resource)
+          infrastructure.resources.push(resource)
+          operation.created_resources.push(resource.id)
+
+          // Update cost estimate
+          infrastructure.estimated_monthly_cost += resource.monthly_cost
+          await this.persist(infrastructure, operation)
+
+          // Dependents are only created once the provider reports this resource ready
+          try {
+            await waitForResourceReady(provider, resource, this.readiness)
+          } catch (error) {
+            resource.status = 'error'
+            throw error
+          }
+
+          if (resource.type === 'kubernetes') {
+            await this.storeKubeconfig(infrastructure, resource, provider, jwtToken)
+          }
+          if (resource.type === 'container_registry') {
+            await this.storeDockerCredentials(infrastructure, resource, provider, jwtToken)
+          }
 
-        // Update cost estimate
-        infrastructure.estimated_monthly_cost += resource.monthly_cost
+          operation.completed_steps++
+          return resource
+        }))
 
-        // Add small delay to simulate real deployment time
-        await new Promise(resolve => setTimeout(resolve, 1000))
+        await this.persist(infrastructure, operation)
+
+        const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+        if (failure) {
+          throw failure.reason
+        }
       }
 
       // Mark as successful
@@ -215,268 +486,1559 @@ export class InfrastructureService extends EventEmitter {
       infrastructure.updated_at = new Date().toISOString()
       
       operation.cost_change = infrastructure.estimated_monthly_cost
+      await this.persist(infrastructure, operation)
+
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        await this.finishCancelledOperation(infrastructure, operation, provider)
+        return
+      }
+
+      operation.status = 'failed'
+      operation.error_message = error instanceof Error ? error.message : 'Unknown deployment error'
+      operation.completed_at = new Date().toISOString()
+      infrastructure.status = 'error'
+      infrastructure.updated_at = new Date().toISOString()
+
+      // Attempt cleanup of any created resources
+      await this.cleanupFailedDeployment(infrastructure, operation, provider)
+      await this.persist(infrastructure, operation)
+    }
+  }
+
+  /**
+   * Look up the value of a `${resources.<name>.<attribute>}` reference
+   */
+  private resolveReference(
+    reference: ResourceReference,
+    resourcesByName: Map<string, InfrastructureResource>
+  ): any {
+    const resource = resourcesByName.get(reference.name)
+    if (!resource) {
+      throw new AtlasError(`Referenced resource not created: ${reference.name}`, 'UNRESOLVED_REFERENCE', 400)
+    }
+
+    // Dependencies are ready (addresses assigned) before dependents are created
+    const value = resource[reference.attribute]
+    if (value === undefined || value === null || value === '') {
+      throw new AtlasError(
+        `Reference ${reference.name}.${reference.attribute} has no value`,
+        'UNRESOLVED_REFERENCE',
+        400
+      )
+    }
+    return value
+  }
+
+  /**
+   * Get infrastructure by ID
+   */
+  async getInfrastructure(id: string): Promise<Infrastructure | null> {
+    return this.repository.getInfrastructure(id)
+  }
+
+  /**
+   * List infrastructure for workspace
+   */
+  async listInfrastructure(workspaceId: string): Promise<Infrastructure[]> {
+    return this.repository.listInfrastructureByWorkspace(workspaceId)
+  }
+
+  /**
+   * Update infrastructure
+   */
+  async updateInfrastructure(
+    id: string,
+    request: UpdateInfrastructureRequest,
+    jwtToken?: string
+  ): Promise<{ infrastructure: Infrastructure; operation: DeploymentOperation }> {
+    const infrastructure = await this.repository.getInfrastructure(id)
+    if (!infrastructure) {
+      throw new ResourceNotFoundError(id)
+    }
+
+    const provider = await this.providerFor(infrastructure, jwtToken)
+
+    // Create update operation
+    const operation: DeploymentOperation = {
+      id: uuidv4(),
+      infrastructure_id: infrastructure.id,
+      operation_type: 'update',
+      status: 'pending',
+      started_at: new Date().toISOString(),
+      total_steps: (request.resources || []).length + 1,
+      completed_steps: 0,
+      created_resources: [],
+      updated_resources: [],
+      deleted_resources: [],
+      cost_change: 0
+    }
+
+    await this.acquireLock(infrastructure, operation)
+    await this.persist(infrastructure, operation)
+
+    // Start update asynchronously
+    this.performUpdate(infrastructure, operation, request, provider)
+      .catch(error => {
+        console.error('Update failed:', error)
+        operation.status = 'failed'
+        operation.error_message = error.message
+        operation.completed_at = new Date().toISOString()
+        return this.persist(infrastructure, operation)
+      })
+
+    return { infrastructure, operation }
+  }
+
+  private async performUpdate(
+    infrastructure: Infrastructure,
+    operation: DeploymentOperation,
+    request: UpdateInfrastructureRequest,
+    provider: CloudProviderInterface
+  ) {
+    operation.status = 'in_progress'
+    infrastructure.status = 'updating'
+    await this.persist(infrastructure, operation)
+
+    try {
+      // Update basic properties
+      if (request.name) infrastructure.name = request.name
+      if (request.tags) infrastructure.tags = { ...infrastructure.tags, ...request.tags }
+      if (request.configuration) {
+        infrastructure.configuration = { ...infrastructure.configuration, ...request.configuration }
+      }
+
+      operation.current_step = 'Updating infrastructure properties'
+      operation.completed_steps++
+
+      // Update resources if specified
+      if (request.resources) {
+        for (const resourceUpdate of request.resources) {
+          await this.throwIfCancelled(operation)
+          const resource = infrastructure.resources.find(r => r.id === resourceUpdate.id)
+          if (resource) {
+            operation.current_step = `Updating ${resource.type}: ${resource.name}`
+            
+            // Update specifications - only fields that actually change go to the provider
+            const specifications = this.mergeSpecifications(resource.specifications, resourceUpdate.specifications)
+            const changed = Object.fromEntries(
+              Object.entries(specifications)
+                .filter(([field, value]) => diffSpecifications(resource.specifications[field], value).length > 0)
+            )
+
+            if (Object.keys(changed).length > 0) {
+              const snapshot = this.snapshotResource(operation, resource, Object.keys(changed))
+              if (resource.provider_id) {
+                await this.applyResourceUpdate(infrastructure, operation, resource, changed, provider, {
+                  onApplied: () => {
+                    snapshot.applied = true
+                    resource.specifications = specifications
+                  }
+                })
+              }
+              resource.specifications = specifications
+              resource.updated_at = new Date().toISOString()
+              operation.updated_resources.push(resource.id)
+            }
+            
+            operation.completed_steps++
+            await this.persist(infrastructure, operation)
+          }
+        }
+      }
+
+      operation.status = 'completed'
+      operation.completed_at = new Date().toISOString()
+      infrastructure.status = 'active'
+      infrastructure.updated_at = new Date().toISOString()
+      await this.persist(infrastructure, operation)
+
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        await this.finishCancelledOperation(infrastructure, operation, provider)
+        return
+      }
+
+      operation.status = 'failed'
+      operation.error_message = error instanceof Error ? error.message : 'Unknown update error'
+
+      if (request.rollback_on_failure !== false && operation.snapshots?.length) {
+        const rolledBack = await this.rollbackUpdate(infrastructure, operation, provider, operation.error_message)
+        infrastructure.status = rolledBack ? 'active' : 'error'
+      } else {
+        infrastructure.status = 'error'
+      }
+
+      operation.current_step = undefined
+      operation.completed_at = new Date().toISOString()
+      infrastructure.updated_at = new Date().toISOString()
+      await this.persist(infrastructure, operation)
+    }
+  }
+
+  private snapshotResource(
+    operation: DeploymentOperation,
+    resource: InfrastructureResource,
+    changedFields: string[]
+  ): ResourceSnapshot {
+    const snapshot: ResourceSnapshot = {
+      resource_id: resource.id,
+      specifications: JSON.parse(JSON.stringify(resource.specifications)),
+      status: resource.status,
+      hourly_cost: resource.hourly_cost,
+      monthly_cost: resource.monthly_cost,
+      changed_fields: changedFields,
+      applied: false
+    }
+    operation.snapshots = [...(operation.snapshots || []), snapshot]
+    return snapshot
+  }
+
+  /**
+   * Undo an update from its snapshots: revert changes the provider accepted, newest
+   * first, then restore the stored specifications. Changes the provider cannot undo
+   * are kept and listed as skipped. Returns false if any revert failed.
+   */
+  private async rollbackUpdate(
+    infrastructure: Infrastructure,
+    operation: DeploymentOperation,
+    provider: CloudProviderInterface,
+    reason: string
+  ): Promise<boolean> {
+    const rollback: OperationRollback = operation.rollback = {
+      status: 'in_progress',
+      reason,
+      started_at: new Date().toISOString(),
+      reverted_resources: [],
+      failed_resources: [],
+      skipped_resources: []
+    }
+    await this.persist(infrastructure, operation)
+
+    for (const snapshot of [...(operation.snapshots || [])].reverse()) {
+      const resource = infrastructure.resources.find(r => r.id === snapshot.resource_id)
+      if (!resource) continue
+
+      if (snapshot.applied && resource.provider_id) {
+        const irreversible = provider.irreversibleChange?.(resource.type, snapshot.specifications, resource.specifications)
+        if (irreversible) {
+          rollback.skipped_resources.push({ resource_id: resource.id, reason: irreversible })
+          continue
+        }
+
+        const revert = Object.fromEntries(
+          snapshot.changed_fields
+            .filter(field => snapshot.specifications[field] !== undefined)
+            .map(field => [field, snapshot.specifications[field]])
+        )
+
+        operation.current_step = `Rolling back ${resource.type}: ${resource.name}`
+        try {
+          await this.applyResourceUpdate(infrastructure, operation, resource, revert, provider, { stepPrefix: 'Rollback: ' })
+        } catch (error) {
+          console.error(`Failed to roll back ${resource.type} ${resource.name}:`, error)
+          rollback.failed_resources.push(resource.id)
+          continue
+        }
+      } else if (resource.provider_id) {
+        // The failed step may have stopped part way; take the provider's word for its state
+        const live = await provider.getResource(resource.provider_id, resource.type).catch(() => null)
+        resource.status = live?.status || 'error'
+      } else {
+        resource.status = snapshot.status
+      }
+
+      resource.specifications = snapshot.specifications
+      resource.updated_at = new Date().toISOString()
+      rollback.reverted_resources.push(resource.id)
+      await this.persist(infrastructure, operation)
+    }
+
+    rollback.status = rollback.failed_resources.length === 0 ? 'completed' : 'partial'
+    rollback.completed_at = new Date().toISOString()
+    return rollback.status === 'completed'
+  }
+
+  /**
+   * Push changed fields to the provider, recording each provider action as an operation step
+   */
+  private async applyResourceUpdate(
+    infrastructure: Infrastructure,
+    operation: DeploymentOperation,
+    resource: InfrastructureResource,
+    changed: Partial<ResourceSpec>,
+    provider: CloudProviderInterface,
+    options: { stepPrefix?: string; onApplied?: () => void } = {}
+  ) {
+    const stepPrefix = options.stepPrefix || ''
+    const steps = operation.steps = operation.steps || []
+    const finishStep = (status: 'completed' | 'failed', errorMessage?: string) => {
+      const step = steps[steps.length - 1]
+      if (step && step.status === 'in_progress') {
+        step.status = status
+        step.completed_at = new Date().toISOString()
+        step.error_message = errorMessage
+      }
+    }
+
+    resource.status = 'updating'
+    await this.persist(infrastructure, operation)
+
+    try {
+      const updated = await provider.updateResource(resource.provider_id!, changed, {
+        type: resource.type,
+        current: resource.specifications,
+        onStep: async description => {
+          finishStep('completed')
+          description = stepPrefix + description
+          steps.push({ description, resource_id: resource.id, status: 'in_progress', started_at: new Date().toISOString() })
+          operation.current_step = description
+          await this.persist(infrastructure, operation)
+        }
+      })
+      finishStep('completed')
+      options.onApplied?.()
+
+      // Costs follow what the provider now reports
+      const costChange = updated.monthly_cost - resource.monthly_cost
+      resource.hourly_cost = updated.hourly_cost
+      resource.monthly_cost = updated.monthly_cost
+      resource.status = updated.status
+      infrastructure.estimated_monthly_cost += costChange
+      operation.cost_change += costChange
+
+      // e.g. a database resize continues after the API call returns
+      if (resource.status !== 'active') {
+        operation.current_step = `Waiting for ${resource.type}: ${resource.name}`
+        await this.persist(infrastructure, operation)
+        await waitForResourceReady(provider, resource, this.readiness)
+      }
+    } catch (error) {
+      finishStep('failed', error instanceof Error ? error.message : 'Unknown update error')
+      resource.status = 'error'
+      throw error
+    }
+  }
+
+  /**
+   * Fetch a cluster's kubeconfig from the provider and keep it in Context Manager.
+   * A failure is logged rather than failing the deployment - getKubeconfig retries it.
+   */
+  private async storeKubeconfig(
+    infrastructure: Infrastructure,
+    resource: InfrastructureResource,
+    provider: CloudProviderInterface,
+    jwtToken?: string
+  ): Promise<boolean> {
+    if (!provider.getKubeconfig || !resource.provider_id) {
+      return false
+    }
+
+    try {
+      const kubeconfig = await provider.getKubeconfig(resource.provider_id)
+      return await this.contextService.storeKubeconfig(
+        infrastructure.workspace_id,
+        infrastructure.user_id,
+        infrastructure.provider,
+        resource.provider_id,
+        kubeconfig,
+        jwtToken
+      )
+    } catch (error) {
+      console.warn(`Could not store kubeconfig for cluster ${resource.name}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Current kubeconfig of a Kubernetes resource, also stored in Context Manager
+   */
+  async getKubeconfig(
+    workspaceId: string,
+    infrastructureId: string,
+    resourceId: string,
+    jwtToken?: string
+  ): Promise<{ kubeconfig: string; stored: boolean }> {
+    const { infrastructure, resource } = await this.findResourceOfType(
+      infrastructureId, resourceId, 'kubernetes', 'a Kubernetes cluster', workspaceId
+    )
+    const provider = await this.providerFor(infrastructure, jwtToken)
+    if (!provider.getKubeconfig) {
+      throw new AtlasError(`Provider ${infrastructure.provider} does not issue kubeconfigs`, 'UNSUPPORTED_OPERATION', 400)
+    }
+
+    const kubeconfig = await provider.getKubeconfig(resource.provider_id!)
+    const stored = await this.contextService.storeKubeconfig(
+      infrastructure.workspace_id,
+      infrastructure.user_id,
+      infrastructure.provider,
+      resource.provider_id!,
+      kubeconfig,
+      jwtToken
+    )
+    return { kubeconfig, stored }
+  }
+
+  /**
+   * Change one node pool of a Kubernetes resource (or add it, given a size and
+   * count) through a regular update operation
+   */
+  async scaleNodePool(
+    workspaceId: string,
+    infrastructureId: string,
+    resourceId: string,
+    pool: Partial<KubernetesNodePool> & { name: string },
+    jwtToken?: string
+  ): Promise<{ infrastructure: Infrastructure; operation: DeploymentOperation }> {
+    const { infrastructure, resource } = await this.findResourceOfType(
+      infrastructureId, resourceId, 'kubernetes', 'a Kubernetes cluster', workspaceId
+    )
+
+    // Clusters created with the default pool have no node_pools in their spec yet
+    let pools: KubernetesNodePool[] | undefined = resource.specifications.node_pools
+    if (!pools) {
+      const provider = await this.providerFor(infrastructure, jwtToken)
+      const live = await provider.getResource(resource.provider_id!, 'kubernetes')
+      pools = live?.specifications.node_pools || []
+    }
+
+    const existing = pools.find(candidate => candidate.name === pool.name)
+    if (!existing && (!pool.size || !pool.count)) {
+      throw new AtlasError(
+        `Node pool ${pool.name} does not exist; give a size and count to add it`,
+        'INVALID_NODE_POOL',
+        400
+      )
+    }
+
+    const nodePools = existing
+      ? pools.map(candidate => candidate.name === pool.name ? { ...candidate, ...pool } : candidate)
+      : [...pools, pool as KubernetesNodePool]
+
+    return this.updateInfrastructure(infrastructureId, {
+      resources: [{ id: resource.id, specifications: { node_pools: nodePools } }]
+    }, jwtToken)
+  }
+
+  /**
+   * Fetch read-write Docker credentials for a registry and keep them in Context Manager.
+   * A failure is logged rather than failing the deployment - getDockerCredentials retries it.
+   */
+  private async storeDockerCredentials(
+    infrastructure: Infrastructure,
+    resource: InfrastructureResource,
+    provider: CloudProviderInterface,
+    jwtToken?: string
+  ): Promise<boolean> {
+    if (!provider.getDockerCredentials || !resource.provider_id) {
+      return false
+    }
+
+    try {
+      const dockerConfig = await provider.getDockerCredentials(resource.provider_id, { readWrite: true })
+      return await this.contextService.storeDockerCredentials(
+        infrastructure.workspace_id,
+        infrastructure.user_id,
+        infrastructure.provider,
+        resource.provider_id,
+        dockerConfig,
+        jwtToken
+      )
+    } catch (error) {
+      console.warn(`Could not store Docker credentials for registry ${resource.name}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Read-write Docker credentials for a container registry resource, also stored in Context Manager
+   */
+  async getDockerCredentials(
+    workspaceId: string,
+    infrastructureId: string,
+    resourceId: string,
+    jwtToken?: string
+  ): Promise<{ docker_config: string; stored: boolean }> {
+    const { infrastructure, resource } = await this.findResourceOfType(
+      infrastructureId, resourceId, 'container_registry', 'a container registry', workspaceId
+    )
+    const provider = await this.providerFor(infrastructure, jwtToken)
+    if (!provider.getDockerCredentials) {
+      throw new AtlasError(`Provider ${infrastructure.provider} does not issue registry credentials`, 'UNSUPPORTED_OPERATION', 400)
+    }
+
+    const dockerConfig = await provider.getDockerCredentials(resource.provider_id!, { readWrite: true })
+    const stored = await this.contextService.storeDockerCredentials(
+      infrastructure.workspace_id,
+      infrastructure.user_id,
+      infrastructure.provider,
+      resource.provider_id!,
+      dockerConfig,
+      jwtToken
+    )
+    return { docker_config: dockerConfig, stored }
+  }
+
+  async listRegistryRepositories(
+    workspaceId: string,
+    infrastructureId: string,
+    resourceId: string,
+    jwtToken?: string
+  ): Promise<RegistryRepository[]> {
+    const { infrastructure, resource } = await this.findResourceOfType(
+      infrastructureId, resourceId, 'container_registry', 'a container registry', workspaceId
+    )
+    const provider = await this.providerFor(infrastructure, jwtToken)
+    if (!provider.listRegistryRepositories) {
+      throw new AtlasError(`Provider ${infrastructure.provider} does not list registry repositories`, 'UNSUPPORTED_OPERATION', 400)
+    }
+    return provider.listRegistryRepositories(resource.provider_id!)
+  }
+
+  /**
+   * Start garbage collection on a container registry resource
+   */
+  async startRegistryGarbageCollection(
+    workspaceId: string,
+    infrastructureId: string,
+    resourceId: string,
+    jwtToken?: string
+  ): Promise<RegistryGarbageCollection> {
+    const { infrastructure, resource } = await this.findResourceOfType(
+      infrastructureId, resourceId, 'container_registry', 'a container registry', workspaceId
+    )
+    const provider = await this.providerFor(infrastructure, jwtToken)
+    if (!provider.startRegistryGarbageCollection) {
+      throw new AtlasError(`Provider ${infrastructure.provider} does not garbage-collect registries`, 'UNSUPPORTED_OPERATION', 400)
+    }
+    return provider.startRegistryGarbageCollection(resource.provider_id!)
+  }
+
+  /**
+   * Records given by fqdn go into a domain the account already holds, so check it
+   * exists before anything is created rather than failing (and rolling back) mid-deployment
+   */
+  private async checkRecordDomains(requests: CreateResourceRequest[], provider: CloudProviderInterface) {
+    if (!provider.findDomain) {
+      return
+    }
+
+    // Domains created in the same request do not exist yet
+    const created = requests
+      .filter(request => request.type === 'domain')
+      .map(request => (request.specifications.domain || request.name).toLowerCase())
+
+    for (const request of requests) {
+      const fqdn: string | undefined = request.specifications.fqdn
+      if (request.type !== 'dns_record' || request.specifications.domain || !fqdn || fqdn.includes('${')) continue
+
+      const name = fqdn.toLowerCase().replace(/\.$/, '')
+      if (created.some(domain => name === domain || name.endsWith(`.${domain}`))) continue
+
+      if (!(await provider.findDomain(name))) {
+        throw new AtlasError(
+          `No domain in the ${provider.name} account contains ${name} - add the domain first`,
+          'DOMAIN_NOT_FOUND',
+          404
+        )
+      }
+    }
+  }
+
+  /**
+   * A resource of one type, by ID or name. Infrastructure outside the caller's
+   * workspace is reported as not found.
+   */
+  private async findResourceOfType(
+    infrastructureId: string,
+    resourceId: string,
+    type: ResourceType,
+    description: string,
+    workspaceId: string
+  ) {
+    const infrastructure = await this.repository.getInfrastructure(infrastructureId)
+    if (!infrastructure || infrastructure.workspace_id !== workspaceId) {
+      throw new ResourceNotFoundError(infrastructureId)
+    }
+
+    const resource = infrastructure.resources.find(r => r.id === resourceId || r.name === resourceId)
+    if (!resource || resource.status === 'deleted' || !resource.provider_id) {
+      throw new ResourceNotFoundError(resourceId)
+    }
+    if (resource.type !== type) {
+      throw new AtlasError(`Resource ${resource.name} is a ${resource.type}, not ${description}`, 'INVALID_RESOURCE_TYPE', 400)
+    }
+    return { infrastructure, resource }
+  }
+
+  /**
+   * Merge a specification update, keeping the operation tag so provider tags stay traceable
+   */
+  private mergeSpecifications(current: ResourceSpec, update: Partial<ResourceSpec> = {}): ResourceSpec {
+    const merged = { ...current, ...update }
+    if (update.tags && current.tags?.[OPERATION_TAG_KEY]) {
+      merged.tags = { ...update.tags, [OPERATION_TAG_KEY]: current.tags[OPERATION_TAG_KEY] }
+    }
+    return merged
+  }
+
+  /**
+   * Destroy infrastructure
+   */
+  async destroyInfrastructure(id: string, jwtToken?: string): Promise<DeploymentOperation> {
+    const infrastructure = await this.repository.getInfrastructure(id)
+    if (!infrastructure) {
+      throw new ResourceNotFoundError(id)
+    }
+
+    // Fail before recording an operation if the provider is unavailable
+    const provider = await this.providerFor(infrastructure, jwtToken)
+
+    // Create destroy operation
+    const operation: DeploymentOperation = {
+      id: uuidv4(),
+      infrastructure_id: infrastructure.id,
+      operation_type: 'destroy',
+      status: 'pending',
+      started_at: new Date().toISOString(),
+      total_steps: infrastructure.resources.length,
+      completed_steps: 0,
+      created_resources: [],
+      updated_resources: [],
+      deleted_resources: [],
+      cost_change: -infrastructure.estimated_monthly_cost
+    }
+
+    await this.acquireLock(infrastructure, operation)
+    await this.persist(infrastructure, operation)
+
+    // Start destruction asynchronously
+    this.performDestruction(infrastructure, operation, provider)
+      .catch(error => {
+        console.error('Destruction failed:', error)
+        operation.status = 'failed'
+        operation.error_message = error.message
+        operation.completed_at = new Date().toISOString()
+        return this.persist(infrastructure, operation)
+      })
+
+    return operation
+  }
+
+  private async performDestruction(
+    infrastructure: Infrastructure,
+    operation: DeploymentOperation,
+    provider: CloudProviderInterface
+  ) {
+    operation.status = 'in_progress'
+    infrastructure.status = 'destroying'
+    await this.persist(infrastructure, operation)
+
+    try {
+      // Destroy resources in reverse dependency order, skipping any already
+      // removed (e.g. by an earlier, interrupted destroy)
+      const layers = buildDestructionLayers(infrastructure.resources.filter(r => r.status !== 'deleted'))
+
+      for (const layer of layers) {
+        await this.throwIfCancelled(operation)
+        operation.current_step = `Destroying ${layer.map(r => `${r.type}: ${r.name}`).join(', ')}`
+
+        const results = await Promise.allSettled(layer.map(async resource => {
+          if (resource.provider_id) {
+            await provider.deleteResource(resource.provider_id, resource.type)
+
+            // Resources it depends on (e.g. its VPC) can only go once it is really gone
+            if (resource.dependencies.length > 0) {
+              await waitForResourceDeleted(provider, resource, this.readiness)
+            }
+          }
+
+          resource.status = 'deleted'
+          operation.deleted_resources.push(resource.id)
+          operation.completed_steps++
+        }))
+
+        await this.persist(infrastructure, operation)
+
+        const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+        if (failure) {
+          throw failure.reason
+        }
+      }
+
+      await provider.releaseInfrastructure?.(infrastructure.id)
+
+      operation.status = 'completed'
+      operation.completed_at = new Date().toISOString()
+      infrastructure.status = 'destroyed'
+      infrastructure.destroyed_at = new Date().toISOString()
+      infrastructure.updated_at = new Date().toISOString()
+      await this.persist(infrastructure, operation)
+
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        await this.finishCancelledOperation(infrastructure, operation, provider)
+        return
+      }
+
+      operation.status = 'failed'
+      operation.error_message = error instanceof Error ? error.message : 'Unknown destruction error'
+      operation.completed_at = new Date().toISOString()
+      infrastructure.status = 'error'
+      await this.persist(infrastructure, operation)
+    }
+  }
+
+  /**
+   * Run `run` at most once per idempotency key and return its stored result on retries.
+   * The key is released if `run` throws, so a failed request can be retried.
+   */
+  async runIdempotent<T>(
+    workspaceId: string,
+    scope: string,
+    idempotency: IdempotencyOptions,
+    run: () => Promise<T>
+  ): Promise<{ result: T; replayed: boolean }> {
+    const { record, existing } = await this.claimIdempotencyKey(workspaceId, scope, idempotency)
+    if (existing) {
+      if (existing.status !== 'completed') {
+        throw new AtlasError(
+          `A request with idempotency key ${idempotency.key} is still running`,
+          'IDEMPOTENCY_KEY_IN_PROGRESS',
+          409
+        )
+      }
+      return { result: existing.response as T, replayed: true }
+    }
+
+    try {
+      const result = await run()
+      await this.repository.saveIdempotencyRecord({ ...record, status: 'completed', response: result })
+      return { result, replayed: false }
+    } catch (error) {
+      await this.repository.deleteIdempotencyRecord(record.id)
+      throw error
+    }
+  }
+
+  /**
+   * Claim a key for this request. Returns the existing record when the key was
+   * already used with the same body, and rejects reuse with a different one.
+   */
+  private async claimIdempotencyKey(
+    workspaceId: string,
+    scope: string,
+    idempotency: IdempotencyOptions,
+    fields: Partial<IdempotencyRecord> = {}
+  ): Promise<{ record: IdempotencyRecord; existing: IdempotencyRecord | null }> {
+    const now = Date.now()
+    const record: IdempotencyRecord = {
+      id: `${workspaceId}:${scope}:${idempotency.key}`,
+      key: idempotency.key,
+      workspace_id: workspaceId,
+      scope,
+      request_hash: createHash('sha256').update(stableStringify(idempotency.body)).digest('hex'),
+      status: 'in_progress',
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + IDEMPOTENCY_KEY_TTL_MS).toISOString(),
+      ...fields
+    }
+
+    const existing = await this.repository.claimIdempotencyKey(record)
+    if (existing && existing.request_hash !== record.request_hash) {
+      throw new IdempotencyKeyMismatchError(idempotency.key)
+    }
+
+    return { record, existing }
+  }
+
+  /**
+   * Take the infrastructure's operation lock, or throw OPERATION_IN_PROGRESS.
+   * A lock whose operation has already finished, or whose operation record is
+   * still missing after LOCK_HOLDER_GRACE_MS, is stale and replaced.
+   */
+  private async acquireLock(infrastructure: Infrastructure, operation: DeploymentOperation) {
+    const held = infrastructure.lock
+    if (held && held.operation_id !== operation.id) {
+      const holder = await this.repository.getOperation(held.operation_id)
+      const running = holder
+        ? holder.status === 'pending' || holder.status === 'in_progress'
+        : Date.now() - new Date(held.acquired_at).getTime() < LOCK_HOLDER_GRACE_MS
+      if (running) {
+        throw new OperationInProgressError(infrastructure.id, held)
+      }
+      console.warn(`Replacing stale lock on ${infrastructure.id} held by ${held.operation_type} operation ${held.operation_id}`)
+    }
+
+    // Another request may have locked it while the holder was looked up
+    if (infrastructure.lock && infrastructure.lock !== held) {
+      throw new OperationInProgressError(infrastructure.id, infrastructure.lock)
+    }
+
+    infrastructure.lock = {
+      operation_id: operation.id,
+      operation_type: operation.operation_type,
+      acquired_at: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Release a stuck lock. A holder that is still running is asked to cancel so it
+   * stops at its next step; one whose process died is closed out on restart.
+   */
+  async forceUnlock(id: string): Promise<{ infrastructure: Infrastructure; released: InfrastructureLock }> {
+    const infrastructure = await this.repository.getInfrastructure(id)
+    if (!infrastructure) {
+      throw new ResourceNotFoundError(id)
+    }
+
+    const released = infrastructure.lock
+    if (!released) {
+      throw new AtlasError(`Infrastructure ${id} is not locked`, 'NOT_LOCKED', 409)
+    }
+
+    const holder = await this.repository.getOperation(released.operation_id)
+    if (holder && (holder.status === 'pending' || holder.status === 'in_progress') && !holder.cancel_requested_at) {
+      holder.cancel_requested_at = new Date().toISOString()
+      await this.repository.saveOperation(holder)
+    }
+
+    console.warn(`Force-unlocked ${id}; lock was held by ${released.operation_type} operation ${released.operation_id}`)
+    delete infrastructure.lock
+    infrastructure.updated_at = new Date().toISOString()
+    await this.repository.saveInfrastructure(infrastructure)
+
+    return { infrastructure, released }
+  }
+
+  /**
+   * Ask a running operation to stop. The operation checks between steps, so the
+   * step in flight finishes first. With `rollback`, resources the operation
+   * created are deleted again.
+   */
+  async cancelOperation(
+    id: string,
+    workspaceId: string,
+    options: { rollback?: boolean } = {}
+  ): Promise<DeploymentOperation> {
+    const operation = await this.getWorkspaceOperation(id, workspaceId)
+    if (operation.status !== 'pending' && operation.status !== 'in_progress') {
+      throw new AtlasError(`Operation ${id} is already ${operation.status}`, 'OPERATION_NOT_RUNNING', 409)
+    }
+
+    operation.cancel_requested_at = operation.cancel_requested_at || new Date().toISOString()
+    operation.rollback_on_cancel = !!options.rollback
+    await this.repository.saveOperation(operation)
+
+    return operation
+  }
+
+  /**
+   * Load an operation whose infrastructure belongs to the workspace.
+   * Operations of other workspaces are reported as not found.
+   */
+  private async getWorkspaceOperation(id: string, workspaceId: string): Promise<DeploymentOperation> {
+    const operation = await this.repository.getOperation(id)
+    const infrastructure = operation && await this.repository.getInfrastructure(operation.infrastructure_id)
+    if (!operation || !infrastructure || infrastructure.workspace_id !== workspaceId) {
+      throw new AtlasError(`Operation not found: ${id}`, 'OPERATION_NOT_FOUND', 404)
+    }
+    return operation
+  }
+
+  /**
+   * Cancellation checkpoint. Reads the stored record, since the request may
+   * have come through another service instance (REST vs MCP).
+   */
+  private async throwIfCancelled(operation: DeploymentOperation) {
+    const stored = await this.repository.getOperation(operation.id)
+    if (stored?.cancel_requested_at) {
+      operation.cancel_requested_at = stored.cancel_requested_at
+      operation.rollback_on_cancel = stored.rollback_on_cancel
+      throw new OperationCancelledError(operation.id)
+    }
+  }
+
+  private async finishCancelledOperation(
+    infrastructure: Infrastructure,
+    operation: DeploymentOperation,
+    provider: CloudProviderInterface
+  ) {
+    console.log(`Operation ${operation.id} cancelled${operation.rollback_on_cancel ? ' - rolling back' : ''}`)
+
+    if (operation.rollback_on_cancel && operation.operation_type === 'update' && operation.snapshots?.length) {
+      await this.rollbackUpdate(infrastructure, operation, provider, 'Operation cancelled')
+    } else if (operation.rollback_on_cancel && operation.created_resources.length > 0) {
+      operation.current_step = 'Rolling back created resources'
+      await this.persist(infrastructure, operation)
+      await this.cleanupFailedDeployment(infrastructure, operation, provider)
+      infrastructure.estimated_monthly_cost = infrastructure.resources
+        .filter(r => r.status !== 'deleted')
+        .reduce((sum, r) => sum + r.monthly_cost, 0)
+    }
+
+    // Steps are atomic, so whatever exists now is in a consistent state
+    const remaining = infrastructure.resources.filter(r => r.status !== 'deleted')
+    operation.status = 'cancelled'
+    operation.current_step = undefined
+    operation.completed_at = new Date().toISOString()
+    infrastructure.status = operation.rollback?.status === 'partial'
+      ? 'error'
+      : remaining.length > 0 ? 'active' : 'destroyed'
+    infrastructure.updated_at = new Date().toISOString()
+    await this.persist(infrastructure, operation)
+
+    this.emit('operation_cancelled', {
+      infrastructure_id: infrastructure.id,
+      operation_id: operation.id,
+      rolled_back: !!operation.rollback_on_cancel
+    })
+  }
+
+  /**
+   * Get deployment operation
+   */
+  async getDeploymentOperation(id: string): Promise<DeploymentOperation | null> {
+    return this.repository.getOperation(id)
+  }
+
+  /**
+   * List deployment operations for infrastructure
+   */
+  async listDeploymentOperations(infrastructureId: string): Promise<DeploymentOperation[]> {
+    return this.repository.listOperationsByInfrastructure(infrastructureId)
+  }
+
+  /**
+   * Find operations left unfinished by a previous process (crash or restart),
+   * check their resources against the provider, then resume or fail them
+   */
+  async reconcileInterruptedOperations(options: { resume?: boolean } = {}): Promise<DeploymentOperation[]> {
+    const resume = options.resume ?? true
+    const interrupted = await this.repository.listOperationsByStatus(['pending', 'in_progress'])
+
+    for (const operation of interrupted) {
+      try {
+        await this.reconcileOperation(operation, resume)
+      } catch (error) {
+        console.error(`Failed to reconcile operation ${operation.id}:`, error)
+        await this.failInterruptedOperation(
+          operation,
+          null,
+          `Interrupted by service restart; reconciliation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      }
+    }
+
+    return interrupted
+  }
+
+  /**
+   * Reconcile an operation that was left waiting for its credential on restart.
+   * The JWT must reload the credential the infrastructure was created with.
+   */
+  async resumeInterruptedOperation(
+    id: string,
+    workspaceId: string,
+    jwtToken: string,
+    options: { resume?: boolean } = {}
+  ): Promise<DeploymentOperation> {
+    const operation = await this.getWorkspaceOperation(id, workspaceId)
+    if (!operation.awaiting_credential_id) {
+      throw new AtlasError(`Operation ${id} is not waiting for a credential`, 'OPERATION_NOT_WAITING', 409)
+    }
+
+    await this.reconcileOperation(operation, options.resume ?? true, jwtToken)
+    return operation
+  }
+
+  private async reconcileOperation(operation: DeploymentOperation, resume: boolean, jwtToken?: string) {
+    const infrastructure = await this.repository.getInfrastructure(operation.infrastructure_id)
+    if (!infrastructure) {
+      await this.failInterruptedOperation(operation, null, 'Interrupted by service restart; infrastructure record missing')
+      return
+    }
+
+    const provider = jwtToken
+      ? await this.providerFor(infrastructure, jwtToken)
+      : this.cachedProviderFor(infrastructure)
+    const credentialId = infrastructure.credential_id
+    if (!provider && credentialId && credentialId !== ENVIRONMENT_CREDENTIAL_ID) {
+      // Only the owner's JWT can reload a user credential - leave the operation for them
+      operation.awaiting_credential_id = credentialId
+      operation.current_step = `Interrupted by service restart; waiting for credential ${credentialId} to verify resources`
+      await this.repository.saveOperation(operation)
+      console.warn(`Operation ${operation.id} needs credential ${credentialId} to reconcile; resume it with the owner's JWT`)
+      return
+    }
+    if (!provider) {
+      await this.failInterruptedOperation(
+        operation,
+        infrastructure,
+        `Interrupted by service restart; provider ${infrastructure.provider} not available to verify resources`
+      )
+      return
+    }
+
+    delete operation.awaiting_credential_id
+    console.log(`Reconciling interrupted ${operation.operation_type} operation ${operation.id} for ${infrastructure.id}`)
+
+    // Check every recorded resource against the provider
+    for (const resource of infrastructure.resources) {
+      if (!resource.provider_id || resource.status === 'deleted') continue
+
+      const live = await provider.getResource(resource.provider_id, resource.type)
+      if (!live) {
+        resource.status = 'deleted'
+        resource.updated_at = new Date().toISOString()
+        if (operation.operation_type === 'destroy' && !operation.deleted_resources.includes(resource.id)) {
+          operation.deleted_resources.push(resource.id)
+          operation.completed_steps++
+        }
+      } else if (resource.status !== 'deleting') {
+        resource.status = live.status
+      }
+    }
+
+    if (operation.operation_type === 'create') {
+      await this.adoptUntrackedResources(infrastructure, operation, provider)
+    }
+
+    infrastructure.estimated_monthly_cost = infrastructure.resources
+      .filter(r => r.status !== 'deleted')
+      .reduce((sum, r) => sum + r.monthly_cost, 0)
+
+    // A cancel requested before the restart wins over resuming
+    if (operation.cancel_requested_at) {
+      await this.finishCancelledOperation(infrastructure, operation, provider)
+      return
+    }
+
+    if (resume && operation.operation_type === 'create' && operation.requested_resources) {
+      const created = new Set(infrastructure.resources.filter(r => r.status !== 'deleted').map(r => r.name))
+      const remaining = operation.requested_resources.filter(r => !created.has(r.name))
+
+      console.log(`Resuming deployment ${operation.id}: ${remaining.length} resources remaining`)
+      this.deployInfrastructure(infrastructure, operation, remaining, provider, jwtToken)
+        .catch(error => console.error(`Resumed deployment ${operation.id} failed:`, error))
+      return
+    }
+
+    if (resume && operation.operation_type === 'destroy') {
+      console.log(`Resuming destruction ${operation.id}`)
+      this.performDestruction(infrastructure, operation, provider)
+        .catch(error => console.error(`Resumed destruction ${operation.id} failed:`, error))
+      return
+    }
+
+    await this.failInterruptedOperation(operation, infrastructure, 'Interrupted by service restart')
+  }
+
+  /**
+   * Record resources the provider created for this operation that never made it
+   * into the infrastructure record (process died between create and save)
+   */
+  private async adoptUntrackedResources(
+    infrastructure: Infrastructure,
+    operation: DeploymentOperation,
+    provider: CloudProviderInterface
+  ) {
+    const tagged = await provider.listResources({ tag_name: `${OPERATION_TAG_KEY}:${operation.id}` })
+    const known = new Set(infrastructure.resources.map(r => r.provider_id))
+
+    for (const resource of tagged) {
+      if (known.has(resource.provider_id)) continue
+
+      console.log(`Adopting untracked ${resource.type} ${resource.provider_id} created by operation ${operation.id}`)
+      const request = operation.requested_resources?.find(r => r.name === resource.name)
+      if (request) {
+        resource.specifications = { ...request.specifications, name: request.name, region: infrastructure.region }
+      }
+      infrastructure.resources.push(resource)
+      operation.created_resources.push(resource.id)
+      operation.completed_steps++
+    }
+  }
 
-    } catch (error) {
-      operation.status = 'failed'
-      operation.error_message = error instanceof Error ? error.message : 'Unknown deployment error'
-      operation.completed_at = new Date().toISOString()
+  private async failInterruptedOperation(
+    operation: DeploymentOperation,
+    infrastructure: Infrastructure | null,
+    message: string
+  ) {
+    operation.status = 'failed'
+    operation.error_message = message
+    operation.completed_at = new Date().toISOString()
+    operation.current_step = undefined
+
+    if (infrastructure) {
       infrastructure.status = 'error'
       infrastructure.updated_at = new Date().toISOString()
-
-      // Attempt cleanup of any created resources
-      await this.cleanupFailedDeployment(infrastructure, operation)
+      await this.persist(infrastructure, operation)
+    } else {
+      await this.repository.saveOperation(operation)
     }
   }
 
   /**
-   * Get infrastructure by ID
+   * Get infrastructure resource by ID
    */
-  async getInfrastructure(id: string): Promise<Infrastructure | null> {
-    return this.infrastructures.get(id) || null
-  }
+  async getResource(infrastructureId: string, resourceId: string): Promise<InfrastructureResource | null> {
+    const infrastructure = await this.repository.getInfrastructure(infrastructureId)
+    if (!infrastructure) return null
 
-  /**
-   * List infrastructure for workspace
-   */
-  async listInfrastructure(workspaceId: string): Promise<Infrastructure[]> {
-    return Array.from(this.infrastructures.values())
-      .filter(infra => infra.workspace_id === workspaceId)
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    return infrastructure.resources.find(r => r.id === resourceId) || null
   }
 
   /**
-   * Update infrastructure
+   * Get cost estimate for infrastructure request
    */
-  async updateInfrastructure(
-    id: string,
-    request: UpdateInfrastructureRequest
-  ): Promise<{ infrastructure: Infrastructure; operation: DeploymentOperation }> {
-    const infrastructure = this.infrastructures.get(id)
-    if (!infrastructure) {
-      throw new ResourceNotFoundError(id)
+  async estimateCost(request: CreateInfrastructureRequest): Promise<number> {
+    const provider = this.registry.getDefault(request.provider)
+    if (!provider) {
+      throw new AtlasError(`Provider ${request.provider} not configured`, 'PROVIDER_NOT_CONFIGURED')
     }
 
-    const provider = this.providers.get(infrastructure.provider)!
+    let totalCost = 0
 
-    // Create update operation
-    const operation: DeploymentOperation = {
-      id: uuidv4(),
-      infrastructure_id: infrastructure.id,
-      operation_type: 'update',
-      status: 'pending',
-      started_at: new Date().toISOString(),
-      total_steps: (request.resources || []).length + 1,
-      completed_steps: 0,
-      created_resources: [],
-      updated_resources: [],
-      deleted_resources: [],
-      cost_change: 0
+    for (const resourceRequest of request.resources) {
+      const cost = await provider.estimateCost(resourceRequest.specifications)
+      totalCost += cost
     }
 
-    this.deploymentOperations.set(operation.id, operation)
-
-    // Start update asynchronously
-    this.performUpdate(infrastructure, operation, request)
-      .catch(error => {
-        console.error('Update failed:', error)
-        operation.status = 'failed'
-        operation.error_message = error.message
-        operation.completed_at = new Date().toISOString()
-      })
-
-    return { infrastructure, operation }
+    return totalCost
   }
 
-  private async performUpdate(
-    infrastructure: Infrastructure,
-    operation: DeploymentOperation,
-    request: UpdateInfrastructureRequest
-  ) {
-    operation.status = 'in_progress'
-    infrastructure.status = 'updating'
+  /**
+   * Adopt resources that already exist at the provider into a new or existing
+   * infrastructure record. Nothing is created or modified at the provider.
+   */
+  async importInfrastructure(
+    userId: string,
+    workspaceId: string,
+    request: ImportInfrastructureRequest,
+    jwtToken?: string
+  ): Promise<{ infrastructure: Infrastructure; operation: DeploymentOperation; imported: InfrastructureResource[] }> {
+    if (!request.resources?.length && !request.tag_name) {
+      throw new AtlasError('Specify resources or tag_name to import', 'INVALID_IMPORT_REQUEST', 400)
+    }
 
-    try {
-      // Update basic properties
-      if (request.name) infrastructure.name = request.name
-      if (request.tags) infrastructure.tags = { ...infrastructure.tags, ...request.tags }
-      if (request.configuration) {
-        infrastructure.configuration = { ...infrastructure.configuration, ...request.configuration }
+    let infrastructure: Infrastructure
+    if (request.infrastructure_id) {
+      const existing = await this.repository.getInfrastructure(request.infrastructure_id)
+      if (!existing || existing.workspace_id !== workspaceId) {
+        throw new ResourceNotFoundError(request.infrastructure_id)
+      }
+      if (request.provider && request.provider !== existing.provider) {
+        throw new AtlasError(
+          `Infrastructure ${existing.id} uses ${existing.provider}, not ${request.provider}`,
+          'PROVIDER_MISMATCH',
+          400
+        )
       }
+      infrastructure = existing
+    } else {
+      if (!request.name) {
+        throw new AtlasError('name is required when importing into new infrastructure', 'INVALID_IMPORT_REQUEST', 400)
+      }
+      infrastructure = {
+        id: uuidv4(),
+        name: request.name,
+        workspace_id: workspaceId,
+        user_id: userId,
+        provider: request.provider || 'digitalocean',
+        region: request.region || '',
+        resources: [],
+        status: 'active',
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        deployed_at: new Date().toISOString(),
+        estimated_monthly_cost: 0,
+        tags: request.tags || {},
+        configuration: {}
+      }
+    }
 
-      operation.current_step = 'Updating infrastructure properties'
-      operation.completed_steps++
+    // A new record remembers the credential its resources were found with
+    let provider: CloudProviderInterface
+    if (request.infrastructure_id) {
+      provider = await this.providerFor(infrastructure, jwtToken)
+    } else {
+      const resolved = await this.resolveProvider(infrastructure.provider, workspaceId, userId, jwtToken)
+      provider = resolved.instance
+      infrastructure.credential_id = resolved.credential_id
+      infrastructure.account_id = await this.accountIdFor(provider, resolved.credential_id)
+    }
 
-      // Update resources if specified
-      if (request.resources) {
-        for (const resourceUpdate of request.resources) {
-          const resource = infrastructure.resources.find(r => r.id === resourceUpdate.id)
-          if (resource) {
-            operation.current_step = `Updating ${resource.type}: ${resource.name}`
-            
-            // Update specifications
-            if (resourceUpdate.specifications) {
-              resource.specifications = { ...resource.specifications, ...resourceUpdate.specifications }
-              resource.updated_at = new Date().toISOString()
-              operation.updated_resources.push(resource.id)
-            }
-            
-            operation.completed_steps++
-          }
-        }
+    // A provider resource can belong to only one infrastructure in the workspace
+    const resourceKey = (r: { type: string; provider_id?: string }) => `${r.type}:${r.provider_id}`
+    const managed = new Set(
+      (await this.repository.listInfrastructureByWorkspace(workspaceId))
+        .flatMap(i => i.resources.filter(r => r.status !== 'deleted').map(resourceKey))
+    )
+
+    const candidates = new Map<string, ImportResourceRequest>()
+    for (const resourceRequest of request.resources || []) {
+      if (managed.has(resourceKey(resourceRequest))) {
+        throw new AtlasError(
+          `${resourceRequest.type} ${resourceRequest.provider_id} is already managed by Atlas`,
+          'RESOURCE_ALREADY_MANAGED',
+          409
+        )
       }
+      candidates.set(resourceKey(resourceRequest), resourceRequest)
+    }
 
-      operation.status = 'completed'
-      operation.completed_at = new Date().toISOString()
-      infrastructure.status = 'active'
-      infrastructure.updated_at = new Date().toISOString()
+    if (request.tag_name) {
+      for (const tagged of await provider.listResources({ tag_name: request.tag_name })) {
+        const key = resourceKey(tagged)
+        if (!managed.has(key) && !candidates.has(key)) {
+          candidates.set(key, { type: tagged.type, provider_id: tagged.provider_id! })
+        }
+      }
+    }
 
-    } catch (error) {
-      operation.status = 'failed'
-      operation.error_message = error instanceof Error ? error.message : 'Unknown update error'
-      operation.completed_at = new Date().toISOString()
-      infrastructure.status = 'error'
+    if (candidates.size === 0) {
+      throw new AtlasError('No unmanaged resources matched the import request', 'NOTHING_TO_IMPORT', 400)
     }
-  }
 
-  /**
-   * Destroy infrastructure
-   */
-  async destroyInfrastructure(id: string): Promise<DeploymentOperation> {
-    const infrastructure = this.infrastructures.get(id)
-    if (!infrastructure) {
-      throw new ResourceNotFoundError(id)
+    // Fetch everything before touching the record so a missing resource imports nothing
+    const imported: InfrastructureResource[] = []
+    for (const candidate of candidates.values()) {
+      const live = await provider.getResource(candidate.provider_id, candidate.type)
+      if (!live) {
+        throw new ResourceNotFoundError(candidate.provider_id)
+      }
+      imported.push({ ...live, name: candidate.name || live.name })
     }
 
-    const provider = this.providers.get(infrastructure.provider)!
+    const importedCost = imported.reduce((sum, r) => sum + r.monthly_cost, 0)
 
-    // Create destroy operation
     const operation: DeploymentOperation = {
       id: uuidv4(),
       infrastructure_id: infrastructure.id,
-      operation_type: 'destroy',
-      status: 'pending',
+      operation_type: 'import',
+      status: 'completed',
       started_at: new Date().toISOString(),
-      total_steps: infrastructure.resources.length,
-      completed_steps: 0,
-      created_resources: [],
+      completed_at: new Date().toISOString(),
+      total_steps: imported.length,
+      completed_steps: imported.length,
+      created_resources: imported.map(r => r.id),
       updated_resources: [],
       deleted_resources: [],
-      cost_change: -infrastructure.estimated_monthly_cost
+      cost_change: importedCost
     }
 
-    this.deploymentOperations.set(operation.id, operation)
+    // Completes immediately, so the lock only guards against a running operation
+    await this.acquireLock(infrastructure, operation)
 
-    // Start destruction asynchronously
-    this.performDestruction(infrastructure, operation)
-      .catch(error => {
-        console.error('Destruction failed:', error)
-        operation.status = 'failed'
-        operation.error_message = error.message
-        operation.completed_at = new Date().toISOString()
-      })
+    infrastructure.resources.push(...imported)
+    infrastructure.region = infrastructure.region || imported[0].specifications.region || ''
+    infrastructure.estimated_monthly_cost += importedCost
+    infrastructure.updated_at = new Date().toISOString()
+    await this.persist(infrastructure, operation)
 
-    return operation
+    console.log(`Imported ${imported.length} resources into infrastructure ${infrastructure.id}`)
+
+    return { infrastructure, operation, imported }
   }
 
-  private async performDestruction(
-    infrastructure: Infrastructure,
-    operation: DeploymentOperation
-  ) {
-    operation.status = 'in_progress'
-    infrastructure.status = 'destroying'
+  /**
+   * Plan new infrastructure without provisioning anything
+   */
+  async planInfrastructure(
+    userId: string,
+    workspaceId: string,
+    request: CreateInfrastructureRequest,
+    jwtToken?: string
+  ): Promise<InfrastructurePlan> {
+    const { instance: provider } = await this.resolveProvider(request.provider, workspaceId, userId, jwtToken)
+
+    // Same validation as createInfrastructure, so an accepted plan can be applied
+    buildCreationLayers(withReferenceDependencies(request.resources))
+
+    const resourceChanges: PlannedResourceChange[] = await Promise.all(
+      request.resources.map(async resourceRequest => ({
+        action: 'create' as const,
+        name: resourceRequest.name,
+        type: resourceRequest.type,
+        changes: diffSpecifications({}, resourceRequest.specifications || {}),
+        monthly_cost_before: 0,
+        monthly_cost_after: await provider.estimateCost(resourceRequest.specifications || {})
+      }))
+    )
+
+    return this.storePlan({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation_type: 'create',
+      request,
+      infrastructure_changes: diffSpecifications({}, {
+        name: request.name,
+        provider: request.provider,
+        region: request.region,
+        tags: request.tags || {},
+        configuration: request.configuration || {}
+      }),
+      resource_changes: resourceChanges
+    })
+  }
+
+  /**
+   * Plan an update to existing infrastructure without changing anything
+   */
+  async planInfrastructureUpdate(
+    id: string,
+    request: UpdateInfrastructureRequest,
+    jwtToken?: string
+  ): Promise<InfrastructurePlan> {
+    const infrastructure = await this.repository.getInfrastructure(id)
+    if (!infrastructure) {
+      throw new ResourceNotFoundError(id)
+    }
 
-    const provider = this.providers.get(infrastructure.provider)!
+    const provider = await this.providerFor(infrastructure, jwtToken)
+    const updates = new Map((request.resources || []).map(update => [update.id, update]))
 
-    try {
-      // Destroy resources in reverse dependency order
-      const resourcesToDestroy = [...infrastructure.resources].reverse()
+    for (const resourceId of updates.keys()) {
+      if (!infrastructure.resources.some(r => r.id === resourceId)) {
+        throw new ResourceNotFoundError(resourceId)
+      }
+    }
+
+    const resourceChanges: PlannedResourceChange[] = await Promise.all(
+      infrastructure.resources
+        .filter(resource => resource.status !== 'deleted')
+        .map(async resource => {
+          // Same merge as performUpdate
+          const specifications = this.mergeSpecifications(resource.specifications, updates.get(resource.id)?.specifications)
+          const changes = diffSpecifications(resource.specifications, specifications)
 
-      for (const resource of resourcesToDestroy) {
-        operation.current_step = `Destroying ${resource.type}: ${resource.name}`
+          return {
+            action: changes.length > 0 ? 'update' as const : 'no-op' as const,
+            resource_id: resource.id,
+            name: resource.name,
+            type: resource.type,
+            changes,
+            monthly_cost_before: resource.monthly_cost,
+            monthly_cost_after: changes.length > 0 ? await provider.estimateCost(specifications) : resource.monthly_cost
+          }
+        })
+    )
 
-        if (resource.provider_id) {
-          await provider.deleteResource(resource.provider_id)
+    return this.storePlan({
+      workspace_id: infrastructure.workspace_id,
+      user_id: infrastructure.user_id,
+      operation_type: 'update',
+      infrastructure_id: infrastructure.id,
+      request,
+      infrastructure_changes: diffSpecifications(
+        { name: infrastructure.name, tags: infrastructure.tags, configuration: infrastructure.configuration },
+        {
+          name: request.name || infrastructure.name,
+          tags: { ...infrastructure.tags, ...request.tags },
+          configuration: { ...infrastructure.configuration, ...request.configuration }
         }
+      ),
+      resource_changes: resourceChanges,
+      state_fingerprint: this.fingerprint(infrastructure)
+    })
+  }
 
-        resource.status = 'deleted'
-        operation.deleted_resources.push(resource.id)
-        operation.completed_steps++
+  /**
+   * Get a stored plan by ID; plans of other workspaces are not returned
+   */
+  async getPlan(id: string, workspaceId: string): Promise<InfrastructurePlan | null> {
+    const plan = await this.repository.getPlan(id)
+    return plan && plan.workspace_id === workspaceId ? plan : null
+  }
+
+  /**
+   * Apply a reviewed plan. Update plans are rejected if the infrastructure
+   * changed after the plan was created.
+   */
+  async applyPlan(
+    planId: string,
+    workspaceId: string,
+    jwtToken?: string
+  ): Promise<{ plan: InfrastructurePlan; infrastructure: Infrastructure; operation: DeploymentOperation }> {
+    const plan = await this.getPlan(planId, workspaceId)
+    if (!plan) {
+      throw new AtlasError(`Plan not found: ${planId}`, 'PLAN_NOT_FOUND', 404)
+    }
+
+    const infrastructure = plan.infrastructure_id
+      ? await this.repository.getInfrastructure(plan.infrastructure_id)
+      : null
 
-        // Add small delay
-        await new Promise(resolve => setTimeout(resolve, 500))
+    // Concurrent applies share the repository's in-memory plan object, and nothing is awaited
+    // between the status check and claiming it, so a plan is applied at most once. A repository
+    // that returned copies would need an atomic claim instead.
+    if (plan.status !== 'pending') {
+      throw new AtlasError(`Plan ${planId} is ${plan.status} and cannot be applied`, 'PLAN_NOT_PENDING', 409)
+    }
+    if (Date.now() > new Date(plan.expires_at).getTime()) {
+      plan.status = 'expired'
+      await this.repository.savePlan(plan)
+      throw new AtlasError(`Plan ${planId} expired at ${plan.expires_at}`, 'PLAN_EXPIRED', 409)
+    }
+    if (plan.operation_type === 'update') {
+      if (!infrastructure) {
+        throw new ResourceNotFoundError(plan.infrastructure_id!)
       }
+      if (this.fingerprint(infrastructure) !== plan.state_fingerprint) {
+        plan.status = 'stale'
+        await this.repository.savePlan(plan)
+        throw new AtlasError(
+          `Infrastructure ${infrastructure.id} changed since plan ${planId} was created - create a new plan`,
+          'PLAN_STALE',
+          409
+        )
+      }
+    }
 
-      operation.status = 'completed'
-      operation.completed_at = new Date().toISOString()
-      infrastructure.status = 'destroyed'
-      infrastructure.destroyed_at = new Date().toISOString()
-      infrastructure.updated_at = new Date().toISOString()
+    plan.status = 'applied'
+    plan.applied_at = new Date().toISOString()
+    await this.repository.savePlan(plan)
 
+    let result: { infrastructure: Infrastructure; operation: DeploymentOperation }
+    try {
+      result = plan.operation_type === 'create'
+        ? await this.createInfrastructure(plan.user_id, plan.workspace_id, plan.request as CreateInfrastructureRequest, jwtToken)
+        : await this.updateInfrastructure(plan.infrastructure_id!, plan.request as UpdateInfrastructureRequest, jwtToken)
     } catch (error) {
-      operation.status = 'failed'
-      operation.error_message = error instanceof Error ? error.message : 'Unknown destruction error'
-      operation.completed_at = new Date().toISOString()
-      infrastructure.status = 'error'
+      // The plan has no operation to show for it, so let it be applied again
+      plan.status = 'pending'
+      delete plan.applied_at
+      await this.repository.savePlan(plan)
+      throw error
     }
+
+    plan.operation_id = result.operation.id
+    await this.repository.savePlan(plan)
+
+    return { plan, ...result }
   }
 
-  /**
-   * Get deployment operation
-   */
-  async getDeploymentOperation(id: string): Promise<DeploymentOperation | null> {
-    return this.deploymentOperations.get(id) || null
+  private async storePlan(
+    fields: Omit<InfrastructurePlan, 'id' | 'status' | 'created_at' | 'expires_at' | 'cost_change' | 'estimated_monthly_cost'>
+  ): Promise<InfrastructurePlan> {
+    const now = Date.now()
+    const plan: InfrastructurePlan = {
+      id: uuidv4(),
+      ...fields,
+      cost_change: fields.resource_changes.reduce(
+        (total, change) => total + change.monthly_cost_after - change.monthly_cost_before, 0
+      ),
+      estimated_monthly_cost: fields.resource_changes.reduce((total, change) => total + change.monthly_cost_after, 0),
+      status: 'pending',
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + PLAN_TTL_MS).toISOString()
+    }
+
+    await this.repository.savePlan(plan)
+    return plan
   }
 
   /**
-   * List deployment operations for infrastructure
+   * Hash of the parts of an infrastructure record a plan was computed against
    */
-  async listDeploymentOperations(infrastructureId: string): Promise<DeploymentOperation[]> {
-    return Array.from(this.deploymentOperations.values())
-      .filter(op => op.infrastructure_id === infrastructureId)
-      .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())
+  private fingerprint(infrastructure: Infrastructure): string {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        name: infrastructure.name,
+        tags: infrastructure.tags,
+        configuration: infrastructure.configuration,
+        resources: infrastructure.resources.map(r => ({ id: r.id, status: r.status, specifications: r.specifications }))
+      }))
+      .digest('hex')
   }
 
   /**
-   * Get infrastructure resource by ID
+   * Compare an infrastructure's stored resources with live provider state.
+   * The report is kept on the infrastructure record as last_drift_report.
    */
-  async getResource(infrastructureId: string, resourceId: string): Promise<InfrastructureResource | null> {
-    const infrastructure = this.infrastructures.get(infrastructureId)
-    if (!infrastructure) return null
+  async detectDrift(id: string, jwtToken?: string): Promise<DriftReport> {
+    const infrastructure = await this.repository.getInfrastructure(id)
+    if (!infrastructure) {
+      throw new ResourceNotFoundError(id)
+    }
 
-    return infrastructure.resources.find(r => r.id === resourceId) || null
-  }
+    const provider = await this.providerFor(infrastructure, jwtToken)
+    const resources = infrastructure.resources.filter(
+      r => r.provider_id && (r.status === 'active' || r.status === 'error')
+    )
 
-  /**
-   * Get cost estimate for infrastructure request
-   */
-  async estimateCost(request: CreateInfrastructureRequest): Promise<number> {
-    const provider = this.providers.get(request.provider)
-    if (!provider) {
-      throw new AtlasError(`Provider ${request.provider} not configured`, 'PROVIDER_NOT_CONFIGURED')
+    const issues = (await Promise.all(resources.map(async resource => {
+      const live = await provider.getResource(resource.provider_id!, resource.type)
+      return detectResourceDrift(resource, live, {
+        region: infrastructure.region,
+        ignoredTagPrefixes: [`${OPERATION_TAG_KEY}:`]
+      })
+    }))).flat()
+
+    const report: DriftReport = {
+      infrastructure_id: infrastructure.id,
+      checked_at: new Date().toISOString(),
+      drifted: issues.length > 0,
+      resources_checked: resources.length,
+      issues
     }
 
-    let totalCost = 0
+    infrastructure.last_drift_report = report
+    await this.repository.saveInfrastructure(infrastructure)
 
-    for (const resourceRequest of request.resources) {
-      const cost = await provider.estimateCost(resourceRequest.specifications)
-      totalCost += cost
+    if (report.drifted) {
+      this.emit('drift_detected', report)
     }
 
-    return totalCost
+    return report
+  }
+
+  /**
+   * Check every active infrastructure in a workspace (or all workspaces) for drift.
+   * Failures for one infrastructure are logged and do not stop the others; one whose
+   * credential is not loaded (and not the JWT's) gets a skipped report instead.
+   */
+  async detectDriftForAll(workspaceId?: string, jwtToken?: string): Promise<DriftReport[]> {
+    const infrastructures = workspaceId
+      ? await this.repository.listInfrastructureByWorkspace(workspaceId)
+      : await this.repository.listAllInfrastructure()
+
+    const reports: DriftReport[] = []
+    for (const infrastructure of infrastructures.filter(i => i.status === 'active')) {
+      try {
+        reports.push(await this.detectDrift(infrastructure.id, jwtToken))
+      } catch (error) {
+        if (error instanceof CredentialUnavailableError) {
+          reports.push({
+            infrastructure_id: infrastructure.id,
+            checked_at: new Date().toISOString(),
+            drifted: false,
+            resources_checked: 0,
+            issues: [],
+            skipped_reason: error.message
+          })
+          continue
+        }
+        console.error(`Drift detection failed for infrastructure ${infrastructure.id}:`, error)
+      }
+    }
+
+    return reports
   }
 
   /**
    * Get available cloud providers
    */
   getAvailableProviders(): CloudProvider[] {
-    return Array.from(this.providers.keys())
+    return this.registry.providerNames()
   }
 
   /**
    * Get provider-specific information
    */
   async getProviderInfo(provider: CloudProvider): Promise<any> {
-    const providerInstance = this.providers.get(provider)
+    const providerInstance = this.registry.getDefault(provider)
     if (!providerInstance) {
       throw new AtlasError(`Provider ${provider} not configured`, 'PROVIDER_NOT_CONFIGURED')
     }
@@ -484,7 +2046,8 @@ export class InfrastructureService extends EventEmitter {
     return {
       name: providerInstance.name,
       regions: providerInstance.regions,
-      resource_types: providerInstance.resource_types
+      resource_types: providerInstance.resource_types,
+      rate_limit: providerInstance.getRateLimit?.() ?? null
     }
   }
 
@@ -492,7 +2055,7 @@ export class InfrastructureService extends EventEmitter {
    * Test provider connectivity
    */
   async testProviderConnection(provider: CloudProvider): Promise<boolean> {
-    const providerInstance = this.providers.get(provider)
+    const providerInstance = this.registry.getDefault(provider)
     if (!providerInstance) return false
 
     try {
@@ -503,26 +2066,52 @@ export class InfrastructureService extends EventEmitter {
   }
 
   /**
-   * Cleanup failed deployment
+   * Write operation and infrastructure state to the repository. The operation is
+   * saved first so a stored lock never points at an operation that is not stored.
+   */
+  private async persist(infrastructure: Infrastructure, operation?: DeploymentOperation) {
+    // A finished operation gives up its lock
+    if (operation && infrastructure.lock?.operation_id === operation.id &&
+        operation.status !== 'pending' && operation.status !== 'in_progress') {
+      delete infrastructure.lock
+    }
+
+    if (operation) {
+      await this.repository.saveOperation(operation)
+    }
+    await this.repository.saveInfrastructure(infrastructure)
+  }
+
+  /**
+   * Cleanup failed deployment: delete the resources it created in reverse
+   * dependency order, as performDestruction does. Failures are logged and the
+   * remaining resources are still attempted.
    */
   private async cleanupFailedDeployment(
     infrastructure: Infrastructure,
-    operation: DeploymentOperation
+    operation: DeploymentOperation,
+    provider: CloudProviderInterface
   ) {
-    const provider = this.providers.get(infrastructure.provider)!
+    const created = infrastructure.resources.filter(r =>
+      operation.created_resources.includes(r.id) && r.provider_id && r.status !== 'deleted'
+    )
 
-    // Try to delete any resources that were successfully created
-    for (const resourceId of operation.created_resources) {
-      const resource = infrastructure.resources.find(r => r.id === resourceId)
-      if (resource && resource.provider_id) {
+    for (const layer of buildDestructionLayers(created)) {
+      await Promise.all(layer.map(async resource => {
         try {
-          await provider.deleteResource(resource.provider_id)
+          await provider.deleteResource(resource.provider_id!, resource.type)
+
+          // Resources it depends on (e.g. its VPC) can only go once it is really gone
+          if (resource.dependencies.length > 0) {
+            await waitForResourceDeleted(provider, resource, this.readiness)
+          }
+
           resource.status = 'deleted'
-          operation.deleted_resources.push(resourceId)
+          operation.deleted_resources.push(resource.id)
         } catch (error) {
-          console.error(`Failed to cleanup resource ${resourceId}:`, error)
+          console.error(`Failed to cleanup resource ${resource.id}:`, error)
         }
-      }
+      }))
     }
   }
 
@@ -573,11 +2162,8 @@ export class InfrastructureService extends EventEmitter {
     try {
       // If we have user context, initialize their providers
       if (userId && jwtToken) {
-        await this.initializeUserProviders(workspaceId, userId, jwtToken)
-        
         // Try to get user-specific DigitalOcean provider
-        const userProviderKey = `digitalocean-${userId}` as CloudProvider
-        const userDoProvider = this.providers.get(userProviderKey)
+        const userDoProvider = await this.userProvider('digitalocean', workspaceId, userId, jwtToken)
         
         if (userDoProvider) {
           console.log(`Fetching real DigitalOcean costs for user ${userId}`)
@@ -592,7 +2178,7 @@ export class InfrastructureService extends EventEmitter {
       }
 
       // Fallback to environment-based or mock provider
-      const doProvider = this.providers.get('digitalocean')
+      const doProvider = this.registry.getDefault('digitalocean')
       if (doProvider) {
         console.log('Fetching costs using fallback DigitalOcean provider')
         const costData = await this.fetchDigitalOceanCosts(doProvider)
@@ -684,11 +2270,8 @@ export class InfrastructureService extends EventEmitter {
     try {
       // If we have user context, initialize their providers
       if (userId && jwtToken) {
-        await this.initializeUserProviders(workspaceId, userId, jwtToken)
-        
         // Try to get user-specific DigitalOcean provider
-        const userProviderKey = `digitalocean-${userId}` as CloudProvider
-        const userDoProvider = this.providers.get(userProviderKey)
+        const userDoProvider = await this.userProvider('digitalocean', workspaceId, userId, jwtToken)
         
         if (userDoProvider) {
           console.log(`Fetching real DigitalOcean infrastructure for user ${userId}`)
@@ -811,4 +2394,19 @@ export class InfrastructureService extends EventEmitter {
       }
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * JSON with object keys sorted, so the same body always hashes the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
@@ -0,0 +1,288 @@
+/**
+ * Cache of provider clients, one per workspace, provider and credential.
+ * Infrastructure records keep the ID of the credential they were created with,
+ * so later updates and destroys reach the same account.
+ */
+
+import { createHash } from 'crypto'
+import { CloudProvider, CloudProviderInterface } from '../types'
+import { ContextManagerCredentials } from './ContextService'
+import { createCloudProvider } from '../providers'
+import { getFakeCloudProvider } from '../providers/fake'
+
+export interface ProviderRegistryOptions {
+  ttlMs: number // How long a client built from workspace credentials is reused
+}
+
+export const DEFAULT_PROVIDER_REGISTRY_OPTIONS: ProviderRegistryOptions = {
+  ttlMs: 15 * 60 * 1000
+}
+
+// Credential ID recorded for the providers configured through environment variables
+export const ENVIRONMENT_CREDENTIAL_ID = 'environment'
+
+export type ProviderFactory = (
+  provider: CloudProvider,
+  credentials: ContextManagerCredentials
+) => CloudProviderInterface | null
+
+export interface ResolvedProvider {
+  instance: CloudProviderInterface
+  credential_id: string
+}
+
+interface RegistryEntry {
+  instance: CloudProviderInterface
+  expires_at: number
+}
+
+/**
+ * Read ATLAS_PROVIDER_CACHE_TTL_MS
+ */
+export function providerRegistryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ProviderRegistryOptions {
+  const ttlMs = Number(env.ATLAS_PROVIDER_CACHE_TTL_MS)
+  return {
+    ttlMs: env.ATLAS_PROVIDER_CACHE_TTL_MS !== undefined && ttlMs > 0 ? ttlMs : DEFAULT_PROVIDER_REGISTRY_OPTIONS.ttlMs
+  }
+}
+
+/**
+ * Stable, non-secret ID for a set of credentials (e.g. 'digitalocean:3f2a9c0d1b4e'),
+ * or null when none are set
+ */
+export function credentialId(provider: CloudProvider, credentials: ContextManagerCredentials): string | null {
+  const values = Object.entries(credentials)
+    .filter(([, value]) => value)
+    .sort(([a], [b]) => a.localeCompare(b))
+  if (values.length === 0) {
+    return null
+  }
+
+  const digest = createHash('sha256').update(JSON.stringify([provider, values])).digest('hex')
+  return `${provider}:${digest.slice(0, 12)}`
+}
+
+export class ProviderRegistry {
+  private entries = new Map<string, RegistryEntry>()
+  private defaults = new Map<CloudProvider, CloudProviderInterface>()
+
+  // Credential each user last loaded, per workspace and provider
+  private userCredentials = new Map<string, string>()
+
+  constructor(
+    private factory: ProviderFactory = createCloudProvider,
+    private options: ProviderRegistryOptions = providerRegistryOptionsFromEnv()
+  ) {}
+
+  /**
+   * Provider used when a workspace has no credentials of its own (never expires)
+   */
+  setDefault(provider: CloudProvider, instance: CloudProviderInterface): void {
+    this.defaults.set(provider, instance)
+  }
+
+  getDefault(provider: CloudProvider): CloudProviderInterface | null {
+    return this.defaults.get(provider) || null
+  }
+
+  /**
+   * Cache a client for these credentials, reusing the existing one while it is fresh.
+   * Returns null when the credentials are empty or the provider is unsupported.
+   */
+  register(workspaceId: string, provider: CloudProvider, credentials: ContextManagerCredentials): ResolvedProvider | null {
+    const id = credentialId(provider, credentials)
+    if (!id) {
+      return null
+    }
+
+    const existing = this.get(workspaceId, provider, id)
+    if (existing) {
+      return { instance: existing, credential_id: id }
+    }
+
+    const instance = this.factory(provider, credentials)
+    if (!instance) {
+      return null
+    }
+    this.entries.set(this.entryKey(workspaceId, provider, id), { instance, expires_at: Date.now() + this.options.ttlMs })
+    return { instance, credential_id: id }
+  }
+
+  /**
+   * Record the credential a user's new work should use. If it replaces a different
+   * credential no other user in the workspace holds, that client is dropped.
+   */
+  assign(workspaceId: string, userId: string, provider: CloudProvider, id: string): void {
+    const userKey = this.userKey(workspaceId, userId, provider)
+    const previous = this.userCredentials.get(userKey)
+    this.userCredentials.set(userKey, id)
+
+    const stillHeld = Array.from(this.userCredentials.entries())
+      .some(([key, value]) => value === previous && key.startsWith(`${workspaceId}/${provider}/`))
+    if (previous && previous !== id && !stillHeld) {
+      console.log(`[ProviderRegistry] ${provider} credential changed in workspace ${workspaceId}; dropping ${previous}`)
+      this.entries.delete(this.entryKey(workspaceId, provider, previous))
+    }
+  }
+
+  /**
+   * Client for new work by a user: their own credential while cached, otherwise the default
+   */
+  forUser(workspaceId: string, userId: string, provider: CloudProvider): ResolvedProvider | null {
+    const id = this.userCredentials.get(this.userKey(workspaceId, userId, provider))
+    const instance = id ? this.get(workspaceId, provider, id) : null
+    if (id && instance) {
+      return { instance, credential_id: id }
+    }
+
+    const fallback = this.defaults.get(provider)
+    return fallback ? { instance: fallback, credential_id: ENVIRONMENT_CREDENTIAL_ID } : null
+  }
+
+  /**
+   * Whether the user's own credential is cached, so it need not be fetched again
+   */
+  hasUserCredential(workspaceId: string, userId: string, provider: CloudProvider): boolean {
+    const id = this.userCredentials.get(this.userKey(workspaceId, userId, provider))
+    return !!id && !!this.get(workspaceId, provider, id)
+  }
+
+  /**
+   * Client for a known credential, or null once it has expired or been invalidated
+   */
+  get(workspaceId: string, provider: CloudProvider, id: string): CloudProviderInterface | null {
+    if (id === ENVIRONMENT_CREDENTIAL_ID) {
+      return this.getDefault(provider)
+    }
+
+    const key = this.entryKey(workspaceId, provider, id)
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return null
+    }
+    if (entry.expires_at <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry.instance
+  }
+
+  /**
+   * Drop cached clients for a workspace - all of them, one provider's, or one
+   * credential's - so the next call loads credentials afresh. Returns how many were dropped.
+   */
+  invalidate(workspaceId: string, provider?: CloudProvider, id?: string): number {
+    const matches = (key: string, keyId: string) => {
+      const [keyWorkspace, keyProvider] = key.split('/')
+      return keyWorkspace === workspaceId && (!provider || keyProvider === provider) && (!id || keyId === id)
+    }
+
+    let dropped = 0
+    for (const key of Array.from(this.entries.keys())) {
+      if (matches(key, key.split('/')[2])) {
+        this.entries.delete(key)
+        dropped++
+      }
+    }
+    for (const [key, value] of Array.from(this.userCredentials.entries())) {
+      if (matches(key, value)) {
+        this.userCredentials.delete(key)
+      }
+    }
+    return dropped
+  }
+
+  /**
+   * Providers with a default client or at least one cached workspace client
+   */
+  providerNames(): CloudProvider[] {
+    const names = new Set<CloudProvider>(this.defaults.keys())
+    for (const key of this.entries.keys()) {
+      names.add(key.split('/')[1] as CloudProvider)
+    }
+    return Array.from(names)
+  }
+
+  private entryKey(workspaceId: string, provider: CloudProvider, id: string): string {
+    return `${workspaceId}/${provider}/${id}`
+  }
+
+  private userKey(workspaceId: string, userId: string, provider: CloudProvider): string {
+    return `${workspaceId}/${provider}/${userId}`
+  }
+}
+
+/**
+ * Register default providers from the environment: the offline fake when
+ * ATLAS_PROVIDER_MODE=fake, otherwise DIGITALOCEAN_API_TOKEN, the AWS keys,
+ * GCP_SERVICE_ACCOUNT_KEY, the AZURE_* service principal, LINODE_API_TOKEN and
+ * VULTR_API_KEY if set
+ */
+export function registerEnvironmentProviders(registry: ProviderRegistry, env: NodeJS.ProcessEnv = process.env): void {
+  if (env.ATLAS_PROVIDER_MODE === 'fake') {
+    console.log('ATLAS_PROVIDER_MODE=fake - using the offline fake DigitalOcean provider')
+    registry.setDefault('digitalocean', getFakeCloudProvider())
+    return
+  }
+
+  const digitalocean = createCloudProvider('digitalocean', { digitalocean_api_token: env.DIGITALOCEAN_API_TOKEN })
+  if (digitalocean) {
+    console.log('Using DigitalOcean token from environment variable for fallback')
+    registry.setDefault('digitalocean', digitalocean)
+  } else {
+    console.log('No environment DigitalOcean token - will use user credentials from Context Manager')
+  }
+
+  const aws = createCloudProvider('aws', {
+    aws_access_key_id: env.AWS_ACCESS_KEY_ID,
+    aws_secret_access_key: env.AWS_SECRET_ACCESS_KEY
+  })
+  if (aws) {
+    console.log('Using AWS access key from environment variables for fallback')
+    registry.setDefault('aws', aws)
+  }
+
+  try {
+    const gcp = createCloudProvider('gcp', { gcp_service_account_key: env.GCP_SERVICE_ACCOUNT_KEY })
+    if (gcp) {
+      console.log('Using GCP service account key from environment variable for fallback')
+      registry.setDefault('gcp', gcp)
+    }
+  } catch (error) {
+    console.warn(`Ignoring GCP_SERVICE_ACCOUNT_KEY: ${(error as Error).message}`)
+  }
+
+  const azure = createCloudProvider('azure', {
+    azure_subscription_id: env.AZURE_SUBSCRIPTION_ID,
+    azure_tenant_id: env.AZURE_TENANT_ID,
+    azure_client_id: env.AZURE_CLIENT_ID,
+    azure_client_secret: env.AZURE_CLIENT_SECRET
+  })
+  if (azure) {
+    console.log('Using Azure service principal from environment variables for fallback')
+    registry.setDefault('azure', azure)
+  }
+
+  const linode = createCloudProvider('linode', { linode_api_token: env.LINODE_API_TOKEN })
+  if (linode) {
+    console.log('Using Linode token from environment variable for fallback')
+    registry.setDefault('linode', linode)
+  }
+
+  const vultr = createCloudProvider('vultr', { vultr_api_key: env.VULTR_API_KEY })
+  if (vultr) {
+    console.log('Using Vultr API key from environment variable for fallback')
+    registry.setDefault('vultr', vultr)
+  }
+}
+
+// Shared registry so the REST controller and the MCP server reuse the same clients
+let sharedRegistry: ProviderRegistry | null = null
+
+export function getProviderRegistry(): ProviderRegistry {
+  if (!sharedRegistry) {
+    sharedRegistry = new ProviderRegistry()
+    registerEnvironmentProviders(sharedRegistry)
+  }
+  return sharedRegistry
+}
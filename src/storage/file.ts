@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  Infrastructure,
+  DeploymentOperation,
+  InfrastructurePlan,
+  IdempotencyRecord
+} from '../types'
+import { InMemoryInfrastructureRepository } from './memory'
+import { createLogger } from '../utils/Logger'
+
+const logger = createLogger('atlas-storage')
+
+// On-disk layout of the state file
+export interface StoredState {
+  schema_version: number
+  infrastructures: Record<string, Infrastructure>
+  operations: Record<string, DeploymentOperation>
+  plans: Record<string, InfrastructurePlan>
+  idempotency_records: Record<string, IdempotencyRecord>
+  [collection: string]: any
+}
+
+export interface StateMigration {
+  version: number
+  description: string
+  up(state: StoredState): void
+}
+
+// Ordered schema migrations - append new entries, never edit applied ones
+export const STATE_MIGRATIONS: StateMigration[] = [
+  {
+    version: 1,
+    description: 'Create infrastructure and operation collections',
+    up: state => {
+      state.infrastructures = state.infrastructures || {}
+      state.operations = state.operations || {}
+    }
+  },
+  {
+    version: 2,
+    description: 'Create plan collection',
+    up: state => {
+      state.plans = state.plans || {}
+    }
+  },
+  {
+    version: 3,
+    description: 'Create idempotency key collection',
+    up: state => {
+      state.idempotency_records = state.idempotency_records || {}
+    }
+  }
+]
+
+export const CURRENT_SCHEMA_VERSION = STATE_MIGRATIONS[STATE_MIGRATIONS.length - 1].version
+
+/**
+ * Apply any pending migrations to a loaded state object
+ */
+export function migrateState(state: StoredState): StoredState {
+  for (const migration of STATE_MIGRATIONS) {
+    if (migration.version > (state.schema_version || 0)) {
+      logger.info(`Applying migration ${migration.version}: ${migration.description}`, undefined, { operation: 'migrate' })
+      migration.up(state)
+      state.schema_version = migration.version
+    }
+  }
+
+  return state
+}
+
+/**
+ * File-backed repository.
+ * Keeps the working set in memory and writes the full state to a JSON file
+ * after every change (write to temp file, then rename). Rewriting the whole file
+ * on each save is accepted at this scale (one service instance, hundreds of
+ * records); a larger deployment should use a database-backed repository.
+ */
+export class FileInfrastructureRepository extends InMemoryInfrastructureRepository {
+  private filePath: string
+  private loading?: Promise<void>
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load()
+    }
+    return this.loading
+  }
+
+  async saveInfrastructure(infrastructure: Infrastructure): Promise<void> {
+    await this.initialize()
+    await super.saveInfrastructure(infrastructure)
+    await this.flush()
+  }
+
+  async getInfrastructure(id: string): Promise<Infrastructure | null> {
+    await this.initialize()
+    return super.getInfrastructure(id)
+  }
+
+  async listInfrastructureByWorkspace(workspaceId: string): Promise<Infrastructure[]> {
+    await this.initialize()
+    return super.listInfrastructureByWorkspace(workspaceId)
+  }
+
+  async listAllInfrastructure(): Promise<Infrastructure[]> {
+    await this.initialize()
+    return super.listAllInfrastructure()
+  }
+
+  async saveOperation(operation: DeploymentOperation): Promise<void> {
+    await this.initialize()
+    await super.saveOperation(operation)
+    await this.flush()
+  }
+
+  async getOperation(id: string): Promise<DeploymentOperation | null> {
+    await this.initialize()
+    return super.getOperation(id)
+  }
+
+  async listOperationsByInfrastructure(infrastructureId: string): Promise<DeploymentOperation[]> {
+    await this.initialize()
+    return super.listOperationsByInfrastructure(infrastructureId)
+  }
+
+  async listOperationsByStatus(statuses: DeploymentOperation['status'][]): Promise<DeploymentOperation[]> {
+    await this.initialize()
+    return super.listOperationsByStatus(statuses)
+  }
+
+  async savePlan(plan: InfrastructurePlan): Promise<void> {
+    await this.initialize()
+    await super.savePlan(plan)
+    await this.flush()
+  }
+
+  async getPlan(id: string): Promise<InfrastructurePlan | null> {
+    await this.initialize()
+    return super.getPlan(id)
+  }
+
+  async claimIdempotencyKey(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    await this.initialize()
+    const existing = await super.claimIdempotencyKey(record)
+    if (!existing) {
+      await this.flush()
+    }
+    return existing
+  }
+
+  async saveIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    await this.initialize()
+    await super.saveIdempotencyRecord(record)
+    await this.flush()
+  }
+
+  async deleteIdempotencyRecord(id: string): Promise<void> {
+    await this.initialize()
+    await super.deleteIdempotencyRecord(id)
+    await this.flush()
+  }
+
+  private async load(): Promise<void> {
+    let state: StoredState = {
+      schema_version: 0,
+      infrastructures: {},
+      operations: {},
+      plans: {},
+      idempotency_records: {}
+    }
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8')
+      state = JSON.parse(raw)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+      logger.info(`No state file at ${this.filePath} - starting empty`, undefined, { operation: 'load' })
+    }
+
+    const previousVersion = state.schema_version || 0
+    migrateState(state)
+    this.applyState(state)
+
+    if (state.schema_version !== previousVersion) {
+      await this.flush()
+    }
+  }
+
+  /**
+   * Populate the in-memory working set from a migrated state object
+   */
+  protected applyState(state: StoredState) {
+    for (const infrastructure of Object.values(state.infrastructures)) {
+      void super.saveInfrastructure(infrastructure)
+    }
+    for (const operation of Object.values(state.operations)) {
+      void super.saveOperation(operation)
+    }
+    for (const plan of Object.values(state.plans)) {
+      void super.savePlan(plan)
+    }
+    // Expired keys are dropped on load
+    for (const record of Object.values(state.idempotency_records)) {
+      if (new Date(record.expires_at).getTime() > Date.now()) {
+        void super.saveIdempotencyRecord(record)
+      }
+    }
+  }
+
+  protected buildState(): StoredState {
+    return {
+      schema_version: CURRENT_SCHEMA_VERSION,
+      infrastructures: Object.fromEntries(this.infrastructures),
+      operations: Object.fromEntries(this.operations),
+      plans: Object.fromEntries(this.plans),
+      idempotency_records: Object.fromEntries(this.idempotencyRecords)
+    }
+  }
+
+  /**
+   * Serialize writes so concurrent saves never interleave on disk
+   */
+  protected flush(): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        await fs.writeFile(tempPath, JSON.stringify(this.buildState(), null, 2), 'utf8')
+        await fs.rename(tempPath, this.filePath)
+      })
+
+    return this.writeQueue
+  }
+}
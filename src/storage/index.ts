@@ -0,0 +1,40 @@
+import path from 'path'
+import { InfrastructureRepository } from '../types'
+import { InMemoryInfrastructureRepository } from './memory'
+import { FileInfrastructureRepository } from './file'
+
+export { InMemoryInfrastructureRepository } from './memory'
+export { FileInfrastructureRepository, STATE_MIGRATIONS, migrateState } from './file'
+
+export type StorageDriver = 'memory' | 'file'
+
+/**
+ * Create a repository for the configured storage driver.
+ * ATLAS_STORAGE_DRIVER selects 'memory' or 'file' (default 'file', 'memory' under test);
+ * ATLAS_DATA_DIR sets where the file driver keeps its state.
+ */
+export function createInfrastructureRepository(
+  driver: StorageDriver = (process.env.ATLAS_STORAGE_DRIVER as StorageDriver) ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file')
+): InfrastructureRepository {
+  switch (driver) {
+    case 'memory':
+      return new InMemoryInfrastructureRepository()
+    case 'file': {
+      const dataDir = process.env.ATLAS_DATA_DIR || path.join(process.cwd(), 'data')
+      return new FileInfrastructureRepository(path.join(dataDir, 'atlas-state.json'))
+    }
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`)
+  }
+}
+
+// Shared repository so the REST controller and the MCP server see the same state
+let sharedRepository: InfrastructureRepository | null = null
+
+export function getInfrastructureRepository(): InfrastructureRepository {
+  if (!sharedRepository) {
+    sharedRepository = createInfrastructureRepository()
+  }
+  return sharedRepository
+}
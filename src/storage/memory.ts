@@ -0,0 +1,97 @@
+import {
+  Infrastructure,
+  DeploymentOperation,
+  InfrastructurePlan,
+  IdempotencyRecord,
+  InfrastructureRepository
+} from '../types'
+
+/**
+ * In-memory repository - state is lost on restart.
+ * Used by the test suite and for local experiments.
+ */
+export class InMemoryInfrastructureRepository implements InfrastructureRepository {
+  protected infrastructures: Map<string, Infrastructure> = new Map()
+  protected operations: Map<string, DeploymentOperation> = new Map()
+  protected plans: Map<string, InfrastructurePlan> = new Map()
+  protected idempotencyRecords: Map<string, IdempotencyRecord> = new Map()
+
+  // Workspace index: workspace_id -> infrastructure IDs
+  protected workspaceIndex: Map<string, Set<string>> = new Map()
+
+  async initialize(): Promise<void> {
+    // Nothing to load
+  }
+
+  async saveInfrastructure(infrastructure: Infrastructure): Promise<void> {
+    this.infrastructures.set(infrastructure.id, infrastructure)
+
+    const ids = this.workspaceIndex.get(infrastructure.workspace_id) || new Set<string>()
+    ids.add(infrastructure.id)
+    this.workspaceIndex.set(infrastructure.workspace_id, ids)
+  }
+
+  async getInfrastructure(id: string): Promise<Infrastructure | null> {
+    return this.infrastructures.get(id) || null
+  }
+
+  async listInfrastructureByWorkspace(workspaceId: string): Promise<Infrastructure[]> {
+    const ids = this.workspaceIndex.get(workspaceId) || new Set<string>()
+
+    return Array.from(ids)
+      .map(id => this.infrastructures.get(id))
+      .filter((infra): infra is Infrastructure => !!infra)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+  }
+
+  async listAllInfrastructure(): Promise<Infrastructure[]> {
+    return Array.from(this.infrastructures.values())
+  }
+
+  async saveOperation(operation: DeploymentOperation): Promise<void> {
+    this.operations.set(operation.id, operation)
+  }
+
+  async getOperation(id: string): Promise<DeploymentOperation | null> {
+    return this.operations.get(id) || null
+  }
+
+  async listOperationsByInfrastructure(infrastructureId: string): Promise<DeploymentOperation[]> {
+    return Array.from(this.operations.values())
+      .filter(op => op.infrastructure_id === infrastructureId)
+      .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())
+  }
+
+  async listOperationsByStatus(statuses: DeploymentOperation['status'][]): Promise<DeploymentOperation[]> {
+    return Array.from(this.operations.values())
+      .filter(op => statuses.includes(op.status))
+      .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+  }
+
+  async savePlan(plan: InfrastructurePlan): Promise<void> {
+    this.plans.set(plan.id, plan)
+  }
+
+  async getPlan(id: string): Promise<InfrastructurePlan | null> {
+    return this.plans.get(id) || null
+  }
+
+  async claimIdempotencyKey(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    // Check and set without awaiting so concurrent claims cannot both succeed
+    const existing = this.idempotencyRecords.get(record.id)
+    if (existing && new Date(existing.expires_at).getTime() > Date.now()) {
+      return existing
+    }
+
+    this.idempotencyRecords.set(record.id, record)
+    return null
+  }
+
+  async saveIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    this.idempotencyRecords.set(record.id, record)
+  }
+
+  async deleteIdempotencyRecord(id: string): Promise<void> {
+    this.idempotencyRecords.delete(id)
+  }
+}
@@ -0,0 +1,193 @@
+import { AddressInfo } from 'net'
+import { FastifyInstance } from 'fastify'
+import { AWSProvider, flattenQueryParams, parseAwsProviderId } from '../providers/aws'
+import { buildFakeAwsApi } from '../providers/fake-aws-api'
+import { createCloudProvider } from '../providers'
+import { signRequest } from '../utils/AwsSignature'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('AWS request helpers', () => {
+  it('should sign requests like the AWS SigV4 test suite', () => {
+    const headers = signRequest(
+      {
+        method: 'GET',
+        url: 'https://iam.amazonaws.com/?Action=ListUsers&Version=2010-05-08',
+        headers: { 'content-type': 'application/x-www-form-urlencoded; charset=utf-8' }
+      },
+      { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' },
+      'us-east-1',
+      'iam',
+      new Date('2015-08-30T12:36:00Z')
+    )
+
+    expect(headers.authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/iam/aws4_request, ' +
+      'SignedHeaders=content-type;host;x-amz-date, ' +
+      'Signature=5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7'
+    )
+  })
+
+  it('should flatten nested params into Query API form', () => {
+    expect(flattenQueryParams({
+      InstanceId: ['i-1', 'i-2'],
+      TagSpecification: [{ ResourceType: 'instance', Tag: [{ Key: 'Name', Value: 'web' }] }],
+      KeyName: undefined
+    })).toEqual({
+      'InstanceId.1': 'i-1',
+      'InstanceId.2': 'i-2',
+      'TagSpecification.1.ResourceType': 'instance',
+      'TagSpecification.1.Tag.1.Key': 'Name',
+      'TagSpecification.1.Tag.1.Value': 'web'
+    })
+  })
+
+  it('should keep the region in provider IDs', () => {
+    expect(parseAwsProviderId('eu-west-1/i-0abc')).toEqual({ region: 'eu-west-1', id: 'i-0abc' })
+    expect(parseAwsProviderId('i-0abc', 'us-east-2')).toEqual({ region: 'us-east-2', id: 'i-0abc' })
+    expect(parseAwsProviderId('us-east-1/arn:aws:elasticloadbalancing:us-east-1:1:loadbalancer/app/web/1'))
+      .toEqual({ region: 'us-east-1', id: 'arn:aws:elasticloadbalancing:us-east-1:1:loadbalancer/app/web/1' })
+  })
+
+  it('should only build a provider from a complete key pair', () => {
+    expect(createCloudProvider('aws', { aws_access_key_id: 'AKID' })).toBeNull()
+    expect(createCloudProvider('aws', { aws_access_key_id: 'AKID', aws_secret_access_key: 'secret' })).toBeInstanceOf(AWSProvider)
+  })
+
+  it('should estimate costs from the pricing table', async () => {
+    const provider = new AWSProvider({ accessKeyId: 'AKID', secretAccessKey: 'secret' })
+
+    expect(await provider.estimateCost({ size: 't3.small' })).toBeCloseTo(0.0208 * 24 * 30)
+    expect(await provider.estimateCost({ size_gigabytes: 100 })).toBeCloseTo(8)
+    expect(await provider.estimateCost({ size: 'db.t3.micro', size_gigabytes: 20, num_nodes: 2 }))
+      .toBeCloseTo(0.018 * 2 * 24 * 30 + 20 * 0.115)
+  })
+})
+
+describe('AWSProvider against the fake AWS API', () => {
+  let api: FastifyInstance
+  let provider: AWSProvider
+  const saved = { ...process.env }
+
+  beforeAll(async () => {
+    api = buildFakeAwsApi({ transitionMs: 20 })
+    await api.listen({ port: 0, host: '127.0.0.1' })
+
+    process.env.AWS_ENDPOINT_URL = `http://127.0.0.1:${(api.server.address() as AddressInfo).port}`
+    process.env.ATLAS_PROVIDER_PAGE_SIZE = '1'
+    provider = new AWSProvider({ accessKeyId: 'AKIDFAKE', secretAccessKey: 'fake-secret' }, 'us-east-1')
+  })
+
+  afterAll(async () => {
+    process.env = saved
+    await api.close()
+  })
+
+  it('should authenticate with a signed request', async () => {
+    expect(await provider.authenticate({})).toBe(true)
+  })
+
+  it('should launch an instance from the newest Ubuntu image and list it by tag', async () => {
+    const web = await provider.createResource('droplet', { name: 'web', size: 't3.small', region: 'us-east-1', tags: { env: 'test' } })
+    await provider.createResource('droplet', { name: 'worker', region: 'us-east-1' })
+
+    expect(web).toMatchObject({ status: 'creating', provider_id: 'us-east-1/i-00000000000000001' })
+    expect(web.hourly_cost).toBe(0.0208)
+
+    await sleep(25)
+    expect(await provider.getResource(web.provider_id!)).toMatchObject({
+      status: 'active',
+      name: 'web',
+      public_ip: expect.stringMatching(/^198\.51\.100\./),
+      specifications: { size: 't3.small', image: 'ami-0000000000000a002', tags: { env: 'test' } }
+    })
+
+    const listed = await provider.listResources({ tag_name: 'env:test' })
+    expect(listed.map(resource => resource.name)).toEqual(['web'])
+    expect((await provider.listResources()).filter(resource => resource.type === 'droplet')).toHaveLength(2)
+  })
+
+  it('should resize an instance by stopping it and update its tags', async () => {
+    const steps: string[] = []
+    const updated = await provider.updateResource('us-east-1/i-00000000000000001', { size: 't3.medium', tags: { env: 'prod' } }, {
+      type: 'droplet',
+      current: { size: 't3.small', tags: { env: 'test' } },
+      onStep: step => { steps.push(step) }
+    })
+
+    expect(steps).toEqual(['Stop instance', 'Change instance type to t3.medium', 'Start instance', 'Set tags env'])
+    expect(updated.specifications).toMatchObject({ size: 't3.medium', tags: { env: 'prod' } })
+    await expect(provider.updateResource('us-east-1/i-00000000000000001', { image: 'ami-1' }, { type: 'droplet' }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_UPDATE' })
+  })
+
+  it('should attach a volume in the instance zone and detach it before deleting', async () => {
+    const volume = await provider.createResource('volume', {
+      name: 'data',
+      size_gigabytes: 50,
+      droplet_id: 'us-east-1/i-00000000000000001'
+    })
+    expect(await provider.getResource(volume.provider_id!, 'volume')).toMatchObject({
+      specifications: { size_gigabytes: 50, availability_zone: 'us-east-1a' }
+    })
+
+    await provider.deleteResource(volume.provider_id!, 'volume')
+    expect(await provider.getResource(volume.provider_id!, 'volume')).toBeNull()
+    await expect(provider.deleteResource(volume.provider_id!, 'volume')).resolves.toBeUndefined()
+  })
+
+  it('should build a VPC, security group and load balancer and tear them down', async () => {
+    const vpc = await provider.createResource('vpc', { name: 'net', ip_range: '10.1.0.0/16' })
+    const firewall = await provider.createResource('firewall', {
+      name: 'web-sg',
+      vpc_uuid: vpc.provider_id,
+      droplet_ids: ['us-east-1/i-00000000000000001']
+    })
+    const loadBalancer = await provider.createResource('load_balancer', {
+      name: 'web-lb',
+      vpc_uuid: vpc.provider_id,
+      droplet_ids: ['us-east-1/i-00000000000000001'],
+      forwarding_rules: [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 8080 }]
+    })
+
+    expect(await provider.getResource(vpc.provider_id!, 'vpc')).toMatchObject({ status: 'active', name: 'net' })
+    await sleep(25)
+    expect(await provider.getResource(loadBalancer.provider_id!, 'load_balancer')).toMatchObject({
+      status: 'active',
+      specifications: { dns_name: 'web-lb.us-east-1.elb.amazonaws.com' }
+    })
+
+    await provider.deleteResource(loadBalancer.provider_id!, 'load_balancer')
+    await provider.deleteResource('us-east-1/i-00000000000000001', 'droplet')
+    await provider.deleteResource(firewall.provider_id!, 'firewall')
+    await provider.deleteResource(vpc.provider_id!, 'vpc')
+
+    expect(await provider.getResource(loadBalancer.provider_id!, 'load_balancer')).toBeNull()
+    expect(await provider.getResource('us-east-1/i-00000000000000001')).toBeNull()
+    expect(await provider.getResource(firewall.provider_id!, 'firewall')).toBeNull()
+    expect(await provider.getResource(vpc.provider_id!, 'vpc')).toBeNull()
+  })
+
+  it('should create and delete an RDS database', async () => {
+    const database = await provider.createResource('database', { name: 'app-db', engine: 'postgresql', size: 'db.t3.small' })
+    expect(database.provider_id).toBe('us-east-1/app-db')
+
+    await sleep(25)
+    expect(await provider.getResource(database.provider_id!, 'database')).toMatchObject({
+      status: 'active',
+      specifications: { engine: 'postgres', size: 'db.t3.small', host: 'app-db.fake.us-east-1.rds.amazonaws.com', port: 5432 }
+    })
+
+    await provider.deleteResource(database.provider_id!, 'database')
+    await sleep(25)
+    expect(await provider.getResource(database.provider_id!, 'database')).toBeNull()
+
+    await expect(provider.createResource('database', { name: 'cache', engine: 'redis' })).rejects.toThrow('not supported on RDS')
+  })
+
+  it('should report AWS error codes', async () => {
+    await expect(provider.createResource('firewall', { name: 'web-sg' })).resolves.toBeDefined()
+    await expect(provider.createResource('firewall', { name: 'web-sg' }))
+      .rejects.toThrow('AWS API Error: InvalidGroup.Duplicate')
+  })
+})
@@ -0,0 +1,224 @@
+import { AzureProvider, azureName, azureResourceGroupName, parseAzureResourceId } from '../providers/azure'
+import { createCloudProvider } from '../providers'
+import { AzureTokenSource } from '../utils/AzureCredentials'
+import { AtlasError, ProviderError } from '../types'
+
+const credentials = { tenantId: 'tenant-1', clientId: 'client-1', clientSecret: 'secret' }
+const GROUP = '/resourceGroups/atlas-infra-1'
+const NETWORK = `${GROUP}/providers/Microsoft.Network`
+
+// Stand-in for the axios client: records calls (relative to the subscription) and answers from a route table
+function stubClient(routes: Record<string, any>) {
+  const calls: { call: string, body?: any }[] = []
+  const handle = (method: string) => jest.fn(async (url: string, body?: any) => {
+    const path = url.replace(/^(https:\/\/[^/]+)?\/subscriptions\/sub/, '')
+    calls.push({ call: `${method} ${path}`, body: method === 'GET' || method === 'DELETE' ? undefined : body })
+    const route = routes[`${method} ${path}`] ?? routes[method] ?? {}
+    if (route instanceof Error) throw route
+    return route.headers ? route : { status: 200, headers: {}, data: route }
+  })
+
+  return {
+    calls,
+    client: { get: handle('GET'), put: handle('PUT'), patch: handle('PATCH'), post: handle('POST'), delete: handle('DELETE') }
+  }
+}
+
+describe('Azure client-credential auth', () => {
+  it('should reuse an access token until it nears expiry', async () => {
+    const http = { post: jest.fn(async () => ({ data: { access_token: 'token-1', expires_in: 3599 } })) }
+    const tokens = new AzureTokenSource(credentials, undefined, http as any)
+
+    expect(await Promise.all([tokens.getAccessToken(), tokens.getAccessToken()])).toEqual(['token-1', 'token-1'])
+    expect(await tokens.getAccessToken()).toBe('token-1')
+    expect(http.post).toHaveBeenCalledTimes(1)
+
+    const [url, body] = http.post.mock.calls[0] as any[]
+    expect(url).toBe('https://login.microsoftonline.com/tenant-1/oauth2/v2.0/token')
+    expect(body).toContain('grant_type=client_credentials')
+    expect(body).toContain('scope=https%3A%2F%2Fmanagement.azure.com%2F.default')
+  })
+
+  it('should report rejected credentials as a provider error', async () => {
+    const http = { post: jest.fn(async () => { throw { response: { status: 401, data: { error: 'invalid_client' } } } }) }
+    const tokens = new AzureTokenSource(credentials, undefined, http as any)
+
+    await expect(tokens.getAccessToken()).rejects.toThrow(new ProviderError('Azure token request failed for client client-1: invalid_client', 'azure'))
+  })
+
+  it('should need all four credentials', () => {
+    const full = { azure_subscription_id: 'sub', azure_tenant_id: 't', azure_client_id: 'c', azure_client_secret: 's' }
+    expect(createCloudProvider('azure', full)).toBeInstanceOf(AzureProvider)
+    expect(createCloudProvider('azure', { ...full, azure_client_secret: undefined })).toBeNull()
+  })
+})
+
+describe('AzureProvider', () => {
+  let provider: AzureProvider
+
+  beforeEach(() => {
+    provider = new AzureProvider('sub', credentials, 'eastus')
+  })
+
+  it('should name resource groups and parse resource IDs', () => {
+    expect(azureResourceGroupName('infra-1')).toBe('atlas-infra-1')
+    expect(azureResourceGroupName(undefined, {})).toBe('atlas')
+    expect(parseAzureResourceId(`/subscriptions/sub${NETWORK}/loadBalancers/web-lb`)).toEqual({
+      subscriptionId: 'sub', resourceGroup: 'atlas-infra-1', name: 'web-lb'
+    })
+    expect(azureName('my app/server-')).toBe('my-app-server')
+  })
+
+  it('should create a VM with its own public IP and NIC in the infrastructure resource group', async () => {
+    const { client, calls } = stubClient({})
+    ;(provider as any).client = client
+
+    const created = await provider.createResource('droplet', {
+      name: 'web',
+      size: 'Standard_B2s',
+      ssh_keys: ['ssh-ed25519 AAAA user@host', '12345'],
+      tags: { atlas_operation: 'op-1' }
+    }, { infrastructure_id: 'infra-1' })
+
+    expect(calls.map(({ call }) => call)).toEqual([
+      `PUT ${GROUP}`,
+      `PUT ${NETWORK}/virtualNetworks/atlas-vnet`,
+      `PUT ${NETWORK}/publicIPAddresses/web-ip`,
+      `PUT ${NETWORK}/networkInterfaces/web-nic`,
+      `PUT ${GROUP}/providers/Microsoft.Compute/virtualMachines/web`
+    ])
+    expect(calls[3].body.properties.ipConfigurations[0].properties.subnet.id).toBe(`/subscriptions/sub${NETWORK}/virtualNetworks/atlas-vnet/subnets/default`)
+    expect(calls[4].body).toMatchObject({
+      location: 'eastus',
+      tags: { atlas_operation: 'op-1' },
+      properties: {
+        hardwareProfile: { vmSize: 'Standard_B2s' },
+        osProfile: { linuxConfiguration: { ssh: { publicKeys: [{ keyData: 'ssh-ed25519 AAAA user@host' }] } } }
+      }
+    })
+    expect(created.provider_id).toBe(`/subscriptions/sub${GROUP}/providers/Microsoft.Compute/virtualMachines/web`)
+    expect(created.hourly_cost).toBeCloseTo(0.0466)
+
+    // The resource group and network are only created once
+    await provider.createResource('droplet', { name: 'web-2', ssh_keys: ['ssh-rsa AAAA'] }, { infrastructure_id: 'infra-1' })
+    expect(calls.filter(({ call }) => call === `PUT ${GROUP}` || call.endsWith('atlas-vnet'))).toHaveLength(2)
+    await expect(provider.createResource('droplet', { name: 'nokey' })).rejects.toThrow('need an SSH public key')
+  })
+
+  it('should poll long-running operations until they finish', async () => {
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => { callback(); return 0 }) as any)
+    const { client, calls } = stubClient({
+      [`DELETE ${NETWORK}/virtualNetworks/net`]: {
+        status: 202, headers: { 'azure-asyncoperation': 'https://management.azure.com/subscriptions/sub/operations/op-1' }, data: {}
+      },
+      'GET /operations/op-1': { status: 'Succeeded' },
+      [`DELETE ${NETWORK}/virtualNetworks/failing`]: {
+        status: 202, headers: { 'azure-asyncoperation': 'https://management.azure.com/subscriptions/sub/operations/op-2' }, data: {}
+      },
+      'GET /operations/op-2': { status: 'Failed', error: { message: 'InUseSubnetCannotBeDeleted' } }
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource(`/subscriptions/sub${NETWORK}/virtualNetworks/net`, 'vpc')
+    expect(calls.map(({ call }) => call)).toEqual([`DELETE ${NETWORK}/virtualNetworks/net`, 'GET /operations/op-1'])
+    await expect(provider.deleteResource(`/subscriptions/sub${NETWORK}/virtualNetworks/failing`, 'vpc'))
+      .rejects.toThrow('Azure API Error: InUseSubnetCannotBeDeleted')
+    jest.restoreAllMocks()
+  })
+
+  it('should translate firewall rules into NSG rules and attach them to VM NICs', async () => {
+    const vmId = `/subscriptions/sub${GROUP}/providers/Microsoft.Compute/virtualMachines/web`
+    const nicId = `/subscriptions/sub${NETWORK}/networkInterfaces/web-nic`
+    const { client, calls } = stubClient({
+      [`GET ${GROUP}/providers/Microsoft.Compute/virtualMachines/web`]: { properties: { networkProfile: { networkInterfaces: [{ id: nicId }] } } },
+      [`GET ${NETWORK}/networkInterfaces/web-nic`]: { id: nicId, properties: { ipConfigurations: [{ properties: {} }] } }
+    })
+    ;(provider as any).client = client
+
+    await provider.createResource('firewall', {
+      name: 'web-fw',
+      inbound_rules: [
+        { protocol: 'tcp', ports: '443', sources: { addresses: ['0.0.0.0/0', '::/0'] } },
+        { protocol: 'tcp', ports: '5432', sources: { addresses: ['10.0.0.0/8'] } }
+      ],
+      outbound_rules: [{ protocol: 'icmp', destinations: { addresses: ['0.0.0.0/0'] } }],
+      droplet_ids: [vmId]
+    }, { infrastructure_id: 'infra-1' })
+
+    const nsg = calls.find(({ call }) => call === `PUT ${NETWORK}/networkSecurityGroups/web-fw`)!
+    expect(nsg.body.properties.securityRules.map((rule: any) => rule.properties)).toEqual([
+      expect.objectContaining({ priority: 100, direction: 'Inbound', protocol: 'Tcp', destinationPortRange: '443', sourceAddressPrefix: '*' }),
+      expect.objectContaining({ priority: 101, direction: 'Inbound', destinationPortRange: '5432', sourceAddressPrefixes: ['10.0.0.0/8'] }),
+      expect.objectContaining({ priority: 100, direction: 'Outbound', protocol: 'Icmp', destinationPortRange: '*', destinationAddressPrefix: '*' })
+    ])
+    const nic = calls.find(({ call }) => call === `PUT ${NETWORK}/networkInterfaces/web-nic`)!
+    expect(nic.body.properties.networkSecurityGroup).toEqual({ id: `/subscriptions/sub${NETWORK}/networkSecurityGroups/web-fw` })
+  })
+
+  it('should resize a VM in place and reject fields it cannot change', async () => {
+    const vmPath = `${GROUP}/providers/Microsoft.Compute/virtualMachines/web`
+    const { client, calls } = stubClient({
+      [`GET ${vmPath}`]: { name: 'web', location: 'eastus', properties: { provisioningState: 'Succeeded', hardwareProfile: { vmSize: 'Standard_D2s_v5' } } }
+    })
+    ;(provider as any).client = client
+    const steps: string[] = []
+
+    const updated = await provider.updateResource(`/subscriptions/sub${vmPath}`, { size: 'Standard_D2s_v5' }, {
+      type: 'droplet',
+      current: { size: 'Standard_B2s' },
+      onStep: step => { steps.push(step) }
+    })
+
+    expect(steps).toEqual(['Resize VM to Standard_D2s_v5'])
+    expect(calls[0]).toEqual({ call: `PATCH ${vmPath}`, body: { properties: { hardwareProfile: { vmSize: 'Standard_D2s_v5' } } } })
+    expect(updated).toMatchObject({ status: 'active', hourly_cost: 0.101, specifications: { size: 'Standard_D2s_v5' } })
+    await expect(provider.updateResource(`/subscriptions/sub${vmPath}`, { image: 'debian-12' }, { type: 'droplet' })).rejects.toThrow(AtlasError)
+  })
+
+  it('should detach a disk before deleting it and tolerate missing resources', async () => {
+    const diskPath = `${GROUP}/providers/Microsoft.Compute/disks/data`
+    const vmPath = `${GROUP}/providers/Microsoft.Compute/virtualMachines/web`
+    const { client, calls } = stubClient({
+      [`GET ${diskPath}`]: { name: 'data', managedBy: `/subscriptions/sub${vmPath}` },
+      [`GET ${vmPath}`]: { properties: { storageProfile: { dataDisks: [
+        { lun: 0, managedDisk: { id: `/subscriptions/sub${GROUP}/providers/Microsoft.Compute/disks/logs` } },
+        { lun: 1, managedDisk: { id: `/subscriptions/sub${diskPath}` } }
+      ] } } },
+      [`DELETE ${GROUP}/providers/Microsoft.Compute/virtualMachines/gone`]: new ProviderError('Azure API Error: ResourceNotFound', 'azure', 404),
+      [`DELETE ${NETWORK}/networkInterfaces/gone-nic`]: new ProviderError('Azure API Error: ResourceNotFound', 'azure', 404),
+      [`DELETE ${NETWORK}/publicIPAddresses/gone-ip`]: new ProviderError('Azure API Error: ResourceNotFound', 'azure', 404)
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource(`/subscriptions/sub${diskPath}`, 'volume')
+    const changes = calls.filter(({ call }) => !call.startsWith('GET'))
+    expect(changes.map(({ call }) => call)).toEqual([`PATCH ${vmPath}`, `DELETE ${diskPath}`])
+    expect(changes[0].body.properties.storageProfile.dataDisks).toEqual([
+      { lun: 0, managedDisk: { id: `/subscriptions/sub${GROUP}/providers/Microsoft.Compute/disks/logs` } }
+    ])
+    await expect(provider.deleteResource(`/subscriptions/sub${GROUP}/providers/Microsoft.Compute/virtualMachines/gone`, 'droplet')).resolves.toBeUndefined()
+  })
+
+  it('should delete the resource group only once nothing else is left in it', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const { client, calls } = stubClient({
+      [`GET ${GROUP}/resources`]: { value: [{ name: 'atlas-vnet' }] },
+      'GET /resourceGroups/atlas-infra-2/resources': { value: [{ name: 'atlas-vnet' }, { name: 'manual-vm' }] }
+    })
+    ;(provider as any).client = client
+
+    await provider.releaseInfrastructure('infra-1')
+    await provider.releaseInfrastructure('infra-2')
+
+    expect(calls.filter(({ call }) => call.startsWith('DELETE')).map(({ call }) => call)).toEqual([`DELETE ${GROUP}`])
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Keeping resource group atlas-infra-2'))
+    warn.mockRestore()
+  })
+
+  it('should estimate costs from the pricing table', async () => {
+    expect(await provider.estimateCost({ size: 'Standard_D2s_v5' })).toBeCloseTo(0.101 * 24 * 30)
+    expect(await provider.estimateCost({ size_gigabytes: 100, volume_type: 'Premium_LRS' })).toBeCloseTo(15.4)
+    expect(await provider.estimateCost({ engine: 'postgresql', size: 'Standard_B2s', size_gigabytes: 100, num_nodes: 2 }))
+      .toBeCloseTo(0.068 * 2 * 24 * 30 + 11.5)
+  })
+})
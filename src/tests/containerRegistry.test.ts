@@ -0,0 +1,64 @@
+import { InfrastructureResource, ResourceSpec, ResourceType } from '../types'
+import { createTestService, testResource } from './helpers'
+
+function registry(overrides: Partial<InfrastructureResource> = {}): InfrastructureResource {
+  return testResource({
+    id: 'res-1',
+    type: 'container_registry',
+    name: 'apps',
+    provider_id: 'apps',
+    specifications: {},
+    hourly_cost: 0,
+    monthly_cost: 0,
+    ...overrides
+  })
+}
+
+function createService() {
+  const provider = {
+    name: 'digitalocean',
+    createResource: jest.fn(async (type: ResourceType, spec: ResourceSpec) =>
+      registry({ id: `res-${spec.name}`, type, name: spec.name, provider_id: spec.name, specifications: spec })),
+    getResource: jest.fn(async (id: string) => registry({ provider_id: id })),
+    getDockerCredentials: jest.fn(async () => '{"auths":{"registry.digitalocean.com":{"auth":"c2VjcmV0"}}}'),
+    listRegistryRepositories: jest.fn(async () => [{ name: 'web', tag_count: 3, manifest_count: 4 }])
+  }
+
+  const storeDockerCredentials = jest.fn(async () => true)
+  const { service } = createTestService({ provider, context: { storeDockerCredentials } })
+  return { service, provider, storeDockerCredentials }
+}
+
+describe('Container registries', () => {
+  it('should store push credentials once the registry exists and create pulling resources after it', async () => {
+    const { service, provider, storeDockerCredentials } = createService()
+
+    const { infrastructure } = await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'apps',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [
+        { type: 'kubernetes', name: 'cluster', specifications: { registry: '${resources.apps.provider_id}' } },
+        { type: 'container_registry', name: 'apps', specifications: { tier: 'basic' } }
+      ]
+    }, 'jwt-1')
+
+    expect(infrastructure.status).toBe('active')
+    expect(provider.createResource.mock.calls.map(call => call[0])).toEqual(['container_registry', 'kubernetes'])
+    expect(provider.createResource).toHaveBeenLastCalledWith('kubernetes', expect.objectContaining({ registry: 'apps' }), expect.anything())
+    expect(provider.getDockerCredentials).toHaveBeenCalledWith('apps', { readWrite: true })
+    expect(storeDockerCredentials).toHaveBeenCalledWith('ws-1', 'user-1', 'digitalocean', 'apps', expect.stringContaining('registry.digitalocean.com'), 'jwt-1')
+
+    await expect(service.listRegistryRepositories('ws-1', infrastructure.id, 'apps')).resolves.toEqual([
+      { name: 'web', tag_count: 3, manifest_count: 4 }
+    ])
+    await expect(service.listRegistryRepositories('ws-1', infrastructure.id, 'cluster')).rejects.toThrow('not a container registry')
+
+    // Another workspace cannot see the registry or get credentials for it
+    provider.getDockerCredentials.mockClear()
+    await expect(service.getDockerCredentials('ws-2', infrastructure.id, 'apps')).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' })
+    await expect(service.listRegistryRepositories('ws-2', infrastructure.id, 'apps')).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' })
+    await expect(service.startRegistryGarbageCollection('ws-2', infrastructure.id, 'apps')).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' })
+    expect(provider.getDockerCredentials).not.toHaveBeenCalled()
+  })
+})
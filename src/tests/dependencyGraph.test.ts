@@ -0,0 +1,76 @@
+import { buildCreationLayers, buildDestructionLayers } from '../utils/DependencyGraph'
+import { CreateResourceRequest, InfrastructureResource, DependencyCycleError } from '../types'
+
+function request(name: string, dependsOn?: string[]): CreateResourceRequest {
+  return { type: 'droplet', name, specifications: {}, depends_on: dependsOn }
+}
+
+function resource(id: string, dependencies: string[] = []): InfrastructureResource {
+  return {
+    id,
+    type: 'droplet',
+    name: id,
+    specifications: {},
+    status: 'active',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    dependencies,
+    dependents: [],
+    hourly_cost: 0,
+    monthly_cost: 0
+  }
+}
+
+describe('DependencyGraph', () => {
+  describe('buildCreationLayers', () => {
+    it('should create dependencies first and group independent resources', () => {
+      const layers = buildCreationLayers([
+        request('lb', ['web-1', 'web-2']),
+        request('web-1', ['vpc']),
+        request('web-2', ['vpc']),
+        request('vpc')
+      ])
+
+      expect(layers.map(layer => layer.map(r => r.name))).toEqual([
+        ['vpc'],
+        ['web-1', 'web-2'],
+        ['lb']
+      ])
+    })
+
+    it('should reject cycles with the cycle path', () => {
+      expect(() => buildCreationLayers([
+        request('a', ['b']),
+        request('b', ['c']),
+        request('c', ['a'])
+      ])).toThrow(DependencyCycleError)
+
+      expect(() => buildCreationLayers([request('a', ['a'])]))
+        .toThrow('Dependency cycle detected: a -> a')
+    })
+
+    it('should reject unknown dependencies unless already satisfied', () => {
+      expect(() => buildCreationLayers([request('web', ['vpc'])])).toThrow('unknown resource: vpc')
+
+      const layers = buildCreationLayers([request('web', ['vpc'])], new Set(['vpc']))
+      expect(layers.map(layer => layer.map(r => r.name))).toEqual([['web']])
+    })
+  })
+
+  describe('buildDestructionLayers', () => {
+    it('should destroy dependents before their dependencies', () => {
+      const layers = buildDestructionLayers([
+        resource('vpc'),
+        resource('web', ['vpc']),
+        resource('lb', ['web'])
+      ])
+
+      expect(layers.map(layer => layer.map(r => r.id))).toEqual([['lb'], ['web'], ['vpc']])
+    })
+
+    it('should keep reverse order when no dependencies are recorded', () => {
+      const layers = buildDestructionLayers([resource('a'), resource('b')])
+      expect(layers.map(layer => layer.map(r => r.id))).toEqual([['b'], ['a']])
+    })
+  })
+})
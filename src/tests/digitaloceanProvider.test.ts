@@ -0,0 +1,311 @@
+import { DigitalOceanProvider } from '../providers/digitalocean'
+import { AtlasError, ProviderError } from '../types'
+
+// Stand-in for the axios client: records calls and answers from a route table
+function stubClient(routes: Record<string, any>) {
+  const calls: string[] = []
+  const handle = (method: string) => jest.fn(async (path: string, body?: any) => {
+    calls.push(`${method} ${path}${body?.type ? ` ${body.type}` : ''}`)
+    const data = routes[`${method} ${path}`] ?? routes[method] ?? {}
+    if (data instanceof Error) throw data
+    return { data }
+  })
+
+  return {
+    calls,
+    client: { get: handle('GET'), post: handle('POST'), put: handle('PUT'), delete: handle('DELETE') }
+  }
+}
+
+function droplet(status: string, size: string) {
+  return {
+    droplet: {
+      id: 42,
+      name: 'web',
+      status,
+      size_slug: size,
+      size: { price_hourly: 0.01786 },
+      region: { slug: 'nyc3' },
+      image: { slug: 'ubuntu-22-04-x64' },
+      networks: { v4: [] },
+      tags: [],
+      created_at: new Date().toISOString()
+    }
+  }
+}
+
+describe('DigitalOceanProvider.updateResource', () => {
+  let provider: DigitalOceanProvider
+
+  beforeEach(() => {
+    provider = new DigitalOceanProvider('test-token')
+  })
+
+  it('should power off, resize and power on a running droplet', async () => {
+    const { client, calls } = stubClient({
+      'GET /droplets/42': droplet('active', 's-2vcpu-2gb'),
+      POST: { action: { id: 1, status: 'completed' } }
+    })
+    ;(provider as any).client = client
+    const steps: string[] = []
+
+    const updated = await provider.updateResource('42', { size: 's-2vcpu-2gb' }, {
+      type: 'droplet',
+      current: { size: 's-1vcpu-1gb' },
+      onStep: description => { steps.push(description) }
+    })
+
+    expect(calls.filter(call => call.startsWith('POST'))).toEqual([
+      'POST /droplets/42/actions power_off',
+      'POST /droplets/42/actions resize',
+      'POST /droplets/42/actions power_on'
+    ])
+    expect(steps).toHaveLength(3)
+    expect(updated.specifications.size).toBe('s-2vcpu-2gb')
+    expect(updated.hourly_cost).toBe(0.01786)
+  })
+
+  it('should reject fields that cannot change in place before calling the API', async () => {
+    const { client, calls } = stubClient({})
+    ;(provider as any).client = client
+
+    await expect(provider.updateResource('42', { image: 'debian-12-x64' }, { type: 'droplet' }))
+      .rejects.toThrow(AtlasError)
+    expect(calls).toEqual([])
+  })
+
+  it('should refuse to shrink a volume', async () => {
+    const { client } = stubClient({
+      'GET /volumes/vol-1': { volume: { id: 'vol-1', size_gigabytes: 100, region: { slug: 'nyc3' } } }
+    })
+    ;(provider as any).client = client
+
+    await expect(provider.updateResource('vol-1', { size_gigabytes: 50 }, { type: 'volume' }))
+      .rejects.toThrow('cannot shrink')
+  })
+
+  it('should report grown disks and volumes as changes that cannot be undone', () => {
+    expect(provider.irreversibleChange('droplet', { size: 's-1vcpu-1gb' }, { size: 's-2vcpu-4gb', resize_disk: true }))
+      .toContain('cannot shrink')
+    expect(provider.irreversibleChange('droplet', { size: 's-1vcpu-1gb' }, { size: 's-2vcpu-4gb' })).toBeNull()
+    expect(provider.irreversibleChange('volume', { size_gigabytes: 10 }, { size_gigabytes: 50 })).toContain('cannot shrink')
+  })
+})
+
+describe('DigitalOceanProvider.createResource', () => {
+  it('should delete a new volume that could not be attached', async () => {
+    const provider = new DigitalOceanProvider('test-token')
+    const { client, calls } = stubClient({
+      'POST /volumes': { volume: { id: 'vol-1', name: 'data' } },
+      'POST /volumes/vol-1/actions': new ProviderError('Droplet is locked', 'digitalocean', 422)
+    })
+    ;(provider as any).client = client
+
+    await expect(provider.createResource('volume', { name: 'data', size_gigabytes: 10, droplet_id: '42' }))
+      .rejects.toThrow('Failed to create volume')
+    expect(calls).toEqual(['POST /volumes gp1', 'POST /volumes/vol-1/actions attach', 'DELETE /volumes/vol-1'])
+  })
+})
+
+describe('DigitalOceanProvider.deleteResource', () => {
+  let provider: DigitalOceanProvider
+
+  beforeEach(() => {
+    provider = new DigitalOceanProvider('test-token')
+  })
+
+  it('should detach a volume before deleting it', async () => {
+    const { client, calls } = stubClient({
+      'GET /volumes/vol-1': { volume: { id: 'vol-1', droplet_ids: [42], region: { slug: 'nyc3' } } },
+      POST: { action: { id: 1, status: 'completed' } }
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource('vol-1', 'volume')
+
+    expect(calls).toEqual([
+      'GET /volumes/vol-1',
+      'POST /volumes/vol-1/actions detach',
+      'DELETE /volumes/vol-1'
+    ])
+  })
+
+  it('should use the endpoint for the resource type', async () => {
+    const { client, calls } = stubClient({})
+    ;(provider as any).client = client
+
+    await provider.deleteResource('lb-1', 'load_balancer')
+    await provider.deleteResource('fw-1', 'firewall')
+
+    expect(calls).toEqual(['DELETE /load_balancers/lb-1', 'DELETE /firewalls/fw-1'])
+  })
+
+  it('should treat a resource that is already gone as deleted', async () => {
+    const { client } = stubClient({
+      'DELETE /databases/db-1': new ProviderError('Not found', 'digitalocean', 404)
+    })
+    ;(provider as any).client = client
+
+    await expect(provider.deleteResource('db-1', 'database')).resolves.toBeUndefined()
+  })
+})
+
+describe('DigitalOcean Kubernetes clusters', () => {
+  let provider: DigitalOceanProvider
+
+  beforeEach(() => {
+    provider = new DigitalOceanProvider('test-token')
+  })
+
+  it('should create a cluster on the newest matching version with auto-scaling pools', async () => {
+    const { client, calls } = stubClient({
+      'GET /kubernetes/options': { options: { versions: [
+        { slug: '1.30.2-do.0', kubernetes_version: '1.30.2' },
+        { slug: '1.29.6-do.0', kubernetes_version: '1.29.6' },
+        { slug: '1.29.1-do.0', kubernetes_version: '1.29.1' }
+      ] } },
+      'POST /kubernetes/clusters': { kubernetes_cluster: { id: 'k8s-1', name: 'apps', version: '1.29.6-do.0' } }
+    })
+    ;(provider as any).client = client
+
+    const created = await provider.createResource('kubernetes', {
+      name: 'apps',
+      region: 'nyc3',
+      version: '1.29',
+      node_pools: [
+        { name: 'web', size: 's-2vcpu-4gb', count: 2, auto_scale: true, max_nodes: 5 },
+        { name: 'jobs', size: 's-1vcpu-1gb', count: 1 }
+      ]
+    })
+
+    expect(calls).toEqual(['GET /kubernetes/options', 'POST /kubernetes/clusters'])
+    expect(client.post.mock.calls[0][1]).toMatchObject({
+      version: '1.29.6-do.0',
+      ha: false,
+      node_pools: [
+        { name: 'web', size: 's-2vcpu-4gb', count: 2, auto_scale: true, min_nodes: 1, max_nodes: 5 },
+        { name: 'jobs', size: 's-1vcpu-1gb', count: 1, auto_scale: false }
+      ]
+    })
+    expect(created.specifications.version).toBe('1.29.6-do.0')
+    expect(created.hourly_cost).toBeCloseTo(0.02976 * 2 + 0.00893)
+    await expect(provider.createResource('kubernetes', { name: 'old', version: '1.20' })).rejects.toThrow('1.20 is not available')
+  })
+
+  it('should scale, add and remove node pools by name', async () => {
+    const { client, calls } = stubClient({
+      'GET /kubernetes/clusters/k8s-1/node_pools': { node_pools: [
+        { id: 'pool-1', name: 'web', size: 's-2vcpu-4gb', count: 2, auto_scale: false },
+        { id: 'pool-2', name: 'jobs', size: 's-1vcpu-1gb', count: 1, auto_scale: false }
+      ] },
+      'GET /kubernetes/clusters/k8s-1': { kubernetes_cluster: { id: 'k8s-1', name: 'apps', status: { state: 'running' }, node_pools: [] } }
+    })
+    ;(provider as any).client = client
+    const steps: string[] = []
+
+    await provider.updateResource('k8s-1', {
+      node_pools: [
+        { name: 'web', size: 's-2vcpu-4gb', count: 3, auto_scale: true, min_nodes: 2, max_nodes: 6 },
+        { name: 'gpu', size: 'g-2vcpu-8gb', count: 1 }
+      ]
+    }, { type: 'kubernetes', onStep: step => { steps.push(step) } })
+
+    expect(calls.filter(call => !call.startsWith('GET'))).toEqual([
+      'PUT /kubernetes/clusters/k8s-1/node_pools/pool-1',
+      'POST /kubernetes/clusters/k8s-1/node_pools',
+      'DELETE /kubernetes/clusters/k8s-1/node_pools/pool-2'
+    ])
+    expect(steps).toEqual(['Scale node pool web to auto-scale 2-6 nodes', 'Add node pool gpu (1 x g-2vcpu-8gb)', 'Remove node pool jobs'])
+
+    await expect(provider.updateResource('k8s-1', {
+      node_pools: [{ name: 'web', size: 's-4vcpu-8gb', count: 2 }]
+    }, { type: 'kubernetes' })).rejects.toThrow('Cannot change the node size of pool web')
+  })
+})
+
+describe('DigitalOcean DNS records', () => {
+  let provider: DigitalOceanProvider
+
+  beforeEach(() => {
+    provider = new DigitalOceanProvider('test-token')
+  })
+
+  it('should create a record in the most specific domain of the account', async () => {
+    const { client, calls } = stubClient({
+      'GET /domains': { domains: [{ name: 'example.com' }, { name: 'apps.example.com' }], links: {} },
+      'POST /domains/apps.example.com/records': { domain_record: { id: 7, type: 'CNAME', name: 'www' } }
+    })
+    ;(provider as any).client = client
+
+    const created = await provider.createResource('dns_record', {
+      name: 'www-dns',
+      fqdn: 'www.apps.example.com',
+      record_type: 'CNAME',
+      data: 'lb.example.com',
+      ttl: 300
+    })
+
+    expect(calls).toEqual(['GET /domains', 'POST /domains/apps.example.com/records CNAME'])
+    expect(client.post.mock.calls[0][1]).toEqual({ type: 'CNAME', name: 'www', data: 'lb.example.com.', ttl: 300, priority: null })
+    expect(created.provider_id).toBe('apps.example.com/7')
+    expect(created.name).toBe('www.apps.example.com')
+    await expect(provider.createResource('dns_record', { fqdn: 'www.other.org', data: '203.0.113.10' })).rejects.toThrow('add the domain first')
+    await expect(provider.createResource('dns_record', { domain: 'example.com', record_type: 'SRV' as any, data: 'x' })).rejects.toThrow('not supported')
+  })
+
+  it('should delete records and domains through the domain endpoints', async () => {
+    const { client, calls } = stubClient({
+      'DELETE /domains/example.com/records/7': new ProviderError('Not found', 'digitalocean', 404)
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource('example.com/7', 'dns_record')
+    await provider.deleteResource('example.com', 'domain')
+
+    expect(calls).toEqual(['DELETE /domains/example.com/records/7', 'DELETE /domains/example.com'])
+  })
+})
+
+describe('DigitalOcean container registry', () => {
+  let provider: DigitalOceanProvider
+
+  beforeEach(() => {
+    provider = new DigitalOceanProvider('test-token')
+  })
+
+  it('should wire droplets and clusters to pull from the registry', async () => {
+    const { client, calls } = stubClient({
+      'POST /registry': { registry: { name: 'apps', region: 'nyc3' } },
+      'GET /registry/docker-credentials': { auths: { 'registry.digitalocean.com': { auth: 'c2VjcmV0' } } },
+      'POST /droplets': droplet('new', 's-1vcpu-1gb'),
+      'POST /kubernetes/clusters': { kubernetes_cluster: { id: 'k8s-1', name: 'apps', version: '1.30.2-do.0' } }
+    })
+    ;(provider as any).client = client
+
+    const registry = await provider.createResource('container_registry', { name: 'apps', region: 'nyc3', tier: 'basic' })
+    await provider.createResource('droplet', { name: 'web', ssh_keys: ['1'], registry: registry.provider_id })
+    await provider.createResource('kubernetes', { name: 'apps', registry: registry.provider_id })
+
+    expect(registry.monthly_cost).toBeCloseTo(5)
+    expect(client.post.mock.calls[0][1]).toEqual({ name: 'apps', subscription_tier_slug: 'basic', region: 'nyc3' })
+    expect(client.get).toHaveBeenCalledWith('/registry/docker-credentials', { params: { read_write: false, expiry_seconds: undefined } })
+    const userData: string = client.post.mock.calls[1][1].user_data
+    expect(userData.startsWith('#!/bin/bash\n')).toBe(true)
+    expect(userData).toContain('"auth":"c2VjcmV0"')
+    expect(calls).toContain('POST /kubernetes/registry')
+    await expect(provider.createResource('droplet', { name: 'db', ssh_keys: ['1'], registry: 'apps', user_data: '#cloud-config' }))
+      .rejects.toThrow('shell script')
+  })
+
+  it('should only delete the account registry while it is still the recorded one', async () => {
+    const { client, calls } = stubClient({
+      'GET /registry': { registry: { name: 'apps' } }
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource('other', 'container_registry')
+    await provider.deleteResource('apps', 'container_registry')
+
+    expect(calls).toEqual(['GET /registry', 'GET /registry', 'DELETE /registry'])
+  })
+})
@@ -0,0 +1,87 @@
+import { InfrastructureResource, ResourceSpec, ResourceType } from '../types'
+import { createTestService, settledOperation, testResource } from './helpers'
+
+function resource(type: ResourceType, spec: ResourceSpec): InfrastructureResource {
+  return testResource({
+    id: `res-${spec.name}`,
+    type,
+    name: spec.name,
+    provider_id: type === 'droplet' ? '42' : 'example.com/7',
+    specifications: spec,
+    public_ip: type === 'droplet' ? '203.0.113.10' : undefined,
+    hourly_cost: 0,
+    monthly_cost: 0
+  })
+}
+
+function createService() {
+  const deleted: string[] = []
+  const provider = {
+    name: 'digitalocean',
+    createResource: jest.fn(async (type: ResourceType, spec: ResourceSpec) => resource(type, spec)),
+    getResource: jest.fn(async (id: string, type: ResourceType) =>
+      deleted.includes(id) ? null : resource(type, { name: 'live' })),
+    deleteResource: jest.fn(async (id: string) => { deleted.push(id) }),
+    findDomain: jest.fn(async (fqdn: string) => fqdn.endsWith('.example.com') ? 'example.com' : null)
+  }
+
+  const { service, repository } = createTestService({ provider })
+  return { service, provider, repository, deleted }
+}
+
+describe('DNS records', () => {
+  it('should point a record at the droplet with the configured TTL and remove it first on destroy', async () => {
+    const { service, provider, repository, deleted } = createService()
+
+    const { infrastructure } = await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'web',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [
+        { type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } },
+        { type: 'dns_record', name: 'web-dns', specifications: { fqdn: 'www.example.com', record_type: 'A', data: '${resources.web.public_ip}' } }
+      ],
+      configuration: { networking: { vpc_enabled: false, private_networking: false, floating_ip: false, ipv6_enabled: false, dns_settings: { ttl: 300 } } }
+    })
+
+    expect(infrastructure.status).toBe('active')
+    expect(provider.createResource).toHaveBeenLastCalledWith('dns_record', expect.objectContaining({
+      fqdn: 'www.example.com',
+      data: '203.0.113.10',
+      ttl: 300
+    }), expect.anything())
+
+    const operation = await service.destroyInfrastructure(infrastructure.id)
+    expect((await settledOperation(repository, operation.id)).status).toBe('completed')
+    expect(deleted).toEqual(['example.com/7', '42'])
+  })
+
+  it('should reject a record whose domain is not in the account before creating anything', async () => {
+    const { service, provider } = createService()
+
+    await expect(service.createInfrastructure('user-1', 'ws-1', {
+      name: 'web',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [
+        { type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } },
+        { type: 'dns_record', name: 'web-dns', specifications: { fqdn: 'www.unmanaged.org', data: '${resources.web.public_ip}' } }
+      ]
+    })).rejects.toMatchObject({ code: 'DOMAIN_NOT_FOUND', statusCode: 404 })
+
+    expect(provider.createResource).not.toHaveBeenCalled()
+    expect(await service.listInfrastructure('ws-1')).toEqual([])
+
+    // A domain created in the same request needs no lookup
+    await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'site',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [
+        { type: 'domain', name: 'unmanaged.org', specifications: {} },
+        { type: 'dns_record', name: 'www', specifications: { fqdn: 'www.unmanaged.org', data: '203.0.113.10' }, depends_on: ['unmanaged.org'] }
+      ]
+    })
+    expect(provider.createResource).toHaveBeenCalledWith('dns_record', expect.objectContaining({ fqdn: 'www.unmanaged.org' }), expect.anything())
+  })
+})
@@ -0,0 +1,46 @@
+import { detectResourceDrift } from '../utils/DriftDetection'
+import { InfrastructureResource, ResourceSpec } from '../types'
+
+function resource(specifications: ResourceSpec, status: InfrastructureResource['status'] = 'active'): InfrastructureResource {
+  return {
+    id: 'res-1',
+    type: 'droplet',
+    name: 'web',
+    provider_id: '12345',
+    specifications,
+    status,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    dependencies: [],
+    dependents: [],
+    hourly_cost: 0,
+    monthly_cost: 0
+  }
+}
+
+describe('detectResourceDrift', () => {
+  const options = { region: 'nyc3', ignoredTagPrefixes: ['atlas_operation:'] }
+
+  it('should report nothing when live state matches', () => {
+    const stored = resource({ size: 's-1vcpu-1gb', image: 'ubuntu-22-04-x64', tags: { env: 'prod', atlas_operation: 'op-1' } })
+    const live = resource({ size: 's-1vcpu-1gb', region: 'nyc3', image: 'ubuntu-22-04-x64', tags: { env: 'prod' } })
+
+    expect(detectResourceDrift(stored, live, options)).toEqual([])
+  })
+
+  it('should report resized, moved and retagged resources', () => {
+    const stored = resource({ size: 's-1vcpu-1gb', tags: { env: 'prod' } })
+    const live = resource({ size: 's-2vcpu-2gb', region: 'sfo3', tags: { env: 'staging' } })
+
+    const issues = detectResourceDrift(stored, live, options)
+    expect(issues.map(issue => issue.id)).toEqual(['drift:res-1:size', 'drift:res-1:region', 'drift:res-1:tags'])
+    expect(issues[0].description).toBe('size: expected s-1vcpu-1gb, found s-2vcpu-2gb')
+  })
+
+  it('should report missing resources and status changes', () => {
+    const stored = resource({ size: 's-1vcpu-1gb' })
+
+    expect(detectResourceDrift(stored, null, options)[0]).toMatchObject({ id: 'drift:res-1:missing', severity: 'critical' })
+    expect(detectResourceDrift(stored, resource({}, 'error'), options)[0]).toMatchObject({ id: 'drift:res-1:status', severity: 'high' })
+  })
+})
@@ -0,0 +1,155 @@
+import { AddressInfo } from 'net'
+import { FastifyInstance } from 'fastify'
+import { FakeCloudProvider, parseFakeFailures } from '../providers/fake'
+import { buildFakeDigitalOceanApi } from '../providers/fake-digitalocean-api'
+import { DigitalOceanProvider } from '../providers/digitalocean'
+import { createTestService } from './helpers'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function createService(provider: FakeCloudProvider) {
+  return createTestService({
+    provider,
+    readiness: { timeoutMs: 2000, initialIntervalMs: 5, maxIntervalMs: 10, backoffFactor: 2 }
+  }).service
+}
+
+describe('FakeCloudProvider', () => {
+  it('should settle new resources after the transition time with deterministic IDs', async () => {
+    const provider = new FakeCloudProvider({ transitionMs: 20 })
+
+    const droplet = await provider.createResource('droplet', { name: 'web', size: 's-1vcpu-1gb' })
+    expect(droplet).toMatchObject({
+      id: '00000000-0000-4000-8000-000000000001',
+      provider_id: '400000001',
+      status: 'creating',
+      monthly_cost: 0.00893 * 24 * 30
+    })
+    expect((await provider.getResource('400000001'))!.public_ip).toBeUndefined()
+
+    await sleep(25)
+    expect(await provider.getResource('400000001')).toMatchObject({
+      status: 'active',
+      public_ip: '203.0.113.1',
+      private_ip: '10.10.0.2'
+    })
+  })
+
+  it('should fail matching calls as configured and then recover', async () => {
+    const provider = new FakeCloudProvider({
+      transitionMs: 0,
+      failures: parseFakeFailures('create:droplet:quota,get:*:rate_limit:2')
+    })
+
+    await expect(provider.createResource('droplet', { name: 'web' }))
+      .rejects.toMatchObject({ providerStatus: 422 })
+    const volume = await provider.createResource('volume', { name: 'data', size_gigabytes: 10 })
+
+    await expect(provider.getResource(volume.provider_id!)).rejects.toMatchObject({ providerStatus: 429 })
+    await expect(provider.getResource(volume.provider_id!)).rejects.toMatchObject({ providerStatus: 429 })
+    expect(await provider.getResource(volume.provider_id!)).toMatchObject({ status: 'active' })
+
+    provider.injectFailure({ operation: 'create', kind: 'provision_error' })
+    const broken = await provider.createResource('database', { name: 'db' })
+    expect(await provider.getResource(broken.provider_id!)).toMatchObject({ status: 'error' })
+  })
+
+  it('should reject malformed failure specs', () => {
+    expect(() => parseFakeFailures('create:droplet:explode')).toThrow('Invalid fake failure')
+  })
+
+  it('should create clusters, registries and records in domains it holds', async () => {
+    const provider = new FakeCloudProvider({ transitionMs: 0 })
+
+    const cluster = await provider.createResource('kubernetes', { name: 'apps', region: 'nyc3', ha: true })
+    expect(cluster.specifications.node_pools).toEqual([{ name: 'apps-default-pool', size: 's-2vcpu-4gb', count: 1 }])
+    expect(cluster.monthly_cost).toBeCloseTo(0.02976 * 24 * 30 + 40)
+    expect(await provider.getKubeconfig(cluster.provider_id!)).toContain('do-nyc3-apps')
+
+    const registry = await provider.createResource('container_registry', { name: 'Images', tier: 'basic' })
+    expect(registry).toMatchObject({ provider_id: 'images', status: 'active', monthly_cost: 5 })
+    expect(JSON.parse(await provider.getDockerCredentials('images', { readWrite: true })).auths).toHaveProperty(['registry.digitalocean.com'])
+
+    await expect(provider.createResource('dns_record', { name: 'www', fqdn: 'www.example.com', data: '203.0.113.1' }))
+      .rejects.toMatchObject({ code: 'DOMAIN_NOT_FOUND' })
+    await provider.createResource('domain', { name: 'example.com' })
+    const record = await provider.createResource('dns_record', { name: 'www', fqdn: 'www.example.com', data: '203.0.113.1' })
+    expect(record.specifications).toMatchObject({ domain: 'example.com', hostname: 'www' })
+
+    await provider.deleteResource('example.com', 'domain')
+    expect(await provider.getResource(record.provider_id!)).toBeNull()
+  })
+
+  it('should run a full create and destroy through the service', async () => {
+    const provider = new FakeCloudProvider({ transitionMs: 10 })
+    const service = createService(provider)
+
+    const { infrastructure, operation } = await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'offline',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [
+        { type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } },
+        { type: 'volume', name: 'data', specifications: { size_gigabytes: 10, droplet_id: '${web.provider_id}' } }
+      ]
+    })
+
+    expect(operation.status).toBe('completed')
+    expect(infrastructure.resources.map(r => r.status)).toEqual(['active', 'active'])
+    expect(await provider.listResources()).toHaveLength(2)
+
+    await service.destroyInfrastructure(infrastructure.id)
+    for (let i = 0; i < 100 && (await provider.listResources()).length > 0; i++) {
+      await sleep(5)
+    }
+    expect(await provider.listResources()).toEqual([])
+  })
+})
+
+describe('Fake DigitalOcean API', () => {
+  let api: FastifyInstance
+  let provider: DigitalOceanProvider
+  const saved = { ...process.env }
+
+  beforeAll(async () => {
+    api = buildFakeDigitalOceanApi({ transitionMs: 20, retryAfterSeconds: 0 })
+    await api.listen({ port: 0, host: '127.0.0.1' })
+
+    process.env.DIGITALOCEAN_API_URL = `http://127.0.0.1:${(api.server.address() as AddressInfo).port}/v2`
+    process.env.ATLAS_PROVIDER_RETRY_BASE_MS = '1'
+    process.env.ATLAS_PROVIDER_PAGE_SIZE = '1'
+    provider = new DigitalOceanProvider('fake-token')
+  })
+
+  afterAll(async () => {
+    process.env = saved
+    await api.close()
+  })
+
+  it('should serve droplets that become active, across pages', async () => {
+    const created = await provider.createResource('droplet', { name: 'web-1', ssh_keys: ['1'] })
+    await provider.createResource('droplet', { name: 'web-2', ssh_keys: ['1'] })
+    expect(created.provider_id).toBe('400000001')
+    expect(await provider.getResource('400000001')).toMatchObject({ status: 'creating' })
+
+    await sleep(25)
+    expect(await provider.getResource('400000001')).toMatchObject({ status: 'active', public_ip: '203.0.113.1' })
+    expect((await provider.listDroplets()).map(d => d.name)).toEqual(['web-1', 'web-2'])
+    expect(provider.getRateLimit()).toMatchObject({ limit: 5000 })
+  })
+
+  it('should answer injected failures the way DigitalOcean does', async () => {
+    await api.inject({
+      method: 'POST',
+      url: '/_fake/failures',
+      payload: { failures: [{ operation: 'get', resource_type: 'droplet', kind: 'rate_limit' }, { operation: 'create', kind: 'quota' }] }
+    })
+
+    // The 429 is retried by the provider; the 422 is not
+    expect(await provider.getResource('400000001')).toMatchObject({ status: 'active' })
+    await expect(provider.createResource('volume', { name: 'data' })).rejects.toThrow('will exceed your volume limit')
+
+    await provider.deleteResource('400000002')
+    expect(await provider.getResource('400000002')).toBeNull()
+  })
+})
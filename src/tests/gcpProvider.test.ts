@@ -0,0 +1,219 @@
+import { createVerify, generateKeyPairSync } from 'crypto'
+import { GCPProvider, gcpLocation, gcpName } from '../providers/gcp'
+import { createCloudProvider } from '../providers'
+import { GcpTokenSource, parseServiceAccountKey, signServiceAccountJwt } from '../utils/GcpServiceAccount'
+import { AtlasError, ProviderError } from '../types'
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const key = {
+  client_email: 'atlas@proj.iam.gserviceaccount.com',
+  private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  private_key_id: 'key-1',
+  project_id: 'proj'
+}
+
+// Stand-in for the axios client: records calls (relative to the project) and answers from a route table
+function stubClient(routes: Record<string, any>) {
+  const calls: { call: string, body?: any }[] = []
+  const handle = (method: string) => jest.fn(async (url: string, body?: any) => {
+    const path = url.replace(/^https:\/\/[^/]+\/(compute\/v1|v1)\/projects\/proj\//, '')
+    calls.push({ call: `${method} ${path}`, body: method === 'GET' ? undefined : body })
+    const data = routes[`${method} ${path}`] ?? routes[method] ?? (method === 'GET' ? {} : { name: 'op-1', status: 'DONE' })
+    if (data instanceof Error) throw data
+    return { data }
+  })
+
+  return {
+    calls,
+    client: { get: handle('GET'), post: handle('POST'), patch: handle('PATCH'), delete: handle('DELETE') }
+  }
+}
+
+describe('GCP service account auth', () => {
+  it('should sign a JWT the token endpoint can verify', () => {
+    const jwt = signServiceAccountJwt(key, 'https://www.googleapis.com/auth/cloud-platform', new Date('2026-01-01T00:00:00Z'))
+    const [header, claims, signature] = jwt.split('.')
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'key-1' })
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toEqual({
+      iss: 'atlas@proj.iam.gserviceaccount.com',
+      scope: 'https://www.googleapis.com/auth/cloud-platform',
+      aud: 'https://oauth2.googleapis.com/token',
+      iat: 1767225600,
+      exp: 1767229200
+    })
+    expect(createVerify('RSA-SHA256').update(`${header}.${claims}`).verify(publicKey, Buffer.from(signature, 'base64url'))).toBe(true)
+  })
+
+  it('should reuse an access token until it nears expiry', async () => {
+    const http = { post: jest.fn(async () => ({ data: { access_token: 'token-1', expires_in: 3600 } })) }
+    const tokens = new GcpTokenSource(key, undefined, http as any)
+
+    expect(await Promise.all([tokens.getAccessToken(), tokens.getAccessToken()])).toEqual(['token-1', 'token-1'])
+    expect(await tokens.getAccessToken()).toBe('token-1')
+    expect(http.post).toHaveBeenCalledTimes(1)
+    expect((http.post.mock.calls[0] as any[])[1]).toContain('grant_type=urn%3Aietf%3Aparams%3Aoauth%3Agrant-type%3Ajwt-bearer')
+  })
+
+  it('should report a rejected key as a provider error', async () => {
+    const http = { post: jest.fn(async () => { throw { response: { status: 400, data: { error: 'invalid_grant' } } } }) }
+    const tokens = new GcpTokenSource(key, undefined, http as any)
+
+    await expect(tokens.getAccessToken()).rejects.toThrow(new ProviderError('GCP token exchange failed for atlas@proj.iam.gserviceaccount.com: invalid_grant', 'gcp'))
+  })
+
+  it('should accept keys as JSON or base64 and reject incomplete ones', () => {
+    const json = JSON.stringify(key)
+    expect(parseServiceAccountKey(Buffer.from(json).toString('base64')).project_id).toBe('proj')
+    expect(createCloudProvider('gcp', { gcp_service_account_key: json })).toBeInstanceOf(GCPProvider)
+    expect(createCloudProvider('gcp', {})).toBeNull()
+    expect(() => parseServiceAccountKey('{"client_email": "a@b"}')).toThrow('missing private_key, project_id')
+  })
+})
+
+describe('GCPProvider', () => {
+  let provider: GCPProvider
+
+  beforeEach(() => {
+    provider = new GCPProvider(key, 'us-central1')
+  })
+
+  it('should map infrastructure regions and names onto GCP', () => {
+    expect(gcpLocation('europe-west1')).toEqual({ region: 'europe-west1' })
+    expect(gcpLocation('europe-west1-c')).toEqual({ region: 'europe-west1', zone: 'europe-west1-c' })
+    expect(gcpLocation(undefined, 'us-east1')).toEqual({ region: 'us-east1' })
+    expect(gcpName('My_App Server-')).toBe('my-app-server')
+    expect(gcpName('1st')).toBe('st')
+  })
+
+  it('should create an instance in the first zone of the region and wait for the operation', async () => {
+    const { client, calls } = stubClient({
+      'GET regions/europe-west1': { zones: ['https://compute.googleapis.com/compute/v1/projects/proj/zones/europe-west1-c', '.../zones/europe-west1-b'] },
+      'POST zones/europe-west1-b/instances': { name: 'op-7', zone: '.../zones/europe-west1-b', status: 'RUNNING' }
+    })
+    ;(provider as any).client = client
+
+    const created = await provider.createResource('droplet', {
+      name: 'web',
+      region: 'europe-west1',
+      size: 'e2-medium',
+      ssh_keys: ['ssh-ed25519 AAAA user@host'],
+      tags: { Env: 'Test' }
+    })
+
+    expect(calls.map(({ call }) => call)).toEqual([
+      'GET regions/europe-west1',
+      'POST zones/europe-west1-b/instances',
+      'POST zones/europe-west1-b/operations/op-7/wait'
+    ])
+    expect(calls[1].body).toMatchObject({
+      machineType: 'zones/europe-west1-b/machineTypes/e2-medium',
+      labels: { env: 'test' },
+      metadata: { items: [{ key: 'ssh-keys', value: 'atlas:ssh-ed25519 AAAA user@host' }] }
+    })
+    expect(created).toMatchObject({ provider_id: 'europe-west1-b/web', hourly_cost: 0.0335 })
+  })
+
+  it('should surface operation errors', async () => {
+    const { client } = stubClient({
+      'POST global/networks': { name: 'op-1', status: 'DONE', error: { errors: [{ message: "Quota 'NETWORKS' exceeded" }] } }
+    })
+    ;(provider as any).client = client
+
+    await expect(provider.createResource('vpc', { name: 'net' })).rejects.toThrow("GCP API Error: Quota 'NETWORKS' exceeded")
+  })
+
+  it('should build a load balancer from instance groups up to forwarding rules', async () => {
+    const { client, calls } = stubClient({})
+    ;(provider as any).client = client
+
+    const created = await provider.createResource('load_balancer', {
+      name: 'web-lb',
+      droplet_ids: ['us-central1-a/web-1', 'us-central1-b/web-2'],
+      forwarding_rules: [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 8080 }]
+    })
+
+    expect(calls.map(({ call }) => call)).toEqual([
+      'POST zones/us-central1-a/instanceGroups',
+      'POST zones/us-central1-a/instanceGroups/web-lb-us-central1-a/addInstances',
+      'POST zones/us-central1-b/instanceGroups',
+      'POST zones/us-central1-b/instanceGroups/web-lb-us-central1-b/addInstances',
+      'POST global/healthChecks',
+      'POST global/backendServices',
+      'POST global/urlMaps',
+      'POST global/addresses',
+      'POST global/targetHttpProxies',
+      'POST global/forwardingRules'
+    ])
+    expect(calls[0].body.namedPorts).toEqual([{ name: 'http', port: 8080 }])
+    expect(created.provider_id).toBe('global/web-lb')
+    await expect(provider.createResource('load_balancer', {
+      forwarding_rules: [{ entry_protocol: 'tcp', entry_port: 5432, target_protocol: 'tcp', target_port: 5432 }]
+    })).rejects.toThrow('only forward HTTP and HTTPS')
+  })
+
+  it('should split firewall rules by address family and tag the instances', async () => {
+    const { client, calls } = stubClient({
+      'GET zones/us-central1-a/instances/web': { tags: { items: ['http'], fingerprint: 'fp-1' } }
+    })
+    ;(provider as any).client = client
+
+    await provider.createResource('firewall', {
+      name: 'web-fw',
+      region: 'us-central1-a',
+      inbound_rules: [{ protocol: 'tcp', ports: '8000-8100', sources: { addresses: ['10.0.0.0/8', '::/0'] } }],
+      droplet_ids: ['web']
+    })
+
+    const posts = calls.filter(({ call }) => call.startsWith('POST'))
+    expect(posts.map(({ body }) => body.name || body.items)).toEqual(['web-fw-in-0', 'web-fw-in6-0', ['http', 'web-fw']])
+    expect(posts[0].body).toMatchObject({ direction: 'INGRESS', sourceRanges: ['10.0.0.0/8'], targetTags: ['web-fw'], allowed: [{ IPProtocol: 'tcp', ports: ['8000-8100'] }] })
+  })
+
+  it('should stop, resize and start a running instance', async () => {
+    const { client, calls } = stubClient({
+      'GET zones/us-central1-a/instances/web': {
+        name: 'web', zone: '.../zones/us-central1-a', status: 'RUNNING', machineType: '.../machineTypes/e2-medium'
+      }
+    })
+    ;(provider as any).client = client
+    const steps: string[] = []
+
+    const updated = await provider.updateResource('us-central1-a/web', { size: 'e2-medium' }, {
+      type: 'droplet',
+      current: { size: 'e2-small' },
+      onStep: step => { steps.push(step) }
+    })
+
+    expect(steps).toEqual(['Stop instance', 'Change machine type to e2-medium', 'Start instance'])
+    expect(calls.filter(({ call }) => call.startsWith('POST')).map(({ call }) => call)).toEqual([
+      'POST zones/us-central1-a/instances/web/stop',
+      'POST zones/us-central1-a/instances/web/setMachineType',
+      'POST zones/us-central1-a/instances/web/start'
+    ])
+    expect(updated.hourly_cost).toBe(0.0335)
+    await expect(provider.updateResource('us-central1-a/web', { image: 'debian-12' }, { type: 'droplet' })).rejects.toThrow(AtlasError)
+  })
+
+  it('should detach a disk before deleting it and tolerate missing resources', async () => {
+    const { client, calls } = stubClient({
+      'GET zones/us-central1-a/disks/data': { name: 'data', users: ['.../zones/us-central1-a/instances/web'] },
+      'GET zones/us-central1-a/instances/web': { disks: [{ source: '.../disks/web', deviceName: 'persistent-disk-0' }, { source: '.../disks/data', deviceName: 'data' }] },
+      'DELETE zones/us-central1-a/instances/gone': new ProviderError('GCP API Error: not found', 'gcp', 404)
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource('us-central1-a/data', 'volume')
+    expect(calls.filter(({ call }) => !call.startsWith('GET')).map(({ call }) => call)).toEqual([
+      'POST zones/us-central1-a/instances/web/detachDisk?deviceName=data',
+      'DELETE zones/us-central1-a/disks/data'
+    ])
+    await expect(provider.deleteResource('us-central1-a/gone', 'droplet')).resolves.toBeUndefined()
+  })
+
+  it('should estimate costs from the pricing table', async () => {
+    expect(await provider.estimateCost({ size: 'e2-standard-2' })).toBeCloseTo(0.067 * 24 * 30)
+    expect(await provider.estimateCost({ size_gigabytes: 100, volume_type: 'pd-ssd' })).toBeCloseTo(17)
+    expect(await provider.estimateCost({ size: 'db-g1-small', size_gigabytes: 10, num_nodes: 2 })).toBeCloseTo(0.035 * 2 * 24 * 30 + 1.7)
+  })
+})
@@ -0,0 +1,86 @@
+import { ContextService } from '../services/ContextService'
+import { InfrastructureService } from '../services/InfrastructureService'
+import { ProviderRegistry } from '../services/ProviderRegistry'
+import { InMemoryInfrastructureRepository } from '../storage'
+import {
+  CloudProviderInterface,
+  DeploymentOperation,
+  Infrastructure,
+  InfrastructureRepository,
+  InfrastructureResource
+} from '../types'
+import { ReadinessOptions, readinessOptionsFromEnv } from '../utils/ReadinessPoller'
+
+// Shared fixtures and service setup for InfrastructureService tests
+
+export function testResource(overrides: Partial<InfrastructureResource> = {}): InfrastructureResource {
+  return {
+    id: 'web',
+    type: 'droplet',
+    name: 'web',
+    provider_id: '101',
+    specifications: { size: 's-1vcpu-1gb' },
+    status: 'active',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    dependencies: [],
+    dependents: [],
+    hourly_cost: 0.009,
+    monthly_cost: 6,
+    ...overrides
+  }
+}
+
+export function testInfrastructure(overrides: Partial<Infrastructure> = {}): Infrastructure {
+  const resources = overrides.resources || [testResource()]
+  return {
+    id: 'infra-1',
+    name: 'test',
+    workspace_id: 'ws-1',
+    user_id: 'user-1',
+    provider: 'digitalocean',
+    region: 'nyc3',
+    status: 'active',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    estimated_monthly_cost: resources.reduce((total, resource) => total + resource.monthly_cost, 0),
+    tags: {},
+    configuration: {},
+    ...overrides,
+    resources
+  }
+}
+
+export interface TestServiceOptions {
+  // Mock provider registered as the DigitalOcean default
+  provider?: { name: string }
+  repository?: InfrastructureRepository
+  registry?: ProviderRegistry
+  // Context Manager methods to replace; the rest fail to connect
+  context?: Partial<ContextService>
+  readiness?: ReadinessOptions
+}
+
+export function createTestService(options: TestServiceOptions = {}) {
+  const repository = options.repository || new InMemoryInfrastructureRepository()
+  const registry = options.registry || new ProviderRegistry()
+  if (options.provider) {
+    registry.setDefault('digitalocean', options.provider as unknown as CloudProviderInterface)
+  }
+  const contextService = Object.assign(new ContextService(), options.context)
+
+  const service = new InfrastructureService(repository, registry, contextService, options.readiness || readinessOptionsFromEnv())
+  return { service, repository, registry }
+}
+
+/**
+ * Wait for a background operation to leave the pending and in-progress states
+ */
+export async function settledOperation(repository: InfrastructureRepository, id: string): Promise<DeploymentOperation> {
+  let stored = (await repository.getOperation(id))!
+  while (stored.status === 'pending' || stored.status === 'in_progress') {
+    await new Promise(resolve => setImmediate(resolve))
+    stored = (await repository.getOperation(id))!
+  }
+  return stored
+}
@@ -0,0 +1,121 @@
+import { CreateInfrastructureRequest, ResourceSpec, ResourceType } from '../types'
+import { createTestService, testResource } from './helpers'
+
+function createService() {
+  let next = 1
+  const provider = {
+    name: 'digitalocean',
+    createResource: jest.fn(async (type: ResourceType, spec: ResourceSpec) => testResource({
+      id: `res-${next}`,
+      type,
+      name: spec.name,
+      provider_id: String(next++),
+      specifications: spec,
+      public_ip: '203.0.113.10'
+    })),
+    getResource: jest.fn(async (id: string) => ({ provider_id: id, specifications: {}, status: 'active', public_ip: '203.0.113.10' }))
+  }
+
+  const { service, repository } = createTestService({ provider })
+  return { service, provider, repository }
+}
+
+const request: CreateInfrastructureRequest = {
+  name: 'idempotent',
+  provider: 'digitalocean',
+  region: 'nyc3',
+  resources: [{ type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } }]
+}
+
+describe('Idempotency keys', () => {
+  it('should return the original infrastructure and operation for a repeated request', async () => {
+    const { service, provider } = createService()
+    const idempotency = { key: 'retry-1', body: request }
+
+    const first = await service.createInfrastructure('user-1', 'ws-1', request, undefined, idempotency)
+    // Same body with keys in a different order
+    const retry = await service.createInfrastructure('user-1', 'ws-1', request, undefined, {
+      key: 'retry-1',
+      body: { resources: request.resources, region: 'nyc3', provider: 'digitalocean', name: 'idempotent' }
+    })
+
+    expect(first.replayed).toBeUndefined()
+    expect(retry.replayed).toBe(true)
+    expect(retry.infrastructure.id).toBe(first.infrastructure.id)
+    expect(retry.operation.id).toBe(first.operation.id)
+    expect(provider.createResource).toHaveBeenCalledTimes(1)
+    expect(await service.listInfrastructure('ws-1')).toHaveLength(1)
+  })
+
+  it('should reject the same key with a different body', async () => {
+    const { service } = createService()
+    await service.createInfrastructure('user-1', 'ws-1', request, undefined, { key: 'retry-1', body: request })
+
+    const changed = { ...request, region: 'sfo3' }
+    await expect(
+      service.createInfrastructure('user-1', 'ws-1', changed, undefined, { key: 'retry-1', body: changed })
+    ).rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_MISMATCH', statusCode: 422 })
+  })
+
+  it('should scope keys to the workspace', async () => {
+    const { service, provider } = createService()
+    await service.createInfrastructure('user-1', 'ws-1', request, undefined, { key: 'retry-1', body: request })
+    await service.createInfrastructure('user-2', 'ws-2', request, undefined, { key: 'retry-1', body: request })
+
+    expect(provider.createResource).toHaveBeenCalledTimes(2)
+  })
+
+  it('should release the key when the infrastructure cannot be stored', async () => {
+    const { service, provider, repository } = createService()
+    jest.spyOn(repository, 'saveInfrastructure').mockRejectedValueOnce(new Error('disk full'))
+    const idempotency = { key: 'retry-1', body: request }
+
+    await expect(service.createInfrastructure('user-1', 'ws-1', request, undefined, idempotency)).rejects.toThrow('disk full')
+    const retry = await service.createInfrastructure('user-1', 'ws-1', request, undefined, idempotency)
+
+    expect(retry.replayed).toBeUndefined()
+    expect(retry.operation.status).toBe('completed')
+    expect(provider.createResource).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject a concurrent duplicate until the first deployment finishes', async () => {
+    const { service, provider } = createService()
+    const create = provider.createResource.getMockImplementation()!
+    let finishCreate!: () => void
+    let createStarted!: () => void
+    const started = new Promise<void>(resolve => { createStarted = resolve })
+    provider.createResource.mockImplementationOnce(async (type, spec) => {
+      createStarted()
+      await new Promise<void>(resolve => { finishCreate = resolve })
+      return create(type, spec)
+    })
+    const idempotency = { key: 'retry-1', body: request }
+
+    const first = service.createInfrastructure('user-1', 'ws-1', request, undefined, idempotency)
+    await started
+    await expect(service.createInfrastructure('user-1', 'ws-1', request, undefined, idempotency))
+      .rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_IN_PROGRESS', statusCode: 409 })
+
+    finishCreate()
+    const { infrastructure } = await first
+    const retry = await service.createInfrastructure('user-1', 'ws-1', request, undefined, idempotency)
+    expect(retry.replayed).toBe(true)
+    expect(retry.infrastructure.id).toBe(infrastructure.id)
+    expect(provider.createResource).toHaveBeenCalledTimes(1)
+  })
+
+  it('should store results of other requests and release the key when they throw', async () => {
+    const { service } = createService()
+    const idempotency = { key: 'deploy-1', body: { appName: 'api' } }
+    const run = jest.fn()
+      .mockRejectedValueOnce(new Error('SSH timeout'))
+      .mockResolvedValueOnce({ success: true })
+
+    await expect(service.runIdempotent('ws-1', 'deploy_application', idempotency, run)).rejects.toThrow('SSH timeout')
+    expect(await service.runIdempotent('ws-1', 'deploy_application', idempotency, run))
+      .toEqual({ result: { success: true }, replayed: false })
+    expect(await service.runIdempotent('ws-1', 'deploy_application', idempotency, run))
+      .toEqual({ result: { success: true }, replayed: true })
+    expect(run).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileInfrastructureRepository } from '../storage'
+import { createTestService, settledOperation, testInfrastructure, testResource } from './helpers'
+
+async function setup() {
+  // The provider holds the update open until the test lets it finish
+  let finishUpdate!: () => void
+  let updateStarted!: () => void
+  const started = new Promise<void>(resolve => { updateStarted = resolve })
+  const provider = {
+    name: 'digitalocean',
+    updateResource: jest.fn(async (id: string) => {
+      updateStarted()
+      await new Promise<void>(resolve => { finishUpdate = resolve })
+      return testResource({ provider_id: id })
+    })
+  }
+
+  const { service, repository } = createTestService({ provider })
+  await repository.saveInfrastructure(testInfrastructure({ name: 'lock-test' }))
+
+  const { operation } = await service.updateInfrastructure('infra-1', {
+    resources: [{ id: 'web', specifications: { size: 's-2vcpu-4gb' } }]
+  })
+  await started
+
+  const finished = async () => {
+    finishUpdate()
+    return settledOperation(repository, operation.id)
+  }
+
+  return { service, repository, operation, finished }
+}
+
+describe('Infrastructure locking', () => {
+  it('should reject a second operation while one is running and release the lock when it finishes', async () => {
+    const { service, repository, operation, finished } = await setup()
+
+    const locked = await repository.getInfrastructure('infra-1')
+    expect(locked!.lock).toMatchObject({ operation_id: operation.id, operation_type: 'update' })
+
+    await expect(service.destroyInfrastructure('infra-1')).rejects.toMatchObject({
+      code: 'OPERATION_IN_PROGRESS',
+      statusCode: 409
+    })
+    await expect(service.updateInfrastructure('infra-1', { name: 'renamed' })).rejects.toMatchObject({
+      code: 'OPERATION_IN_PROGRESS'
+    })
+
+    expect((await finished()).status).toBe('completed')
+    expect((await repository.getInfrastructure('infra-1'))!.lock).toBeUndefined()
+    expect(await repository.listOperationsByInfrastructure('infra-1')).toHaveLength(1)
+  })
+
+  it('should replace a lock whose operation is missing only after the grace period', async () => {
+    const { service, repository } = createTestService({ provider: { name: 'digitalocean' } })
+    await repository.saveInfrastructure(testInfrastructure({
+      lock: { operation_id: 'gone', operation_type: 'update', acquired_at: new Date().toISOString() }
+    }))
+
+    // The holder may still be saving its operation record
+    await expect(service.updateInfrastructure('infra-1', { name: 'renamed' })).rejects.toMatchObject({
+      code: 'OPERATION_IN_PROGRESS'
+    })
+
+    const stored = (await repository.getInfrastructure('infra-1'))!
+    stored.lock!.acquired_at = new Date(Date.now() - 5 * 60 * 1000).toISOString()
+    await repository.saveInfrastructure(stored)
+    const { operation } = await service.updateInfrastructure('infra-1', { name: 'renamed' })
+
+    expect(operation.id).not.toBe('gone')
+  })
+
+  it('should let only one of two concurrent updates run on the file repository', async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'atlas-lock-'))
+    try {
+      const filePath = path.join(dataDir, 'state.json')
+      const repository = new FileInfrastructureRepository(filePath)
+      await repository.saveInfrastructure(testInfrastructure())
+      const { service } = createTestService({ provider: { name: 'digitalocean' }, repository })
+
+      const results = await Promise.allSettled([
+        service.updateInfrastructure('infra-1', { name: 'first' }),
+        service.updateInfrastructure('infra-1', { name: 'second' })
+      ])
+
+      const started = results.filter(result => result.status === 'fulfilled')
+      expect(started).toHaveLength(1)
+      expect(results.find(result => result.status === 'rejected')).toMatchObject({
+        reason: { code: 'OPERATION_IN_PROGRESS' }
+      })
+
+      const [{ value }] = started as PromiseFulfilledResult<Awaited<ReturnType<typeof service.updateInfrastructure>>>[]
+      expect((await settledOperation(repository, value.operation.id)).status).toBe('completed')
+
+      // The released lock reaches the file after the operation settles in memory
+      const stored = async () => JSON.parse(await fs.readFile(filePath, 'utf8')).infrastructures['infra-1']
+      while ((await stored()).lock) {
+        await new Promise(resolve => setTimeout(resolve, 5))
+      }
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should leave a plan pending when applying it finds the infrastructure locked', async () => {
+    const { service, repository } = createTestService({ provider: { name: 'digitalocean' } })
+    await repository.saveInfrastructure(testInfrastructure())
+    const plan = await service.planInfrastructureUpdate('infra-1', { name: 'renamed' })
+
+    // Another operation takes the lock between planning and applying
+    const stored = (await repository.getInfrastructure('infra-1'))!
+    await repository.saveInfrastructure({
+      ...stored,
+      lock: { operation_id: 'running', operation_type: 'update', acquired_at: new Date().toISOString() }
+    })
+    await repository.saveOperation({
+      id: 'running',
+      infrastructure_id: 'infra-1',
+      operation_type: 'update',
+      status: 'in_progress',
+      started_at: new Date().toISOString(),
+      total_steps: 1,
+      completed_steps: 0,
+      created_resources: [],
+      updated_resources: [],
+      deleted_resources: [],
+      cost_change: 0
+    })
+
+    await expect(service.applyPlan(plan.id, 'ws-1')).rejects.toMatchObject({ code: 'OPERATION_IN_PROGRESS' })
+    const unapplied = (await repository.getPlan(plan.id))!
+    expect(unapplied.status).toBe('pending')
+    expect(unapplied.applied_at).toBeUndefined()
+  })
+
+  it('should force-unlock and ask the holding operation to cancel', async () => {
+    const { service, repository, operation, finished } = await setup()
+
+    const { released, infrastructure } = await service.forceUnlock('infra-1')
+
+    expect(released.operation_id).toBe(operation.id)
+    expect(infrastructure.lock).toBeUndefined()
+    expect((await repository.getOperation(operation.id))!.cancel_requested_at).toBeDefined()
+    await expect(service.forceUnlock('infra-1')).rejects.toMatchObject({ code: 'NOT_LOCKED' })
+
+    // Cancellation is checked between steps; this update was already on its last one
+    expect((await finished()).status).toBe('completed')
+  })
+})
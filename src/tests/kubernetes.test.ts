@@ -0,0 +1,72 @@
+import { InfrastructureResource, ResourceSpec, ResourceType } from '../types'
+import { createTestService, settledOperation, testInfrastructure, testResource } from './helpers'
+
+function cluster(overrides: Partial<InfrastructureResource> = {}): InfrastructureResource {
+  return testResource({
+    id: 'res-1',
+    type: 'kubernetes',
+    name: 'apps',
+    provider_id: 'k8s-1',
+    specifications: {},
+    hourly_cost: 0.03,
+    monthly_cost: 21.6,
+    ...overrides
+  })
+}
+
+function createService() {
+  const provider = {
+    name: 'digitalocean',
+    createResource: jest.fn(async (type: ResourceType, spec: ResourceSpec) => cluster({ type, name: spec.name, specifications: spec })),
+    updateResource: jest.fn(async (id: string, spec: Partial<ResourceSpec>) => cluster({ provider_id: id, specifications: spec })),
+    getResource: jest.fn(async (id: string) => cluster({
+      provider_id: id,
+      specifications: { node_pools: [{ name: 'apps-default-pool', size: 's-2vcpu-4gb', count: 1 }] }
+    })),
+    getKubeconfig: jest.fn(async (id: string) => `apiVersion: v1\nclusters:\n- name: do-nyc3-${id}\n`)
+  }
+
+  const storeKubeconfig = jest.fn(async () => true)
+  const { service, repository } = createTestService({ provider, context: { storeKubeconfig } })
+  return { service, provider, repository, storeKubeconfig }
+}
+
+describe('Kubernetes clusters', () => {
+  it('should store the kubeconfig once a cluster is ready', async () => {
+    const { service, storeKubeconfig } = createService()
+
+    const { infrastructure } = await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'k8s',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [{ type: 'kubernetes', name: 'apps', specifications: { size: 's-2vcpu-4gb' } }]
+    }, 'jwt-1')
+
+    expect(infrastructure.status).toBe('active')
+    expect(storeKubeconfig).toHaveBeenCalledWith('ws-1', 'user-1', 'digitalocean', 'k8s-1', expect.stringContaining('do-nyc3-k8s-1'), 'jwt-1')
+  })
+
+  it('should scale a pool of a cluster created with the default pool through an update operation', async () => {
+    const { service, provider, repository } = createService()
+    await repository.saveInfrastructure(testInfrastructure({ name: 'k8s', resources: [cluster()] }))
+
+    const { operation } = await service.scaleNodePool('ws-1', 'infra-1', 'apps', { name: 'apps-default-pool', count: 3 })
+
+    expect((await settledOperation(repository, operation.id)).status).toBe('completed')
+    expect(provider.updateResource).toHaveBeenCalledWith('k8s-1', {
+      node_pools: [{ name: 'apps-default-pool', size: 's-2vcpu-4gb', count: 3 }]
+    }, expect.objectContaining({ type: 'kubernetes' }))
+    await expect(service.scaleNodePool('ws-1', 'infra-1', 'apps', { name: 'gpu', count: 1 })).rejects.toThrow('give a size and count')
+  })
+
+  it('should not return the kubeconfig of a cluster in another workspace', async () => {
+    const { service, provider, repository } = createService()
+    await repository.saveInfrastructure(testInfrastructure({ name: 'k8s', resources: [cluster()] }))
+
+    await expect(service.getKubeconfig('ws-2', 'infra-1', 'apps')).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' })
+    await expect(service.scaleNodePool('ws-2', 'infra-1', 'apps', { name: 'apps-default-pool', count: 3 }))
+      .rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' })
+    expect(provider.getKubeconfig).not.toHaveBeenCalled()
+    expect((await service.getKubeconfig('ws-1', 'infra-1', 'apps')).kubeconfig).toContain('do-nyc3-k8s-1')
+  })
+})
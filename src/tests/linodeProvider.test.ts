@@ -0,0 +1,145 @@
+import { LinodeProvider } from '../providers/linode'
+import { createCloudProvider } from '../providers'
+import { AtlasError, ProviderError } from '../types'
+
+// Stand-in for the axios client: records calls with their bodies and answers from a route table
+function stubClient(routes: Record<string, any>) {
+  const calls: { call: string, body?: any }[] = []
+  const handle = (method: string) => jest.fn(async (path: string, body?: any) => {
+    calls.push({ call: `${method} ${path}`, body })
+    const data = routes[`${method} ${path}`] ?? routes[method] ?? {}
+    if (data instanceof Error) throw data
+    return { data: typeof data === 'function' ? data(body) : data }
+  })
+
+  return {
+    calls,
+    client: { get: handle('GET'), post: handle('POST'), put: handle('PUT'), delete: handle('DELETE') }
+  }
+}
+
+function instance(overrides: Record<string, any> = {}) {
+  return {
+    id: 7,
+    label: 'web',
+    status: 'running',
+    type: 'g6-standard-1',
+    region: 'us-east',
+    image: 'linode/ubuntu22.04',
+    ipv4: ['203.0.113.7', '192.168.130.7'],
+    tags: ['env:test'],
+    created: '2026-01-01T00:00:00',
+    ...overrides
+  }
+}
+
+describe('LinodeProvider', () => {
+  let provider: LinodeProvider
+
+  beforeEach(() => {
+    provider = new LinodeProvider('test-token')
+  })
+
+  it('should only build a provider when a token is stored', () => {
+    expect(createCloudProvider('linode', {})).toBeNull()
+    expect(createCloudProvider('linode', { linode_api_token: 'token' })).toBeInstanceOf(LinodeProvider)
+  })
+
+  it('should create an instance with SSH keys and a private IP', async () => {
+    const { client, calls } = stubClient({ 'POST /linode/instances': instance({ status: 'provisioning' }) })
+    ;(provider as any).client = client
+
+    const created = await provider.createResource('droplet', {
+      name: 'web',
+      size: 'g6-standard-1',
+      ssh_keys: ['ssh-ed25519 AAAA user@host', 'ab:cd:ef'],
+      tags: { env: 'test' }
+    })
+
+    expect(calls[0].body).toMatchObject({
+      label: 'web',
+      type: 'g6-standard-1',
+      image: 'linode/ubuntu22.04',
+      authorized_keys: ['ssh-ed25519 AAAA user@host'],
+      private_ip: true,
+      tags: ['env:test']
+    })
+    expect(created).toMatchObject({ provider_id: '7', status: 'creating', hourly_cost: 0.018 })
+  })
+
+  it('should point NodeBalancer nodes at the private IPs of its instances', async () => {
+    const { client, calls } = stubClient({
+      'GET /linode/instances/7': instance(),
+      'POST /nodebalancers': { id: 3, label: 'web-lb', created: '2026-01-01T00:00:00' }
+    })
+    ;(provider as any).client = client
+
+    await provider.createResource('load_balancer', {
+      name: 'web-lb',
+      droplet_ids: ['7'],
+      forwarding_rules: [{ entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 8080 }]
+    })
+
+    const body = calls.find(({ call }) => call === 'POST /nodebalancers')!.body
+    expect(body.configs).toEqual([expect.objectContaining({
+      port: 80,
+      protocol: 'http',
+      nodes: [{ label: 'web', address: '192.168.130.7:8080', mode: 'accept' }]
+    })])
+  })
+
+  it('should list instances across pages and filter by tag', async () => {
+    const { client } = stubClient({})
+    client.get.mockImplementation(async (path: string, config?: any) => {
+      if (path !== '/linode/instances') return { data: { data: [], page: 1, pages: 1 } }
+      const page = config.params.page
+      return {
+        data: {
+          data: [instance({ id: page, label: `web-${page}`, tags: page === 2 ? ['env:prod'] : ['env:test'] })],
+          page,
+          pages: 3
+        }
+      }
+    })
+    ;(provider as any).client = client
+
+    expect((await provider.listResources()).map(resource => resource.name)).toEqual(['web-1', 'web-2', 'web-3'])
+    expect((await provider.listResources({ tag_name: 'env:prod' })).map(resource => resource.name)).toEqual(['web-2'])
+  })
+
+  it('should resize an instance and reject fields it cannot change', async () => {
+    const { client, calls } = stubClient({ 'GET /linode/instances/7': instance({ type: 'g6-standard-2' }) })
+    ;(provider as any).client = client
+    const steps: string[] = []
+
+    const updated = await provider.updateResource('7', { size: 'g6-standard-2' }, {
+      type: 'droplet',
+      current: { size: 'g6-standard-1' },
+      onStep: step => { steps.push(step) }
+    })
+
+    expect(calls[0]).toEqual({ call: 'POST /linode/instances/7/resize', body: { type: 'g6-standard-2', allow_auto_disk_resize: true } })
+    expect(steps).toEqual(['Resize instance to g6-standard-2'])
+    expect(updated.hourly_cost).toBe(0.036)
+    await expect(provider.updateResource('7', { image: 'linode/debian12' }, { type: 'droplet' })).rejects.toThrow(AtlasError)
+  })
+
+  it('should detach a volume before deleting it and tolerate missing resources', async () => {
+    let attached = true
+    const { client, calls } = stubClient({
+      'GET /volumes/9': () => ({ id: 9, linode_id: attached ? 7 : null }),
+      'POST /volumes/9/detach': () => { attached = false; return {} },
+      'DELETE /linode/instances/8': new ProviderError('Linode API Error: Not found', 'linode', 404)
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource('9', 'volume')
+    expect(calls.map(({ call }) => call)).toEqual(['GET /volumes/9', 'POST /volumes/9/detach', 'GET /volumes/9', 'DELETE /volumes/9'])
+    await expect(provider.deleteResource('8', 'droplet')).resolves.toBeUndefined()
+  })
+
+  it('should estimate costs from the pricing table', async () => {
+    expect(await provider.estimateCost({ size: 'g6-nanode-1' })).toBeCloseTo(0.0075 * 24 * 30)
+    expect(await provider.estimateCost({ size_gigabytes: 40 })).toBeCloseTo(4)
+  })
+})
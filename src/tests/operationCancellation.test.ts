@@ -0,0 +1,146 @@
+import { InfrastructureService } from '../services/InfrastructureService'
+import { InMemoryInfrastructureRepository } from '../storage'
+import { InfrastructureResource, ResourceSpec, ResourceType } from '../types'
+import { createTestService, testResource } from './helpers'
+
+// Provider whose resources are ready as soon as they are created
+function fakeProvider(onCreate: (name: string) => Promise<void> | void = () => {}) {
+  let next = 1
+  const provider = {
+    name: 'digitalocean',
+    createResource: jest.fn(async (type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource> => {
+      await onCreate(spec.name)
+      return testResource({
+        id: `res-${next}`,
+        type,
+        name: spec.name,
+        provider_id: String(next++),
+        specifications: spec,
+        status: 'creating',
+        hourly_cost: 0.01
+      })
+    }),
+    getResource: jest.fn(async (id: string, type: ResourceType): Promise<Partial<InfrastructureResource> | null> => ({
+      id,
+      type,
+      provider_id: id,
+      specifications: {},
+      status: 'active',
+      public_ip: '203.0.113.10'
+    })),
+    deleteResource: jest.fn(async (id: string, type?: ResourceType) => {})
+  }
+  return provider
+}
+
+function createService(provider: ReturnType<typeof fakeProvider>, repository = new InMemoryInfrastructureRepository()) {
+  return createTestService({
+    provider,
+    repository,
+    readiness: { timeoutMs: 50, initialIntervalMs: 1, maxIntervalMs: 5, backoffFactor: 2 }
+  })
+}
+
+const request = {
+  name: 'cancel-test',
+  provider: 'digitalocean' as const,
+  region: 'nyc3',
+  resources: [
+    { type: 'vpc' as const, name: 'network', specifications: {} },
+    { type: 'droplet' as const, name: 'web', specifications: { size: 's-1vcpu-1gb' }, depends_on: ['network'] }
+  ]
+}
+
+describe('Operation cancellation', () => {
+  it('should stop a deployment before the next layer and keep created resources', async () => {
+    const repository = new InMemoryInfrastructureRepository()
+    let service!: InfrastructureService
+    const provider = fakeProvider(async name => {
+      if (name === 'network') {
+        const [operation] = await repository.listOperationsByStatus(['in_progress'])
+        await service.cancelOperation(operation.id, 'ws-1')
+      }
+    })
+    service = createService(provider, repository).service
+
+    const { infrastructure, operation } = await service.createInfrastructure('user-1', 'ws-1', request)
+
+    expect(operation.status).toBe('cancelled')
+    expect(provider.createResource).toHaveBeenCalledTimes(1)
+    expect(provider.deleteResource).not.toHaveBeenCalled()
+    expect(infrastructure.status).toBe('active')
+    expect(infrastructure.resources.map(r => r.name)).toEqual(['network'])
+  })
+
+  it('should delete created resources when rollback is requested', async () => {
+    const repository = new InMemoryInfrastructureRepository()
+    let service!: InfrastructureService
+    const provider = fakeProvider(async name => {
+      if (name === 'network') {
+        const [operation] = await repository.listOperationsByStatus(['in_progress'])
+        await service.cancelOperation(operation.id, 'ws-1', { rollback: true })
+      }
+    })
+    service = createService(provider, repository).service
+
+    const { infrastructure, operation } = await service.createInfrastructure('user-1', 'ws-1', request)
+
+    expect(operation.status).toBe('cancelled')
+    expect(operation.deleted_resources).toEqual(operation.created_resources)
+    expect(provider.deleteResource).toHaveBeenCalledWith('1', 'vpc')
+    expect(infrastructure.status).toBe('destroyed')
+  })
+
+  it('should not cancel an operation of another workspace', async () => {
+    const repository = new InMemoryInfrastructureRepository()
+    let service!: InfrastructureService
+    const provider = fakeProvider(async name => {
+      if (name === 'network') {
+        const [operation] = await repository.listOperationsByStatus(['in_progress'])
+        await expect(service.cancelOperation(operation.id, 'ws-2'))
+          .rejects.toMatchObject({ code: 'OPERATION_NOT_FOUND', statusCode: 404 })
+      }
+    })
+    service = createService(provider, repository).service
+
+    const { operation } = await service.createInfrastructure('user-1', 'ws-1', request)
+
+    expect(operation.status).toBe('completed')
+    expect(operation.cancel_requested_at).toBeUndefined()
+  })
+
+  it('should reject cancelling unknown or finished operations', async () => {
+    const { service } = createService(fakeProvider())
+
+    await expect(service.cancelOperation('missing', 'ws-1')).rejects.toMatchObject({ code: 'OPERATION_NOT_FOUND', statusCode: 404 })
+
+    const { operation } = await service.createInfrastructure('user-1', 'ws-1', request)
+    expect(operation.status).toBe('completed')
+    await expect(service.cancelOperation(operation.id, 'ws-1')).rejects.toMatchObject({ code: 'OPERATION_NOT_RUNNING', statusCode: 409 })
+  })
+})
+
+describe('Failed deployment cleanup', () => {
+  it('should delete created resources in reverse dependency order once each is gone', async () => {
+    const provider = fakeProvider(name => {
+      if (name === 'data') throw new Error('quota exceeded')
+    })
+    const deleted: string[] = []
+    provider.deleteResource.mockImplementation(async (id: string) => { deleted.push(id) })
+    const getResource = provider.getResource.getMockImplementation()!
+    provider.getResource.mockImplementation(async (id: string, type: ResourceType) =>
+      deleted.includes(id) ? null : getResource(id, type))
+    const { service } = createService(provider)
+
+    await expect(service.createInfrastructure('user-1', 'ws-1', {
+      ...request,
+      resources: [
+        ...request.resources,
+        { type: 'volume' as const, name: 'data', specifications: {}, depends_on: ['web'] }
+      ]
+    })).rejects.toThrow('Deployment failed')
+
+    expect(deleted).toEqual(['2', '1'])
+    expect(provider.getResource).toHaveBeenCalledWith('2', 'droplet')
+  })
+})
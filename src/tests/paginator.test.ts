@@ -0,0 +1,44 @@
+import { fetchAllPages } from '../utils/Paginator'
+
+const NEXT = 'https://api.digitalocean.com/v2/droplets?page=2&per_page=2&tag_name=web'
+const LAST = 'https://api.digitalocean.com/v2/droplets?page=3&per_page=2&tag_name=web'
+
+// Fetcher serving three pages of droplets linked by links.pages.next
+function pagedFetcher() {
+  const pages: Record<string, any> = {
+    '/droplets': { droplets: [{ id: 1 }, { id: 2 }], links: { pages: { next: NEXT } } },
+    [NEXT]: { droplets: [{ id: 3 }, { id: 4 }], links: { pages: { next: LAST } } },
+    [LAST]: { droplets: [{ id: 5 }], links: { pages: {} } }
+  }
+  return jest.fn(async (url: string, _config: object) => ({ data: pages[url] }))
+}
+
+describe('fetchAllPages', () => {
+  it('should follow links.pages.next until the last page', async () => {
+    const get = pagedFetcher()
+
+    const droplets = await fetchAllPages(get, '/droplets', 'droplets', { tag_name: 'web' }, { pageSize: 2, maxPages: 10 })
+
+    expect(droplets.map(d => d.id)).toEqual([1, 2, 3, 4, 5])
+    expect(get).toHaveBeenCalledTimes(3)
+    // Page size and filters go on the first request; the next links carry them after that
+    expect(get.mock.calls[0]).toEqual(['/droplets', { params: { tag_name: 'web', per_page: 2 } }])
+    expect(get.mock.calls[1]).toEqual([NEXT, {}])
+  })
+
+  it('should stop at the page cap', async () => {
+    const get = pagedFetcher()
+
+    const droplets = await fetchAllPages(get, '/droplets', 'droplets', {}, { pageSize: 2, maxPages: 2 })
+
+    expect(droplets).toHaveLength(4)
+    expect(get).toHaveBeenCalledTimes(2)
+  })
+
+  it('should handle responses without links or items', async () => {
+    const get = jest.fn(async () => ({ data: {} }))
+
+    expect(await fetchAllPages(get, '/databases', 'databases')).toEqual([])
+    expect(get).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,28 @@
+import { FakeCloudProvider } from '../providers/fake'
+import { createTestService } from './helpers'
+
+describe('Infrastructure plans', () => {
+  it('should only show and apply a plan in the workspace that created it', async () => {
+    const provider = new FakeCloudProvider({ transitionMs: 0 })
+    const { service } = createTestService({
+      provider,
+      readiness: { timeoutMs: 2000, initialIntervalMs: 5, maxIntervalMs: 10, backoffFactor: 2 }
+    })
+
+    const plan = await service.planInfrastructure('user-1', 'ws-1', {
+      name: 'planned',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [{ type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } }]
+    })
+
+    expect(await service.getPlan(plan.id, 'ws-2')).toBeNull()
+    await expect(service.applyPlan(plan.id, 'ws-2')).rejects.toMatchObject({ code: 'PLAN_NOT_FOUND', statusCode: 404 })
+    expect(await provider.listResources()).toHaveLength(0)
+
+    expect((await service.getPlan(plan.id, 'ws-1'))!.status).toBe('pending')
+    const { infrastructure } = await service.applyPlan(plan.id, 'ws-1')
+    expect(infrastructure.workspace_id).toBe('ws-1')
+    expect(await provider.listResources()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,170 @@
+import { FakeCloudProvider } from '../providers/fake'
+import { ENVIRONMENT_CREDENTIAL_ID, ProviderRegistry, credentialId } from '../services/ProviderRegistry'
+import { createTestService, settledOperation } from './helpers'
+
+function createRegistry(ttlMs = 60000) {
+  const created: string[] = []
+  const registry = new ProviderRegistry((provider, credentials) => {
+    created.push(credentials.digitalocean_api_token!)
+    return new FakeCloudProvider({ transitionMs: 0 })
+  }, { ttlMs })
+  return { registry, created }
+}
+
+describe('ProviderRegistry', () => {
+  it('should reuse a client per workspace and credential until it expires', async () => {
+    const { registry, created } = createRegistry(20)
+
+    const first = registry.register('ws-1', 'digitalocean', { digitalocean_api_token: 'token-a' })!
+    expect(registry.register('ws-1', 'digitalocean', { digitalocean_api_token: 'token-a' })!.instance).toBe(first.instance)
+    expect(registry.register('ws-2', 'digitalocean', { digitalocean_api_token: 'token-a' })!.instance).not.toBe(first.instance)
+    expect(first.credential_id).toBe(credentialId('digitalocean', { digitalocean_api_token: 'token-a' }))
+    expect(first.credential_id).not.toContain('token-a')
+
+    await new Promise(resolve => setTimeout(resolve, 25))
+    expect(registry.get('ws-1', 'digitalocean', first.credential_id)).toBeNull()
+    expect(created).toEqual(['token-a', 'token-a'])
+  })
+
+  it('should drop the old client when a user switches credentials', () => {
+    const { registry } = createRegistry()
+    const fallback = new FakeCloudProvider({ transitionMs: 0 })
+    registry.setDefault('digitalocean', fallback)
+
+    expect(registry.forUser('ws-1', 'user-1', 'digitalocean')).toEqual({ instance: fallback, credential_id: ENVIRONMENT_CREDENTIAL_ID })
+
+    const a = registry.register('ws-1', 'digitalocean', { digitalocean_api_token: 'token-a' })!
+    registry.assign('ws-1', 'user-1', 'digitalocean', a.credential_id)
+    registry.assign('ws-1', 'user-2', 'digitalocean', a.credential_id)
+    const b = registry.register('ws-1', 'digitalocean', { digitalocean_api_token: 'token-b' })!
+
+    // user-2 still holds token-a, so it survives user-1 switching
+    registry.assign('ws-1', 'user-1', 'digitalocean', b.credential_id)
+    expect(registry.get('ws-1', 'digitalocean', a.credential_id)).toBe(a.instance)
+    registry.assign('ws-1', 'user-2', 'digitalocean', b.credential_id)
+    expect(registry.get('ws-1', 'digitalocean', a.credential_id)).toBeNull()
+    expect(registry.forUser('ws-1', 'user-1', 'digitalocean')!.instance).toBe(b.instance)
+
+    expect(registry.invalidate('ws-1', 'digitalocean')).toBe(1)
+    expect(registry.forUser('ws-1', 'user-1', 'digitalocean')!.instance).toBe(fallback)
+  })
+})
+
+describe('InfrastructureService credential tracking', () => {
+  it('should keep using the credential an infrastructure was created with', async () => {
+    const { registry } = createRegistry()
+    let token = 'token-a'
+    const { service } = createTestService({
+      registry,
+      context: { getProviderCredentials: async () => ({ digitalocean_api_token: token }) },
+      readiness: { timeoutMs: 2000, initialIntervalMs: 5, maxIntervalMs: 10, backoffFactor: 2 }
+    })
+
+    const { infrastructure } = await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'tracked',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [{ type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } }]
+    }, 'jwt')
+    const original = credentialId('digitalocean', { digitalocean_api_token: 'token-a' })!
+    expect(infrastructure.credential_id).toBe(original)
+    const account = registry.get('ws-1', 'digitalocean', original) as FakeCloudProvider
+    expect(await account.listResources()).toHaveLength(1)
+
+    // The workspace's token changes; the old client is dropped and the new token belongs to another account
+    token = 'token-b'
+    expect(service.invalidateProviderCredentials('ws-1', 'digitalocean')).toBe(1)
+
+    await expect(service.destroyInfrastructure(infrastructure.id, 'jwt'))
+      .rejects.toMatchObject({ code: 'CREDENTIAL_UNAVAILABLE', statusCode: 409 })
+    expect(await account.listResources()).toHaveLength(1)
+  })
+
+  it('should rebind to a rotated token once it reaches the same account', async () => {
+    const account = new FakeCloudProvider({ transitionMs: 0, accountId: 'team-1' })
+    let token = 'token-a'
+    const { service, repository } = createTestService({
+      registry: new ProviderRegistry(() => account),
+      context: { getProviderCredentials: async () => ({ digitalocean_api_token: token }) },
+      readiness: { timeoutMs: 2000, initialIntervalMs: 5, maxIntervalMs: 10, backoffFactor: 2 }
+    })
+
+    const { infrastructure } = await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'tracked',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [{ type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } }]
+    }, 'jwt')
+    expect(infrastructure.account_id).toBe('team-1')
+
+    // The token is rotated in Context Manager; the account stays the same
+    token = 'token-b'
+    service.invalidateProviderCredentials('ws-1', 'digitalocean')
+    await expect(service.destroyInfrastructure(infrastructure.id))
+      .rejects.toMatchObject({ code: 'CREDENTIAL_UNAVAILABLE' })
+
+    const operation = await service.destroyInfrastructure(infrastructure.id, 'jwt')
+    expect((await settledOperation(repository, operation.id)).status).toBe('completed')
+    expect((await repository.getInfrastructure(infrastructure.id))!.credential_id)
+      .toBe(credentialId('digitalocean', { digitalocean_api_token: 'token-b' }))
+    expect(await account.listResources()).toHaveLength(0)
+  })
+})
+
+describe('InfrastructureService without a loaded credential', () => {
+  async function createTracked() {
+    // One account per token, so a reloaded credential sees the same resources
+    const accounts = new Map<string, FakeCloudProvider>()
+    const registry = new ProviderRegistry((provider, credentials) => {
+      const token = credentials.digitalocean_api_token!
+      if (!accounts.has(token)) accounts.set(token, new FakeCloudProvider({ transitionMs: 0 }))
+      return accounts.get(token)!
+    })
+    const { service, repository } = createTestService({
+      registry,
+      context: { getProviderCredentials: async () => ({ digitalocean_api_token: 'token-a' }) },
+      readiness: { timeoutMs: 2000, initialIntervalMs: 5, maxIntervalMs: 10, backoffFactor: 2 }
+    })
+
+    const { infrastructure } = await service.createInfrastructure('user-1', 'ws-1', {
+      name: 'tracked',
+      provider: 'digitalocean',
+      region: 'nyc3',
+      resources: [{ type: 'droplet', name: 'web', specifications: { size: 's-1vcpu-1gb' } }]
+    }, 'jwt')
+    service.invalidateProviderCredentials('ws-1', 'digitalocean')
+    return { service, repository, infrastructure }
+  }
+
+  it('should skip drift checks without a JWT and reload the credential with one', async () => {
+    const { service, infrastructure } = await createTracked()
+
+    const [skipped] = await service.detectDriftForAll('ws-1')
+    expect(skipped).toMatchObject({ infrastructure_id: infrastructure.id, resources_checked: 0 })
+    expect(skipped.skipped_reason).toContain(infrastructure.credential_id)
+
+    const [checked] = await service.detectDriftForAll('ws-1', 'jwt')
+    expect(checked).toMatchObject({ drifted: false, resources_checked: 1 })
+    expect(checked.skipped_reason).toBeUndefined()
+  })
+
+  it('should leave an interrupted operation waiting for its credential until resumed with a JWT', async () => {
+    const { service, repository, infrastructure } = await createTracked()
+    const [operation] = await repository.listOperationsByInfrastructure(infrastructure.id)
+    await repository.saveOperation({ ...operation, id: 'op-interrupted', operation_type: 'update', status: 'in_progress', completed_at: undefined })
+
+    await service.reconcileInterruptedOperations()
+    const waiting = (await repository.getOperation('op-interrupted'))!
+    expect(waiting.status).toBe('in_progress')
+    expect(waiting.awaiting_credential_id).toBe(infrastructure.credential_id)
+
+    await expect(service.resumeInterruptedOperation('op-interrupted', 'ws-2', 'jwt'))
+      .rejects.toMatchObject({ code: 'OPERATION_NOT_FOUND', statusCode: 404 })
+    const resumed = await service.resumeInterruptedOperation('op-interrupted', 'ws-1', 'jwt')
+    expect(resumed.status).toBe('failed')
+    expect(resumed.error_message).toBe('Interrupted by service restart')
+    expect(resumed.awaiting_credential_id).toBeUndefined()
+    await expect(service.resumeInterruptedOperation('op-interrupted', 'ws-1', 'jwt'))
+      .rejects.toMatchObject({ code: 'OPERATION_NOT_WAITING', statusCode: 409 })
+  })
+})
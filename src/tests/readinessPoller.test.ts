@@ -0,0 +1,69 @@
+import { waitForResourceReady, readinessOptionsFromEnv, ReadinessOptions } from '../utils/ReadinessPoller'
+import { CloudProviderInterface, InfrastructureResource } from '../types'
+
+function resource(overrides: Partial<InfrastructureResource> = {}): InfrastructureResource {
+  return {
+    id: 'res-1',
+    type: 'droplet',
+    name: 'web',
+    provider_id: '42',
+    specifications: {},
+    status: 'creating',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    dependencies: [],
+    dependents: [],
+    hourly_cost: 0,
+    monthly_cost: 0,
+    ...overrides
+  }
+}
+
+// Provider whose getResource walks through the given states
+function providerReturning(states: Array<InfrastructureResource | null>): CloudProviderInterface {
+  let call = 0
+  return {
+    getResource: jest.fn(async () => states[Math.min(call++, states.length - 1)])
+  } as unknown as CloudProviderInterface
+}
+
+const fast: ReadinessOptions = { timeoutMs: 50, initialIntervalMs: 1, maxIntervalMs: 5, backoffFactor: 2 }
+
+describe('waitForResourceReady', () => {
+  it('should wait for an active droplet with an IPv4 address', async () => {
+    const provider = providerReturning([
+      resource({ status: 'creating' }),
+      resource({ status: 'active' }),
+      resource({ status: 'active', public_ip: '203.0.113.10', private_ip: '10.0.0.2' })
+    ])
+    const target = resource()
+
+    await waitForResourceReady(provider, target, fast)
+
+    expect(provider.getResource).toHaveBeenCalledTimes(3)
+    expect(target).toMatchObject({ status: 'active', public_ip: '203.0.113.10', private_ip: '10.0.0.2' })
+  })
+
+  it('should wait for a volume to attach to its droplet', async () => {
+    const volume = resource({ type: 'volume', specifications: { droplet_id: '42' } })
+    const provider = providerReturning([
+      resource({ type: 'volume', status: 'active', specifications: { droplet_ids: [] } }),
+      resource({ type: 'volume', status: 'active', specifications: { droplet_ids: [42] } })
+    ])
+
+    await waitForResourceReady(provider, volume, fast)
+    expect(volume.status).toBe('active')
+  })
+
+  it('should fail on provider errors and time out otherwise', async () => {
+    await expect(waitForResourceReady(providerReturning([resource({ status: 'error' })]), resource(), fast))
+      .rejects.toMatchObject({ code: 'RESOURCE_FAILED' })
+
+    await expect(waitForResourceReady(providerReturning([resource({ status: 'creating' })]), resource(), fast))
+      .rejects.toMatchObject({ code: 'RESOURCE_NOT_READY' })
+  })
+
+  it('should read overrides from the environment', () => {
+    expect(readinessOptionsFromEnv({ ATLAS_READY_TIMEOUT_MS: '60000' }).timeoutMs).toBe(60000)
+  })
+})
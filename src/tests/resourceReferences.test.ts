@@ -0,0 +1,47 @@
+import { findReferences, resolveReferences, withReferenceDependencies } from '../utils/ResourceReferences'
+import { AtlasError } from '../types'
+
+describe('ResourceReferences', () => {
+  it('should find references in nested specifications', () => {
+    const references = findReferences({
+      vpc_uuid: '${resources.app-vpc.provider_id}',
+      droplet_ids: ['${resources.web-1.provider_id}'],
+      health: { url: 'http://${resources.web-1.public_ip}/health' }
+    })
+
+    expect(references).toEqual([
+      { name: 'app-vpc', attribute: 'provider_id' },
+      { name: 'web-1', attribute: 'provider_id' },
+      { name: 'web-1', attribute: 'public_ip' }
+    ])
+  })
+
+  it('should reject unsupported attributes', () => {
+    expect(() => findReferences({ size: '${resources.web.size}' })).toThrow(AtlasError)
+  })
+
+  it('should add referenced resources to depends_on', () => {
+    const [web] = withReferenceDependencies([{
+      type: 'droplet',
+      name: 'web',
+      specifications: { vpc_uuid: '${resources.vpc.provider_id}' },
+      depends_on: ['db']
+    }])
+
+    expect(web.depends_on).toEqual(['db', 'vpc'])
+  })
+
+  it('should substitute raw values and interpolate embedded references', async () => {
+    const values: Record<string, any> = { 'web.provider_id': 42, 'web.public_ip': '203.0.113.10' }
+    const spec = await resolveReferences(
+      {
+        droplet_ids: ['${resources.web.provider_id}'],
+        url: 'http://${resources.web.public_ip}/health',
+        region: 'nyc3'
+      },
+      async ref => values[`${ref.name}.${ref.attribute}`]
+    )
+
+    expect(spec).toEqual({ droplet_ids: [42], url: 'http://203.0.113.10/health', region: 'nyc3' })
+  })
+})
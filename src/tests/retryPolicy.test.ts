@@ -0,0 +1,99 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import { attachRetryPolicy, isRetryable, retryDelayMs, RetryOptions } from '../utils/RetryPolicy'
+
+const fast: RetryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 20 }
+
+// Client whose adapter answers with the given statuses in order
+function clientAnswering(statuses: number[], headers: Record<string, string> = {}) {
+  const requests: string[] = []
+  const client = axios.create({
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      requests.push(`${config.method?.toUpperCase()} ${config.url}`)
+      const status = statuses[Math.min(requests.length - 1, statuses.length - 1)]
+      const response: AxiosResponse = { data: {}, status, statusText: '', headers, config }
+      if (status >= 400) {
+        throw new AxiosError(`Request failed with status ${status}`, undefined, config, undefined, response)
+      }
+      return response
+    }
+  })
+  return { client, requests }
+}
+
+describe('RetryPolicy', () => {
+  it('should retry 429 and 5xx responses for idempotent requests', async () => {
+    const { client, requests } = clientAnswering([429, 503, 200])
+    attachRetryPolicy(client, fast)
+
+    const response = await client.get('/droplets')
+
+    expect(response.status).toBe(200)
+    expect(requests).toHaveLength(3)
+  })
+
+  it('should not retry a POST that may have been processed', async () => {
+    const { client, requests } = clientAnswering([500, 200])
+    attachRetryPolicy(client, fast)
+
+    await expect(client.post('/droplets', {})).rejects.toThrow('status 500')
+    expect(requests).toHaveLength(1)
+  })
+
+  it('should give up after the configured number of retries', async () => {
+    const { client, requests } = clientAnswering([502])
+    attachRetryPolicy(client, fast)
+
+    await expect(client.get('/account')).rejects.toThrow('status 502')
+    expect(requests).toHaveLength(3)
+  })
+
+  it('should record the rate-limit budget from response headers', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 60
+    const { client } = clientAnswering([200], {
+      'ratelimit-limit': '5000',
+      'ratelimit-remaining': '4321',
+      'ratelimit-reset': String(reset)
+    })
+    const policy = attachRetryPolicy(client, fast)
+
+    expect(policy.getRateLimit()).toBeNull()
+    await client.get('/account')
+
+    expect(policy.getRateLimit()).toMatchObject({
+      limit: 5000,
+      remaining: 4321,
+      reset_at: new Date(reset * 1000).toISOString()
+    })
+  })
+
+  describe('retryDelayMs', () => {
+    const options: RetryOptions = { maxRetries: 4, baseDelayMs: 1000, maxDelayMs: 60000 }
+    const now = Date.parse('2024-01-01T00:00:00Z')
+
+    it('should honour Retry-After in seconds or as a date', () => {
+      expect(retryDelayMs(0, { 'retry-after': '7' }, options, now)).toBe(7000)
+      expect(retryDelayMs(0, { 'retry-after': 'Mon, 01 Jan 2024 00:00:30 GMT' }, options, now)).toBe(30000)
+    })
+
+    it('should wait for the rate-limit reset when the budget is spent', () => {
+      const reset = String(now / 1000 + 12)
+      expect(retryDelayMs(0, { 'ratelimit-remaining': '0', 'ratelimit-reset': reset }, options, now)).toBe(12000)
+    })
+
+    it('should back off exponentially up to the maximum', () => {
+      const delay = retryDelayMs(2, {}, options, now)
+      expect(delay).toBeGreaterThanOrEqual(2000)
+      expect(delay).toBeLessThanOrEqual(4000)
+      expect(retryDelayMs(10, {}, options, now)).toBe(60000)
+    })
+  })
+
+  it('should treat only 429 as retryable for non-idempotent methods', () => {
+    expect(isRetryable('post', 429)).toBe(true)
+    expect(isRetryable('post', 503)).toBe(false)
+    expect(isRetryable('post', undefined)).toBe(false)
+    expect(isRetryable('delete', 503)).toBe(true)
+    expect(isRetryable('get', undefined)).toBe(true)
+    expect(isRetryable('get', 404)).toBe(false)
+  })
+})
@@ -0,0 +1,24 @@
+import { diffSpecifications } from '../utils/SpecDiff'
+
+describe('diffSpecifications', () => {
+  it('should return no changes for equal specifications', () => {
+    expect(diffSpecifications(
+      { size: 's-1vcpu-1gb', tags: ['web'] },
+      { size: 's-1vcpu-1gb', tags: ['web'] }
+    )).toEqual([])
+  })
+
+  it('should report changed, added and removed leaves by path', () => {
+    const changes = diffSpecifications(
+      { size: 's-1vcpu-1gb', rules: [{ ports: '80' }], backups: true },
+      { size: 's-2vcpu-2gb', rules: [{ ports: '443' }], monitoring: true }
+    )
+
+    expect(changes).toEqual([
+      { path: 'size', before: 's-1vcpu-1gb', after: 's-2vcpu-2gb' },
+      { path: 'rules.0.ports', before: '80', after: '443' },
+      { path: 'backups', before: true, after: undefined },
+      { path: 'monitoring', before: undefined, after: true }
+    ])
+  })
+})
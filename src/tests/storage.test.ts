@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileInfrastructureRepository, InMemoryInfrastructureRepository } from '../storage'
+import { CURRENT_SCHEMA_VERSION } from '../storage/file'
+import { Infrastructure, DeploymentOperation } from '../types'
+
+function buildInfrastructure(id: string, workspaceId: string, createdAt: string): Infrastructure {
+  return {
+    id,
+    name: `infra-${id}`,
+    workspace_id: workspaceId,
+    user_id: 'test-user',
+    provider: 'digitalocean',
+    region: 'nyc3',
+    resources: [],
+    status: 'active',
+    created_at: createdAt,
+    updated_at: createdAt,
+    estimated_monthly_cost: 0,
+    tags: {},
+    configuration: {}
+  }
+}
+
+function buildOperation(id: string, infrastructureId: string): DeploymentOperation {
+  return {
+    id,
+    infrastructure_id: infrastructureId,
+    operation_type: 'create',
+    status: 'in_progress',
+    started_at: new Date().toISOString(),
+    total_steps: 1,
+    completed_steps: 0,
+    created_resources: [],
+    updated_resources: [],
+    deleted_resources: [],
+    cost_change: 0
+  }
+}
+
+describe('InMemoryInfrastructureRepository', () => {
+  it('should list infrastructure by workspace, newest first', async () => {
+    const repository = new InMemoryInfrastructureRepository()
+    await repository.saveInfrastructure(buildInfrastructure('a', 'ws-1', '2024-01-01T00:00:00.000Z'))
+    await repository.saveInfrastructure(buildInfrastructure('b', 'ws-1', '2024-02-01T00:00:00.000Z'))
+    await repository.saveInfrastructure(buildInfrastructure('c', 'ws-2', '2024-03-01T00:00:00.000Z'))
+
+    const result = await repository.listInfrastructureByWorkspace('ws-1')
+    expect(result.map(i => i.id)).toEqual(['b', 'a'])
+  })
+})
+
+describe('FileInfrastructureRepository', () => {
+  let dataDir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'atlas-storage-'))
+    filePath = path.join(dataDir, 'atlas-state.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('should keep infrastructure and operations across restarts', async () => {
+    const first = new FileInfrastructureRepository(filePath)
+    await first.saveInfrastructure(buildInfrastructure('infra-1', 'ws-1', new Date().toISOString()))
+    await first.saveOperation(buildOperation('op-1', 'infra-1'))
+
+    const second = new FileInfrastructureRepository(filePath)
+    expect(await second.getInfrastructure('infra-1')).toMatchObject({ id: 'infra-1', workspace_id: 'ws-1' })
+    expect(await second.listInfrastructureByWorkspace('ws-1')).toHaveLength(1)
+    expect((await second.listOperationsByInfrastructure('infra-1')).map(op => op.id)).toEqual(['op-1'])
+  })
+
+  it('should migrate a state file without a schema version', async () => {
+    await fs.writeFile(filePath, JSON.stringify({}), 'utf8')
+
+    const repository = new FileInfrastructureRepository(filePath)
+    await repository.initialize()
+
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf8'))
+    expect(stored.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+    expect(stored.infrastructures).toEqual({})
+    expect(stored.operations).toEqual({})
+    expect(stored.plans).toEqual({})
+  })
+})
@@ -0,0 +1,117 @@
+import { irreversibleChange } from '../providers/digitalocean'
+import { ProviderError, ResourceSpec } from '../types'
+import { createTestService, settledOperation, testInfrastructure, testResource } from './helpers'
+
+function infrastructure() {
+  return testInfrastructure({
+    name: 'rollback-test',
+    resources: [
+      testResource(),
+      testResource({ id: 'data', type: 'volume', name: 'data', provider_id: 'vol-1', specifications: { size_gigabytes: 10 }, monthly_cost: 1 })
+    ]
+  })
+}
+
+// Droplet resizes succeed (and cost more when larger); volume resizes fail
+function fakeProvider(options: { failRevert?: boolean } = {}) {
+  return {
+    name: 'digitalocean',
+    updateResource: jest.fn(async (id: string, spec: Partial<ResourceSpec>) => {
+      if (id === 'vol-1') {
+        throw new ProviderError('Volume resize failed', 'digitalocean', 422)
+      }
+      if (options.failRevert && spec.size === 's-1vcpu-1gb') {
+        throw new ProviderError('Droplet resize failed', 'digitalocean', 422)
+      }
+      const large = spec.size === 's-2vcpu-4gb'
+      return testResource({ provider_id: id, specifications: spec, monthly_cost: large ? 24 : 6, hourly_cost: large ? 0.036 : 0.009 })
+    }),
+    getResource: jest.fn(async (id: string) => testResource({ provider_id: id }))
+  }
+}
+
+async function runUpdate(provider: ReturnType<typeof fakeProvider>, rollbackOnFailure?: boolean) {
+  const { service, repository } = createTestService({ provider })
+  await repository.saveInfrastructure(infrastructure())
+
+  const { operation } = await service.updateInfrastructure('infra-1', {
+    resources: [
+      { id: 'web', specifications: { size: 's-2vcpu-4gb' } },
+      { id: 'data', specifications: { size_gigabytes: 50 } }
+    ],
+    rollback_on_failure: rollbackOnFailure
+  })
+
+  // The update runs in the background
+  return { operation: await settledOperation(repository, operation.id), infrastructure: (await repository.getInfrastructure('infra-1'))! }
+}
+
+describe('Update rollback', () => {
+  it('should revert applied changes and restore stored specifications when a step fails', async () => {
+    const provider = fakeProvider()
+    const { operation, infrastructure } = await runUpdate(provider)
+
+    expect(operation.status).toBe('failed')
+    expect(operation.error_message).toBe('Volume resize failed')
+    expect(operation.rollback).toMatchObject({
+      status: 'completed',
+      reason: 'Volume resize failed',
+      reverted_resources: ['data', 'web'],
+      failed_resources: [],
+      skipped_resources: []
+    })
+    expect(provider.updateResource).toHaveBeenLastCalledWith('101', { size: 's-1vcpu-1gb' }, expect.anything())
+
+    expect(infrastructure.status).toBe('active')
+    expect(infrastructure.resources.map(r => r.specifications)).toEqual([
+      { size: 's-1vcpu-1gb' },
+      { size_gigabytes: 10 }
+    ])
+    expect(infrastructure.estimated_monthly_cost).toBe(7)
+    expect(operation.cost_change).toBe(0)
+  })
+
+  it('should leave the infrastructure in error when a revert fails', async () => {
+    const { operation, infrastructure } = await runUpdate(fakeProvider({ failRevert: true }))
+
+    expect(operation.rollback).toMatchObject({ status: 'partial', failed_resources: ['web'] })
+    expect(infrastructure.status).toBe('error')
+    expect(infrastructure.resources[0].status).toBe('error')
+  })
+
+  it('should keep a disk resize that cannot be undone and list it as skipped', async () => {
+    const provider = { ...fakeProvider(), irreversibleChange }
+    const { service, repository } = createTestService({ provider })
+    await repository.saveInfrastructure(infrastructure())
+
+    const { operation } = await service.updateInfrastructure('infra-1', {
+      resources: [
+        { id: 'web', specifications: { size: 's-2vcpu-4gb', resize_disk: true } },
+        { id: 'data', specifications: { size_gigabytes: 50 } }
+      ]
+    })
+    const failed = await settledOperation(repository, operation.id)
+
+    expect(failed.rollback).toMatchObject({
+      status: 'completed',
+      reverted_resources: ['data'],
+      failed_resources: [],
+      skipped_resources: [{ resource_id: 'web', reason: expect.stringContaining('cannot shrink') }]
+    })
+    expect(provider.updateResource).toHaveBeenCalledTimes(2)
+
+    const stored = (await repository.getInfrastructure('infra-1'))!
+    expect(stored.status).toBe('active')
+    expect(stored.resources[0].specifications).toEqual({ size: 's-2vcpu-4gb', resize_disk: true })
+  })
+
+  it('should skip the rollback when disabled on the request', async () => {
+    const provider = fakeProvider()
+    const { operation, infrastructure } = await runUpdate(provider, false)
+
+    expect(operation.rollback).toBeUndefined()
+    expect(provider.updateResource).toHaveBeenCalledTimes(2)
+    expect(infrastructure.status).toBe('error')
+    expect(infrastructure.resources[0].specifications).toEqual({ size: 's-2vcpu-4gb' })
+  })
+})
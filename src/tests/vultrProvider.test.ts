@@ -0,0 +1,127 @@
+import { VultrProvider } from '../providers/vultr'
+import { createCloudProvider } from '../providers'
+import { AtlasError, ProviderError } from '../types'
+
+// Stand-in for the axios client: records calls with their bodies and answers from a route table
+function stubClient(routes: Record<string, any>) {
+  const calls: { call: string, body?: any }[] = []
+  const handle = (method: string) => jest.fn(async (path: string, body?: any) => {
+    calls.push({ call: `${method} ${path}`, body })
+    const data = routes[`${method} ${path}`] ?? routes[method] ?? {}
+    if (data instanceof Error) throw data
+    return { data }
+  })
+
+  return {
+    calls,
+    client: { get: handle('GET'), post: handle('POST'), patch: handle('PATCH'), delete: handle('DELETE') }
+  }
+}
+
+function instance(overrides: Record<string, any> = {}) {
+  return {
+    id: 'inst-1',
+    label: 'web',
+    status: 'active',
+    plan: 'vc2-1c-2gb',
+    region: 'ewr',
+    os_id: 1743,
+    main_ip: '203.0.113.9',
+    internal_ip: '10.1.96.3',
+    tags: ['env:test'],
+    date_created: '2026-01-01T00:00:00+00:00',
+    ...overrides
+  }
+}
+
+describe('VultrProvider', () => {
+  let provider: VultrProvider
+
+  beforeEach(() => {
+    provider = new VultrProvider('test-key')
+  })
+
+  it('should only build a provider when an API key is stored', () => {
+    expect(createCloudProvider('vultr', {})).toBeNull()
+    expect(createCloudProvider('vultr', { vultr_api_key: 'key' })).toBeInstanceOf(VultrProvider)
+  })
+
+  it('should create an instance on the default OS attached to a VPC', async () => {
+    const { client, calls } = stubClient({ 'POST /instances': { instance: instance({ status: 'pending', main_ip: '0.0.0.0' }) } })
+    ;(provider as any).client = client
+
+    const created = await provider.createResource('droplet', { name: 'web', size: 'vc2-1c-2gb', vpc_uuid: 'vpc-1', tags: { env: 'test' } })
+
+    expect(calls[0].body).toMatchObject({ label: 'web', plan: 'vc2-1c-2gb', os_id: 1743, attach_vpc: ['vpc-1'], tags: ['env:test'] })
+    expect(created).toMatchObject({ provider_id: 'inst-1', status: 'creating', hourly_cost: 0.015 })
+  })
+
+  it('should treat an instance as creating until it has a public address', async () => {
+    const { client } = stubClient({ 'GET /instances/inst-1': { instance: instance({ main_ip: '0.0.0.0' }) } })
+    ;(provider as any).client = client
+
+    expect(await provider.getResource('inst-1')).toMatchObject({ status: 'creating', public_ip: undefined, private_ip: '10.1.96.3' })
+  })
+
+  it('should add one firewall rule per source address', async () => {
+    const { client, calls } = stubClient({ 'POST /firewalls': { firewall_group: { id: 'fw-1', description: 'web-fw' } } })
+    ;(provider as any).client = client
+
+    await provider.createResource('firewall', {
+      name: 'web-fw',
+      inbound_rules: [{ protocol: 'tcp', ports: '8000-8100', sources: { addresses: ['10.0.0.0/8', '::/0'] } }],
+      droplet_ids: ['inst-1']
+    })
+
+    expect(calls.slice(1)).toEqual([
+      { call: 'POST /firewalls/fw-1/rules', body: { ip_type: 'v4', protocol: 'tcp', subnet: '10.0.0.0', subnet_size: 8, port: '8000:8100' } },
+      { call: 'POST /firewalls/fw-1/rules', body: { ip_type: 'v6', protocol: 'tcp', subnet: '::', subnet_size: 0, port: '8000:8100' } },
+      { call: 'PATCH /instances/inst-1', body: { firewall_group_id: 'fw-1' } }
+    ])
+  })
+
+  it('should follow list cursors', async () => {
+    const { client } = stubClient({})
+    client.get.mockImplementation(async (path: string, config?: any) => {
+      if (path !== '/instances') return { data: { meta: { links: { next: '' } } } }
+      const page = config.params.cursor ? Number(config.params.cursor) : 1
+      return {
+        data: {
+          instances: [instance({ id: `inst-${page}`, label: `web-${page}` })],
+          meta: { links: { next: page < 3 ? String(page + 1) : '' } }
+        }
+      }
+    })
+    ;(provider as any).client = client
+
+    expect((await provider.listResources()).map(resource => resource.name)).toEqual(['web-1', 'web-2', 'web-3'])
+  })
+
+  it('should change the plan in place and reject fields it cannot change', async () => {
+    const { client, calls } = stubClient({ 'GET /instances/inst-1': { instance: instance({ plan: 'vc2-2c-4gb' }) } })
+    ;(provider as any).client = client
+
+    const updated = await provider.updateResource('inst-1', { size: 'vc2-2c-4gb' }, { type: 'droplet', current: { size: 'vc2-1c-2gb' } })
+
+    expect(calls[0]).toEqual({ call: 'PATCH /instances/inst-1', body: { plan: 'vc2-2c-4gb' } })
+    expect(updated.hourly_cost).toBe(0.030)
+    await expect(provider.updateResource('inst-1', { region: 'ams' }, { type: 'droplet' })).rejects.toThrow(AtlasError)
+  })
+
+  it('should detach a block before deleting it and tolerate missing resources', async () => {
+    const { client, calls } = stubClient({
+      'GET /blocks/blk-1': { block: { id: 'blk-1', attached_to_instance: 'inst-1' } },
+      'DELETE /load-balancers/lb-1': new ProviderError('Vultr API Error: Not found', 'vultr', 404)
+    })
+    ;(provider as any).client = client
+
+    await provider.deleteResource('blk-1', 'volume')
+    expect(calls.map(({ call }) => call)).toEqual(['GET /blocks/blk-1', 'POST /blocks/blk-1/detach', 'DELETE /blocks/blk-1'])
+    await expect(provider.deleteResource('lb-1', 'load_balancer')).resolves.toBeUndefined()
+  })
+
+  it('should estimate costs from the pricing table', async () => {
+    expect(await provider.estimateCost({ size: 'vc2-1c-1gb' })).toBeCloseTo(0.007 * 24 * 30)
+    expect(await provider.estimateCost({ size_gigabytes: 100, block_type: 'storage_opt' })).toBeCloseTo(2.5)
+  })
+})
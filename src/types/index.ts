@@ -6,6 +6,8 @@ export interface Infrastructure {
   workspace_id: string
   user_id: string
   provider: CloudProvider
+  credential_id?: string // Provider credential the resources were created with
+  account_id?: string // Provider account behind that credential; a rotated credential for it may take over
   region: string
   
   // Resource specifications
@@ -25,6 +27,12 @@ export interface Infrastructure {
   
   // Configuration
   configuration: InfrastructureConfig
+
+  // Most recent comparison with live provider state
+  last_drift_report?: DriftReport
+
+  // Held by the running create/update/destroy operation
+  lock?: InfrastructureLock
 }
 
 export interface InfrastructureResource {
@@ -35,6 +43,10 @@ export interface InfrastructureResource {
   
   // Specifications
   specifications: ResourceSpec
+
+  // Network addresses (once assigned by the provider)
+  public_ip?: string
+  private_ip?: string
   
   // Status
   status: ResourceStatus
@@ -62,6 +74,7 @@ export type ResourceType =
   | 'firewall'          // Security groups
   | 'vpc'               // Virtual private clouds
   | 'domain'            // DNS domains
+  | 'dns_record'        // DNS records within a domain
   | 'cdn'               // Content delivery networks
   | 'kubernetes'        // Kubernetes clusters
   | 'container_registry' // Container registries
@@ -114,6 +127,24 @@ export interface ResourceSpec {
   algorithm?: 'round_robin' | 'least_connections'
   health_check?: HealthCheck
   forwarding_rules?: ForwardingRule[]
+
+  // Kubernetes-specific
+  node_pools?: KubernetesNodePool[]
+  auto_upgrade?: boolean
+  ha?: boolean            // Highly available control plane
+
+  // DNS record-specific
+  domain?: string         // Domain the record belongs to, e.g. 'example.com'
+  fqdn?: string           // Full record name; its domain is looked up when `domain` is not given
+  record_type?: DNSRecordType
+  hostname?: string       // Record name within the domain ('@' for the apex)
+  data?: string           // Address, target host or text
+  ttl?: number
+  priority?: number       // MX only
+
+  // Container registry-specific
+  tier?: string           // Subscription tier, e.g. 'basic'
+  registry?: string       // Registry a droplet or Kubernetes cluster pulls images from
   
   // Custom configuration
   [key: string]: any
@@ -129,6 +160,36 @@ export interface HealthCheck {
   unhealthy_threshold: number
 }
 
+export interface KubernetesNodePool {
+  name: string
+  size: string            // Droplet size of each node
+  count: number           // Node count (the starting count when auto-scaling)
+  auto_scale?: boolean
+  min_nodes?: number
+  max_nodes?: number
+}
+
+export interface DockerCredentialOptions {
+  readWrite?: boolean     // Push as well as pull
+  expirySeconds?: number  // Omit for credentials that do not expire
+}
+
+export interface RegistryRepository {
+  name: string
+  tag_count: number
+  manifest_count: number
+  latest_tag?: string
+  updated_at?: string
+}
+
+export interface RegistryGarbageCollection {
+  id: string
+  status: string
+  created_at: string
+}
+
+export type DNSRecordType = 'A' | 'AAAA' | 'CNAME' | 'TXT' | 'MX'
+
 export interface ForwardingRule {
   entry_protocol: 'http' | 'https' | 'tcp' | 'udp'
   entry_port: number
@@ -263,6 +324,7 @@ export interface CreateResourceRequest {
   type: ResourceType
   name: string
   specifications: ResourceSpec
+  depends_on?: string[] // Names of resources in the same request that must exist first
 }
 
 export interface UpdateInfrastructureRequest {
@@ -270,6 +332,7 @@ export interface UpdateInfrastructureRequest {
   resources?: UpdateResourceRequest[]
   configuration?: Partial<InfrastructureConfig>
   tags?: Record<string, string>
+  rollback_on_failure?: boolean // Revert applied resource changes when a step fails (default true)
 }
 
 export interface UpdateResourceRequest {
@@ -277,11 +340,27 @@ export interface UpdateResourceRequest {
   specifications?: Partial<ResourceSpec>
 }
 
+export interface ImportInfrastructureRequest {
+  infrastructure_id?: string // Attach to existing infrastructure; omit to create a new record
+  name?: string // Required for a new record
+  provider?: CloudProvider
+  region?: string
+  resources?: ImportResourceRequest[]
+  tag_name?: string // Import every unmanaged resource carrying this provider tag
+  tags?: Record<string, string>
+}
+
+export interface ImportResourceRequest {
+  type: ResourceType
+  provider_id: string
+  name?: string // Defaults to the name at the provider
+}
+
 export interface DeploymentOperation {
   id: string
   infrastructure_id: string
-  operation_type: 'create' | 'update' | 'destroy'
-  status: 'pending' | 'in_progress' | 'completed' | 'failed'
+  operation_type: 'create' | 'update' | 'destroy' | 'import'
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled'
   started_at: string
   completed_at?: string
   error_message?: string
@@ -298,6 +377,121 @@ export interface DeploymentOperation {
   
   // Cost impact
   cost_change: number
+
+  // Original resource requests (create operations) - lets an interrupted deployment resume
+  requested_resources?: CreateResourceRequest[]
+
+  // Individual provider actions, in the order they ran
+  steps?: OperationStep[]
+
+  // Credential an interrupted operation needs before it can be reconciled (set on restart
+  // when that credential is not loaded; a request with the owner's JWT resumes it)
+  awaiting_credential_id?: string
+
+  // Cancellation - honoured between steps
+  cancel_requested_at?: string
+  rollback_on_cancel?: boolean // Undo resources this operation created or changed
+
+  // Update operations - state before each resource step, and the rollback that used it
+  snapshots?: ResourceSnapshot[]
+  rollback?: OperationRollback
+}
+
+export interface OperationStep {
+  description: string // e.g. "Power off droplet web-1"
+  resource_id?: string
+  status: 'in_progress' | 'completed' | 'failed'
+  started_at: string
+  completed_at?: string
+  error_message?: string
+}
+
+export interface ResourceSnapshot {
+  resource_id: string
+  specifications: ResourceSpec // Stored specifications before the step
+  status: ResourceStatus
+  hourly_cost: number
+  monthly_cost: number
+  changed_fields: string[]
+  applied: boolean // Provider accepted the change
+}
+
+export interface OperationRollback {
+  status: 'in_progress' | 'completed' | 'partial'
+  reason: string // Failure or cancellation that triggered it
+  started_at: string
+  completed_at?: string
+  reverted_resources: string[]
+  failed_resources: string[]
+  skipped_resources: { resource_id: string; reason: string }[] // Changes the provider cannot undo, kept as applied
+}
+
+export interface IdempotencyOptions {
+  key: string
+  body: unknown // What the caller sent; a different body with the same key is rejected
+}
+
+// Idempotency keys - a retried create returns the original result instead of provisioning again
+export interface IdempotencyRecord {
+  id: string // workspace_id:scope:key
+  key: string
+  workspace_id: string
+  scope: string // e.g. 'create_infrastructure', 'deploy_application'
+  request_hash: string
+  status: 'in_progress' | 'completed'
+
+  // Creates point at the records they made; other requests store their response
+  infrastructure_id?: string
+  operation_id?: string
+  response?: unknown
+
+  created_at: string
+  expires_at: string
+}
+
+// Plans (dry runs) - reviewed before being applied by ID
+export type PlanAction = 'create' | 'update' | 'no-op'
+
+export interface SpecificationChange {
+  path: string // Dotted path, e.g. "size" or "rules.0.ports"
+  before?: any
+  after?: any
+}
+
+export interface PlannedResourceChange {
+  action: PlanAction
+  resource_id?: string // Existing resource (updates)
+  name: string
+  type: ResourceType
+  changes: SpecificationChange[]
+  monthly_cost_before: number
+  monthly_cost_after: number
+}
+
+export interface InfrastructurePlan {
+  id: string
+  workspace_id: string
+  user_id: string
+  operation_type: 'create' | 'update'
+  infrastructure_id?: string // Target of an update plan
+
+  // Exactly what will be applied
+  request: CreateInfrastructureRequest | UpdateInfrastructureRequest
+
+  // Diff against the stored infrastructure
+  infrastructure_changes: SpecificationChange[] // name, tags, configuration
+  resource_changes: PlannedResourceChange[]
+  cost_change: number // Monthly delta
+  estimated_monthly_cost: number // Monthly total after apply
+
+  // Fingerprint of the infrastructure state the plan was computed against
+  state_fingerprint?: string
+
+  status: 'pending' | 'applied' | 'stale' | 'expired'
+  created_at: string
+  expires_at: string
+  applied_at?: string
+  operation_id?: string
 }
 
 // Cost tracking
@@ -392,7 +586,29 @@ export interface InfrastructureIssue {
   suggested_actions: string[]
 }
 
+export interface InfrastructureLock {
+  operation_id: string
+  operation_type: DeploymentOperation['operation_type']
+  acquired_at: string
+}
+
+export interface DriftReport {
+  infrastructure_id: string
+  checked_at: string
+  drifted: boolean
+  resources_checked: number
+  issues: InfrastructureIssue[]
+  skipped_reason?: string // Set when the infrastructure could not be checked, e.g. its credential is not loaded
+}
+
 // Provider interface for extensibility
+export interface ProviderRateLimit {
+  limit?: number
+  remaining?: number
+  reset_at?: string
+  updated_at: string
+}
+
 export interface CloudProviderInterface {
   // Provider info
   name: CloudProvider
@@ -401,12 +617,18 @@ export interface CloudProviderInterface {
   
   // Authentication
   authenticate(credentials: Record<string, string>): Promise<boolean>
+
+  // Stable ID of the account the credentials belong to (unchanged when a token is rotated)
+  getAccountId?(): Promise<string>
   
+  // Latest rate-limit budget reported by the provider API, if it reports one
+  getRateLimit?(): ProviderRateLimit | null
+
   // Resource management
-  createResource(type: ResourceType, spec: ResourceSpec): Promise<InfrastructureResource>
-  updateResource(id: string, spec: Partial<ResourceSpec>): Promise<InfrastructureResource>
-  deleteResource(id: string): Promise<void>
-  getResource(id: string): Promise<InfrastructureResource | null>
+  createResource(type: ResourceType, spec: ResourceSpec, options?: CreateResourceOptions): Promise<InfrastructureResource>
+  updateResource(id: string, spec: Partial<ResourceSpec>, options?: UpdateResourceOptions): Promise<InfrastructureResource>
+  deleteResource(id: string, type?: ResourceType): Promise<void> // Must succeed if the resource is already gone
+  getResource(id: string, type?: ResourceType): Promise<InfrastructureResource | null>
   listResources(filters?: Record<string, any>): Promise<InfrastructureResource[]>
   
   // Cost management
@@ -420,6 +642,61 @@ export interface CloudProviderInterface {
   listDroplets?(): Promise<any[]>
   listDatabases?(): Promise<any[]>
   listLoadBalancers?(): Promise<any[]>
+
+  // Cluster credentials for a Kubernetes resource, as a kubeconfig document
+  getKubeconfig?(id: string): Promise<string>
+
+  // Container registry access: Docker config.json credentials, repositories and garbage collection
+  getDockerCredentials?(id: string, options?: DockerCredentialOptions): Promise<string>
+  listRegistryRepositories?(id: string): Promise<RegistryRepository[]>
+  startRegistryGarbageCollection?(id: string): Promise<RegistryGarbageCollection>
+
+  // The account's most specific domain (DNS zone) containing a full record name, or null
+  findDomain?(fqdn: string): Promise<string | null>
+
+  // Why an applied update cannot be reverted in place (e.g. a grown disk), or null
+  irreversibleChange?(type: ResourceType, before: ResourceSpec, after: ResourceSpec): string | null
+
+  // Remove provider-side containers kept for an infrastructure (e.g. an Azure
+  // resource group) once all of its resources are destroyed
+  releaseInfrastructure?(infrastructureId: string): Promise<void>
+}
+
+export interface CreateResourceOptions {
+  infrastructure_id?: string // Infrastructure the resource belongs to
+}
+
+export interface UpdateResourceOptions {
+  type?: ResourceType
+  current?: ResourceSpec // Specification before the change
+  onStep?: (description: string) => Promise<void> | void // Called as each provider action starts
+}
+
+// Persistence interface for infrastructure state
+export interface InfrastructureRepository {
+  // Prepare the backing store (load data, run migrations)
+  initialize(): Promise<void>
+
+  // Infrastructure records
+  saveInfrastructure(infrastructure: Infrastructure): Promise<void>
+  getInfrastructure(id: string): Promise<Infrastructure | null>
+  listInfrastructureByWorkspace(workspaceId: string): Promise<Infrastructure[]>
+  listAllInfrastructure(): Promise<Infrastructure[]>
+
+  // Deployment operations
+  saveOperation(operation: DeploymentOperation): Promise<void>
+  getOperation(id: string): Promise<DeploymentOperation | null>
+  listOperationsByInfrastructure(infrastructureId: string): Promise<DeploymentOperation[]>
+  listOperationsByStatus(statuses: DeploymentOperation['status'][]): Promise<DeploymentOperation[]>
+
+  // Plans
+  savePlan(plan: InfrastructurePlan): Promise<void>
+  getPlan(id: string): Promise<InfrastructurePlan | null>
+
+  // Idempotency keys - claim stores the record unless an unexpired one exists, and returns that one
+  claimIdempotencyKey(record: IdempotencyRecord): Promise<IdempotencyRecord | null>
+  saveIdempotencyRecord(record: IdempotencyRecord): Promise<void>
+  deleteIdempotencyRecord(id: string): Promise<void>
 }
 
 // Error types
@@ -435,7 +712,7 @@ export class AtlasError extends Error {
 }
 
 export class ProviderError extends AtlasError {
-  constructor(message: string, public provider: CloudProvider) {
+  constructor(message: string, public provider: CloudProvider, public providerStatus?: number) {
     super(message, 'PROVIDER_ERROR', 502)
     this.name = 'ProviderError'
   }
@@ -448,6 +725,50 @@ export class ResourceNotFoundError extends AtlasError {
   }
 }
 
+export class DependencyCycleError extends AtlasError {
+  constructor(public cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' -> ')}`, 'DEPENDENCY_CYCLE', 400)
+    this.name = 'DependencyCycleError'
+  }
+}
+
+export class OperationCancelledError extends AtlasError {
+  constructor(operationId: string) {
+    super(`Operation cancelled: ${operationId}`, 'OPERATION_CANCELLED', 409)
+    this.name = 'OperationCancelledError'
+  }
+}
+
+export class OperationInProgressError extends AtlasError {
+  constructor(infrastructureId: string, public lock: InfrastructureLock) {
+    super(
+      `Infrastructure ${infrastructureId} is locked by ${lock.operation_type} operation ${lock.operation_id}`,
+      'OPERATION_IN_PROGRESS',
+      409
+    )
+    this.name = 'OperationInProgressError'
+  }
+}
+
+export class CredentialUnavailableError extends AtlasError {
+  constructor(infrastructureId: string, public credentialId: string) {
+    super(
+      `Infrastructure ${infrastructureId} was created with credential ${credentialId}, which is not loaded; ` +
+      'retry with a JWT for that account',
+      'CREDENTIAL_UNAVAILABLE',
+      409
+    )
+    this.name = 'CredentialUnavailableError'
+  }
+}
+
+export class IdempotencyKeyMismatchError extends AtlasError {
+  constructor(key: string) {
+    super(`Idempotency key ${key} was already used with a different request`, 'IDEMPOTENCY_KEY_MISMATCH', 422)
+    this.name = 'IdempotencyKeyMismatchError'
+  }
+}
+
 export class InsufficientPermissionsError extends AtlasError {
   constructor(action: string) {
     super(`Insufficient permissions for action: ${action}`, 'INSUFFICIENT_PERMISSIONS', 403)
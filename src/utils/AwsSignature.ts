@@ -0,0 +1,87 @@
+/**
+ * AWS Signature Version 4 for the Query APIs (EC2, RDS, Elastic Load Balancing)
+ */
+
+import { createHash, createHmac } from 'crypto'
+
+export interface AwsCredentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+}
+
+export interface SignableRequest {
+  method: string
+  url: string // Absolute URL, query string included
+  headers?: Record<string, string>
+  body?: string
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value, 'utf8').digest('hex')
+const hmac = (key: string | Buffer, value: string) => createHmac('sha256', key).update(value, 'utf8').digest()
+
+/**
+ * Percent-encode the way SigV4 expects (RFC 3986: only A-Z a-z 0-9 - _ . ~ left alone)
+ */
+export function awsEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+/**
+ * Query string with keys in the order SigV4 signs them
+ */
+export function canonicalQueryString(params: Record<string, string>): string {
+  return Object.keys(params)
+    .sort()
+    .map(key => `${awsEncode(key)}=${awsEncode(params[key])}`)
+    .join('&')
+}
+
+/**
+ * Headers to send with the request: the given ones plus host, x-amz-date,
+ * x-amz-security-token (for temporary credentials) and authorization
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: AwsCredentials,
+  region: string,
+  service: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const url = new URL(request.url)
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const date = amzDate.slice(0, 8)
+
+  const headers: Record<string, string> = { ...request.headers, host: url.host, 'x-amz-date': amzDate }
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken
+  }
+
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort()
+  const values = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]))
+  const signedHeaders = names.join(';')
+
+  const query: Record<string, string> = {}
+  url.searchParams.forEach((value, key) => { query[key] = value })
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    url.pathname || '/',
+    canonicalQueryString(query),
+    names.map(name => `${name}:${values[name].trim().replace(/\s+/g, ' ')}\n`).join(''),
+    signedHeaders,
+    sha256(request.body || '')
+  ].join('\n')
+
+  const scope = `${date}/${region}/${service}/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+
+  const signingKey = [date, region, service, 'aws4_request']
+    .reduce<string | Buffer>((key, part) => hmac(key, part), `AWS4${credentials.secretAccessKey}`)
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex')
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  }
+}
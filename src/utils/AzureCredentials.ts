@@ -0,0 +1,71 @@
+/**
+ * Microsoft Entra ID client-credential auth for Azure Resource Manager
+ */
+
+import axios, { AxiosInstance } from 'axios'
+import { ProviderError } from '../types'
+
+export interface AzureClientCredentials {
+  tenantId: string
+  clientId: string
+  clientSecret: string
+}
+
+export const AZURE_MANAGEMENT_SCOPE = 'https://management.azure.com/.default'
+
+// Tokens are refreshed this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000
+
+/**
+ * Login endpoint (AZURE_AUTHORITY_HOST overrides it, e.g. for sovereign clouds)
+ */
+export function azureAuthorityHost(env: NodeJS.ProcessEnv = process.env): string {
+  return (env.AZURE_AUTHORITY_HOST || 'https://login.microsoftonline.com').replace(/\/+$/, '')
+}
+
+/**
+ * Access tokens for one service principal, cached until shortly before they expire
+ */
+export class AzureTokenSource {
+  private token: { value: string; expiresAt: number } | null = null
+  private pending: Promise<string> | null = null
+
+  constructor(
+    private credentials: AzureClientCredentials,
+    private scope: string = AZURE_MANAGEMENT_SCOPE,
+    private http: Pick<AxiosInstance, 'post'> = axios.create({ timeout: 10000 })
+  ) {}
+
+  async getAccessToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+      return this.token.value
+    }
+
+    // Concurrent requests share one exchange
+    if (!this.pending) {
+      this.pending = this.exchange().finally(() => { this.pending = null })
+    }
+    return this.pending
+  }
+
+  private async exchange(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: this.credentials.clientId,
+      client_secret: this.credentials.clientSecret,
+      scope: this.scope
+    }).toString()
+
+    try {
+      const response = await this.http.post(`${azureAuthorityHost()}/${this.credentials.tenantId}/oauth2/v2.0/token`, body, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      })
+      const { access_token, expires_in } = response.data
+      this.token = { value: access_token, expiresAt: Date.now() + Number(expires_in || 3600) * 1000 }
+      return access_token
+    } catch (error: any) {
+      const details = error.response?.data?.error_description || error.response?.data?.error || error.message
+      throw new ProviderError(`Azure token request failed for client ${this.credentials.clientId}: ${details}`, 'azure', error.response?.status)
+    }
+  }
+}
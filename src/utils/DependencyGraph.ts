@@ -0,0 +1,144 @@
+/**
+ * Dependency graph helpers for ordering resource creation and destruction.
+ * Resources in the same layer have no dependencies on each other and can be
+ * processed in parallel.
+ */
+
+import {
+  CreateResourceRequest,
+  InfrastructureResource,
+  AtlasError,
+  DependencyCycleError
+} from '../types'
+
+/**
+ * Order resource requests into creation layers (dependencies first).
+ * Names in `satisfied` count as already created, e.g. when resuming a deployment.
+ */
+export function buildCreationLayers(
+  requests: CreateResourceRequest[],
+  satisfied: Set<string> = new Set()
+): CreateResourceRequest[][] {
+  const byName = new Map<string, CreateResourceRequest>()
+  for (const request of requests) {
+    if (byName.has(request.name)) {
+      throw new AtlasError(`Duplicate resource name: ${request.name}`, 'DUPLICATE_RESOURCE_NAME', 400)
+    }
+    byName.set(request.name, request)
+  }
+
+  const edges = new Map<string, string[]>()
+  for (const request of requests) {
+    const dependencies = (request.depends_on || []).filter(name => !satisfied.has(name))
+    for (const dependency of dependencies) {
+      if (!byName.has(dependency)) {
+        throw new AtlasError(
+          `Resource ${request.name} depends on unknown resource: ${dependency}`,
+          'UNKNOWN_DEPENDENCY',
+          400
+        )
+      }
+    }
+    edges.set(request.name, dependencies)
+  }
+
+  return topologicalLayers(Array.from(byName.keys()), edges)
+    .map(layer => layer.map(name => byName.get(name)!))
+}
+
+/**
+ * Order stored resources into destruction layers (dependents first).
+ * Records without any dependency information keep the legacy reverse order.
+ */
+export function buildDestructionLayers(resources: InfrastructureResource[]): InfrastructureResource[][] {
+  const byId = new Map(resources.map(resource => [resource.id, resource]))
+  const hasDependencies = resources.some(resource => resource.dependencies.some(id => byId.has(id)))
+
+  if (!hasDependencies) {
+    return [...resources].reverse().map(resource => [resource])
+  }
+
+  const edges = new Map<string, string[]>()
+  for (const resource of resources) {
+    edges.set(resource.id, resource.dependencies.filter(id => byId.has(id)))
+  }
+
+  return topologicalLayers(Array.from(byId.keys()), edges)
+    .reverse()
+    .map(layer => layer.map(id => byId.get(id)!))
+}
+
+/**
+ * Kahn's algorithm, grouped by depth. `edges` maps a node to the nodes it depends on.
+ */
+function topologicalLayers(nodes: string[], edges: Map<string, string[]>): string[][] {
+  const remaining = new Map<string, number>()
+  const dependents = new Map<string, string[]>()
+
+  for (const node of nodes) {
+    const dependencies = edges.get(node) || []
+    remaining.set(node, dependencies.length)
+    for (const dependency of dependencies) {
+      dependents.set(dependency, [...(dependents.get(dependency) || []), node])
+    }
+  }
+
+  const layers: string[][] = []
+  let current = nodes.filter(node => remaining.get(node) === 0)
+
+  while (current.length > 0) {
+    layers.push(current)
+    const next: string[] = []
+
+    for (const node of current) {
+      remaining.delete(node)
+      for (const dependent of dependents.get(node) || []) {
+        const count = remaining.get(dependent)! - 1
+        remaining.set(dependent, count)
+        if (count === 0) next.push(dependent)
+      }
+    }
+
+    current = next
+  }
+
+  if (remaining.size > 0) {
+    throw new DependencyCycleError(findCycle(Array.from(remaining.keys()), edges))
+  }
+
+  return layers
+}
+
+/**
+ * Walk the unresolved nodes to report one concrete cycle (a -> b -> a)
+ */
+function findCycle(nodes: string[], edges: Map<string, string[]>): string[] {
+  const unresolved = new Set(nodes)
+  const path: string[] = []
+  const onPath = new Set<string>()
+
+  const visit = (node: string): string[] | null => {
+    if (onPath.has(node)) {
+      return [...path.slice(path.indexOf(node)), node]
+    }
+    path.push(node)
+    onPath.add(node)
+
+    for (const dependency of edges.get(node) || []) {
+      if (!unresolved.has(dependency)) continue
+      const cycle = visit(dependency)
+      if (cycle) return cycle
+    }
+
+    path.pop()
+    onPath.delete(node)
+    return null
+  }
+
+  for (const node of nodes) {
+    const cycle = visit(node)
+    if (cycle) return cycle
+  }
+
+  return nodes
+}
@@ -0,0 +1,115 @@
+/**
+ * Compare stored resource records with live provider state and describe any
+ * differences as infrastructure issues.
+ */
+
+import { InfrastructureResource, InfrastructureIssue } from '../types'
+
+// Specification fields compared against the provider, with the severity of a mismatch
+const DRIFT_FIELDS: Record<string, InfrastructureIssue['severity']> = {
+  size: 'medium',
+  size_gigabytes: 'medium',
+  num_nodes: 'medium',
+  region: 'high',
+  image: 'high',
+  engine: 'high',
+  version: 'low'
+}
+
+/**
+ * Detect drift for one resource. `live` is null when the provider no longer has it.
+ * `ignoredTagPrefixes` excludes tags Atlas adds itself.
+ */
+export function detectResourceDrift(
+  resource: InfrastructureResource,
+  live: InfrastructureResource | null,
+  options: { region?: string; ignoredTagPrefixes?: string[] } = {}
+): InfrastructureIssue[] {
+  const detectedAt = new Date().toISOString()
+  const issue = (
+    field: string,
+    severity: InfrastructureIssue['severity'],
+    title: string,
+    description: string,
+    suggestedActions: string[]
+  ): InfrastructureIssue => ({
+    id: `drift:${resource.id}:${field}`,
+    severity,
+    title,
+    description,
+    affected_resources: [resource.id],
+    detected_at: detectedAt,
+    auto_resolvable: false,
+    suggested_actions: suggestedActions
+  })
+
+  if (!live) {
+    return [issue(
+      'missing',
+      'critical',
+      `${resource.type} ${resource.name} no longer exists`,
+      `Provider resource ${resource.provider_id} was not found but is recorded as ${resource.status}`,
+      ['Recreate the resource', 'Destroy the infrastructure to clear the stale record']
+    )]
+  }
+
+  const issues: InfrastructureIssue[] = []
+  const expected: Record<string, any> = { region: options.region, ...resource.specifications }
+  const reconcileActions = [
+    'Revert the change at the provider',
+    'Update the stored specification with PUT /api/v1/infrastructure/{id}'
+  ]
+
+  for (const [field, severity] of Object.entries(DRIFT_FIELDS)) {
+    const want = expected[field]
+    const have = live.specifications[field]
+    if (want === undefined || want === null || have === undefined || have === null) continue
+
+    if (String(want) !== String(have)) {
+      issues.push(issue(
+        field,
+        severity,
+        `${resource.type} ${resource.name} ${field} changed`,
+        `${field}: expected ${want}, found ${have}`,
+        reconcileActions
+      ))
+    }
+  }
+
+  if (resource.specifications.tags !== undefined && live.specifications.tags !== undefined) {
+    const want = normalizeTags(resource.specifications.tags, options.ignoredTagPrefixes)
+    const have = normalizeTags(live.specifications.tags, options.ignoredTagPrefixes)
+
+    if (want.join(',') !== have.join(',')) {
+      issues.push(issue(
+        'tags',
+        'low',
+        `${resource.type} ${resource.name} tags changed`,
+        `tags: expected [${want.join(', ')}], found [${have.join(', ')}]`,
+        reconcileActions
+      ))
+    }
+  }
+
+  if (live.status !== resource.status) {
+    issues.push(issue(
+      'status',
+      live.status === 'error' || live.status === 'deleted' ? 'high' : 'medium',
+      `${resource.type} ${resource.name} status changed`,
+      `status: expected ${resource.status}, found ${live.status}`,
+      ['Check the resource at the provider']
+    ))
+  }
+
+  return issues
+}
+
+/**
+ * Flatten { key: value } tags into sorted "key:value" strings for comparison
+ */
+function normalizeTags(tags: Record<string, string>, ignoredPrefixes: string[] = []): string[] {
+  return Object.entries(tags)
+    .map(([key, value]) => `${key}:${value}`)
+    .filter(tag => !ignoredPrefixes.some(prefix => tag.startsWith(prefix)))
+    .sort()
+}
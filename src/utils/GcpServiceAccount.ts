@@ -0,0 +1,108 @@
+/**
+ * Google service-account auth: a signed JWT exchanged for an OAuth access token
+ */
+
+import axios, { AxiosInstance } from 'axios'
+import { createSign } from 'crypto'
+import { AtlasError, ProviderError } from '../types'
+
+export interface GcpServiceAccountKey {
+  client_email: string
+  private_key: string
+  project_id: string
+  private_key_id?: string
+  token_uri?: string
+}
+
+export const GCP_TOKEN_URI = 'https://oauth2.googleapis.com/token'
+export const GCP_CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform'
+
+// Tokens are refreshed this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url')
+
+/**
+ * Parse a service-account key file as stored in the Context Manager: the JSON
+ * itself, or the JSON base64-encoded
+ */
+export function parseServiceAccountKey(value: string): GcpServiceAccountKey {
+  const text = value.trim().startsWith('{') ? value : Buffer.from(value, 'base64').toString('utf8')
+
+  let key: any
+  try {
+    key = JSON.parse(text)
+  } catch (error) {
+    throw new AtlasError('GCP service account key is not valid JSON', 'INVALID_CREDENTIALS', 400)
+  }
+
+  const missing = ['client_email', 'private_key', 'project_id'].filter(field => !key[field])
+  if (missing.length > 0) {
+    throw new AtlasError(`GCP service account key is missing ${missing.join(', ')}`, 'INVALID_CREDENTIALS', 400)
+  }
+  return key
+}
+
+/**
+ * RS256 JWT asserting the service account, valid for one hour from now
+ */
+export function signServiceAccountJwt(key: GcpServiceAccountKey, scope: string, now: Date = new Date()): string {
+  const issuedAt = Math.floor(now.getTime() / 1000)
+  const header = { alg: 'RS256', typ: 'JWT', kid: key.private_key_id }
+  const claims = {
+    iss: key.client_email,
+    scope,
+    aud: key.token_uri || GCP_TOKEN_URI,
+    iat: issuedAt,
+    exp: issuedAt + 3600
+  }
+
+  const unsigned = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(key.private_key)
+  return `${unsigned}.${base64url(signature)}`
+}
+
+/**
+ * Access tokens for one service account, cached until shortly before they expire
+ */
+export class GcpTokenSource {
+  private token: { value: string; expiresAt: number } | null = null
+  private pending: Promise<string> | null = null
+
+  constructor(
+    private key: GcpServiceAccountKey,
+    private scope: string = GCP_CLOUD_PLATFORM_SCOPE,
+    private http: Pick<AxiosInstance, 'post'> = axios.create({ timeout: 10000 })
+  ) {}
+
+  async getAccessToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+      return this.token.value
+    }
+
+    // Concurrent requests share one exchange
+    if (!this.pending) {
+      this.pending = this.exchange().finally(() => { this.pending = null })
+    }
+    return this.pending
+  }
+
+  private async exchange(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: signServiceAccountJwt(this.key, this.scope)
+    }).toString()
+
+    try {
+      const response = await this.http.post(this.key.token_uri || GCP_TOKEN_URI, body, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      })
+      const { access_token, expires_in } = response.data
+      this.token = { value: access_token, expiresAt: Date.now() + Number(expires_in || 3600) * 1000 }
+      return access_token
+    } catch (error: any) {
+      const details = error.response?.data?.error_description || error.response?.data?.error || error.message
+      throw new ProviderError(`GCP token exchange failed for ${this.key.client_email}: ${details}`, 'gcp', error.response?.status)
+    }
+  }
+}
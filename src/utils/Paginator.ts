@@ -0,0 +1,64 @@
+/**
+ * Read every page of a DigitalOcean list endpoint by following links.pages.next
+ */
+
+export interface PaginationOptions {
+  pageSize: number
+  maxPages: number // Stop (with a warning) after this many pages
+}
+
+export const DEFAULT_PAGINATION_OPTIONS: PaginationOptions = {
+  pageSize: 200, // DigitalOcean's maximum per_page
+  maxPages: 50
+}
+
+// Anything that can GET a URL - an axios instance, or axios with fixed headers
+export type PageFetcher = (url: string, config: { params?: Record<string, any> }) => Promise<{ data: any }>
+
+/**
+ * Read overrides from ATLAS_PROVIDER_PAGE_SIZE and ATLAS_PROVIDER_MAX_PAGES
+ */
+export function paginationOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): PaginationOptions {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && Number(value) > 0 ? Number(value) : fallback
+
+  return {
+    pageSize: number(env.ATLAS_PROVIDER_PAGE_SIZE, DEFAULT_PAGINATION_OPTIONS.pageSize),
+    maxPages: number(env.ATLAS_PROVIDER_MAX_PAGES, DEFAULT_PAGINATION_OPTIONS.maxPages)
+  }
+}
+
+/**
+ * Fetch `path` and its following pages, collecting the array under `key`
+ * (e.g. 'droplets'). The next-page URL already carries the query string, so
+ * `params` only go on the first request.
+ */
+export async function fetchAllPages<T = any>(
+  get: PageFetcher,
+  path: string,
+  key: string,
+  params: Record<string, any> = {},
+  options: PaginationOptions = DEFAULT_PAGINATION_OPTIONS
+): Promise<T[]> {
+  const items: T[] = []
+  const seen = new Set<string>()
+  let url: string | undefined = path
+  let config: { params?: Record<string, any> } = { params: { ...params, per_page: options.pageSize } }
+
+  for (let page = 1; url; page++) {
+    if (page > options.maxPages) {
+      console.warn(`[Paginator] Stopped listing ${key} from ${path} after ${options.maxPages} pages (${items.length} items)`)
+      break
+    }
+
+    seen.add(url)
+    const response: { data: any } = await get(url, config)
+    items.push(...(response.data?.[key] || []))
+
+    const next: string | undefined = response.data?.links?.pages?.next
+    url = next && !seen.has(next) ? next : undefined
+    config = {}
+  }
+
+  return items
+}
@@ -0,0 +1,123 @@
+/**
+ * Poll the provider until a newly created (or changed) resource is usable,
+ * backing off between checks.
+ */
+
+import {
+  CloudProviderInterface,
+  InfrastructureResource,
+  AtlasError
+} from '../types'
+
+export interface ReadinessOptions {
+  timeoutMs: number
+  initialIntervalMs: number
+  maxIntervalMs: number
+  backoffFactor: number
+}
+
+export const DEFAULT_READINESS_OPTIONS: ReadinessOptions = {
+  timeoutMs: 15 * 60 * 1000,
+  initialIntervalMs: 5000,
+  maxIntervalMs: 30000,
+  backoffFactor: 1.5
+}
+
+/**
+ * Read overrides from ATLAS_READY_TIMEOUT_MS, ATLAS_READY_POLL_INTERVAL_MS,
+ * ATLAS_READY_POLL_MAX_INTERVAL_MS and ATLAS_READY_POLL_BACKOFF
+ */
+export function readinessOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ReadinessOptions {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && !isNaN(Number(value)) ? Number(value) : fallback
+
+  return {
+    timeoutMs: number(env.ATLAS_READY_TIMEOUT_MS, DEFAULT_READINESS_OPTIONS.timeoutMs),
+    initialIntervalMs: number(env.ATLAS_READY_POLL_INTERVAL_MS, DEFAULT_READINESS_OPTIONS.initialIntervalMs),
+    maxIntervalMs: number(env.ATLAS_READY_POLL_MAX_INTERVAL_MS, DEFAULT_READINESS_OPTIONS.maxIntervalMs),
+    backoffFactor: number(env.ATLAS_READY_POLL_BACKOFF, DEFAULT_READINESS_OPTIONS.backoffFactor)
+  }
+}
+
+/**
+ * Whether live provider state means the resource is ready for use
+ */
+export function isResourceReady(resource: InfrastructureResource, live: InfrastructureResource): boolean {
+  switch (resource.type) {
+    case 'droplet':
+      return live.status === 'active' && !!live.public_ip
+    case 'load_balancer':
+      return live.status === 'active' && !!live.public_ip
+    case 'volume': {
+      // A volume created for a droplet is only ready once attached
+      const dropletId = resource.specifications.droplet_id
+      return !dropletId || (live.specifications.droplet_ids || []).map(String).includes(String(dropletId))
+    }
+    default:
+      return live.status === 'active'
+  }
+}
+
+/**
+ * Wait until the resource is ready, then copy status and addresses onto it.
+ * Throws RESOURCE_NOT_READY on timeout and RESOURCE_FAILED if the provider reports an error.
+ */
+export async function waitForResourceReady(
+  provider: CloudProviderInterface,
+  resource: InfrastructureResource,
+  options: ReadinessOptions = DEFAULT_READINESS_OPTIONS
+): Promise<InfrastructureResource> {
+  const live = await poll(options, `${resource.type} ${resource.name} to become ready`, async () => {
+    const current = await provider.getResource(resource.provider_id!, resource.type)
+    if (!current) {
+      throw new AtlasError(`${resource.type} ${resource.name} disappeared while starting`, 'RESOURCE_FAILED', 502)
+    }
+    if (current.status === 'error') {
+      throw new AtlasError(`${resource.type} ${resource.name} failed to start`, 'RESOURCE_FAILED', 502)
+    }
+    return isResourceReady(resource, current) ? current : null
+  })
+
+  resource.status = 'active'
+  resource.public_ip = live.public_ip || resource.public_ip
+  resource.private_ip = live.private_ip || resource.private_ip
+  resource.updated_at = new Date().toISOString()
+  return resource
+}
+
+/**
+ * Wait until the provider no longer reports the resource
+ */
+export async function waitForResourceDeleted(
+  provider: CloudProviderInterface,
+  resource: InfrastructureResource,
+  options: ReadinessOptions = DEFAULT_READINESS_OPTIONS
+): Promise<void> {
+  await poll(options, `${resource.type} ${resource.name} to be deleted`, async () => {
+    const current = await provider.getResource(resource.provider_id!, resource.type)
+    return current ? null : true
+  })
+}
+
+async function poll<T>(options: ReadinessOptions, waitingFor: string, check: () => Promise<T | null>): Promise<T> {
+  const deadline = Date.now() + options.timeoutMs
+  let interval = options.initialIntervalMs
+
+  for (;;) {
+    const result = await check()
+    if (result !== null) {
+      return result
+    }
+
+    if (Date.now() + interval > deadline) {
+      throw new AtlasError(
+        `Timed out after ${Math.round(options.timeoutMs / 1000)}s waiting for ${waitingFor}`,
+        'RESOURCE_NOT_READY',
+        504
+      )
+    }
+
+    await new Promise(resolve => setTimeout(resolve, interval))
+    interval = Math.min(interval * options.backoffFactor, options.maxIntervalMs)
+  }
+}
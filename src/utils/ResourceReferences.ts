@@ -0,0 +1,108 @@
+/**
+ * Cross-resource references in resource specifications.
+ *
+ * A specification value may point at another resource in the same request:
+ *   "vpc_uuid": "${resources.app-vpc.provider_id}"
+ *   "droplet_ids": ["${resources.web-1.provider_id}", "${resources.web-2.provider_id}"]
+ *   "health_url": "http://${resources.web-1.public_ip}/health"
+ *
+ * A value that is exactly one reference is replaced by the raw attribute value;
+ * references embedded in a longer string are interpolated as text.
+ */
+
+import {
+  CreateResourceRequest,
+  ResourceSpec,
+  AtlasError
+} from '../types'
+
+export const REFERENCE_ATTRIBUTES = ['id', 'provider_id', 'name', 'public_ip', 'private_ip'] as const
+
+export type ReferenceAttribute = typeof REFERENCE_ATTRIBUTES[number]
+
+export interface ResourceReference {
+  name: string
+  attribute: ReferenceAttribute
+}
+
+const REFERENCE_PATTERN = /\$\{resources\.([^}]+?)\.([a-z0-9_]+)\}/g
+const SINGLE_REFERENCE_PATTERN = /^\$\{resources\.([^}]+?)\.([a-z0-9_]+)\}$/
+
+/**
+ * Collect every reference in a specification (nested objects and arrays included)
+ */
+export function findReferences(spec: ResourceSpec): ResourceReference[] {
+  const references: ResourceReference[] = []
+
+  walk(spec, value => {
+    for (const match of value.matchAll(REFERENCE_PATTERN)) {
+      references.push(toReference(match[1], match[2]))
+    }
+    return value
+  })
+
+  return references
+}
+
+/**
+ * Add referenced resources to each request's depends_on so they are created first
+ */
+export function withReferenceDependencies(requests: CreateResourceRequest[]): CreateResourceRequest[] {
+  return requests.map(request => {
+    const referenced = findReferences(request.specifications || {}).map(ref => ref.name)
+    if (referenced.length === 0) return request
+
+    return {
+      ...request,
+      depends_on: Array.from(new Set([...(request.depends_on || []), ...referenced]))
+    }
+  })
+}
+
+/**
+ * Replace references using the supplied lookup (called once per distinct reference)
+ */
+export async function resolveReferences(
+  spec: ResourceSpec,
+  lookup: (reference: ResourceReference) => Promise<any>
+): Promise<ResourceSpec> {
+  const values = new Map<string, any>()
+  for (const reference of findReferences(spec)) {
+    const key = `${reference.name}.${reference.attribute}`
+    if (!values.has(key)) {
+      values.set(key, await lookup(reference))
+    }
+  }
+
+  return walk(spec, value => {
+    const single = value.match(SINGLE_REFERENCE_PATTERN)
+    if (single) {
+      return values.get(`${single[1]}.${single[2]}`)
+    }
+    return value.replace(REFERENCE_PATTERN, (_, name, attribute) => String(values.get(`${name}.${attribute}`)))
+  })
+}
+
+function toReference(name: string, attribute: string): ResourceReference {
+  if (!(REFERENCE_ATTRIBUTES as readonly string[]).includes(attribute)) {
+    throw new AtlasError(
+      `Invalid reference attribute '${attribute}' for resource ${name} (supported: ${REFERENCE_ATTRIBUTES.join(', ')})`,
+      'INVALID_REFERENCE',
+      400
+    )
+  }
+  return { name, attribute: attribute as ReferenceAttribute }
+}
+
+function walk(value: any, transform: (value: string) => any): any {
+  if (typeof value === 'string') {
+    return transform(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => walk(item, transform))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item, transform)]))
+  }
+  return value
+}
@@ -0,0 +1,166 @@
+/**
+ * Retry provider API calls that failed for transient reasons (rate limiting,
+ * 5xx, dropped connections), and track the provider's rate-limit budget.
+ */
+
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import { ProviderRateLimit } from '../types'
+
+export interface RetryOptions {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number // Also caps how long a request waits for an exhausted budget to reset
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+}
+
+// Safe to repeat: repeating them cannot create a second resource
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete']
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504]
+
+/**
+ * Read overrides from ATLAS_PROVIDER_MAX_RETRIES, ATLAS_PROVIDER_RETRY_BASE_MS
+ * and ATLAS_PROVIDER_RETRY_MAX_MS
+ */
+export function retryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RetryOptions {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && !isNaN(Number(value)) ? Number(value) : fallback
+
+  return {
+    maxRetries: number(env.ATLAS_PROVIDER_MAX_RETRIES, DEFAULT_RETRY_OPTIONS.maxRetries),
+    baseDelayMs: number(env.ATLAS_PROVIDER_RETRY_BASE_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs),
+    maxDelayMs: number(env.ATLAS_PROVIDER_RETRY_MAX_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs)
+  }
+}
+
+/**
+ * Parse ratelimit-limit / ratelimit-remaining / ratelimit-reset (epoch seconds).
+ * Returns null when the response carries none of them.
+ */
+export function parseRateLimitHeaders(headers: Record<string, any> = {}): ProviderRateLimit | null {
+  const header = (name: string) => {
+    const value = headers[name] ?? headers[name.toLowerCase()]
+    return value !== undefined && value !== null && !isNaN(Number(value)) ? Number(value) : undefined
+  }
+
+  const limit = header('ratelimit-limit')
+  const remaining = header('ratelimit-remaining')
+  const reset = header('ratelimit-reset')
+  if (limit === undefined && remaining === undefined && reset === undefined) {
+    return null
+  }
+
+  return {
+    limit,
+    remaining,
+    reset_at: reset !== undefined ? new Date(reset * 1000).toISOString() : undefined,
+    updated_at: new Date().toISOString()
+  }
+}
+
+/**
+ * Whether a failed request may be sent again. A 429 was never processed, so any
+ * method is safe; other failures are only retried for idempotent methods.
+ */
+export function isRetryable(method: string | undefined, status: number | undefined): boolean {
+  if (status === 429) {
+    return true
+  }
+
+  const idempotent = IDEMPOTENT_METHODS.includes((method || 'get').toLowerCase())
+  return idempotent && (status === undefined || RETRYABLE_STATUSES.includes(status))
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): Retry-After if given, the rate-limit
+ * reset if the budget is spent, otherwise exponential backoff with jitter
+ */
+export function retryDelayMs(
+  attempt: number,
+  headers: Record<string, any> = {},
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  now: number = Date.now()
+): number {
+  const retryAfter = headers['retry-after']
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter)
+    const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - now : seconds * 1000
+    if (!isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), options.maxDelayMs)
+    }
+  }
+
+  const rateLimit = parseRateLimitHeaders(headers)
+  if (rateLimit?.remaining === 0 && rateLimit.reset_at) {
+    return Math.min(Math.max(new Date(rateLimit.reset_at).getTime() - now, 0), options.maxDelayMs)
+  }
+
+  const backoff = options.baseDelayMs * Math.pow(2, attempt)
+  return Math.min(backoff / 2 + Math.random() * backoff / 2, options.maxDelayMs)
+}
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number
+}
+
+/**
+ * Install retry and rate-limit interceptors on an axios client. Register this before
+ * any interceptor that converts errors, since it needs the raw axios error.
+ */
+export function attachRetryPolicy(
+  client: AxiosInstance,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): { getRateLimit(): ProviderRateLimit | null } {
+  let current: ProviderRateLimit | null = null
+  const record = (response?: AxiosResponse) => {
+    current = parseRateLimitHeaders(response?.headers as Record<string, any>) || current
+  }
+
+  // Hold requests while the budget is spent, rather than spending retries on 429s
+  client.interceptors.request.use(async config => {
+    if (current?.remaining === 0 && current.reset_at) {
+      const wait = Math.min(new Date(current.reset_at).getTime() - Date.now(), options.maxDelayMs)
+      if (wait > 0) {
+        await sleep(wait)
+      }
+    }
+    return config
+  })
+
+  client.interceptors.response.use(
+    response => {
+      record(response)
+      return response
+    },
+    async (error: AxiosError) => {
+      record(error.response)
+
+      const config = error.config as RetryableRequestConfig | undefined
+      const attempt = config?.retryCount || 0
+      if (!config || attempt >= options.maxRetries || !isRetryable(config.method, error.response?.status)) {
+        throw error
+      }
+
+      const delay = retryDelayMs(attempt, error.response?.headers as Record<string, any>, options)
+      console.warn(
+        `[Retry] ${config.method?.toUpperCase()} ${config.url} failed ` +
+        `(${error.response?.status || error.code || 'network error'}); retry ${attempt + 1}/${options.maxRetries} in ${Math.round(delay)}ms`
+      )
+      await sleep(delay)
+
+      config.retryCount = attempt + 1
+      return client.request(config)
+    }
+  )
+
+  return { getRateLimit: () => current }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -0,0 +1,36 @@
+/**
+ * Structural diff of resource specifications, used by plans to show what an
+ * update would change.
+ */
+
+import { SpecificationChange } from '../types'
+
+/**
+ * List every leaf value that differs between two specifications.
+ * Arrays are compared element by element, so "rules.1.ports" pinpoints a change.
+ */
+export function diffSpecifications(before: any, after: any, path: string = ''): SpecificationChange[] {
+  if (isEqual(before, after)) {
+    return []
+  }
+
+  const bothObjects = isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)
+  if (!bothObjects) {
+    return [{ path: path || '.', before, after }]
+  }
+
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return keys.flatMap(key => diffSpecifications(before[key], after[key], path ? `${path}.${key}` : key))
+}
+
+function isContainer(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object'
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return Array.from(keys).every(key => isEqual(a[key], b[key]))
+}